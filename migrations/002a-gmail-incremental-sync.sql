@@ -0,0 +1,7 @@
+-- Migration: Incremental Gmail sync via the History API
+-- Date: 2026-10-19
+-- Description: Stores the Gmail history checkpoint and the time of the last
+-- successful sync on each token, so later syncs only fetch what changed.
+
+ALTER TABLE gmail_tokens ADD COLUMN IF NOT EXISTS "historyId" varchar(32);
+ALTER TABLE gmail_tokens ADD COLUMN IF NOT EXISTS "lastSyncedAt" TIMESTAMP;
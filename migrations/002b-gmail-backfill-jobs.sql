@@ -0,0 +1,32 @@
+-- Migration: Resumable full-mailbox Gmail backfill jobs
+-- Date: 2026-10-19
+-- Description: Adds the gmail_backfill_jobs table, which stores the Gmail page
+-- token after every page so an interrupted backfill can resume. Index and
+-- constraint names match the ones TypeORM generates for the entity.
+
+CREATE TABLE IF NOT EXISTS gmail_backfill_jobs (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  status varchar(20) NOT NULL DEFAULT 'running',
+  query text,
+  "labelIds" text,
+  after TIMESTAMP,
+  before TIMESTAMP,
+  "includeSpamTrash" boolean NOT NULL DEFAULT false,
+  "pageToken" text,
+  "pagesProcessed" integer NOT NULL DEFAULT 0,
+  "messagesSeen" integer NOT NULL DEFAULT 0,
+  "storedCount" integer NOT NULL DEFAULT 0,
+  "resultSizeEstimate" integer,
+  "lastError" text,
+  "completedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_257555ff70787779af64d2a86ce" PRIMARY KEY (id),
+  CONSTRAINT "FK_e3284b37ef162cf2444368a3a5c"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- Latest jobs of a user first
+CREATE INDEX IF NOT EXISTS "IDX_7e5e3789ab4093430556688702"
+ON gmail_backfill_jobs ("userId", "createdAt");
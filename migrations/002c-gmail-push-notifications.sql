@@ -0,0 +1,7 @@
+-- Migration: Gmail push notifications via Pub/Sub
+-- Date: 2026-10-19
+-- Description: Stores each token's Gmail address, used to route Pub/Sub push
+-- notifications, and when its users.watch registration expires.
+
+ALTER TABLE gmail_tokens ADD COLUMN IF NOT EXISTS email varchar(255);
+ALTER TABLE gmail_tokens ADD COLUMN IF NOT EXISTS "watchExpiration" TIMESTAMP;
@@ -0,0 +1,20 @@
+-- Migration: Per-user mailbox preferences
+-- Date: 2026-10-19
+-- Description: Adds the user_settings table with one row per user, starting
+-- with the thread grouping preference. Index and constraint names match the
+-- ones TypeORM generates for the entity.
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  "groupByThread" boolean NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_00f004f5922a0744d174530d639" PRIMARY KEY (id),
+  CONSTRAINT "FK_986a2b6d3c05eb4091bb8066f78"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- One settings row per user
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_986a2b6d3c05eb4091bb8066f7"
+ON user_settings ("userId");
@@ -0,0 +1,38 @@
+-- Migration: Scheduled send outbox
+-- Date: 2026-10-19
+-- Description: Adds the scheduled_emails table, the outbox the scheduler
+-- dispatches from once nextAttemptAt has passed. Index and constraint names
+-- match the ones TypeORM generates for the entity.
+
+CREATE TABLE IF NOT EXISTS scheduled_emails (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  kind varchar(20) NOT NULL DEFAULT 'send',
+  status varchar(20) NOT NULL DEFAULT 'pending',
+  "sourceEmailId" integer,
+  "to" text,
+  cc text,
+  bcc text,
+  subject text,
+  body text,
+  attachments text,
+  "sendAt" TIMESTAMP NOT NULL,
+  "nextAttemptAt" TIMESTAMP NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  "lastError" text,
+  "messageId" varchar(255),
+  "sentAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_9e519eae87bbd5a9e61b3e3193f" PRIMARY KEY (id),
+  CONSTRAINT "FK_b0464af10afa7bf3931f0e1015a"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- Due emails for the dispatcher
+CREATE INDEX IF NOT EXISTS "IDX_5b01342890b37bfab9aa719d6c"
+ON scheduled_emails (status, "nextAttemptAt");
+
+-- A user's outbox
+CREATE INDEX IF NOT EXISTS "IDX_6b373b7629ec7eb00a033dd2da"
+ON scheduled_emails ("userId", status);
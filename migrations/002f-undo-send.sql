@@ -0,0 +1,5 @@
+-- Migration: Undo-send window
+-- Date: 2026-10-19
+-- Description: Adds the per-user undo-send delay. 0 sends immediately.
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS "undoSendSeconds" integer NOT NULL DEFAULT 0;
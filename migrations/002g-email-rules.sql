@@ -0,0 +1,55 @@
+-- Migration: Rule engine for automatic triage
+-- Date: 2026-10-19
+-- Description: Adds the email_rules table for user-defined rules and the
+-- rule_executions audit trail. Executions keep their copy of the rule name and
+-- email subject when the rule or email is deleted. Index and constraint names
+-- match the ones TypeORM generates for the entities.
+
+CREATE TABLE IF NOT EXISTS email_rules (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  name varchar(100) NOT NULL,
+  "order" integer NOT NULL DEFAULT 0,
+  "isActive" boolean NOT NULL DEFAULT true,
+  conditions text NOT NULL,
+  actions text NOT NULL,
+  "stopProcessing" boolean NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_3c9e6ffcf457fbe903a216c1e79" PRIMARY KEY (id),
+  CONSTRAINT "FK_02d03cb8dd559c70de08bcb8ca8"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- A user's rules in evaluation order
+CREATE INDEX IF NOT EXISTS "IDX_420d3ce7e7100c02a83f0e33ff"
+ON email_rules ("userId", "order");
+
+CREATE TABLE IF NOT EXISTS rule_executions (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  "ruleId" integer,
+  "ruleName" varchar(100) NOT NULL,
+  "emailId" integer,
+  "emailSubject" varchar(255),
+  trigger varchar(30) NOT NULL,
+  status varchar(20) NOT NULL,
+  "matchedConditions" text,
+  actions text,
+  error text,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_1d121548f1254a075403ec295ec" PRIMARY KEY (id),
+  CONSTRAINT "FK_5bd77dae68c2c3f57277edc0ce1"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE,
+  CONSTRAINT "FK_3643fedfb885522dbc9207bcfd1"
+    FOREIGN KEY ("ruleId") REFERENCES email_rules (id) ON DELETE SET NULL,
+  CONSTRAINT "FK_93fb940c04ef29a6b28ae05bfa6"
+    FOREIGN KEY ("emailId") REFERENCES email_raw (id) ON DELETE SET NULL
+);
+
+-- A user's audit trail, newest first
+CREATE INDEX IF NOT EXISTS "IDX_9f3f7b824d11bcdf42c534b504"
+ON rule_executions ("userId", "createdAt");
+
+CREATE INDEX IF NOT EXISTS "IDX_c39db110df8debcf227e000859"
+ON rule_executions ("ruleId", "emailId");
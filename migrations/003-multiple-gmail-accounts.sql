@@ -0,0 +1,35 @@
+-- Migration: Allow several linked Gmail accounts per user
+-- Date: 2026-10-19
+-- Description: Replaces the one-token-per-user index with one per (userId, email),
+-- adds a default-account flag and tags stored emails, backfill jobs and scheduled
+-- emails with the account they belong to. Index and constraint names match the
+-- ones TypeORM generates for the entities.
+
+-- One row per linked mailbox instead of one per user
+DROP INDEX IF EXISTS "IDX_f0cb19549ccb7ce44f010f9d06";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_f51fa747a35808a6406d8f464d"
+ON gmail_tokens ("userId", email);
+
+-- Existing tokens are each user's only account, so they become the default
+ALTER TABLE gmail_tokens ADD COLUMN IF NOT EXISTS "isDefault" boolean NOT NULL DEFAULT false;
+UPDATE gmail_tokens SET "isDefault" = true;
+
+-- Tag stored emails with their account; emails of a disconnected account are kept
+ALTER TABLE email_raw ADD COLUMN IF NOT EXISTS "accountId" integer;
+
+ALTER TABLE email_raw
+ADD CONSTRAINT "FK_f155d842b619bbb85a058baee52"
+FOREIGN KEY ("accountId") REFERENCES gmail_tokens (id) ON DELETE SET NULL;
+
+UPDATE email_raw e
+SET "accountId" = t.id
+FROM gmail_tokens t
+WHERE t."userId" = e."userId" AND e."accountId" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "IDX_1850257fb244d397d7635fc023"
+ON email_raw ("userId", "accountId");
+
+-- Backfill jobs and scheduled emails remember the account they use (NULL: default)
+ALTER TABLE gmail_backfill_jobs ADD COLUMN IF NOT EXISTS "accountId" integer;
+ALTER TABLE scheduled_emails ADD COLUMN IF NOT EXISTS "accountId" integer;
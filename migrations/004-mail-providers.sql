@@ -0,0 +1,37 @@
+-- Migration: Generic IMAP/SMTP mail provider alongside Gmail
+-- Date: 2026-10-19
+-- Description: Records which mail provider stored each email and sends each
+-- scheduled email, and adds the imap_accounts table for IMAP/SMTP mailboxes.
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+-- Existing emails and scheduled sends all belong to Gmail
+ALTER TABLE email_raw ADD COLUMN IF NOT EXISTS provider varchar(20) NOT NULL DEFAULT 'gmail';
+ALTER TABLE email_raw ADD COLUMN IF NOT EXISTS "providerAccountId" integer;
+ALTER TABLE scheduled_emails ADD COLUMN IF NOT EXISTS provider varchar(20) NOT NULL DEFAULT 'gmail';
+
+CREATE TABLE IF NOT EXISTS imap_accounts (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  email varchar(255) NOT NULL,
+  "imapHost" varchar(255) NOT NULL,
+  "imapPort" integer NOT NULL DEFAULT 993,
+  "imapSecure" boolean NOT NULL DEFAULT true,
+  "smtpHost" varchar(255) NOT NULL,
+  "smtpPort" integer NOT NULL DEFAULT 465,
+  "smtpSecure" boolean NOT NULL DEFAULT true,
+  username varchar(255) NOT NULL,
+  password text NOT NULL,
+  "uidValidity" bigint,
+  "lastUid" bigint NOT NULL DEFAULT 0,
+  "lastSyncedAt" TIMESTAMP,
+  "lastError" text,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_30ec7408bb36c1122a71a59fb52" PRIMARY KEY (id),
+  CONSTRAINT "FK_b259afb142ff89d044ebc532dfc"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- Each mailbox linked once per user
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_3f7c73491d2106f6147cd26812"
+ON imap_accounts ("userId", email);
@@ -0,0 +1,29 @@
+-- Migration: Outlook (Microsoft Graph) mail provider
+-- Date: 2026-10-19
+-- Description: Adds the outlook_accounts table for Microsoft 365 / Outlook.com
+-- mailboxes and the Outlook category a Kanban column maps to.
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+CREATE TABLE IF NOT EXISTS outlook_accounts (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  email varchar(255) NOT NULL,
+  "accessToken" text NOT NULL,
+  "refreshToken" text NOT NULL,
+  "accessTokenExpiry" TIMESTAMP,
+  "deltaLink" text,
+  "lastSyncedAt" TIMESTAMP,
+  "lastError" text,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_895775e2bb9d044f850c00a6e9d" PRIMARY KEY (id),
+  CONSTRAINT "FK_70c2c53a9f540a3452a14e17a6b"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- Each mailbox linked once per user
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_809ff11582c974761db7eed01b"
+ON outlook_accounts ("userId", email);
+
+-- Category applied to Outlook mail moved into the column (like gmailLabel)
+ALTER TABLE kanban_columns ADD COLUMN IF NOT EXISTS "outlookCategory" varchar(50);
@@ -0,0 +1,15 @@
+-- Migration: Envelope encryption of stored credentials
+-- Date: 2026-10-19
+-- Description: Adds the key ID and wrapped data key of each row holding OAuth
+-- tokens or mailbox passwords. Existing rows keep NULL (plaintext) until
+-- `npm run tokens:rotate-keys` encrypts them; tokens refreshed by the app
+-- are encrypted on write.
+
+ALTER TABLE gmail_tokens ADD COLUMN IF NOT EXISTS "encryptionKeyId" varchar(64);
+ALTER TABLE gmail_tokens ADD COLUMN IF NOT EXISTS "encryptedDataKey" text;
+
+ALTER TABLE imap_accounts ADD COLUMN IF NOT EXISTS "encryptionKeyId" varchar(64);
+ALTER TABLE imap_accounts ADD COLUMN IF NOT EXISTS "encryptedDataKey" text;
+
+ALTER TABLE outlook_accounts ADD COLUMN IF NOT EXISTS "encryptionKeyId" varchar(64);
+ALTER TABLE outlook_accounts ADD COLUMN IF NOT EXISTS "encryptedDataKey" text;
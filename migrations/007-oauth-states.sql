@@ -0,0 +1,23 @@
+-- Migration: Signed single-use OAuth state
+-- Date: 2026-10-19
+-- Description: Adds the oauth_states table backing the Gmail and Outlook
+-- connect flows (state nonce, PKCE verifier, expiry and single use).
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+CREATE TABLE IF NOT EXISTS oauth_states (
+  id SERIAL NOT NULL,
+  nonce varchar(64) NOT NULL,
+  "userId" integer NOT NULL,
+  provider varchar(20) NOT NULL,
+  "codeVerifier" varchar(128) NOT NULL,
+  "expiresAt" TIMESTAMP NOT NULL,
+  "consumedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_c9df6e4203e8ca042bfe5bd00ec" PRIMARY KEY (id),
+  CONSTRAINT "FK_cf9f28eb270406a1de918fc37c6"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- A state can only be looked up (and consumed) once
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_514bec18599129be7b19e0c087"
+ON oauth_states (nonce);
@@ -0,0 +1,28 @@
+-- Migration: Refresh token rotation and sessions
+-- Date: 2026-10-19
+-- Description: Adds token families (sessions), device/IP, expiry and the
+-- rotated/revoked markers to refresh_tokens. Existing tokens become
+-- one session each.
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS "familyId" varchar(64);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS "userAgent" varchar(255);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS "ipAddress" varchar(64);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS "sessionStartedAt" TIMESTAMP;
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS "expiresAt" TIMESTAMP;
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS "rotatedAt" TIMESTAMP;
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS "revokedAt" TIMESTAMP;
+
+UPDATE refresh_tokens
+SET "familyId" = 'legacy-' || id,
+    "sessionStartedAt" = "createdAt",
+    "expiresAt" = "createdAt" + INTERVAL '7 days'
+WHERE "familyId" IS NULL;
+
+ALTER TABLE refresh_tokens ALTER COLUMN "familyId" SET NOT NULL;
+ALTER TABLE refresh_tokens ALTER COLUMN "sessionStartedAt" SET NOT NULL;
+ALTER TABLE refresh_tokens ALTER COLUMN "expiresAt" SET NOT NULL;
+
+-- Reuse detection and session revocation work on a whole family
+CREATE INDEX IF NOT EXISTS "IDX_40e9a8b923a1b3fb4429a5c624"
+ON refresh_tokens ("familyId");
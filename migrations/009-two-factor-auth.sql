@@ -0,0 +1,23 @@
+-- Migration: Two-factor authentication (TOTP)
+-- Date: 2026-10-19
+-- Description: Adds the user_two_factor table (encrypted TOTP secrets,
+-- hashed recovery codes) for password logins.
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  secret text,
+  "pendingSecret" text,
+  "encryptionKeyId" varchar(64),
+  "encryptedDataKey" text,
+  "recoveryCodeHashes" text,
+  "lastUsedStep" bigint,
+  "enabledAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "UQ_2cbb5b2d99e69fabcd8a5a0fdb0" UNIQUE ("userId"),
+  CONSTRAINT "PK_a0dc97e08540c59d6c744e21c58" PRIMARY KEY (id),
+  CONSTRAINT "FK_2cbb5b2d99e69fabcd8a5a0fdb0"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
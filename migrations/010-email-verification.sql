@@ -0,0 +1,8 @@
+-- Migration: Email verification
+-- Date: 2026-10-19
+-- Description: Adds users."emailVerifiedAt". Accounts that existed before
+-- verification was introduced are treated as verified.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "emailVerifiedAt" TIMESTAMP;
+
+UPDATE users SET "emailVerifiedAt" = "createdAt" WHERE "emailVerifiedAt" IS NULL;
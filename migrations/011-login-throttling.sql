@@ -0,0 +1,28 @@
+-- Migration: Login rate limiting and lockout
+-- Date: 2026-10-19
+-- Description: Adds rate_limits (counters of the Postgres rate limit store,
+-- RATE_LIMIT_STORE=postgres) and auth_lockouts (lockout events).
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  "key" varchar(320) NOT NULL,
+  count integer NOT NULL,
+  "expiresAt" TIMESTAMP NOT NULL,
+  CONSTRAINT "PK_8cb6aa4831e3e775ccf370521db" PRIMARY KEY ("key")
+);
+
+CREATE TABLE IF NOT EXISTS auth_lockouts (
+  id SERIAL NOT NULL,
+  scope varchar(20) NOT NULL,
+  identifier varchar(255) NOT NULL,
+  "userId" integer,
+  "ipAddress" varchar(64),
+  failures integer NOT NULL,
+  "lockedUntil" TIMESTAMP NOT NULL,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_a77750982eb86d048c8c5851a1d" PRIMARY KEY (id)
+);
+
+-- Lockout history of an account or IP
+CREATE INDEX IF NOT EXISTS "IDX_3237be96bd30134211e6770ebb"
+ON auth_lockouts (scope, identifier);
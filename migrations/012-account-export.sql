@@ -0,0 +1,27 @@
+-- Migration: Account data export
+-- Date: 2026-10-19
+-- Description: Adds account_exports (background jobs building the downloadable
+-- .tar.gz archive of an account's data). Account deletion needs no schema
+-- change: every user table cascades from users.
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+CREATE TABLE IF NOT EXISTS account_exports (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  status varchar(20) NOT NULL DEFAULT 'pending',
+  "emailCount" integer NOT NULL DEFAULT 0,
+  "filePath" text,
+  "fileSize" bigint,
+  "lastError" text,
+  "completedAt" TIMESTAMP,
+  "expiresAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_c49d6050118c14f7bf1abb8176c" PRIMARY KEY (id),
+  CONSTRAINT "FK_bf2bb4484c5991b40c6af17f4c0"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- Exports of a user, newest first
+CREATE INDEX IF NOT EXISTS "IDX_807e2ea7a08b9e567d639e123c"
+ON account_exports ("userId", "createdAt");
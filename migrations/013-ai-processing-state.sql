@@ -0,0 +1,41 @@
+-- Migration: AI processing state and admin role
+-- Date: 2026-10-19
+-- Description: Adds email_processing_states (per-email AI processing status,
+-- attempts and retry time) and users.role for the admin endpoints.
+-- Emails whose summary or embedding is missing get a pending state, so the
+-- retry scheduler processes them.
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role varchar(20) NOT NULL DEFAULT 'user';
+
+CREATE TABLE IF NOT EXISTS email_processing_states (
+  id SERIAL NOT NULL,
+  "emailRawId" integer NOT NULL,
+  status varchar(20) NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  "lastError" text,
+  "nextAttemptAt" TIMESTAMP NOT NULL,
+  "startedAt" TIMESTAMP,
+  "completedAt" TIMESTAMP,
+  "deadLetteredAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "UQ_8994e40c9c5fd1435dc987aedd4" UNIQUE ("emailRawId"),
+  CONSTRAINT "PK_ed33090157a5032cecbb3688899" PRIMARY KEY (id),
+  CONSTRAINT "FK_8994e40c9c5fd1435dc987aedd4"
+    FOREIGN KEY ("emailRawId") REFERENCES email_raw (id) ON DELETE CASCADE
+);
+
+-- Retry scheduler: pending emails that are due
+CREATE INDEX IF NOT EXISTS "IDX_64e87cca8230449428450934f6"
+ON email_processing_states (status, "nextAttemptAt");
+
+INSERT INTO email_processing_states ("emailRawId", status, "nextAttemptAt")
+SELECT e.id, 'pending', now()
+FROM email_raw e
+LEFT JOIN email_summary s ON s."emailRawId" = e.id
+WHERE s.id IS NULL OR s."qdrantId" IS NULL
+ON CONFLICT ("emailRawId") DO NOTHING;
+
+-- Grant admin access with:
+-- UPDATE users SET role = 'admin' WHERE email = 'admin@example.com';
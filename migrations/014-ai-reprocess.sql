@@ -0,0 +1,43 @@
+-- Migration: AI result versioning and reprocess jobs
+-- Date: 2026-10-19
+-- Description: Records the model and prompt version on email_summary and
+-- email_metadata (and the embedding model on email_summary), and adds
+-- ai_reprocess_jobs (background jobs redoing the analysis of stored mail).
+-- Existing results keep null versions, so reprocess jobs treat them as outdated.
+-- Index and constraint names match the ones TypeORM generates for the entities.
+
+ALTER TABLE email_summary ADD COLUMN IF NOT EXISTS model varchar(100);
+ALTER TABLE email_summary ADD COLUMN IF NOT EXISTS "promptVersion" varchar(50);
+ALTER TABLE email_summary ADD COLUMN IF NOT EXISTS "embeddingModel" varchar(100);
+ALTER TABLE email_summary ADD COLUMN IF NOT EXISTS "embeddedAt" TIMESTAMP;
+
+ALTER TABLE email_metadata ADD COLUMN IF NOT EXISTS model varchar(100);
+ALTER TABLE email_metadata ADD COLUMN IF NOT EXISTS "promptVersion" varchar(50);
+
+CREATE TABLE IF NOT EXISTS ai_reprocess_jobs (
+  id SERIAL NOT NULL,
+  "userId" integer NOT NULL,
+  "targetUserId" integer,
+  steps text NOT NULL,
+  "emailIds" text,
+  after TIMESTAMP,
+  before TIMESTAMP,
+  "onlyOutdated" boolean NOT NULL DEFAULT true,
+  status varchar(20) NOT NULL DEFAULT 'running',
+  "lastEmailId" integer NOT NULL DEFAULT 0,
+  "totalCount" integer NOT NULL DEFAULT 0,
+  "processedCount" integer NOT NULL DEFAULT 0,
+  "skippedCount" integer NOT NULL DEFAULT 0,
+  "failedCount" integer NOT NULL DEFAULT 0,
+  "lastError" text,
+  "completedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_087acf50674608f7f2ad502b547" PRIMARY KEY (id),
+  CONSTRAINT "FK_302340624ebc650d454c7ebff78"
+    FOREIGN KEY ("userId") REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- Reprocess jobs of a user, newest first
+CREATE INDEX IF NOT EXISTS "IDX_854c69f59214677feeec2f93d2"
+ON ai_reprocess_jobs ("userId", "createdAt");
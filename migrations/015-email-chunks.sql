@@ -0,0 +1,8 @@
+-- Migration: Chunked email embeddings
+-- Date: 2026-10-19
+-- Description: Adds email_summary."chunkCount" (number of Qdrant points of an
+-- email). Emails embedded before chunking keep null and stay searchable; a
+-- reprocess job with the "embedding" step replaces their single vector with
+-- chunk vectors.
+
+ALTER TABLE email_summary ADD COLUMN IF NOT EXISTS "chunkCount" integer;
@@ -0,0 +1,53 @@
+-- Migration: Controlled vocabularies for AI summaries
+-- Date: 2026-10-19
+-- Description: Normalizes email_summary sentiment, priority and category to
+-- the values the summary schema allows. Sentiment and priority become enums
+-- (type names match the ones TypeORM generates); category stays varchar as
+-- each user has their own list.
+-- Adds user_settings."aiCategories" (the user's category list, JSON array as
+-- string; null means the default list). Categories outside the default list
+-- become 'other'; a reprocess job with the "summary" step files old mail
+-- under a user's own categories.
+
+UPDATE email_summary
+SET category = CASE
+  WHEN lower(trim(category)) IN (
+    'work', 'personal', 'finance', 'travel', 'shopping', 'social',
+    'newsletter', 'promotions', 'notifications', 'spam', 'other'
+  ) THEN lower(trim(category))
+  ELSE 'other'
+END
+WHERE category IS NOT NULL;
+
+DO $$ BEGIN
+  CREATE TYPE email_summary_sentiment_enum AS ENUM ('positive', 'negative', 'neutral');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE email_summary_priority_enum AS ENUM ('high', 'medium', 'low');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Values are normalized while converting (text casts keep a re-run working
+-- once the columns are enums)
+ALTER TABLE email_summary
+  ALTER COLUMN sentiment TYPE email_summary_sentiment_enum
+    USING (CASE
+      WHEN sentiment IS NULL THEN NULL
+      WHEN lower(trim(sentiment::text)) IN ('positive', 'negative', 'neutral')
+        THEN lower(trim(sentiment::text))
+      ELSE 'neutral'
+    END)::email_summary_sentiment_enum,
+  ALTER COLUMN category TYPE varchar(50),
+  ALTER COLUMN priority TYPE email_summary_priority_enum
+    USING (CASE
+      WHEN priority IS NULL THEN NULL
+      WHEN lower(trim(priority::text)) IN ('high', 'urgent', 'critical', 'important')
+        THEN 'high'
+      WHEN lower(trim(priority::text)) IN ('low', 'minor')
+        THEN 'low'
+      ELSE 'medium'
+    END)::email_summary_priority_enum;
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS "aiCategories" text;
@@ -0,0 +1,503 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, MoreThan, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdir, stat, unlink } from 'fs/promises';
+import { once } from 'events';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip, Gzip } from 'zlib';
+import { AccountExport, ExportStatus } from './entities/account-export.entity';
+import { User } from '../auth/entities/user.entity';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { KanbanColumn } from '../gmail/entities/kanban-column.entity';
+import { EmailSummary } from '../ai/entities/email-summary.entity';
+import { EmailMetadata } from '../ai/entities/email-metadata.entity';
+import { QdrantService } from '../ai/qdrant.service';
+import {
+  getPayloadHeader,
+  listPayloadAttachments,
+} from '../gmail/utils/mime.util';
+import { buildTarEntry, TAR_END_OF_ARCHIVE } from './utils/tar.util';
+import { buildEmlMessage } from './utils/eml.util';
+
+/**
+ * Archive of a completed export, ready to be streamed to the user
+ */
+export interface ExportFile {
+  filePath: string;
+  filename: string;
+  fileSize: number;
+}
+
+/**
+ * Service for account data exports
+ * Writes account.json, kanban-columns.json and per email a JSON file (with AI
+ * summary, metadata and vector) and an .eml file into a .tar.gz archive.
+ * Emails are read in batches and streamed, so the mailbox size does not
+ * matter for memory
+ */
+@Injectable()
+export class AccountExportService implements OnModuleInit {
+  private readonly BATCH_SIZE = 100;
+  private readonly EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private activeExports = new Set<number>(); // Exports running in this process
+
+  constructor(
+    @InjectRepository(AccountExport)
+    private readonly exportRepository: Repository<AccountExport>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(EmailRaw)
+    private readonly emailRawRepository: Repository<EmailRaw>,
+    @InjectRepository(KanbanColumn)
+    private readonly kanbanColumnRepository: Repository<KanbanColumn>,
+    @InjectRepository(EmailSummary)
+    private readonly emailSummaryRepository: Repository<EmailSummary>,
+    @InjectRepository(EmailMetadata)
+    private readonly emailMetadataRepository: Repository<EmailMetadata>,
+    private readonly qdrantService: QdrantService,
+  ) {}
+
+  /**
+   * Restart exports that were interrupted by a restart, drop expired archives
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.removeExpiredExports();
+
+      const interrupted = await this.exportRepository.find({
+        where: { status: In([ExportStatus.PENDING, ExportStatus.RUNNING]) },
+      });
+      for (const job of interrupted) {
+        console.log(
+          `Account Export Service: Restarting interrupted export ${job.id} for user ${job.userId}`,
+        );
+        this.runExport(job.id);
+      }
+    } catch (error: any) {
+      console.error('Account Export Service: Failed to resume exports:', error);
+    }
+  }
+
+  /**
+   * Start building a new export in the background
+   */
+  async startExport(userId: number): Promise<any> {
+    await this.removeExpiredExports();
+
+    const active = await this.exportRepository.findOne({
+      where: {
+        userId,
+        status: In([ExportStatus.PENDING, ExportStatus.RUNNING]),
+      },
+    });
+    if (active) {
+      throw new Error(`Export ${active.id} is still being built`);
+    }
+
+    const job = await this.exportRepository.save(
+      this.exportRepository.create({ userId, status: ExportStatus.PENDING }),
+    );
+
+    this.runExport(job.id);
+
+    return this.formatExport(job);
+  }
+
+  /**
+   * Exports of a user, newest first
+   */
+  async listExports(userId: number): Promise<any[]> {
+    const jobs = await this.exportRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+    return jobs.map((job) => this.formatExport(job));
+  }
+
+  /**
+   * Status of one export
+   */
+  async getExport(userId: number, exportId: number): Promise<any> {
+    return this.formatExport(await this.findExport(userId, exportId));
+  }
+
+  /**
+   * Archive of a completed, not yet expired export
+   */
+  async getExportFile(userId: number, exportId: number): Promise<ExportFile> {
+    const job = await this.findExport(userId, exportId);
+
+    if (job.status !== ExportStatus.COMPLETED || !job.filePath) {
+      throw new Error(`Export is ${job.status}, nothing to download`);
+    }
+    if (job.expiresAt && job.expiresAt <= new Date()) {
+      throw new Error('Export has expired, start a new one');
+    }
+
+    try {
+      const file = await stat(job.filePath);
+      return {
+        filePath: job.filePath,
+        filename: `account-export-${job.id}.tar.gz`,
+        fileSize: file.size,
+      };
+    } catch {
+      throw new Error('Export file not found, start a new one');
+    }
+  }
+
+  /**
+   * Delete the archives of a user (account deletion)
+   * The rows go with the user
+   */
+  async deleteUserExports(userId: number): Promise<void> {
+    const jobs = await this.exportRepository.find({ where: { userId } });
+    for (const job of jobs) {
+      await this.removeFile(job.filePath);
+    }
+  }
+
+  /**
+   * Build the archive of an export job
+   */
+  private async runExport(exportId: number): Promise<void> {
+    if (this.activeExports.has(exportId)) {
+      return;
+    }
+    this.activeExports.add(exportId);
+
+    let filePath: string | null = null;
+    try {
+      const job = await this.exportRepository.findOne({
+        where: { id: exportId },
+      });
+      if (!job) {
+        return;
+      }
+
+      const exportDir = this.getExportDir();
+      await mkdir(exportDir, { recursive: true });
+      filePath = join(
+        exportDir,
+        `export-${job.id}-${randomBytes(8).toString('hex')}.tar.gz`,
+      );
+
+      await this.exportRepository.update(
+        { id: exportId },
+        { status: ExportStatus.RUNNING, emailCount: 0, lastError: null },
+      );
+
+      await this.writeArchive(job, filePath);
+      const file = await stat(filePath);
+
+      const completedAt = new Date();
+      const result = await this.exportRepository.update(
+        { id: exportId },
+        {
+          status: ExportStatus.COMPLETED,
+          filePath,
+          fileSize: file.size.toString(),
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + this.EXPORT_TTL_MS),
+        },
+      );
+      if (!result.affected) {
+        // Account deleted while the export was built
+        await this.removeFile(filePath);
+        return;
+      }
+
+      console.log(
+        `Account Export Service: Export ${exportId} completed (${file.size} bytes)`,
+      );
+    } catch (error: any) {
+      console.error(
+        `Account Export Service: Export ${exportId} failed:`,
+        error,
+      );
+      await this.removeFile(filePath);
+      await this.exportRepository.update(
+        { id: exportId },
+        {
+          status: ExportStatus.FAILED,
+          lastError: error.message || 'Unknown error',
+        },
+      );
+    } finally {
+      this.activeExports.delete(exportId);
+    }
+  }
+
+  /**
+   * Stream the account data as tar entries through gzip into the file
+   */
+  private async writeArchive(
+    job: AccountExport,
+    filePath: string,
+  ): Promise<void> {
+    const gzip = createGzip();
+    const written = pipeline(gzip, createWriteStream(filePath));
+
+    try {
+      const user = await this.userRepository.findOneOrFail({
+        where: { id: job.userId },
+      });
+      await this.writeEntry(gzip, 'account.json', {
+        exportedAt: new Date(),
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerifiedAt: user.emailVerifiedAt,
+          hasPassword: !!user.password,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+        },
+      });
+
+      const columns = await this.kanbanColumnRepository.find({
+        where: { userId: job.userId },
+        order: { order: 'ASC' },
+      });
+      await this.writeEntry(gzip, 'kanban-columns.json', columns);
+
+      let lastId = 0;
+      let emailCount = 0;
+      while (true) {
+        const emails = await this.emailRawRepository.find({
+          where: { userId: job.userId, id: MoreThan(lastId) },
+          order: { id: 'ASC' },
+          take: this.BATCH_SIZE,
+        });
+        if (emails.length === 0) {
+          break;
+        }
+
+        const emailIds = emails.map((email) => email.id);
+        const [summaries, metadata, embeddings] = await Promise.all([
+          this.emailSummaryRepository.find({
+            where: { emailRawId: In(emailIds) },
+          }),
+          this.emailMetadataRepository.find({
+            where: { emailRawId: In(emailIds) },
+          }),
+          this.qdrantService.getEmailEmbeddings(emailIds),
+        ]);
+
+        for (const email of emails) {
+          const summary = summaries.find((s) => s.emailRawId === email.id);
+          const meta = metadata.find((m) => m.emailRawId === email.id);
+          const mtime = email.receivedAt || email.createdAt;
+          const rawData = this.parseJson(email.rawData);
+
+          await this.writeEntry(
+            gzip,
+            `emails/${email.id}.json`,
+            {
+              ...this.formatEmail(email),
+              summary: summary
+                ? {
+                    summary: summary.summary,
+                    keyPoints: this.parseJson(summary.keyPoints),
+                    sentiment: summary.sentiment,
+                    category: summary.category,
+                    priority: summary.priority,
+                    createdAt: summary.createdAt,
+                  }
+                : null,
+              metadata: meta
+                ? {
+                    entities: this.parseJson(meta.entities),
+                    topics: this.parseJson(meta.topics),
+                    language: meta.language,
+                    wordCount: meta.wordCount,
+                    readingTime: meta.readingTime,
+                    tags: this.parseJson(meta.tags),
+                    actionItems: this.parseJson(meta.actionItems),
+                    hasAttachment: meta.hasAttachment,
+                    attachmentTypes: this.parseJson(meta.attachmentTypes),
+                  }
+                : null,
+              embeddings: embeddings.get(email.id) || [],
+              // Content is not stored, so the .eml has no attachment parts
+              attachments: listPayloadAttachments(rawData?.payload),
+            },
+            mtime,
+          );
+          await this.writeEntry(
+            gzip,
+            `emails/${email.id}.eml`,
+            this.buildEml(email, rawData),
+            mtime,
+          );
+        }
+
+        lastId = emailIds[emailIds.length - 1];
+        emailCount += emails.length;
+        await this.exportRepository.update({ id: job.id }, { emailCount });
+      }
+
+      gzip.end(TAR_END_OF_ARCHIVE);
+    } catch (error) {
+      gzip.destroy(error as Error);
+      await written.catch(() => undefined);
+      throw error;
+    }
+
+    await written;
+  }
+
+  /**
+   * Write one file to the archive, waiting when gzip is behind
+   */
+  private async writeEntry(
+    gzip: Gzip,
+    name: string,
+    content: unknown,
+    mtime?: Date,
+  ): Promise<void> {
+    const data =
+      typeof content === 'string'
+        ? Buffer.from(content, 'utf-8')
+        : Buffer.from(JSON.stringify(content, null, 2), 'utf-8');
+
+    if (!gzip.write(buildTarEntry({ name, content: data, mtime }))) {
+      await once(gzip, 'drain');
+    }
+  }
+
+  /**
+   * Email fields with the JSON columns parsed
+   */
+  private formatEmail(email: EmailRaw): any {
+    return {
+      id: email.id,
+      provider: email.provider,
+      accountId: email.accountId,
+      providerAccountId: email.providerAccountId,
+      providerMessageId: email.gmailId,
+      threadId: email.threadId,
+      from: email.from,
+      fromName: email.fromName,
+      to: this.parseJson(email.to) || [],
+      cc: this.parseJson(email.cc) || [],
+      bcc: this.parseJson(email.bcc) || [],
+      subject: email.subject,
+      snippet: email.snippet,
+      bodyText: email.bodyText,
+      bodyHtml: email.bodyHtml,
+      isRead: email.isRead,
+      isStarred: email.isStarred,
+      isImportant: email.isImportant,
+      labels: this.parseJson(email.labels) || [],
+      status: email.status,
+      snoozeUntil: email.snoozeUntil,
+      receivedAt: email.receivedAt,
+      sentAt: email.sentAt,
+      createdAt: email.createdAt,
+      updatedAt: email.updatedAt,
+    };
+  }
+
+  /**
+   * Message file from the stored fields; attachments are listed in the JSON
+   */
+  private buildEml(email: EmailRaw, rawData: any): string {
+    return buildEmlMessage({
+      messageId: getPayloadHeader(rawData?.payload, 'Message-ID') || undefined,
+      from: email.from,
+      fromName: email.fromName,
+      to: this.parseJson(email.to) || [],
+      cc: this.parseJson(email.cc) || [],
+      subject: email.subject,
+      date: email.sentAt || email.receivedAt,
+      text: email.bodyText,
+      html: email.bodyHtml,
+    });
+  }
+
+  /**
+   * Remove archives past their expiry date; the rows stay as history
+   */
+  private async removeExpiredExports(): Promise<void> {
+    const expired = await this.exportRepository.find({
+      where: {
+        status: ExportStatus.COMPLETED,
+        expiresAt: LessThan(new Date()),
+      },
+    });
+    for (const job of expired) {
+      await this.removeFile(job.filePath);
+      await this.exportRepository.update(
+        { id: job.id },
+        { status: ExportStatus.EXPIRED, filePath: null },
+      );
+    }
+  }
+
+  private async removeFile(filePath: string | null): Promise<void> {
+    if (!filePath) {
+      return;
+    }
+    try {
+      await unlink(filePath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(
+          `Account Export Service: Failed to remove ${filePath}:`,
+          error.message,
+        );
+      }
+    }
+  }
+
+  private async findExport(
+    userId: number,
+    exportId: number,
+  ): Promise<AccountExport> {
+    const job = await this.exportRepository.findOne({
+      where: { id: exportId, userId },
+    });
+
+    if (!job) {
+      throw new Error('Export not found');
+    }
+
+    return job;
+  }
+
+  private getExportDir(): string {
+    return process.env.EXPORT_DIR || join(tmpdir(), 'account-exports');
+  }
+
+  private parseJson(value: string | null): any {
+    if (!value) {
+      return null;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Format an export for the status endpoints (the file path stays internal)
+   */
+  private formatExport(job: AccountExport): any {
+    return {
+      id: job.id,
+      status: job.status,
+      emailCount: job.emailCount,
+      fileSize: job.fileSize ? Number(job.fileSize) : null,
+      lastError: job.lastError,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      expiresAt: job.expiresAt,
+    };
+  }
+}
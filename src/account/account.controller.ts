@@ -0,0 +1,212 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  Res,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { createReadStream } from 'fs';
+import { AccountService } from './account.service';
+import { AccountExportService } from './account-export.service';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TBaseDTO } from '../common/dto/base.dto';
+import { GGJParseIntPipe } from '../common/pipes/parse-int.pipe';
+
+/**
+ * Controller for account data exports and account deletion
+ */
+@ApiTags('Account')
+@Controller('account')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class AccountController {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly accountExportService: AccountExportService,
+  ) {}
+
+  /**
+   * Start a data export
+   */
+  @Post('exports')
+  @ApiOperation({
+    summary: 'Export all account data',
+    description:
+      'Builds a .tar.gz archive in the background with the profile, Kanban columns ' +
+      'and per email a JSON file (AI summary, metadata, vector) and an .eml file. ' +
+      'Poll GET /account/exports/:id until it is completed, then download it.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Export started',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async startExport(@Request() req: any): Promise<TBaseDTO<any>> {
+    try {
+      const job = await this.accountExportService.startExport(req.user.userId);
+      return new TBaseDTO<any>(job, 'Export started');
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to start export',
+      );
+    }
+  }
+
+  /**
+   * List data exports
+   */
+  @Get('exports')
+  @ApiOperation({ summary: 'List data exports, newest first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exports retrieved successfully',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listExports(@Request() req: any): Promise<TBaseDTO<any[]>> {
+    try {
+      const jobs = await this.accountExportService.listExports(req.user.userId);
+      return new TBaseDTO<any[]>(jobs);
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to list exports',
+      );
+    }
+  }
+
+  /**
+   * Get the status of a data export
+   */
+  @Get('exports/:id')
+  @ApiOperation({ summary: 'Get the status of a data export' })
+  @ApiParam({ name: 'id', description: 'Export ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Export retrieved successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getExport(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) id: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const job = await this.accountExportService.getExport(
+        req.user.userId,
+        id,
+      );
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to get export',
+      );
+    }
+  }
+
+  /**
+   * Download the archive of a completed export
+   */
+  @Get('exports/:id/download')
+  @ApiOperation({
+    summary: 'Download a completed data export',
+    description: 'Archives are kept for 7 days after they were built.',
+  })
+  @ApiParam({ name: 'id', description: 'Export ID', type: Number })
+  @ApiResponse({ status: 200, description: 'Archive (application/gzip)' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Export not available' })
+  async downloadExport(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) id: number,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const file = await this.accountExportService.getExportFile(
+        req.user.userId,
+        id,
+      );
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Length', file.fileSize.toString());
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${file.filename}"`,
+      );
+      createReadStream(file.filePath).pipe(res);
+    } catch (error: any) {
+      res.status(404).json({
+        success: false,
+        error: error.message || 'Export not available',
+      });
+    }
+  }
+
+  /**
+   * Delete the account and all its data
+   */
+  @Delete()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete the account',
+    description:
+      'Revokes Google access, deletes all vectors from Qdrant, removes export archives ' +
+      'and deletes the user with all stored data. Cannot be undone; ' +
+      'start an export first to keep a copy.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Account deleted',
+    type: TBaseDTO<{ message: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async deleteAccount(
+    @Request() req: any,
+    @Body() deleteAccountDto: DeleteAccountDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    try {
+      await this.accountService.deleteAccount(
+        req.user.userId,
+        deleteAccountDto,
+      );
+
+      res.clearCookie('refreshToken', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+      });
+
+      return new TBaseDTO<{ message: string }>({
+        message: 'Account deleted',
+      });
+    } catch (error: any) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to delete account',
+      );
+    }
+  }
+}
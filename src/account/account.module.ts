@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AccountService } from './account.service';
+import { AccountExportService } from './account-export.service';
+import { AccountController } from './account.controller';
+import { AccountExport } from './entities/account-export.entity';
+import { User } from '../auth/entities/user.entity';
+import { AuthLockout } from '../auth/entities/auth-lockout.entity';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { KanbanColumn } from '../gmail/entities/kanban-column.entity';
+import { EmailSummary } from '../ai/entities/email-summary.entity';
+import { EmailMetadata } from '../ai/entities/email-metadata.entity';
+import { AuthModule } from '../auth/auth.module';
+import { GmailModule } from '../gmail/gmail.module';
+import { AIModule } from '../ai/ai.module';
+import { OutlookModule } from '../outlook/outlook.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      AccountExport,
+      User,
+      AuthLockout,
+      EmailRaw,
+      KanbanColumn,
+      EmailSummary,
+      EmailMetadata,
+    ]),
+    AuthModule,
+    GmailModule,
+    AIModule,
+    OutlookModule,
+  ],
+  controllers: [AccountController],
+  providers: [AccountService, AccountExportService],
+})
+export class AccountModule {}
@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { User } from '../auth/entities/user.entity';
+import { AuthLockout } from '../auth/entities/auth-lockout.entity';
+import { TwoFactorService } from '../auth/two-factor.service';
+import { GmailService } from '../gmail/gmail.service';
+import { OutlookService } from '../outlook/outlook.service';
+import { QdrantService } from '../ai/qdrant.service';
+import { AccountExportService } from './account-export.service';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+
+/**
+ * Service for deleting accounts
+ * Data outside the database (Google grants, Outlook tokens, Qdrant vectors,
+ * export archives)
+ * is removed first; the user row goes last and takes every table with it
+ * (userId foreign keys cascade), so a failed deletion can simply be retried
+ */
+@Injectable()
+export class AccountService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(AuthLockout)
+    private readonly lockoutRepository: Repository<AuthLockout>,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly gmailService: GmailService,
+    private readonly outlookService: OutlookService,
+    private readonly qdrantService: QdrantService,
+    private readonly accountExportService: AccountExportService,
+  ) {}
+
+  /**
+   * Delete the account and all its data
+   * Needs the email address as confirmation, the password when the account
+   * has one and a second factor when 2FA is enabled
+   */
+  async deleteAccount(userId: number, dto: DeleteAccountDto): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (
+      (dto.confirmEmail || '').trim().toLowerCase() !== user.email.toLowerCase()
+    ) {
+      throw new Error('Email confirmation does not match the account');
+    }
+    if (
+      user.password &&
+      (!dto.password || !(await bcrypt.compare(dto.password, user.password)))
+    ) {
+      throw new Error('Invalid password');
+    }
+    if (
+      (await this.twoFactorService.isEnabled(userId)) &&
+      !(await this.twoFactorService.verifyCode(userId, dto.code || ''))
+    ) {
+      throw new Error('Invalid verification code');
+    }
+
+    // Revoke first, so no new mail is synced while the rest is deleted
+    await this.gmailService.revokeGmailTokens(userId);
+    await this.outlookService.revokeAccounts(userId);
+
+    const vectorCount = await this.qdrantService.deleteUserEmbeddings(userId);
+    await this.accountExportService.deleteUserExports(userId);
+
+    // Lockouts keep no foreign key (they are also written for unknown emails)
+    await this.lockoutRepository.delete({ userId });
+    await this.userRepository.delete({ id: userId });
+
+    console.log(
+      `Account Service: Deleted account ${userId} (${vectorCount} vectors)`,
+    );
+  }
+}
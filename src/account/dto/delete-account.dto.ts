@@ -0,0 +1,32 @@
+import { IsEmail, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for deleting the current account
+ */
+export class DeleteAccountDto {
+  @ApiProperty({
+    description: 'Email address of the account, typed again as confirmation',
+    example: 'user@example.com',
+  })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email confirmation is required' })
+  confirmEmail: string;
+
+  @ApiPropertyOptional({
+    description: 'Current password (required when the account has one)',
+    example: 'password123',
+  })
+  @IsOptional()
+  @IsString()
+  password?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Code from the authenticator app, or a recovery code (required with 2FA)',
+    example: '123456',
+  })
+  @IsOptional()
+  @IsString()
+  code?: string;
+}
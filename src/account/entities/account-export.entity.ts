@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Export job status values
+ */
+export enum ExportStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  EXPIRED = 'expired',
+}
+
+/**
+ * Data export of an account (GDPR), built in the background into a
+ * .tar.gz archive that can be downloaded until it expires
+ */
+@Entity('account_exports')
+@Index(['userId', 'createdAt'])
+export class AccountExport {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 20, default: ExportStatus.PENDING })
+  status: string; // pending, running, completed, failed, expired
+
+  @Column({ type: 'int', default: 0 })
+  emailCount: number; // Emails written so far
+
+  @Column({ type: 'text', nullable: true })
+  filePath: string; // Archive on disk, removed once expired
+
+  @Column({ type: 'bigint', nullable: true })
+  fileSize: string; // Bytes (bigint is returned as string)
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date; // Download is available until then
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,51 @@
+import { buildEmlMessage } from './eml.util';
+
+function decodeBase64Part(eml: string, contentType: string): string {
+  const part = eml.split(`Content-Type: ${contentType}; charset=utf-8`)[1];
+  const body = part.split('\r\n\r\n')[1].split('\r\n--')[0];
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf-8');
+}
+
+describe('buildEmlMessage', () => {
+  it('should write headers and both bodies as multipart/alternative', () => {
+    const eml = buildEmlMessage({
+      messageId: '<abc@mail.example.com>',
+      from: 'alice@example.com',
+      fromName: 'Alice',
+      to: ['bob@example.com', 'carol@example.com'],
+      subject: 'Quarterly report',
+      date: new Date('2026-01-02T03:04:05Z'),
+      text: 'Hello Bob',
+      html: '<p>Hello Bob</p>',
+    });
+
+    expect(eml).toContain('Message-ID: <abc@mail.example.com>\r\n');
+    expect(eml).toContain('Date: Fri, 02 Jan 2026 03:04:05 GMT\r\n');
+    expect(eml).toContain('From: "Alice" <alice@example.com>\r\n');
+    expect(eml).toContain('To: bob@example.com, carol@example.com\r\n');
+    expect(eml).toContain('Subject: Quarterly report\r\n');
+    expect(eml).toMatch(/Content-Type: multipart\/alternative; boundary="/);
+    expect(decodeBase64Part(eml, 'text/plain')).toBe('Hello Bob');
+    expect(decodeBase64Part(eml, 'text/html')).toBe('<p>Hello Bob</p>');
+  });
+
+  it('should use a single part when only one body is stored', () => {
+    const eml = buildEmlMessage({ subject: 'Hi', html: '<b>x</b>' });
+    expect(eml).not.toContain('multipart');
+    expect(decodeBase64Part(eml, 'text/html')).toBe('<b>x</b>');
+  });
+
+  it('should encode non-ASCII names and strip line breaks from headers', () => {
+    const eml = buildEmlMessage({
+      from: 'j@example.com',
+      fromName: 'Jörg',
+      subject: 'Hello\r\nBcc: victim@example.com',
+    });
+
+    expect(eml).toContain(
+      `From: =?UTF-8?B?${Buffer.from('Jörg').toString('base64')}?= <j@example.com>`,
+    );
+    expect(eml).toContain('Subject: Hello Bcc: victim@example.com\r\n');
+    expect(eml).not.toMatch(/^Bcc:/m);
+  });
+});
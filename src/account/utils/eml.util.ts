@@ -0,0 +1,101 @@
+import { randomBytes } from 'crypto';
+import {
+  encodeBase64Lines,
+  encodeHeaderWord,
+} from '../../gmail/utils/mime.util';
+
+/**
+ * Stored fields of an email, rebuilt into a message file
+ */
+export interface EmlSource {
+  messageId?: string;
+  from?: string;
+  fromName?: string;
+  to?: string[];
+  cc?: string[];
+  subject?: string;
+  date?: Date;
+  text?: string;
+  html?: string;
+}
+
+/**
+ * Build an RFC 2822 message (.eml) from the stored fields of an email
+ * Both bodies are kept as multipart/alternative; attachments are not stored
+ * and therefore not part of the file
+ */
+export function buildEmlMessage(email: EmlSource): string {
+  const headers: string[] = [];
+  if (email.messageId) {
+    headers.push(`Message-ID: ${cleanHeader(email.messageId)}`);
+  }
+  if (email.date && !isNaN(email.date.getTime())) {
+    headers.push(`Date: ${email.date.toUTCString()}`);
+  }
+  if (email.from) {
+    headers.push(`From: ${formatAddress(email.from, email.fromName)}`);
+  }
+  if (email.to && email.to.length > 0) {
+    headers.push(`To: ${email.to.map(cleanHeader).join(', ')}`);
+  }
+  if (email.cc && email.cc.length > 0) {
+    headers.push(`Cc: ${email.cc.map(cleanHeader).join(', ')}`);
+  }
+  headers.push(
+    `Subject: ${encodeHeaderWord(cleanHeader(email.subject || ''))}`,
+  );
+  headers.push('MIME-Version: 1.0');
+
+  const parts: string[] = [];
+  if (email.text) {
+    parts.push(buildTextPart('plain', email.text));
+  }
+  if (email.html) {
+    parts.push(buildTextPart('html', email.html));
+  }
+
+  if (parts.length === 0) {
+    return [...headers, buildTextPart('plain', '')].join('\r\n');
+  }
+  if (parts.length === 1) {
+    return [...headers, parts[0]].join('\r\n');
+  }
+
+  const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+function buildTextPart(subtype: 'plain' | 'html', body: string): string {
+  return [
+    `Content-Type: text/${subtype}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Lines(Buffer.from(body, 'utf-8')),
+  ].join('\r\n');
+}
+
+function formatAddress(email: string, name?: string): string {
+  const address = cleanHeader(email);
+  if (!name) {
+    return address;
+  }
+  const displayName = cleanHeader(name).replace(/"/g, '');
+  const encoded = encodeHeaderWord(displayName);
+  // Encoded words must not be quoted
+  return encoded === displayName
+    ? `"${displayName}" <${address}>`
+    : `${encoded} <${address}>`;
+}
+
+/**
+ * Stored values end up in headers; line breaks would start new headers
+ */
+function cleanHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
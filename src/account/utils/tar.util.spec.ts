@@ -0,0 +1,65 @@
+import { buildTarArchive, buildTarEntry, TAR_END_OF_ARCHIVE } from './tar.util';
+
+function readField(header: Buffer, offset: number, length: number): string {
+  return header
+    .subarray(offset, offset + length)
+    .toString('ascii')
+    .replace(/[\0 ]+$/, '');
+}
+
+describe('buildTarEntry', () => {
+  it('should write a ustar header followed by the padded content', () => {
+    const content = Buffer.from('hello tar');
+    const entry = buildTarEntry({
+      name: 'emails/1.eml',
+      content,
+      mtime: new Date(1_700_000_000_000),
+    });
+
+    expect(entry.length).toBe(1024);
+    expect(readField(entry, 0, 100)).toBe('emails/1.eml');
+    expect(parseInt(readField(entry, 124, 12), 8)).toBe(content.length);
+    expect(parseInt(readField(entry, 136, 12), 8)).toBe(1_700_000_000);
+    expect(readField(entry, 257, 6)).toBe('ustar');
+    expect(entry.subarray(512, 512 + content.length)).toEqual(content);
+    expect(entry.subarray(512 + content.length).every((b) => b === 0)).toBe(
+      true,
+    );
+  });
+
+  it('should store a valid header checksum', () => {
+    const header = buildTarEntry({
+      name: 'account.json',
+      content: Buffer.from('{}'),
+    }).subarray(0, 512);
+
+    const expected = parseInt(readField(header, 148, 8), 8);
+    const blanked = Buffer.from(header);
+    blanked.fill(' ', 148, 156);
+    expect(blanked.reduce((sum, byte) => sum + byte, 0)).toBe(expected);
+  });
+
+  it('should not pad content that fills whole blocks', () => {
+    const entry = buildTarEntry({ name: 'a', content: Buffer.alloc(512, 1) });
+    expect(entry.length).toBe(1024);
+  });
+
+  it('should reject names that do not fit the header', () => {
+    expect(() =>
+      buildTarEntry({ name: 'x'.repeat(101), content: Buffer.alloc(0) }),
+    ).toThrow('Invalid tar entry name');
+  });
+});
+
+describe('buildTarArchive', () => {
+  it('should end with two empty blocks', () => {
+    const archive = buildTarArchive([
+      { name: 'a.txt', content: Buffer.from('a') },
+      { name: 'b.txt', content: Buffer.from('b') },
+    ]);
+
+    expect(archive.length).toBe(2 * 1024 + TAR_END_OF_ARCHIVE.length);
+    expect(readField(archive, 1024, 100)).toBe('b.txt');
+    expect(archive.subarray(-1024).every((b) => b === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+const BLOCK_SIZE = 512;
+
+/**
+ * Two empty blocks, written after the last entry of an archive
+ */
+export const TAR_END_OF_ARCHIVE = Buffer.alloc(BLOCK_SIZE * 2);
+
+/**
+ * File of a tar archive
+ */
+export interface TarEntry {
+  name: string; // Path inside the archive, at most 100 bytes
+  content: Buffer;
+  mtime?: Date;
+}
+
+/**
+ * One file in ustar format: header block, content, padding to a full block
+ * Entries can be streamed one by one (end with TAR_END_OF_ARCHIVE)
+ */
+export function buildTarEntry(entry: TarEntry): Buffer {
+  const name = Buffer.from(entry.name, 'utf-8');
+  if (name.length === 0 || name.length > 100) {
+    throw new Error(`Invalid tar entry name: ${entry.name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  name.copy(header, 0);
+  writeOctal(header, 100, 8, 0o644); // mode
+  writeOctal(header, 108, 8, 0); // uid
+  writeOctal(header, 116, 8, 0); // gid
+  writeOctal(header, 124, 12, entry.content.length);
+  writeOctal(
+    header,
+    136,
+    12,
+    Math.floor((entry.mtime || new Date()).getTime() / 1000),
+  );
+  header.write('0', 156, 'ascii'); // Regular file
+  header.write('ustar\u000000', 257, 'ascii'); // Magic and version
+
+  // The checksum is computed with its own field set to spaces
+  header.fill(' ', 148, 156, 'ascii');
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(checksum.toString(8).padStart(6, '0') + '\u0000 ', 148, 'ascii');
+
+  const padding =
+    (BLOCK_SIZE - (entry.content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+  return Buffer.concat([header, entry.content, Buffer.alloc(padding)]);
+}
+
+/**
+ * Complete tar archive of a few in-memory files
+ */
+export function buildTarArchive(entries: TarEntry[]): Buffer {
+  return Buffer.concat([...entries.map(buildTarEntry), TAR_END_OF_ARCHIVE]);
+}
+
+/**
+ * Zero-padded octal number terminated by NUL, as used by tar headers
+ */
+function writeOctal(
+  header: Buffer,
+  offset: number,
+  length: number,
+  value: number,
+): void {
+  const octal = value.toString(8);
+  if (octal.length > length - 1) {
+    throw new Error(`Value too large for tar header: ${value}`);
+  }
+  header.write(octal.padStart(length - 1, '0') + '\u0000', offset, 'ascii');
+}
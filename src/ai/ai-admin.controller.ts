@@ -0,0 +1,237 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { AIProcessorService } from './ai-processor.service';
+import { AIReprocessService } from './ai-reprocess.service';
+import { ProcessingStatus } from './entities/email-processing-state.entity';
+import { RequeueEmailsDto } from './dto/requeue-emails.dto';
+import { AdminReprocessEmailsDto } from './dto/reprocess-emails.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { TBaseDTO } from '../common/dto/base.dto';
+
+/**
+ * Controller for operating the AI pipeline (admins only)
+ */
+@ApiTags('Admin')
+@Controller('admin/ai')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@ApiBearerAuth('JWT-auth')
+export class AIAdminController {
+  constructor(
+    private readonly aiProcessorService: AIProcessorService,
+    private readonly aiReprocessService: AIReprocessService,
+  ) {}
+
+  /**
+   * Count emails per processing status
+   */
+  @Get('processing/stats')
+  @ApiOperation({ summary: 'Number of emails per AI processing status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Counts retrieved successfully',
+    type: TBaseDTO<Record<string, number>>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getProcessingStats(): Promise<TBaseDTO<Record<string, number>>> {
+    try {
+      const counts = await this.aiProcessorService.getProcessingCounts();
+      return new TBaseDTO<Record<string, number>>(counts);
+    } catch (error: any) {
+      return new TBaseDTO<Record<string, number>>(
+        undefined,
+        undefined,
+        error.message || 'Failed to count processing states',
+      );
+    }
+  }
+
+  /**
+   * List emails by processing status (failed by default)
+   */
+  @Get('processing')
+  @ApiOperation({
+    summary: 'List emails by AI processing status',
+    description:
+      'Failed emails ran out of attempts and were sent to the dead-letter topic; ' +
+      'pending emails with attempts are waiting for a retry.',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ProcessingStatus,
+    description: 'Processing status (default: failed)',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 20, max: 100)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Emails retrieved successfully',
+    type: TBaseDTO<{
+      emails: any[];
+      total: number;
+      page: number;
+      limit: number;
+    }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async listProcessingStates(
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ): Promise<
+    TBaseDTO<{ emails: any[]; total: number; page: number; limit: number }>
+  > {
+    const statusValue = status || ProcessingStatus.FAILED;
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const limitNum = limit ? Math.min(parseInt(limit, 10), 100) : 20;
+
+    if (
+      !Object.values(ProcessingStatus).includes(statusValue as ProcessingStatus)
+    ) {
+      return new TBaseDTO<{
+        emails: any[];
+        total: number;
+        page: number;
+        limit: number;
+      }>(undefined, undefined, `Unknown status: ${statusValue}`);
+    }
+    if (!(pageNum >= 1) || !(limitNum >= 1)) {
+      return new TBaseDTO<{
+        emails: any[];
+        total: number;
+        page: number;
+        limit: number;
+      }>(undefined, undefined, 'Page and limit must be positive numbers');
+    }
+
+    try {
+      const result = await this.aiProcessorService.listProcessingStates(
+        statusValue,
+        pageNum,
+        limitNum,
+      );
+      return new TBaseDTO<{
+        emails: any[];
+        total: number;
+        page: number;
+        limit: number;
+      }>(result);
+    } catch (error: any) {
+      return new TBaseDTO<{
+        emails: any[];
+        total: number;
+        page: number;
+        limit: number;
+      }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to list processing states',
+      );
+    }
+  }
+
+  /**
+   * Re-queue failed emails
+   */
+  @Post('processing/requeue')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Re-queue failed emails for AI processing',
+    description:
+      'Resets the attempts of failed emails and publishes them to the email-fetched topic again.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Emails re-queued',
+    type: TBaseDTO<{ requeued: number }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async requeueFailedEmails(
+    @Body() requeueEmailsDto: RequeueEmailsDto,
+  ): Promise<TBaseDTO<{ requeued: number }>> {
+    try {
+      const requeued = await this.aiProcessorService.requeueFailedEmails(
+        requeueEmailsDto.emailIds,
+      );
+      return new TBaseDTO<{ requeued: number }>(
+        { requeued },
+        `${requeued} emails re-queued`,
+      );
+    } catch (error: any) {
+      return new TBaseDTO<{ requeued: number }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to re-queue emails',
+      );
+    }
+  }
+
+  /**
+   * Start a reprocess job on one user's or every user's mail
+   * Progress is read from /ai/reprocess like for the admin's own jobs
+   */
+  @Post('reprocess')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Reprocess any user's stored emails",
+    description:
+      "Like POST /ai/reprocess, for the given user or (without userId) every user's mail.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reprocess job started',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async startReprocess(
+    @Request() req: any,
+    @Body() reprocessEmailsDto: AdminReprocessEmailsDto,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const { userId, ...options } = reprocessEmailsDto;
+      const job = await this.aiReprocessService.startReprocess(
+        req.user.userId,
+        userId ?? null,
+        options,
+      );
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to start reprocessing',
+      );
+    }
+  }
+}
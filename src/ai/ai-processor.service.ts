@@ -1,17 +1,42 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, LessThan, LessThanOrEqual, Repository } from 'typeorm';
 import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { UserSettings } from '../gmail/entities/user-settings.entity';
 import { EmailSummary } from './entities/email-summary.entity';
 import { EmailMetadata } from './entities/email-metadata.entity';
-import { GeminiService } from './gemini.service';
+import {
+  EmailProcessingState,
+  ProcessingStatus,
+} from './entities/email-processing-state.entity';
+import { ReprocessStep } from './entities/ai-reprocess-job.entity';
+import {
+  EmailAnalysisService,
+  METADATA_PROMPT_VERSION,
+  SUMMARY_PROMPT_VERSION,
+} from './email-analysis.service';
 import { QdrantService } from './qdrant.service';
+import { cleanEmailText } from './utils/email-text.util';
+import { parseCategories } from './utils/email-category.util';
+import { KafkaService } from '../kafka/kafka.service';
+import {
+  MailboxEventsService,
+  MailboxEventType,
+} from '../events/mailbox-events.service';
 
 /**
  * Service to process emails with AI
+ * Every email has a processing state; failed emails are retried with
+ * exponential backoff and sent to the dead-letter topic after AI_MAX_ATTEMPTS
  */
 @Injectable()
 export class AIProcessorService {
+  private readonly MAX_ATTEMPTS = parseInt(process.env.AI_MAX_ATTEMPTS || '5');
+  private readonly RETRY_BASE_DELAY_MS = 60 * 1000; // 1 minute, doubled per attempt
+  private readonly RETRY_MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+  private readonly RETRY_BATCH_SIZE = 50;
+  private readonly STALE_PROCESSING_MS = 15 * 60 * 1000; // Attempts running longer were interrupted
+
   constructor(
     @InjectRepository(EmailRaw)
     private readonly emailRawRepository: Repository<EmailRaw>,
@@ -19,32 +44,300 @@ export class AIProcessorService {
     private readonly emailSummaryRepository: Repository<EmailSummary>,
     @InjectRepository(EmailMetadata)
     private readonly emailMetadataRepository: Repository<EmailMetadata>,
-    private readonly geminiService: GeminiService,
+    @InjectRepository(EmailProcessingState)
+    private readonly processingStateRepository: Repository<EmailProcessingState>,
+    @InjectRepository(UserSettings)
+    private readonly userSettingsRepository: Repository<UserSettings>,
+    private readonly emailAnalysisService: EmailAnalysisService,
     private readonly qdrantService: QdrantService,
+    private readonly kafkaService: KafkaService,
+    private readonly mailboxEventsService: MailboxEventsService,
   ) {}
 
   /**
    * Process emails: summarize, extract metadata, and store in Qdrant
+   * Emails that are done, dead-lettered, waiting for a retry or processed by
+   * another worker are skipped
    */
   async processEmails(emailIds: number[]): Promise<void> {
     console.log(`Processing ${emailIds.length} emails with AI...`);
 
     for (const emailId of emailIds) {
+      const state = await this.claimEmail(emailId);
+      if (!state) {
+        continue;
+      }
+
       try {
         await this.processEmail(emailId);
+        await this.processingStateRepository.update(
+          { id: state.id },
+          { status: ProcessingStatus.DONE, completedAt: new Date() },
+        );
       } catch (error: any) {
         console.error(`Error processing email ${emailId}:`, error.message);
-        // Continue with next email
+        await this.recordFailure(state, error.message || 'Unknown error');
       }
     }
 
     console.log(`Finished processing ${emailIds.length} emails`);
   }
 
+  /**
+   * Process emails whose retry is due
+   * Attempts that have been running for too long (process restarted mid-way)
+   * count as failed first
+   */
+  async retryDueEmails(): Promise<number> {
+    const stale = await this.processingStateRepository.find({
+      where: {
+        status: ProcessingStatus.PROCESSING,
+        startedAt: LessThan(new Date(Date.now() - this.STALE_PROCESSING_MS)),
+      },
+    });
+    for (const state of stale) {
+      await this.recordFailure(state, 'Processing was interrupted');
+    }
+
+    const due = await this.processingStateRepository.find({
+      where: {
+        status: ProcessingStatus.PENDING,
+        nextAttemptAt: LessThanOrEqual(new Date()),
+      },
+      order: { nextAttemptAt: 'ASC' },
+      take: this.RETRY_BATCH_SIZE,
+    });
+    if (due.length === 0) {
+      return 0;
+    }
+
+    await this.processEmails(due.map((state) => state.emailRawId));
+    return due.length;
+  }
+
+  /**
+   * Processing states with a status (admin), most recently changed first
+   */
+  async listProcessingStates(
+    status: string,
+    page: number,
+    limit: number,
+  ): Promise<{ emails: any[]; total: number; page: number; limit: number }> {
+    const [states, total] = await this.processingStateRepository
+      .createQueryBuilder('state')
+      .leftJoin('state.emailRaw', 'email')
+      .addSelect([
+        'email.id',
+        'email.userId',
+        'email.subject',
+        'email.from',
+        'email.receivedAt',
+      ])
+      .where('state.status = :status', { status })
+      .orderBy('state.updatedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      emails: states.map((state) => ({
+        emailId: state.emailRawId,
+        userId: state.emailRaw?.userId,
+        subject: state.emailRaw?.subject,
+        from: state.emailRaw?.from,
+        receivedAt: state.emailRaw?.receivedAt,
+        status: state.status,
+        attempts: state.attempts,
+        lastError: state.lastError,
+        nextAttemptAt: state.nextAttemptAt,
+        startedAt: state.startedAt,
+        completedAt: state.completedAt,
+        deadLetteredAt: state.deadLetteredAt,
+        updatedAt: state.updatedAt,
+      })),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Number of emails per processing status (admin)
+   */
+  async getProcessingCounts(): Promise<Record<string, number>> {
+    const rows = await this.processingStateRepository
+      .createQueryBuilder('state')
+      .select('state.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('state.status')
+      .getRawMany<{ status: string; count: string }>();
+
+    const counts: Record<string, number> = {};
+    for (const status of Object.values(ProcessingStatus)) {
+      counts[status] = 0;
+    }
+    for (const row of rows) {
+      counts[row.status] = Number(row.count);
+    }
+    return counts;
+  }
+
+  /**
+   * Give failed (dead-lettered) emails a new set of attempts (admin)
+   * Without emailIds every failed email is re-queued
+   */
+  async requeueFailedEmails(emailIds?: number[]): Promise<number> {
+    const query = this.processingStateRepository
+      .createQueryBuilder('state')
+      .innerJoin('state.emailRaw', 'email')
+      .addSelect(['email.id', 'email.userId'])
+      .where('state.status = :status', { status: ProcessingStatus.FAILED });
+    if (emailIds?.length) {
+      query.andWhere('state.emailRawId IN (:...emailIds)', { emailIds });
+    }
+
+    const states = await query.getMany();
+    if (states.length === 0) {
+      return 0;
+    }
+
+    await this.processingStateRepository.update(
+      { id: In(states.map((state) => state.id)) },
+      {
+        status: ProcessingStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        deadLetteredAt: null,
+      },
+    );
+
+    // Back into the pipeline like freshly fetched mail; the retry scheduler
+    // picks them up as well should Kafka be unavailable
+    const emailIdsByUser = new Map<number, number[]>();
+    for (const state of states) {
+      const userId = state.emailRaw.userId;
+      emailIdsByUser.set(userId, [
+        ...(emailIdsByUser.get(userId) || []),
+        state.emailRawId,
+      ]);
+    }
+    for (const [userId, userEmailIds] of emailIdsByUser) {
+      try {
+        await this.kafkaService.publishEmailFetchedEvent(userId, userEmailIds);
+      } catch (error: any) {
+        console.error(
+          `Failed to re-queue emails of user ${userId}:`,
+          error.message,
+        );
+      }
+    }
+
+    return states.length;
+  }
+
+  /**
+   * Take an email for processing (creates its state on first sight)
+   * Returns null when it must not be processed now
+   */
+  private async claimEmail(
+    emailId: number,
+  ): Promise<EmailProcessingState | null> {
+    const exists = await this.emailRawRepository.exists({
+      where: { id: emailId },
+    });
+    if (!exists) {
+      console.warn(`Email ${emailId} not found`);
+      return null;
+    }
+
+    await this.processingStateRepository
+      .createQueryBuilder()
+      .insert()
+      .into(EmailProcessingState)
+      .values({
+        emailRawId: emailId,
+        status: ProcessingStatus.PENDING,
+        nextAttemptAt: new Date(),
+      })
+      .orIgnore()
+      .execute();
+
+    // Atomic, so concurrent consumers and the retry scheduler never both win
+    const result = await this.processingStateRepository.update(
+      {
+        emailRawId: emailId,
+        status: ProcessingStatus.PENDING,
+        nextAttemptAt: LessThanOrEqual(new Date()),
+      },
+      {
+        status: ProcessingStatus.PROCESSING,
+        attempts: () => 'attempts + 1',
+        startedAt: new Date(),
+      },
+    );
+    if (!result.affected) {
+      return null;
+    }
+
+    return this.processingStateRepository.findOneOrFail({
+      where: { emailRawId: emailId },
+    });
+  }
+
+  /**
+   * Schedule a retry with backoff, or dead-letter the email when out of attempts
+   */
+  private async recordFailure(
+    state: EmailProcessingState,
+    error: string,
+  ): Promise<void> {
+    if (state.attempts >= this.MAX_ATTEMPTS) {
+      await this.processingStateRepository.update(
+        { id: state.id },
+        {
+          status: ProcessingStatus.FAILED,
+          lastError: error,
+          deadLetteredAt: new Date(),
+        },
+      );
+
+      const email = await this.emailRawRepository.findOne({
+        select: ['id', 'userId'],
+        where: { id: state.emailRawId },
+      });
+      try {
+        await this.kafkaService.publishDeadLetterEvent({
+          emailId: state.emailRawId,
+          userId: email?.userId,
+          attempts: state.attempts,
+          error,
+        });
+      } catch {
+        // Already logged; the email stays failed and can be re-queued
+      }
+      return;
+    }
+
+    const delayMs = Math.min(
+      this.RETRY_BASE_DELAY_MS * 2 ** Math.max(0, state.attempts - 1),
+      this.RETRY_MAX_DELAY_MS,
+    );
+    await this.processingStateRepository.update(
+      { id: state.id },
+      {
+        status: ProcessingStatus.PENDING,
+        lastError: error,
+        nextAttemptAt: new Date(Date.now() + delayMs),
+      },
+    );
+  }
+
   /**
    * Process a single email
+   * Steps finished by an earlier attempt are skipped; any error fails the attempt
+   * Without notify no SUMMARY_READY event is emitted, so rules are not applied
    */
-  private async processEmail(emailId: number): Promise<void> {
+  private async processEmail(emailId: number, notify = true): Promise<void> {
     // Get email from database
     const email = await this.emailRawRepository.findOne({
       where: { id: emailId },
@@ -55,38 +348,175 @@ export class AIProcessorService {
       return;
     }
 
-    // Check if already processed
-    const existingSummary = await this.emailSummaryRepository.findOne({
+    let summary = await this.emailSummaryRepository.findOne({
+      where: { emailRawId: emailId },
+    });
+    const metadata = await this.emailMetadataRepository.findOne({
       where: { emailRawId: emailId },
     });
 
-    if (existingSummary) {
+    // Check if already processed
+    if (summary?.qdrantId && metadata) {
       console.log(`Email ${emailId} already processed, skipping`);
       return;
     }
 
-    // Prepare email content
-    const emailContent = email.bodyText || email.bodyHtml || email.snippet || '';
-    const fullText = `${email.subject}\n\n${emailContent}`;
+    // 1. Summarize
+    if (!summary) {
+      summary = await this.runSummaryStep(email, null);
 
-    // 1. Summarize with Gemini
-    const summaryData = await this.geminiService.summarizeEmail(
+      if (notify) {
+        this.mailboxEventsService.emit(
+          email.userId,
+          MailboxEventType.SUMMARY_READY,
+          {
+            emailId,
+            summary: summary.summary,
+            category: summary.category,
+            priority: summary.priority,
+            sentiment: summary.sentiment,
+          },
+        );
+      }
+    }
+
+    // 2. Extract metadata
+    if (!metadata) {
+      await this.runMetadataStep(email, null);
+    }
+
+    // 3. Generate embedding and store in Qdrant
+    if (!summary.qdrantId) {
+      await this.runEmbeddingStep(email, summary);
+    }
+
+    console.log(`Successfully processed email ${emailId} and stored in Qdrant`);
+  }
+
+  /**
+   * Redo analysis steps of an email (reprocess jobs)
+   * With onlyOutdated a step is skipped when its result already comes from the
+   * current model and prompt version. Returns whether anything was redone.
+   * No SUMMARY_READY event: old mail must not run through the rules again
+   */
+  async reprocessEmail(
+    emailId: number,
+    steps: string[],
+    onlyOutdated: boolean,
+  ): Promise<boolean> {
+    const email = await this.emailRawRepository.findOne({
+      where: { id: emailId },
+    });
+    if (!email) {
+      return false;
+    }
+
+    const summary = await this.emailSummaryRepository.findOne({
+      where: { emailRawId: emailId },
+    });
+    if (!summary) {
+      // Never processed: run the whole pipeline instead, still without event
+      await this.processEmail(emailId, false);
+      return true;
+    }
+
+    let redone = false;
+
+    if (
+      steps.includes(ReprocessStep.SUMMARY) &&
+      (!onlyOutdated ||
+        summary.model !== this.emailAnalysisService.getSummaryModel() ||
+        summary.promptVersion !== SUMMARY_PROMPT_VERSION)
+    ) {
+      await this.runSummaryStep(email, summary);
+      redone = true;
+    }
+
+    if (steps.includes(ReprocessStep.METADATA)) {
+      const metadata = await this.emailMetadataRepository.findOne({
+        where: { emailRawId: emailId },
+      });
+      if (
+        !onlyOutdated ||
+        !metadata ||
+        metadata.model !== this.emailAnalysisService.getMetadataModel() ||
+        metadata.promptVersion !== METADATA_PROMPT_VERSION
+      ) {
+        await this.runMetadataStep(email, metadata);
+        redone = true;
+      }
+    }
+
+    if (
+      steps.includes(ReprocessStep.EMBEDDING) &&
+      (!onlyOutdated ||
+        !summary.qdrantId ||
+        !summary.chunkCount || // Single vector from before chunking
+        summary.embeddingModel !==
+          this.emailAnalysisService.getEmbeddingModel())
+    ) {
+      await this.runEmbeddingStep(email, summary);
+      redone = true;
+    }
+
+    return redone;
+  }
+
+  /**
+   * Summarize with the chat model; replaces the existing summary if given
+   */
+  private async runSummaryStep(
+    email: EmailRaw,
+    existing: EmailSummary | null,
+  ): Promise<EmailSummary> {
+    const summaryData = await this.emailAnalysisService.summarizeEmail(
       email.subject,
-      emailContent,
+      this.getEmailContent(email),
       email.from || '',
+      await this.getUserCategories(email.userId),
     );
 
-    // 2. Extract metadata
-    const metadata = await this.geminiService.extractMetadata(
+    return this.emailSummaryRepository.save({
+      ...(existing ||
+        this.emailSummaryRepository.create({ emailRawId: email.id })),
+      summary: summaryData.summary,
+      keyPoints: JSON.stringify(summaryData.keyPoints),
+      sentiment: summaryData.sentiment,
+      category: summaryData.category,
+      priority: summaryData.priority,
+      model: this.emailAnalysisService.getSummaryModel(),
+      promptVersion: SUMMARY_PROMPT_VERSION,
+    });
+  }
+
+  /**
+   * Categories the user files mail under (defaults without settings)
+   */
+  private async getUserCategories(userId: number): Promise<string[]> {
+    const settings = await this.userSettingsRepository.findOne({
+      where: { userId },
+    });
+    return parseCategories(settings?.aiCategories);
+  }
+
+  /**
+   * Extract metadata with the chat model; replaces the existing metadata if given
+   */
+  private async runMetadataStep(
+    email: EmailRaw,
+    existing: EmailMetadata | null,
+  ): Promise<void> {
+    const emailContent = this.getEmailContent(email);
+    const metadata = await this.emailAnalysisService.extractMetadata(
       email.subject,
       emailContent,
     );
 
-    // 3. Calculate word count and reading time
-    const wordCount = fullText.split(/\s+/).length;
+    // Calculate word count and reading time
+    const wordCount = `${email.subject}\n\n${emailContent}`.split(/\s+/).length;
     const readingTime = Math.ceil(wordCount / 200); // Average reading speed: 200 words/min
 
-    // 4. Check for attachments
+    // Check for attachments
     let hasAttachment = false;
     let attachmentTypes: string[] = [];
     try {
@@ -102,21 +532,9 @@ export class AIProcessorService {
       // Ignore parsing errors
     }
 
-    // 5. Save summary
-    const emailSummary = this.emailSummaryRepository.create({
-      emailRawId: emailId,
-      summary: summaryData.summary,
-      keyPoints: JSON.stringify(summaryData.keyPoints),
-      sentiment: summaryData.sentiment,
-      category: summaryData.category,
-      priority: summaryData.priority,
-    });
-
-    const savedSummary = await this.emailSummaryRepository.save(emailSummary);
-
-    // 6. Save metadata
-    const emailMetadata = this.emailMetadataRepository.create({
-      emailRawId: emailId,
+    await this.emailMetadataRepository.save({
+      ...(existing ||
+        this.emailMetadataRepository.create({ emailRawId: email.id })),
       entities: JSON.stringify(metadata.entities),
       topics: JSON.stringify(metadata.topics),
       language: metadata.language,
@@ -125,45 +543,65 @@ export class AIProcessorService {
       tags: JSON.stringify(metadata.tags),
       actionItems: JSON.stringify(metadata.actionItems),
       hasAttachment,
-      attachmentTypes: attachmentTypes.length > 0 ? JSON.stringify(attachmentTypes) : null,
+      attachmentTypes:
+        attachmentTypes.length > 0 ? JSON.stringify(attachmentTypes) : null,
+      model: this.emailAnalysisService.getMetadataModel(),
+      promptVersion: METADATA_PROMPT_VERSION,
     });
+  }
 
-    await this.emailMetadataRepository.save(emailMetadata);
-
-    // 7. Generate embedding and store in Qdrant
-    // Use subject + actual email content for semantic search (not AI summary)
-    try {
-      const embeddingText = `${email.subject || ''}\n\n${emailContent}`.trim();
-      
-      const embedding = await this.geminiService.generateEmbedding(embeddingText);
+  /**
+   * Embed the email as chunks and store their vectors in Qdrant (replaces
+   * existing ones). Uses subject + cleaned email content for semantic search
+   * (not the AI summary)
+   */
+  private async runEmbeddingStep(
+    email: EmailRaw,
+    summary: EmailSummary,
+  ): Promise<void> {
+    const embedding = await this.emailAnalysisService.embedEmail(
+      email.subject || '',
+      this.getEmailContent(email),
+    );
 
-      if (!embedding || embedding.length === 0) {
-        throw new Error('Failed to generate embedding');
-      }
+    if (embedding.chunks.some((chunk) => !chunk.values?.length)) {
+      throw new Error('Failed to generate embedding');
+    }
 
-      const qdrantId = await this.qdrantService.storeEmailEmbedding(
-        emailId,
-        embedding,
-        {
-          emailRawId: emailId,
-          subject: email.subject || '',
-          content: emailContent || '',
-          from: email.from || '',
-          fromName: email.fromName || '',
-          userId: email.userId,
-        },
-      );
+    const qdrantId = await this.qdrantService.storeEmailChunks(
+      email.id,
+      embedding.chunks,
+      {
+        subject: email.subject || '',
+        from: email.from || '',
+        fromName: email.fromName || '',
+        userId: email.userId,
+        embeddingModel: embedding.model,
+      },
+    );
 
-      // Update summary with Qdrant ID
-      savedSummary.qdrantId = qdrantId;
-      await this.emailSummaryRepository.save(savedSummary);
+    // Update summary with Qdrant ID
+    summary.qdrantId = qdrantId;
+    summary.embeddingModel = embedding.model;
+    summary.chunkCount = embedding.chunks.length;
+    summary.embeddedAt = new Date();
+    await this.emailSummaryRepository.update(
+      { id: summary.id },
+      {
+        qdrantId,
+        embeddingModel: embedding.model,
+        chunkCount: summary.chunkCount,
+        embeddedAt: summary.embeddedAt,
+      },
+    );
+  }
 
-      console.log(`Successfully processed email ${emailId} and stored in Qdrant`);
-    } catch (error: any) {
-      console.error(`Failed to store embedding for email ${emailId}:`, error.message);
-      console.error('Error stack:', error.stack);
-      // Continue even if Qdrant fails - email summary and metadata are already saved
-    }
+  /**
+   * Email text for the models: HTML converted, quoted replies and
+   * signature removed
+   */
+  private getEmailContent(email: EmailRaw): string {
+    return cleanEmailText(email);
   }
 
   /**
@@ -0,0 +1,320 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { AIProcessorService } from './ai-processor.service';
+import {
+  AIReprocessJob,
+  ReprocessStatus,
+  ReprocessStep,
+} from './entities/ai-reprocess-job.entity';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+
+/**
+ * Service for reprocess jobs (redo summaries, metadata or embeddings of
+ * stored mail after a prompt or model change)
+ * Pages through the matching emails by ID and saves the cursor after every
+ * page, so an interrupted job resumes where it stopped
+ */
+@Injectable()
+export class AIReprocessService implements OnModuleInit {
+  private readonly PAGE_SIZE = 20;
+  private readonly EMAIL_DELAY_MS = 200; // Stay well below LLM rate limits
+  private activeJobs = new Set<number>(); // Jobs running in this process
+
+  constructor(
+    @InjectRepository(AIReprocessJob)
+    private readonly reprocessJobRepository: Repository<AIReprocessJob>,
+    @InjectRepository(EmailRaw)
+    private readonly emailRawRepository: Repository<EmailRaw>,
+    private readonly aiProcessorService: AIProcessorService,
+  ) {}
+
+  /**
+   * Resume jobs that were still running when the process stopped
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      const interrupted = await this.reprocessJobRepository.find({
+        where: { status: ReprocessStatus.RUNNING },
+      });
+      for (const job of interrupted) {
+        console.log(
+          `AI Reprocess Service: Resuming interrupted job ${job.id} for user ${job.userId}`,
+        );
+        this.runJob(job.id);
+      }
+    } catch (error: any) {
+      console.error('AI Reprocess Service: Failed to resume jobs:', error);
+    }
+  }
+
+  /**
+   * Start a reprocess job
+   * targetUserId null reprocesses every user's mail (admin endpoint only)
+   */
+  async startReprocess(
+    userId: number,
+    targetUserId: number | null,
+    options: {
+      steps?: string[];
+      emailIds?: number[];
+      after?: string;
+      before?: string;
+      onlyOutdated?: boolean;
+    },
+  ): Promise<any> {
+    const active = await this.reprocessJobRepository.findOne({
+      where: { userId, status: ReprocessStatus.RUNNING },
+    });
+
+    if (active) {
+      throw new Error(
+        `Reprocess job ${active.id} is already running. Wait for it or cancel it first.`,
+      );
+    }
+
+    const steps = options.steps?.length
+      ? Array.from(new Set(options.steps))
+      : Object.values(ReprocessStep);
+    const validSteps = Object.values(ReprocessStep) as string[];
+    const invalid = steps.filter((step) => !validSteps.includes(step));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid reprocess steps: ${invalid.join(', ')}`);
+    }
+
+    const after = options.after ? new Date(options.after) : null;
+    const before = options.before ? new Date(options.before) : null;
+    if (after && before && after >= before) {
+      throw new Error('"after" must be earlier than "before"');
+    }
+
+    const job = this.reprocessJobRepository.create({
+      userId,
+      targetUserId,
+      status: ReprocessStatus.RUNNING,
+      steps: JSON.stringify(steps),
+      emailIds: options.emailIds?.length
+        ? JSON.stringify(Array.from(new Set(options.emailIds)))
+        : null,
+      after,
+      before,
+      onlyOutdated: options.onlyOutdated ?? true,
+    });
+
+    job.totalCount = await this.buildEmailQuery(job).getCount();
+    if (job.totalCount === 0) {
+      throw new Error('No emails match the reprocess scope');
+    }
+
+    const saved = await this.reprocessJobRepository.save(job);
+
+    this.runJob(saved.id);
+
+    return this.formatJob(saved);
+  }
+
+  /**
+   * Cancel a running job after the email in progress
+   */
+  async cancelReprocess(userId: number, jobId: number): Promise<any> {
+    const job = await this.findJob(userId, jobId);
+
+    if (job.status !== ReprocessStatus.RUNNING) {
+      throw new Error(`Cannot cancel a ${job.status} reprocess job`);
+    }
+
+    job.status = ReprocessStatus.CANCELLED;
+    await this.reprocessJobRepository.save(job);
+
+    return this.formatJob(job);
+  }
+
+  /**
+   * Get a job with progress
+   */
+  async getReprocessJob(userId: number, jobId: number): Promise<any> {
+    return this.formatJob(await this.findJob(userId, jobId));
+  }
+
+  /**
+   * List jobs started by a user, newest first
+   */
+  async listReprocessJobs(userId: number): Promise<any[]> {
+    const jobs = await this.reprocessJobRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      take: 20,
+    });
+
+    return jobs.map((job) => this.formatJob(job));
+  }
+
+  /**
+   * Reprocess page by page until the job completes, is cancelled or fails
+   * A failing email is counted and skipped, it does not stop the job
+   */
+  private async runJob(jobId: number): Promise<void> {
+    if (this.activeJobs.has(jobId)) {
+      return;
+    }
+    this.activeJobs.add(jobId);
+
+    try {
+      while (true) {
+        // Reload every page so cancel requests are picked up
+        const job = await this.reprocessJobRepository.findOne({
+          where: { id: jobId },
+        });
+        if (!job || job.status !== ReprocessStatus.RUNNING) {
+          return;
+        }
+
+        const page = await this.buildEmailQuery(job)
+          .andWhere('email.id > :cursor', { cursor: job.lastEmailId })
+          .orderBy('email.id', 'ASC')
+          .take(this.PAGE_SIZE)
+          .getMany();
+
+        const steps: string[] = JSON.parse(job.steps);
+        let processed = 0;
+        let skipped = 0;
+        let failed = 0;
+        let lastError: string | null = null;
+
+        for (const email of page) {
+          try {
+            const redone = await this.aiProcessorService.reprocessEmail(
+              email.id,
+              steps,
+              job.onlyOutdated,
+            );
+            if (redone) {
+              processed++;
+              await new Promise((resolve) =>
+                setTimeout(resolve, this.EMAIL_DELAY_MS),
+              );
+            } else {
+              skipped++;
+            }
+          } catch (error: any) {
+            console.error(
+              `AI Reprocess Service: Job ${jobId} failed on email ${email.id}:`,
+              error.message,
+            );
+            failed++;
+            lastError = `Email ${email.id}: ${error.message || 'Unknown error'}`;
+          }
+        }
+
+        const done = page.length < this.PAGE_SIZE;
+        await this.reprocessJobRepository.update(
+          { id: jobId },
+          {
+            lastEmailId:
+              page.length > 0 ? page[page.length - 1].id : job.lastEmailId,
+            processedCount: job.processedCount + processed,
+            skippedCount: job.skippedCount + skipped,
+            failedCount: job.failedCount + failed,
+            ...(lastError ? { lastError } : {}),
+            ...(done
+              ? { status: ReprocessStatus.COMPLETED, completedAt: new Date() }
+              : {}),
+          },
+        );
+
+        if (done) {
+          console.log(
+            `AI Reprocess Service: Job ${jobId} completed (${job.processedCount + processed} emails reprocessed)`,
+          );
+          return;
+        }
+      }
+    } catch (error: any) {
+      console.error(`AI Reprocess Service: Job ${jobId} failed:`, error);
+      await this.reprocessJobRepository.update(
+        { id: jobId },
+        {
+          status: ReprocessStatus.FAILED,
+          lastError: error.message || 'Unknown error',
+        },
+      );
+    } finally {
+      this.activeJobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Emails in the scope of a job (user, date range, email IDs)
+   */
+  private buildEmailQuery(job: AIReprocessJob): SelectQueryBuilder<EmailRaw> {
+    const query = this.emailRawRepository
+      .createQueryBuilder('email')
+      .select(['email.id']);
+
+    if (job.targetUserId) {
+      query.andWhere('email.userId = :userId', { userId: job.targetUserId });
+    }
+    if (job.emailIds) {
+      query.andWhere('email.id IN (:...emailIds)', {
+        emailIds: JSON.parse(job.emailIds),
+      });
+    }
+    if (job.after) {
+      query.andWhere('email.receivedAt >= :after', { after: job.after });
+    }
+    if (job.before) {
+      query.andWhere('email.receivedAt < :before', { before: job.before });
+    }
+
+    return query;
+  }
+
+  private async findJob(
+    userId: number,
+    jobId: number,
+  ): Promise<AIReprocessJob> {
+    const job = await this.reprocessJobRepository.findOne({
+      where: { id: jobId, userId },
+    });
+
+    if (!job) {
+      throw new Error('Reprocess job not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * Format a job for the status endpoints
+   */
+  private formatJob(job: AIReprocessJob): any {
+    const handled = job.processedCount + job.skippedCount + job.failedCount;
+    let progress = 0;
+    if (job.status === ReprocessStatus.COMPLETED) {
+      progress = 100;
+    } else if (job.totalCount > 0) {
+      // Emails received while the job runs can push the count past the total
+      progress = Math.min(99, Math.round((handled / job.totalCount) * 100));
+    }
+
+    return {
+      id: job.id,
+      targetUserId: job.targetUserId,
+      status: job.status,
+      steps: JSON.parse(job.steps),
+      emailIds: job.emailIds ? JSON.parse(job.emailIds) : null,
+      after: job.after,
+      before: job.before,
+      onlyOutdated: job.onlyOutdated,
+      totalCount: job.totalCount,
+      processedCount: job.processedCount,
+      skippedCount: job.skippedCount,
+      failedCount: job.failedCount,
+      progress,
+      lastError: job.lastError,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+    };
+  }
+}
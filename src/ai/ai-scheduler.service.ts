@@ -0,0 +1,54 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { AIProcessorService } from './ai-processor.service';
+
+/**
+ * Scheduled service to retry failed AI processing
+ * Runs every 30 seconds to process emails whose retry is due
+ */
+@Injectable()
+export class AISchedulerService implements OnModuleInit, OnModuleDestroy {
+  private intervalId: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly RETRY_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+  constructor(private readonly aiProcessorService: AIProcessorService) {}
+
+  /**
+   * Start the scheduler when module initializes
+   */
+  async onModuleInit(): Promise<void> {
+    this.intervalId = setInterval(() => {
+      this.retryDueEmails();
+    }, this.RETRY_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the scheduler when module destroys
+   */
+  async onModuleDestroy(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+    }
+  }
+
+  /**
+   * Retry due emails; a run is skipped while the previous one is still busy
+   */
+  private async retryDueEmails(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const count = await this.aiProcessorService.retryDueEmails();
+      if (count > 0) {
+        console.log(`AI Scheduler Service: Retried ${count} emails`);
+      }
+    } catch (error: any) {
+      console.error('AI Scheduler Service: Retry failed:', error.message);
+    } finally {
+      this.running = false;
+    }
+  }
+}
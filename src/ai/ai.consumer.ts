@@ -1,16 +1,23 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { Kafka, Consumer, EachMessagePayload, logLevel } from 'kafkajs';
 import { AIProcessorService } from './ai-processor.service';
+import { KafkaService } from '../kafka/kafka.service';
 
 /**
  * Kafka consumer for AI processing
+ * Unreadable messages go to the dead-letter topic; other errors are thrown so
+ * Kafka redelivers the message (per-email failures are retried by
+ * AIProcessorService itself)
  */
 @Injectable()
 export class AIConsumer implements OnModuleInit, OnModuleDestroy {
   private kafka: Kafka;
   private consumer: Consumer;
 
-  constructor(private readonly aiProcessorService: AIProcessorService) {
+  constructor(
+    private readonly aiProcessorService: AIProcessorService,
+    private readonly kafkaService: KafkaService,
+  ) {
     this.kafka = new Kafka({
       clientId: 'ai-processor',
       brokers: process.env.KAFKA_BROKERS?.split(',') || ['localhost:9092'],
@@ -51,24 +58,37 @@ export class AIConsumer implements OnModuleInit, OnModuleDestroy {
    * Handle incoming Kafka message
    */
   private async handleMessage(payload: EachMessagePayload): Promise<void> {
-    try {
-      const message = payload.message;
-      if (!message.value) {
-        console.warn('Received empty message');
-        return;
-      }
+    const message = payload.message;
+    if (!message.value) {
+      console.warn('Received empty message');
+      return;
+    }
 
+    let userId: number;
+    let emailIds: number[];
+    try {
       const data = JSON.parse(message.value.toString());
-      const { userId, emailIds } = data;
-
-      console.log(`Received email fetch event: user ${userId}, ${emailIds.length} emails`);
-
-      // Process emails with AI
-      await this.aiProcessorService.processEmails(emailIds);
+      userId = data.userId;
+      emailIds = data.emailIds;
+      if (!Array.isArray(emailIds)) {
+        throw new Error('emailIds is missing');
+      }
     } catch (error: any) {
-      console.error('Error processing Kafka message:', error);
-      // Don't throw - let Kafka handle retries
+      // Redelivering cannot fix the message
+      console.error('Unreadable Kafka message:', error.message);
+      await this.kafkaService.publishDeadLetterEvent({
+        error: `Unreadable message: ${error.message}`,
+        message: message.value.toString(),
+      });
+      return;
     }
+
+    console.log(
+      `Received email fetch event: user ${userId}, ${emailIds.length} emails`,
+    );
+
+    // Process emails with AI (throws only when the processing state cannot be stored)
+    await this.aiProcessorService.processEmails(emailIds);
   }
 
   /**
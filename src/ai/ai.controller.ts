@@ -17,10 +17,13 @@ import {
   ApiBearerAuth,
   ApiQuery,
   ApiBody,
+  ApiParam,
 } from '@nestjs/swagger';
 import { AIProcessorService } from './ai-processor.service';
 import { QdrantService } from './qdrant.service';
-import { GeminiService } from './gemini.service';
+import { EmailAnalysisService } from './email-analysis.service';
+import { AIReprocessService } from './ai-reprocess.service';
+import { ReprocessEmailsDto } from './dto/reprocess-emails.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { TBaseDTO } from '../common/dto/base.dto';
 import { GGJParseIntPipe } from '../common/pipes/parse-int.pipe';
@@ -36,7 +39,8 @@ export class AIController {
   constructor(
     private readonly aiProcessorService: AIProcessorService,
     private readonly qdrantService: QdrantService,
-    private readonly geminiService: GeminiService,
+    private readonly emailAnalysisService: EmailAnalysisService,
+    private readonly aiReprocessService: AIReprocessService,
   ) {}
 
   /**
@@ -79,7 +83,8 @@ export class AIController {
       }
 
       // Generate embedding for query
-      const queryEmbedding = await this.geminiService.generateEmbedding(query);
+      const queryEmbedding =
+        await this.emailAnalysisService.generateEmbedding(query);
 
       // Search in Qdrant
       const qdrantResults = await this.qdrantService.searchSimilarEmails(
@@ -140,6 +145,11 @@ export class AIController {
                   : null,
               },
               relevanceScore: Math.round(result.score * 100) / 100,
+              // Best matching chunk of the email
+              passage: {
+                text: result.payload.content || '',
+                chunkIndex: result.payload.chunkIndex ?? 0,
+              },
             };
           }),
       );
@@ -209,5 +219,127 @@ export class AIController {
       );
     }
   }
+
+  /**
+   * Start a job redoing the AI analysis of the user's stored mail
+   */
+  @Post('reprocess')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reprocess stored emails',
+    description:
+      'Redoes summaries, metadata and/or embeddings in the background, for all mail or a date range / email IDs. ' +
+      'By default only results from an older model or prompt version are redone.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reprocess job started',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async startReprocess(
+    @Request() req: any,
+    @Body() reprocessEmailsDto: ReprocessEmailsDto,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const job = await this.aiReprocessService.startReprocess(
+        userId,
+        userId,
+        reprocessEmailsDto,
+      );
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to start reprocessing',
+      );
+    }
+  }
+
+  /**
+   * List reprocess jobs started by the user
+   */
+  @Get('reprocess')
+  @ApiOperation({ summary: 'List reprocess jobs with progress' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reprocess jobs retrieved successfully',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listReprocessJobs(@Request() req: any): Promise<TBaseDTO<any[]>> {
+    try {
+      const userId = req.user.userId;
+      const jobs = await this.aiReprocessService.listReprocessJobs(userId);
+      return new TBaseDTO<any[]>(jobs);
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to list reprocess jobs',
+      );
+    }
+  }
+
+  /**
+   * Get a reprocess job with progress
+   */
+  @Get('reprocess/:id')
+  @ApiOperation({ summary: 'Get progress of a reprocess job' })
+  @ApiParam({ name: 'id', description: 'Reprocess job ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Reprocess job retrieved successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getReprocessJob(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) jobId: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const job = await this.aiReprocessService.getReprocessJob(userId, jobId);
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to get reprocess job',
+      );
+    }
+  }
+
+  /**
+   * Cancel a running reprocess job (already redone emails keep their results)
+   */
+  @Post('reprocess/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a reprocess job' })
+  @ApiParam({ name: 'id', description: 'Reprocess job ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Reprocess job cancelled',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelReprocess(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) jobId: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const job = await this.aiReprocessService.cancelReprocess(userId, jobId);
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to cancel reprocess job',
+      );
+    }
+  }
 }
 
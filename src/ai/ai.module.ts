@@ -1,21 +1,47 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { GeminiService } from './gemini.service';
+import { EmailAnalysisService } from './email-analysis.service';
 import { QdrantService } from './qdrant.service';
 import { AIProcessorService } from './ai-processor.service';
 import { AIConsumer } from './ai.consumer';
 import { AIController } from './ai.controller';
+import { AIAdminController } from './ai-admin.controller';
+import { AISchedulerService } from './ai-scheduler.service';
+import { AIReprocessService } from './ai-reprocess.service';
 import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { UserSettings } from '../gmail/entities/user-settings.entity';
 import { EmailSummary } from './entities/email-summary.entity';
 import { EmailMetadata } from './entities/email-metadata.entity';
+import { EmailProcessingState } from './entities/email-processing-state.entity';
+import { AIReprocessJob } from './entities/ai-reprocess-job.entity';
+import { EventsModule } from '../events/events.module';
+import { KafkaModule } from '../kafka/kafka.module';
+import { LlmModule } from './llm/llm.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([EmailRaw, EmailSummary, EmailMetadata]),
+    TypeOrmModule.forFeature([
+      EmailRaw,
+      EmailSummary,
+      EmailMetadata,
+      EmailProcessingState,
+      AIReprocessJob,
+      UserSettings,
+    ]),
+    EventsModule,
+    KafkaModule,
+    LlmModule,
   ],
-  controllers: [AIController],
-  providers: [GeminiService, QdrantService, AIProcessorService, AIConsumer],
-  exports: [GeminiService, QdrantService, AIProcessorService],
+  controllers: [AIController, AIAdminController],
+  providers: [
+    EmailAnalysisService,
+    QdrantService,
+    AIProcessorService,
+    AIConsumer,
+    AISchedulerService,
+    AIReprocessService,
+  ],
+  exports: [EmailAnalysisService, QdrantService, AIProcessorService],
 })
 export class AIModule {}
 
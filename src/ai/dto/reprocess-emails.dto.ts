@@ -0,0 +1,80 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+} from 'class-validator';
+import { ReprocessStep } from '../entities/ai-reprocess-job.entity';
+
+/**
+ * DTO for starting a reprocess job on the current user's mail
+ */
+export class ReprocessEmailsDto {
+  @ApiProperty({
+    description: 'Steps to redo (default: all)',
+    enum: ReprocessStep,
+    isArray: true,
+    example: ['summary'],
+    required: false,
+  })
+  @IsArray()
+  @IsOptional()
+  @IsEnum(ReprocessStep, { each: true })
+  steps?: ReprocessStep[];
+
+  @ApiProperty({
+    description: 'Only these emails',
+    example: [12, 34],
+    type: [Number],
+    required: false,
+  })
+  @IsArray()
+  @IsOptional()
+  @IsInt({ each: true })
+  emailIds?: number[];
+
+  @ApiProperty({
+    description: 'Only emails received at or after this date (ISO 8601)',
+    example: '2026-01-01T00:00:00Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  after?: string;
+
+  @ApiProperty({
+    description: 'Only emails received before this date (ISO 8601)',
+    example: '2026-07-01T00:00:00Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  before?: string;
+
+  @ApiProperty({
+    description:
+      'Skip results that already come from the current model and prompt version (default: true)',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  onlyOutdated?: boolean;
+}
+
+/**
+ * DTO for starting a reprocess job on any user's mail (admins)
+ */
+export class AdminReprocessEmailsDto extends ReprocessEmailsDto {
+  @ApiProperty({
+    description: "User whose mail is reprocessed (default: every user's mail)",
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  userId?: number;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsInt, IsOptional } from 'class-validator';
+
+/**
+ * DTO for re-queueing failed AI processing
+ */
+export class RequeueEmailsDto {
+  @ApiProperty({
+    description: 'Failed emails to re-queue (default: all failed emails)',
+    example: [12, 34],
+    type: [Number],
+    required: false,
+  })
+  @IsArray()
+  @IsOptional()
+  @IsInt({ each: true })
+  emailIds?: number[];
+}
@@ -0,0 +1,330 @@
+import { Injectable } from '@nestjs/common';
+import { LlmService } from './llm/llm.service';
+import { LlmTask } from './llm/llm-provider.interface';
+import { chunkText } from './utils/chunk.util';
+import {
+  DEFAULT_EMAIL_CATEGORIES,
+  OTHER_CATEGORY,
+} from './utils/email-category.util';
+import {
+  LlmObjectSchema,
+  describeLlmSchema,
+} from './llm/utils/llm-schema.util';
+import { EmailPriority, EmailSentiment } from './entities/email-summary.entity';
+
+// Bump when a prompt changes, so reprocess jobs can find results of the old one
+export const SUMMARY_PROMPT_VERSION = 'summary-v3';
+export const METADATA_PROMPT_VERSION = 'metadata-v3';
+
+// Token budgets of the email text per model call
+const SUMMARY_CHUNK_TOKENS = 3000;
+const MAX_SUMMARY_CHUNKS = 10; // Later parts of very long mail are left out
+const METADATA_CHUNK_TOKENS = 3000;
+const MAX_METADATA_CHUNKS = 5;
+const EMBEDDING_CHUNK_TOKENS = 400;
+const EMBEDDING_OVERLAP_TOKENS = 50;
+const MAX_EMBEDDING_CHUNKS = 40;
+
+export interface EmailSummaryResult {
+  summary: string;
+  keyPoints: string[];
+  sentiment: EmailSentiment;
+  category: string; // One of the categories passed to summarizeEmail
+  priority: EmailPriority;
+}
+
+export interface EmailMetadataResult {
+  entities: string[];
+  topics: string[];
+  language: string;
+  actionItems: string[];
+  tags: string[];
+}
+
+export interface EmailEmbeddingChunk {
+  index: number;
+  text: string; // Passage shown for search hits
+  values: number[];
+}
+
+// Answer schemas; the category list differs per user
+const summarySchema = (categories: readonly string[]): LlmObjectSchema => ({
+  properties: {
+    summary: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 1000,
+      description: '2-3 sentences',
+    },
+    keyPoints: {
+      type: 'array',
+      items: { type: 'string', minLength: 1, maxLength: 300 },
+      maxItems: 10,
+    },
+    sentiment: { type: 'string', enum: Object.values(EmailSentiment) },
+    category: { type: 'string', enum: categories },
+    priority: { type: 'string', enum: Object.values(EmailPriority) },
+  },
+});
+
+const metadataList = (description: string) => ({
+  type: 'array' as const,
+  items: { type: 'string' as const, minLength: 1, maxLength: 200, description },
+  maxItems: 20,
+});
+
+const METADATA_SCHEMA: LlmObjectSchema = {
+  properties: {
+    entities: metadataList('people, organizations or locations'),
+    topics: metadataList('topic'),
+    language: {
+      type: 'string',
+      pattern: /^[a-z]{2}$/,
+      description: 'ISO 639-1 code such as "en"',
+    },
+    actionItems: metadataList('task mentioned in the email'),
+    tags: metadataList('tag'),
+  },
+};
+
+const EMPTY_METADATA: EmailMetadataResult = {
+  entities: [],
+  topics: [],
+  language: 'en',
+  actionItems: [],
+  tags: [],
+};
+
+/**
+ * Service for the email analysis prompts (summary, metadata, embedding)
+ * Expects cleaned email text (see cleanEmailText); long mail is split into
+ * chunks. Providers and models are chosen per task by LlmService
+ */
+@Injectable()
+export class EmailAnalysisService {
+  constructor(private readonly llmService: LlmService) {}
+
+  /**
+   * Model summaries are written with
+   */
+  getSummaryModel(): string {
+    return this.llmService.getModel(LlmTask.SUMMARIZE);
+  }
+
+  /**
+   * Model metadata is extracted with
+   */
+  getMetadataModel(): string {
+    return this.llmService.getModel(LlmTask.EXTRACT);
+  }
+
+  /**
+   * Embedding model new embeddings are generated with
+   */
+  getEmbeddingModel(): string {
+    return this.llmService.getModel(LlmTask.EMBED);
+  }
+
+  /**
+   * Summarize email content and file it under one of the given categories
+   * Long mail is map-reduced: every chunk is condensed to notes first, and
+   * the summary is written from the notes
+   */
+  async summarizeEmail(
+    subject: string,
+    body: string,
+    from: string,
+    categories: readonly string[] = DEFAULT_EMAIL_CATEGORIES,
+  ): Promise<EmailSummaryResult> {
+    try {
+      const chunks = chunkText(body, { maxTokens: SUMMARY_CHUNK_TOKENS });
+
+      let content = chunks[0]?.text || '';
+      if (chunks.length > 1) {
+        const parts = chunks.slice(0, MAX_SUMMARY_CHUNKS);
+        const notes: string[] = [];
+        for (const chunk of parts) {
+          notes.push(
+            await this.summarizeChunk(
+              subject,
+              chunk.text,
+              chunk.index + 1,
+              chunks.length,
+            ),
+          );
+        }
+        content =
+          `Notes on the email, part by part:\n\n` +
+          notes.map((note, i) => `Part ${i + 1}:\n${note}`).join('\n\n') +
+          (chunks.length > parts.length
+            ? `\n\n(${chunks.length - parts.length} later parts not included)`
+            : '');
+      }
+
+      const schema = summarySchema(
+        categories.includes(OTHER_CATEGORY)
+          ? categories
+          : [...categories, OTHER_CATEGORY],
+      );
+      const prompt = `Analyze the following email and provide:
+1. A concise summary (2-3 sentences)
+2. Key points
+3. Sentiment
+4. The category that fits best ("${OTHER_CATEGORY}" if none fits)
+5. Priority
+
+Email Subject: ${subject}
+From: ${from}
+Body: ${content}
+
+Respond with only a JSON object in this form:
+${describeLlmSchema(schema)}`;
+
+      return await this.llmService.completeJson<EmailSummaryResult>(
+        LlmTask.SUMMARIZE,
+        [{ role: 'user', content: prompt }],
+        schema,
+        { temperature: 0.7 },
+      );
+    } catch (error: any) {
+      console.error('Email summary error:', error.message);
+      throw new Error(`Failed to summarize email: ${error.message}`);
+    }
+  }
+
+  /**
+   * Extract metadata from email (empty metadata when the model fails)
+   * Long mail is extracted chunk by chunk and the lists are merged
+   */
+  async extractMetadata(
+    subject: string,
+    body: string,
+  ): Promise<EmailMetadataResult> {
+    const chunks = chunkText(body, { maxTokens: METADATA_CHUNK_TOKENS });
+    const parts = chunks.length > 0 ? chunks.map((chunk) => chunk.text) : [''];
+
+    const results: EmailMetadataResult[] = [];
+    for (const part of parts.slice(0, MAX_METADATA_CHUNKS)) {
+      try {
+        results.push(await this.extractChunkMetadata(subject, part));
+      } catch (error: any) {
+        console.error('Email metadata extraction error:', error.message);
+      }
+    }
+
+    if (results.length === 0) {
+      return { ...EMPTY_METADATA };
+    }
+
+    const merge = (lists: string[][]) => {
+      const seen = new Set<string>();
+      return lists.flat().filter((item) => {
+        const key = String(item).trim().toLowerCase();
+        if (!key || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    };
+
+    return {
+      entities: merge(results.map((result) => result.entities)),
+      topics: merge(results.map((result) => result.topics)),
+      language: results[0].language,
+      actionItems: merge(results.map((result) => result.actionItems)),
+      tags: merge(results.map((result) => result.tags)),
+    };
+  }
+
+  /**
+   * Embed an email as overlapping chunks, each prefixed with the subject
+   * All chunks share one model (see LlmService.embedMany)
+   */
+  async embedEmail(
+    subject: string,
+    body: string,
+  ): Promise<{ chunks: EmailEmbeddingChunk[]; model: string }> {
+    const chunks = chunkText(body, {
+      maxTokens: EMBEDDING_CHUNK_TOKENS,
+      overlapTokens: EMBEDDING_OVERLAP_TOKENS,
+    }).slice(0, MAX_EMBEDDING_CHUNKS);
+    const passages =
+      chunks.length > 0 ? chunks.map((chunk) => chunk.text) : [''];
+
+    const embedding = await this.llmService.embedMany(
+      passages.map((passage) => `${subject}\n\n${passage}`.trim()),
+    );
+
+    return {
+      chunks: passages.map((text, index) => ({
+        index,
+        text,
+        values: embedding.values[index],
+      })),
+      model: embedding.model,
+    };
+  }
+
+  /**
+   * Generate embedding for semantic search
+   */
+  async generateEmbedding(text: string): Promise<number[]> {
+    return (await this.llmService.embed(text)).values;
+  }
+
+  /**
+   * Generate embedding and report the model that produced it
+   * (the hash fallback embedding is not comparable with model embeddings)
+   */
+  async embedText(text: string): Promise<{ values: number[]; model: string }> {
+    return this.llmService.embed(text);
+  }
+
+  /**
+   * Map step of long summaries: condense one chunk to notes
+   */
+  private async summarizeChunk(
+    subject: string,
+    text: string,
+    part: number,
+    parts: number,
+  ): Promise<string> {
+    const prompt = `This is part ${part} of ${parts} of a long email with the subject "${subject}".
+Write concise notes on this part: facts, names, dates, amounts, decisions and requests.
+Leave out greetings and boilerplate. Answer with the notes only.
+
+${text}`;
+
+    return this.llmService.complete(
+      LlmTask.SUMMARIZE,
+      [{ role: 'user', content: prompt }],
+      { temperature: 0.3 },
+    );
+  }
+
+  private async extractChunkMetadata(
+    subject: string,
+    body: string,
+  ): Promise<EmailMetadataResult> {
+    const prompt = `Extract metadata from the following email:
+- Named entities (people, organizations, locations)
+- Topics discussed
+- Detected language
+- Action items (tasks mentioned)
+- Relevant tags
+
+Email Subject: ${subject}
+Body: ${body}
+
+Respond with only a JSON object in this form:
+${describeLlmSchema(METADATA_SCHEMA)}`;
+
+    return this.llmService.completeJson<EmailMetadataResult>(
+      LlmTask.EXTRACT,
+      [{ role: 'user', content: prompt }],
+      METADATA_SCHEMA,
+      { temperature: 0.7 },
+    );
+  }
+}
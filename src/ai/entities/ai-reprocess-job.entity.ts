@@ -0,0 +1,97 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Reprocess job status values
+ */
+export enum ReprocessStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Analysis steps a reprocess job can redo
+ */
+export enum ReprocessStep {
+  SUMMARY = 'summary',
+  METADATA = 'metadata',
+  EMBEDDING = 'embedding',
+}
+
+/**
+ * Job redoing AI analysis of stored mail (after prompt or model changes)
+ * Walks the matching emails by ID and saves the last one after every page,
+ * so an interrupted job resumes where it stopped
+ */
+@Entity('ai_reprocess_jobs')
+@Index(['userId', 'createdAt'])
+export class AIReprocessJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number; // User who started the job
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'int', nullable: true })
+  targetUserId: number; // Whose mail is reprocessed (null: all users, admins only)
+
+  @Column({ type: 'text' })
+  steps: string; // Steps to redo (JSON array as string)
+
+  @Column({ type: 'text', nullable: true })
+  emailIds: string; // Only these emails (JSON array as string)
+
+  @Column({ type: 'timestamp', nullable: true })
+  after: Date; // Received at or after
+
+  @Column({ type: 'timestamp', nullable: true })
+  before: Date; // Received before
+
+  @Column({ type: 'boolean', default: true })
+  onlyOutdated: boolean; // Skip results of the current model and prompt version
+
+  @Column({ type: 'varchar', length: 20, default: ReprocessStatus.RUNNING })
+  status: string; // running, completed, failed, cancelled
+
+  @Column({ type: 'int', default: 0 })
+  lastEmailId: number; // Cursor: emails up to this ID are done
+
+  @Column({ type: 'int', default: 0 })
+  totalCount: number; // Matching emails when the job started
+
+  @Column({ type: 'int', default: 0 })
+  processedCount: number; // Emails with at least one step redone
+
+  @Column({ type: 'int', default: 0 })
+  skippedCount: number; // Emails already up to date
+
+  @Column({ type: 'int', default: 0 })
+  failedCount: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -51,6 +51,12 @@ export class EmailMetadata {
   @Column({ type: 'text', nullable: true })
   attachmentTypes: string; // JSON array of attachment types
 
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  model: string; // Chat model that extracted the metadata (null: before versioning)
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  promptVersion: string; // METADATA_PROMPT_VERSION used
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { EmailRaw } from '../../gmail/entities/email-raw.entity';
+
+/**
+ * AI processing status values
+ */
+export enum ProcessingStatus {
+  PENDING = 'pending', // Waiting for the first attempt or a retry
+  PROCESSING = 'processing',
+  DONE = 'done',
+  FAILED = 'failed', // Out of attempts, sent to the dead-letter topic
+}
+
+/**
+ * AI processing state of an email (summary, metadata, embedding)
+ * Failed attempts are retried with backoff until the attempt limit
+ */
+@Entity('email_processing_states')
+@Index(['status', 'nextAttemptAt'])
+export class EmailProcessingState {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  emailRawId: number;
+
+  @ManyToOne(() => EmailRaw, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'emailRawId' })
+  emailRaw: EmailRaw;
+
+  @Column({ type: 'varchar', length: 20, default: ProcessingStatus.PENDING })
+  status: string; // pending, processing, done, failed
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number; // Started attempts, including interrupted ones
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ type: 'timestamp' })
+  nextAttemptAt: Date; // When a pending email may be picked up
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date; // Start of the current or last attempt
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deadLetteredAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -9,6 +9,24 @@ import {
 } from 'typeorm';
 import { EmailRaw } from '../../gmail/entities/email-raw.entity';
 
+/**
+ * Sentiment values of a summary
+ */
+export enum EmailSentiment {
+  POSITIVE = 'positive',
+  NEGATIVE = 'negative',
+  NEUTRAL = 'neutral',
+}
+
+/**
+ * Priority values of a summary
+ */
+export enum EmailPriority {
+  HIGH = 'high',
+  MEDIUM = 'medium',
+  LOW = 'low',
+}
+
 /**
  * Email summary entity
  */
@@ -30,18 +48,33 @@ export class EmailSummary {
   @Column({ type: 'text', nullable: true })
   keyPoints: string; // JSON array of key points
 
-  @Column({ type: 'text', nullable: true })
-  sentiment: string; // positive, negative, neutral
+  @Column({ type: 'enum', enum: EmailSentiment, nullable: true })
+  sentiment: EmailSentiment;
 
-  @Column({ type: 'text', nullable: true })
-  category: string; // work, personal, spam, etc.
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  category: string; // One of the user's categories (see email-category.util)
 
-  @Column({ type: 'text', nullable: true })
-  priority: string; // high, medium, low
+  @Column({ type: 'enum', enum: EmailPriority, nullable: true })
+  priority: EmailPriority;
 
   @Column({ type: 'int', nullable: true })
   qdrantId: number; // Qdrant vector ID (integer, not string)
 
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  model: string; // Chat model that wrote the summary (null: before versioning)
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  promptVersion: string; // SUMMARY_PROMPT_VERSION used
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  embeddingModel: string; // Model of the Qdrant vectors
+
+  @Column({ type: 'int', nullable: true })
+  chunkCount: number; // Qdrant points (chunks) of the email
+
+  @Column({ type: 'timestamp', nullable: true })
+  embeddedAt: Date;
+
   @CreateDateColumn()
   createdAt: Date;
 
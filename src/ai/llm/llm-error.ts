@@ -0,0 +1,37 @@
+/**
+ * Failed LLM call; retryable for rate limits, server errors, timeouts and
+ * output that did not pass validation
+ */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+/**
+ * Whether an HTTP status is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Wrap an SDK or network error; errors without a status are network errors
+ */
+export function toLlmError(provider: string, error: any): LlmError {
+  if (error instanceof LlmError) {
+    return error;
+  }
+
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  return new LlmError(
+    `${provider}: ${error?.message || 'Request failed'}`,
+    status === undefined || isRetryableStatus(status),
+    status,
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Tasks that use a language model; each has its own provider and model
+ */
+export enum LlmTask {
+  SUMMARIZE = 'summarize',
+  EXTRACT = 'extract',
+  EMBED = 'embed',
+  DRAFT = 'draft',
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  task: LlmTask;
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object (the caller still validates it)
+  signal?: AbortSignal;
+}
+
+export interface LlmEmbeddingRequest {
+  model: string;
+  text: string;
+  dimensions: number; // Requested vector size, for models that can shorten theirs
+  signal?: AbortSignal;
+}
+
+/**
+ * Chat completion and embedding API of one LLM vendor or server
+ * Errors should be LlmError, so the caller knows whether to retry
+ */
+export interface LlmProvider {
+  readonly name: string; // Value of the LLM_<TASK>_PROVIDER settings
+  complete(request: LlmCompletionRequest): Promise<string>;
+  embed(request: LlmEmbeddingRequest): Promise<number[]>;
+}
+
+export interface LlmTaskConfig {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Settings shared by every provider call
+ */
+export interface LlmOptions {
+  tasks: Record<LlmTask, LlmTaskConfig>;
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Attempts after the first one
+  retryDelayMs: number; // Doubles with every retry
+}
+
+/**
+ * Size of every stored embedding (the vector size of the Qdrant collection)
+ * Embeddings of another size are rejected and replaced by hash embeddings
+ */
+export const EMBEDDING_DIMENSIONS = 768;
+
+/**
+ * Injection token of the configured LlmProvider list
+ */
+export const LLM_PROVIDERS = 'LLM_PROVIDERS';
+
+/**
+ * Injection token of the LlmOptions
+ */
+export const LLM_OPTIONS = 'LLM_OPTIONS';
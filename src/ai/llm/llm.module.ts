@@ -0,0 +1,109 @@
+import { Module } from '@nestjs/common';
+import { LlmService } from './llm.service';
+import {
+  LLM_OPTIONS,
+  LLM_PROVIDERS,
+  LlmOptions,
+  LlmProvider,
+  LlmTask,
+  LlmTaskConfig,
+} from './llm-provider.interface';
+import { GroqLlmProvider } from './providers/groq-llm.provider';
+import { GeminiLlmProvider } from './providers/gemini-llm.provider';
+import { OpenAICompatibleLlmProvider } from './providers/openai-compatible-llm.provider';
+import { LocalLlmProvider } from './providers/local-llm.provider';
+import { FakeLlmProvider } from './providers/fake-llm.provider';
+
+/**
+ * Default chat and embedding model of each provider
+ */
+const DEFAULT_MODELS: Record<string, { chat: string; embed: string }> = {
+  groq: { chat: 'llama-3.3-70b-versatile', embed: '' },
+  gemini: { chat: 'gemini-2.0-flash', embed: 'text-embedding-004' },
+  openai: { chat: 'gpt-4o-mini', embed: 'text-embedding-3-small' },
+  local: { chat: 'llama3.1', embed: 'nomic-embed-text' },
+  fake: { chat: 'fake-chat', embed: 'fake-embedding' },
+};
+
+/**
+ * Providers with embedding models, the ones LLM_PROVIDER can set for the
+ * embed task
+ */
+const EMBEDDING_PROVIDERS = ['gemini', 'openai', 'local', 'fake'];
+
+/**
+ * Providers with credentials; local and fake need none
+ */
+function createLlmProviders(): LlmProvider[] {
+  const providers: LlmProvider[] = [
+    new LocalLlmProvider(
+      process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    ),
+    new FakeLlmProvider(),
+  ];
+
+  const groqApiKey = process.env.GROQ_API_KEY || process.env.GEMINI_API_KEY;
+  if (groqApiKey) {
+    providers.push(new GroqLlmProvider(groqApiKey));
+  }
+  if (process.env.GEMINI_API_KEY) {
+    providers.push(new GeminiLlmProvider(process.env.GEMINI_API_KEY));
+  }
+  if (process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL) {
+    providers.push(
+      new OpenAICompatibleLlmProvider(
+        'openai',
+        process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        process.env.OPENAI_API_KEY,
+      ),
+    );
+  }
+
+  return providers;
+}
+
+/**
+ * Provider per task from LLM_<TASK>_PROVIDER, then LLM_PROVIDER, then Groq
+ * (Gemini for embeddings, also when LLM_PROVIDER has no embedding models);
+ * model from LLM_<TASK>_MODEL or the provider default
+ */
+function createLlmOptions(): LlmOptions {
+  const tasks = {} as Record<LlmTask, LlmTaskConfig>;
+  for (const task of Object.values(LlmTask)) {
+    const prefix = `LLM_${task.toUpperCase()}`;
+    const sharedProvider =
+      task === LlmTask.EMBED &&
+      !EMBEDDING_PROVIDERS.includes(process.env.LLM_PROVIDER)
+        ? undefined
+        : process.env.LLM_PROVIDER;
+    const provider =
+      process.env[`${prefix}_PROVIDER`] ||
+      sharedProvider ||
+      (task === LlmTask.EMBED ? 'gemini' : 'groq');
+    const defaults = DEFAULT_MODELS[provider];
+    tasks[task] = {
+      provider,
+      model:
+        process.env[`${prefix}_MODEL`] ||
+        (task === LlmTask.EMBED ? defaults?.embed : defaults?.chat) ||
+        '',
+    };
+  }
+
+  return {
+    tasks,
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '30000', 10),
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10),
+    retryDelayMs: 1000,
+  };
+}
+
+@Module({
+  providers: [
+    { provide: LLM_PROVIDERS, useFactory: createLlmProviders },
+    { provide: LLM_OPTIONS, useFactory: createLlmOptions },
+    LlmService,
+  ],
+  exports: [LlmService],
+})
+export class LlmModule {}
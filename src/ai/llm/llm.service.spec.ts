@@ -0,0 +1,237 @@
+import { LlmService } from './llm.service';
+import { LlmError } from './llm-error';
+import { LlmOptions, LlmProvider, LlmTask } from './llm-provider.interface';
+import { FakeLlmProvider } from './providers/fake-llm.provider';
+import {
+  HASH_EMBEDDING_MODEL,
+  hashEmbedding,
+} from './utils/hash-embedding.util';
+import { LlmObjectSchema } from './utils/llm-schema.util';
+
+describe('LlmService', () => {
+  let fake: FakeLlmProvider;
+
+  const createOptions = (overrides: Partial<LlmOptions> = {}): LlmOptions => ({
+    tasks: {
+      [LlmTask.SUMMARIZE]: { provider: 'fake', model: 'fake-summary' },
+      [LlmTask.EXTRACT]: { provider: 'fake', model: 'fake-extract' },
+      [LlmTask.EMBED]: { provider: 'fake', model: 'fake-embedding' },
+      [LlmTask.DRAFT]: { provider: 'fake', model: 'fake-draft' },
+    },
+    timeoutMs: 1000,
+    maxRetries: 2,
+    retryDelayMs: 0,
+    ...overrides,
+  });
+
+  const summarySchema: LlmObjectSchema = {
+    properties: {
+      summary: { type: 'string', minLength: 1 },
+      priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+    },
+  };
+
+  beforeEach(() => {
+    fake = new FakeLlmProvider();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should call the provider and model configured for the task', async () => {
+    const service = new LlmService([fake], createOptions());
+
+    const text = await service.complete(
+      LlmTask.DRAFT,
+      [{ role: 'user', content: 'Reply politely' }],
+      { temperature: 0.2 },
+    );
+
+    expect(text).toBe('Fake draft.');
+    expect(fake.requests).toHaveLength(1);
+    expect(fake.requests[0]).toMatchObject({
+      task: LlmTask.DRAFT,
+      model: 'fake-draft',
+      temperature: 0.2,
+    });
+    expect(service.getModel(LlmTask.SUMMARIZE)).toBe('fake-summary');
+  });
+
+  it('should validate JSON output and ask for a JSON object', async () => {
+    const service = new LlmService([fake], createOptions());
+    fake.setResponse(
+      LlmTask.SUMMARIZE,
+      '```json\n{"summary": "Lunch moved to Friday.", "priority": "Low"}\n```',
+    );
+
+    const summary = await service.completeJson(
+      LlmTask.SUMMARIZE,
+      [{ role: 'user', content: 'Summarize' }],
+      summarySchema,
+    );
+
+    expect(summary).toEqual({
+      summary: 'Lunch moved to Friday.',
+      priority: 'low',
+    });
+    expect(fake.requests).toHaveLength(1);
+    expect(fake.requests[0].json).toBe(true);
+  });
+
+  it('should repair invalid output once with the validation errors', async () => {
+    const service = new LlmService([fake], createOptions());
+    const answers = [
+      '{"summary": "Ok", "priority": "urgent"}',
+      '{"summary": "Ok", "priority": "high"}',
+    ];
+    fake.setResponse(LlmTask.SUMMARIZE, () => answers.shift() as string);
+
+    const summary = await service.completeJson(
+      LlmTask.SUMMARIZE,
+      [{ role: 'user', content: 'Summarize' }],
+      summarySchema,
+    );
+
+    expect(summary).toEqual({ summary: 'Ok', priority: 'high' });
+    expect(fake.requests).toHaveLength(2);
+    const repair = fake.requests[1].messages;
+    expect(repair).toHaveLength(3);
+    expect(repair[1]).toEqual({
+      role: 'assistant',
+      content: '{"summary": "Ok", "priority": "urgent"}',
+    });
+    expect(repair[2].content).toContain(
+      '"priority" must be one of: high, medium, low',
+    );
+  });
+
+  it('should fail when the repaired output is still invalid', async () => {
+    const service = new LlmService([fake], createOptions());
+    fake.setResponse(LlmTask.SUMMARIZE, 'Sure! {"summary": "Ok"}');
+
+    await expect(
+      service.completeJson(
+        LlmTask.SUMMARIZE,
+        [{ role: 'user', content: 'Summarize' }],
+        summarySchema,
+      ),
+    ).rejects.toThrow(
+      'Invalid summarize output after repair: Answer is not valid JSON',
+    );
+    expect(fake.requests).toHaveLength(2);
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    const service = new LlmService([fake], createOptions());
+    fake.setResponse(LlmTask.DRAFT, () => {
+      throw new LlmError('fake: Invalid API key', false, 401);
+    });
+
+    await expect(
+      service.complete(LlmTask.DRAFT, [{ role: 'user', content: 'Hi' }]),
+    ).rejects.toThrow('Invalid API key');
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('should time out slow calls and abort them', async () => {
+    let signal: AbortSignal | undefined;
+    const slow: LlmProvider = {
+      name: 'fake',
+      complete: (request) => {
+        signal = request.signal;
+        return new Promise(() => undefined);
+      },
+      embed: async () => [],
+    };
+    const service = new LlmService(
+      [slow],
+      createOptions({ timeoutMs: 10, maxRetries: 0 }),
+    );
+
+    await expect(
+      service.complete(LlmTask.DRAFT, [{ role: 'user', content: 'Hi' }]),
+    ).rejects.toThrow('Timed out after 10 ms');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should fail when the task provider is not configured', async () => {
+    const options = createOptions();
+    options.tasks[LlmTask.SUMMARIZE] = { provider: 'groq', model: 'llama' };
+    const service = new LlmService([fake], options);
+
+    await expect(
+      service.complete(LlmTask.SUMMARIZE, [{ role: 'user', content: 'Hi' }]),
+    ).rejects.toThrow('LLM provider "groq" for summarize is not configured');
+  });
+
+  it('should embed with the provider and fall back to hash embeddings', async () => {
+    const service = new LlmService([fake], createOptions());
+    await expect(service.embed('quarterly report')).resolves.toEqual({
+      values: hashEmbedding('quarterly report'),
+      model: 'fake-embedding',
+    });
+
+    const options = createOptions();
+    options.tasks[LlmTask.EMBED] = {
+      provider: 'gemini',
+      model: 'gemini-embed',
+    };
+    const fallback = new LlmService([fake], options);
+    expect(fallback.getModel(LlmTask.EMBED)).toBe(HASH_EMBEDDING_MODEL);
+    await expect(fallback.embed('quarterly report')).resolves.toEqual({
+      values: hashEmbedding('quarterly report'),
+      model: HASH_EMBEDDING_MODEL,
+    });
+  });
+
+  it('should fall back to hash embeddings for every chunk when one fails', async () => {
+    let calls = 0;
+    const flaky: LlmProvider = {
+      name: 'fake',
+      complete: async () => '',
+      embed: async () => {
+        calls++;
+        if (calls === 2) {
+          throw new LlmError('fake: Bad request', false, 400);
+        }
+        return [1, 0];
+      },
+    };
+    const service = new LlmService([flaky], createOptions());
+
+    await expect(service.embedMany(['first', 'second'])).resolves.toEqual({
+      values: [hashEmbedding('first'), hashEmbedding('second')],
+      model: HASH_EMBEDDING_MODEL,
+    });
+  });
+
+  it('should reject embeddings that do not fit the collection', async () => {
+    let dimensions: number | undefined;
+    const wide: LlmProvider = {
+      name: 'fake',
+      complete: async () => '',
+      embed: async (request) => {
+        dimensions = request.dimensions;
+        return new Array(1536).fill(0.1);
+      },
+    };
+    const service = new LlmService([wide], createOptions());
+
+    await expect(service.embed('quarterly report')).resolves.toEqual({
+      values: hashEmbedding('quarterly report'),
+      model: HASH_EMBEDDING_MODEL,
+    });
+    expect(dimensions).toBe(768);
+  });
+
+  it('should use hash embeddings when the provider has no embedding model', () => {
+    const options = createOptions();
+    options.tasks[LlmTask.EMBED] = { provider: 'fake', model: '' };
+    const service = new LlmService([fake], options);
+
+    expect(service.getModel(LlmTask.EMBED)).toBe(HASH_EMBEDDING_MODEL);
+  });
+});
@@ -0,0 +1,273 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  EMBEDDING_DIMENSIONS,
+  LLM_OPTIONS,
+  LLM_PROVIDERS,
+  LlmMessage,
+  LlmOptions,
+  LlmProvider,
+  LlmTask,
+} from './llm-provider.interface';
+import { LlmError, toLlmError } from './llm-error';
+import {
+  HASH_EMBEDDING_MODEL,
+  hashEmbedding,
+} from './utils/hash-embedding.util';
+import {
+  LlmObjectSchema,
+  describeLlmSchema,
+  parseLlmJson,
+} from './utils/llm-schema.util';
+
+/**
+ * Service running LLM tasks on the provider and model configured per task
+ * Every call gets the same timeout and retries; JSON completions are
+ * validated against a schema (see completeJson)
+ */
+@Injectable()
+export class LlmService {
+  private readonly providers = new Map<string, LlmProvider>();
+
+  constructor(
+    @Inject(LLM_PROVIDERS) providers: LlmProvider[],
+    @Inject(LLM_OPTIONS) private readonly options: LlmOptions,
+  ) {
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+    }
+
+    for (const task of Object.values(LlmTask)) {
+      const config = options.tasks[task];
+      if (!this.providers.has(config.provider)) {
+        console.warn(
+          `LLM Service: Provider "${config.provider}" for ${task} is not configured`,
+        );
+      } else if (task === LlmTask.EMBED && !config.model) {
+        console.warn(
+          `LLM Service: Provider "${config.provider}" has no embedding model`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Model new results of a task come from (recorded with the results)
+   */
+  getModel(task: LlmTask): string {
+    if (task === LlmTask.EMBED && !this.canEmbed()) {
+      return HASH_EMBEDDING_MODEL;
+    }
+    return this.options.tasks[task].model;
+  }
+
+  /**
+   * Text completion
+   */
+  async complete(
+    task: LlmTask,
+    messages: LlmMessage[],
+    options: { temperature?: number; maxTokens?: number } = {},
+  ): Promise<string> {
+    return this.run(task, (provider, model, signal) =>
+      provider.complete({ task, model, messages, ...options, signal }),
+    );
+  }
+
+  /**
+   * JSON completion validated against a schema
+   * An invalid answer gets one repair pass: the model sees its answer and the
+   * validation errors and is asked for a corrected object
+   */
+  async completeJson<T>(
+    task: LlmTask,
+    messages: LlmMessage[],
+    schema: LlmObjectSchema,
+    options: { temperature?: number; maxTokens?: number } = {},
+  ): Promise<T> {
+    const answer = await this.completeJsonText(task, messages, options);
+    const result = parseLlmJson<T>(answer, schema);
+    if (result.value) {
+      return result.value;
+    }
+
+    console.warn(
+      `LLM Service: Invalid ${task} output, asking for a repair: ${result.errors.join('; ')}`,
+    );
+    const repairPrompt =
+      'Your answer does not match the required JSON schema:\n' +
+      result.errors.map((error) => `- ${error}`).join('\n') +
+      '\n\nReply with only the corrected JSON object, in this form:\n' +
+      describeLlmSchema(schema);
+    const repaired = await this.completeJsonText(
+      task,
+      [
+        ...messages,
+        { role: 'assistant', content: answer },
+        { role: 'user', content: repairPrompt },
+      ],
+      options,
+    );
+
+    const repairedResult = parseLlmJson<T>(repaired, schema);
+    if (repairedResult.value) {
+      return repairedResult.value;
+    }
+    throw new LlmError(
+      `Invalid ${task} output after repair: ${repairedResult.errors.join('; ')}`,
+      false,
+    );
+  }
+
+  /**
+   * Embed text and report the model that produced it
+   * Falls back to a hash embedding when the provider is missing or fails
+   */
+  async embed(text: string): Promise<{ values: number[]; model: string }> {
+    const result = await this.embedMany([text]);
+    return { values: result.values[0], model: result.model };
+  }
+
+  /**
+   * Embed several texts (chunks of one email) with the same model
+   * If any of them fails or has the wrong size, all fall back to hash
+   * embeddings, so the vectors stay comparable with each other
+   */
+  async embedMany(
+    texts: string[],
+  ): Promise<{ values: number[][]; model: string }> {
+    const config = this.options.tasks[LlmTask.EMBED];
+    if (!this.canEmbed()) {
+      console.warn('LLM Service: No embedding provider, using hash embedding');
+      return {
+        values: texts.map((text) => hashEmbedding(text)),
+        model: HASH_EMBEDDING_MODEL,
+      };
+    }
+
+    try {
+      const values: number[][] = [];
+      for (const text of texts) {
+        const embedding = await this.run(
+          LlmTask.EMBED,
+          (provider, model, signal) =>
+            provider.embed({
+              model,
+              text,
+              dimensions: EMBEDDING_DIMENSIONS,
+              signal,
+            }),
+        );
+        if (!embedding || embedding.length === 0) {
+          throw new Error('Empty embedding returned');
+        }
+        if (embedding.length !== EMBEDDING_DIMENSIONS) {
+          throw new Error(
+            `Embedding has ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`,
+          );
+        }
+        values.push(embedding);
+      }
+      return { values, model: config.model };
+    } catch (error: any) {
+      console.error('LLM Service: Embedding failed:', error.message);
+      console.warn('LLM Service: Falling back to hash embedding');
+      return {
+        values: texts.map((text) => hashEmbedding(text)),
+        model: HASH_EMBEDDING_MODEL,
+      };
+    }
+  }
+
+  /**
+   * Whether the embed task has a configured provider and an embedding model
+   */
+  private canEmbed(): boolean {
+    const config = this.options.tasks[LlmTask.EMBED];
+    return this.providers.has(config.provider) && !!config.model;
+  }
+
+  /**
+   * Completion in JSON mode (with the timeout and retries of run)
+   */
+  private async completeJsonText(
+    task: LlmTask,
+    messages: LlmMessage[],
+    options: { temperature?: number; maxTokens?: number },
+  ): Promise<string> {
+    return this.run(task, (provider, model, signal) =>
+      provider.complete({
+        task,
+        model,
+        messages,
+        ...options,
+        json: true,
+        signal,
+      }),
+    );
+  }
+
+  /**
+   * Call the task's provider with timeout and retries
+   */
+  private async run<T>(
+    task: LlmTask,
+    call: (
+      provider: LlmProvider,
+      model: string,
+      signal: AbortSignal,
+    ) => Promise<T>,
+  ): Promise<T> {
+    const config = this.options.tasks[task];
+    const provider = this.providers.get(config.provider);
+    if (!provider) {
+      throw new LlmError(
+        `LLM provider "${config.provider}" for ${task} is not configured`,
+        false,
+      );
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withTimeout((signal) =>
+          call(provider, config.model, signal),
+        );
+      } catch (error: any) {
+        const llmError = toLlmError(provider.name, error);
+        if (!llmError.retryable || attempt >= this.options.maxRetries) {
+          throw llmError;
+        }
+
+        console.warn(
+          `LLM Service: ${task} attempt ${attempt + 1} failed, retrying: ${llmError.message}`,
+        );
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.options.retryDelayMs * 2 ** attempt),
+        );
+      }
+    }
+  }
+
+  /**
+   * Abort the call when it takes longer than the configured timeout
+   */
+  private async withTimeout<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(
+          new LlmError(`Timed out after ${this.options.timeoutMs} ms`, true),
+        );
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([call(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
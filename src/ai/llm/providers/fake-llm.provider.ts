@@ -0,0 +1,56 @@
+import {
+  LlmCompletionRequest,
+  LlmEmbeddingRequest,
+  LlmProvider,
+  LlmTask,
+} from '../llm-provider.interface';
+import { hashEmbedding } from '../utils/hash-embedding.util';
+
+type FakeResponse = string | ((request: LlmCompletionRequest) => string);
+
+const DEFAULT_RESPONSES: Record<LlmTask, string> = {
+  [LlmTask.SUMMARIZE]: JSON.stringify({
+    summary: 'Fake summary.',
+    keyPoints: [],
+    sentiment: 'neutral',
+    category: 'other',
+    priority: 'medium',
+  }),
+  [LlmTask.EXTRACT]: JSON.stringify({
+    entities: [],
+    topics: [],
+    language: 'en',
+    actionItems: [],
+    tags: [],
+  }),
+  [LlmTask.EMBED]: '',
+  [LlmTask.DRAFT]: 'Fake draft.',
+};
+
+/**
+ * Deterministic provider for tests and local runs without API keys
+ * Answers with a fixed response per task (replace it with setResponse; a
+ * function may also throw to simulate failures), embeds with hash
+ * embeddings and records every completion request
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+  readonly requests: LlmCompletionRequest[] = [];
+  private responses = new Map<LlmTask, FakeResponse>();
+
+  setResponse(task: LlmTask, response: FakeResponse): void {
+    this.responses.set(task, response);
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    this.requests.push(request);
+
+    const response =
+      this.responses.get(request.task) ?? DEFAULT_RESPONSES[request.task];
+    return typeof response === 'function' ? response(request) : response;
+  }
+
+  async embed(request: LlmEmbeddingRequest): Promise<number[]> {
+    return hashEmbedding(request.text);
+  }
+}
@@ -0,0 +1,64 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  LlmCompletionRequest,
+  LlmEmbeddingRequest,
+  LlmProvider,
+} from '../llm-provider.interface';
+import { toLlmError } from '../llm-error';
+
+/**
+ * Google Gemini chat and embedding models
+ */
+export class GeminiLlmProvider implements LlmProvider {
+  readonly name = 'gemini';
+  private readonly client: GoogleGenerativeAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    try {
+      const model = this.client.getGenerativeModel({
+        model: request.model,
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          responseMimeType: request.json ? 'application/json' : undefined,
+        },
+      });
+      const result = await model.generateContent(
+        {
+          contents: request.messages
+            .filter((message) => message.role !== 'system')
+            .map((message) => ({
+              role: message.role === 'assistant' ? 'model' : 'user',
+              parts: [{ text: message.content }],
+            })),
+          ...(system ? { systemInstruction: system } : {}),
+        },
+        { signal: request.signal },
+      );
+      return result.response.text();
+    } catch (error: any) {
+      throw toLlmError(this.name, error);
+    }
+  }
+
+  async embed(request: LlmEmbeddingRequest): Promise<number[]> {
+    try {
+      const model = this.client.getGenerativeModel({ model: request.model });
+      const result = await model.embedContent(request.text, {
+        signal: request.signal,
+      });
+      return result.embedding.values;
+    } catch (error: any) {
+      throw toLlmError(this.name, error);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import Groq from 'groq-sdk';
+import { LlmCompletionRequest, LlmProvider } from '../llm-provider.interface';
+import { LlmError, toLlmError } from '../llm-error';
+
+/**
+ * Groq chat completions (no embedding models)
+ */
+export class GroqLlmProvider implements LlmProvider {
+  readonly name = 'groq';
+  private readonly client: Groq;
+
+  constructor(apiKey: string) {
+    this.client = new Groq({ apiKey });
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          messages: request.messages,
+          model: request.model,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: request.json ? { type: 'json_object' } : undefined,
+        },
+        { signal: request.signal },
+      );
+      return completion.choices[0]?.message?.content || '';
+    } catch (error: any) {
+      throw toLlmError(this.name, error);
+    }
+  }
+
+  async embed(): Promise<number[]> {
+    throw new LlmError('groq: Embeddings are not supported', false);
+  }
+}
@@ -0,0 +1,11 @@
+import { OpenAICompatibleLlmProvider } from './openai-compatible-llm.provider';
+
+/**
+ * Local Ollama or llama.cpp server through its OpenAI-compatible API
+ * (Ollama: http://localhost:11434/v1, llama-server: http://localhost:8080/v1)
+ */
+export class LocalLlmProvider extends OpenAICompatibleLlmProvider {
+  constructor(baseUrl: string) {
+    super('local', baseUrl);
+  }
+}
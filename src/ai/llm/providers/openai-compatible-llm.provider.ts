@@ -0,0 +1,91 @@
+import {
+  LlmCompletionRequest,
+  LlmEmbeddingRequest,
+  LlmProvider,
+} from '../llm-provider.interface';
+import { isRetryableStatus, LlmError, toLlmError } from '../llm-error';
+
+/**
+ * Any server implementing the OpenAI chat completions and embeddings API
+ * (OpenAI, Azure-style gateways, vLLM, LiteLLM ...)
+ */
+export class OpenAICompatibleLlmProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    const body = await this.post(
+      '/chat/completions',
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+      },
+      request.signal,
+    );
+    return body?.choices?.[0]?.message?.content || '';
+  }
+
+  async embed(request: LlmEmbeddingRequest): Promise<number[]> {
+    const body = await this.post(
+      '/embeddings',
+      {
+        model: request.model,
+        input: request.text,
+        dimensions: request.dimensions, // text-embedding-3-* default to 1536
+      },
+      request.signal,
+    );
+
+    const values = body?.data?.[0]?.embedding;
+    if (!Array.isArray(values)) {
+      throw new LlmError(`${this.name}: No embedding in response`, false);
+    }
+    return values;
+  }
+
+  private async post(
+    path: string,
+    payload: Record<string, any>,
+    signal?: AbortSignal,
+  ): Promise<any> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(payload),
+        signal,
+      });
+    } catch (error: any) {
+      throw toLlmError(this.name, error);
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      let message = `Request failed with status ${response.status}`;
+      try {
+        const error = JSON.parse(text)?.error;
+        message =
+          (typeof error === 'string' ? error : error?.message) || message;
+      } catch (error) {
+        // Not a JSON error body
+      }
+      throw new LlmError(
+        `${this.name}: ${message}`,
+        isRetryableStatus(response.status),
+        response.status,
+      );
+    }
+
+    return text ? JSON.parse(text) : null;
+  }
+}
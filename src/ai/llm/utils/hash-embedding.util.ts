@@ -0,0 +1,43 @@
+import { EMBEDDING_DIMENSIONS } from '../llm-provider.interface';
+
+/**
+ * Model name recorded for hash embeddings
+ */
+export const HASH_EMBEDDING_MODEL = 'hash-fallback-768';
+
+/**
+ * Deterministic bag-of-words embedding, used when no embedding provider is
+ * available and by the fake provider. Only comparable with other hash
+ * embeddings, not with model embeddings
+ */
+export function hashEmbedding(text: string): number[] {
+  const words = text.toLowerCase().split(/\s+/);
+  const embedding: number[] = new Array(EMBEDDING_DIMENSIONS).fill(0);
+
+  words.forEach((word, idx) => {
+    const position = Math.abs(hashString(word)) % embedding.length;
+    embedding[position] += 1 / (idx + 1);
+  });
+
+  // Normalize
+  const magnitude = Math.sqrt(
+    embedding.reduce((sum, value) => sum + value * value, 0),
+  );
+  if (magnitude > 0) {
+    return embedding.map((value) => value / magnitude);
+  }
+
+  return embedding;
+}
+
+/**
+ * 32-bit string hash (Java's String.hashCode)
+ */
+function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash << 5) - hash + str.charCodeAt(i);
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return hash;
+}
@@ -0,0 +1,94 @@
+import {
+  LlmObjectSchema,
+  describeLlmSchema,
+  parseLlmJson,
+} from './llm-schema.util';
+
+describe('llm-schema.util', () => {
+  const schema: LlmObjectSchema = {
+    properties: {
+      summary: { type: 'string', minLength: 1, maxLength: 20 },
+      priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+      language: { type: 'string', pattern: /^[a-z]{2}$/ },
+      keyPoints: {
+        type: 'array',
+        items: { type: 'string', minLength: 1 },
+        maxItems: 2,
+      },
+    },
+    optional: ['language'],
+  };
+
+  describe('parseLlmJson', () => {
+    it('should trim strings, map enums to their canonical value and drop unknown properties', () => {
+      const result = parseLlmJson(
+        '{"summary": " Invoice due ", "priority": "HIGH", "keyPoints": ["Pay"], "mood": "ok"}',
+        schema,
+      );
+
+      expect(result).toEqual({
+        value: { summary: 'Invoice due', priority: 'high', keyPoints: ['Pay'] },
+        errors: [],
+      });
+    });
+
+    it('should accept a fenced JSON block', () => {
+      const result = parseLlmJson(
+        '```json\n{"summary": "Hi", "priority": "low", "keyPoints": [], "language": "de"}\n```',
+        schema,
+      );
+
+      expect(result.value).toMatchObject({ language: 'de' });
+    });
+
+    it('should report every invalid property', () => {
+      const result = parseLlmJson(
+        '{"summary": "", "priority": "urgent", "language": "German", "keyPoints": ["a", 2]}',
+        schema,
+      );
+
+      expect(result).toEqual({
+        value: null,
+        errors: [
+          '"summary" must not be empty',
+          '"priority" must be one of: high, medium, low',
+          '"language" has an invalid format',
+          '"keyPoints[1]" must be a string',
+        ],
+      });
+    });
+
+    it('should report missing properties and limits', () => {
+      const result = parseLlmJson(
+        '{"summary": "A summary that is far too long", "keyPoints": ["a", "b", "c"]}',
+        schema,
+      );
+
+      expect(result.errors).toEqual([
+        '"summary" must have at most 20 characters',
+        '"priority" is required',
+        '"keyPoints" must have at most 2 items',
+      ]);
+    });
+
+    it('should reject answers that are not a JSON object', () => {
+      expect(
+        parseLlmJson('Here you go: {"summary": "x"}', schema).errors,
+      ).toEqual(['Answer is not valid JSON']);
+      expect(parseLlmJson('["x"]', schema).errors).toEqual([
+        'Answer is not a JSON object',
+      ]);
+    });
+  });
+
+  describe('describeLlmSchema', () => {
+    it('should describe the expected object', () => {
+      expect(JSON.parse(describeLlmSchema(schema))).toEqual({
+        summary: 'string, max 20 characters',
+        priority: 'one of: high | medium | low',
+        language: 'string, optional',
+        keyPoints: ['string, at most 2 items'],
+      });
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * String property; enum values are matched case-insensitively and returned
+ * in their canonical spelling
+ */
+export interface LlmStringSchema {
+  type: 'string';
+  enum?: readonly string[];
+  pattern?: RegExp;
+  minLength?: number;
+  maxLength?: number;
+  description?: string; // Shown to the model
+}
+
+export interface LlmStringArraySchema {
+  type: 'array';
+  items: LlmStringSchema;
+  maxItems?: number;
+  description?: string;
+}
+
+export type LlmPropertySchema = LlmStringSchema | LlmStringArraySchema;
+
+/**
+ * Expected JSON object of a structured LLM answer
+ * Every property is required unless listed in optional; unknown properties
+ * are dropped
+ */
+export interface LlmObjectSchema {
+  properties: Record<string, LlmPropertySchema>;
+  optional?: string[];
+}
+
+export interface LlmSchemaResult<T> {
+  value: T | null; // Null when there are errors
+  errors: string[];
+}
+
+/**
+ * Parse and validate a JSON answer (a ```json fence around it is allowed)
+ */
+export function parseLlmJson<T>(
+  text: string,
+  schema: LlmObjectSchema,
+): LlmSchemaResult<T> {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { value: null, errors: ['Answer is not valid JSON'] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { value: null, errors: ['Answer is not a JSON object'] };
+  }
+
+  const input = parsed as Record<string, unknown>;
+  const value: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const raw = input[name];
+    if (raw === undefined || raw === null) {
+      if (!schema.optional?.includes(name)) {
+        errors.push(`"${name}" is required`);
+      }
+      continue;
+    }
+
+    if (property.type === 'string') {
+      const result = validateString(name, raw, property);
+      if (result.error) {
+        errors.push(result.error);
+      } else {
+        value[name] = result.value;
+      }
+      continue;
+    }
+
+    if (!Array.isArray(raw)) {
+      errors.push(`"${name}" must be an array of strings`);
+      continue;
+    }
+    if (property.maxItems !== undefined && raw.length > property.maxItems) {
+      errors.push(`"${name}" must have at most ${property.maxItems} items`);
+      continue;
+    }
+    const items: string[] = [];
+    raw.forEach((item, i) => {
+      const result = validateString(`${name}[${i}]`, item, property.items);
+      if (result.error) {
+        errors.push(result.error);
+      } else {
+        items.push(result.value);
+      }
+    });
+    value[name] = items;
+  }
+
+  return errors.length > 0
+    ? { value: null, errors }
+    : { value: value as T, errors: [] };
+}
+
+/**
+ * JSON template of the schema for prompts
+ */
+export function describeLlmSchema(schema: LlmObjectSchema): string {
+  const template: Record<string, unknown> = {};
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const optional = schema.optional?.includes(name) ? ', optional' : '';
+    template[name] =
+      property.type === 'string'
+        ? describeString(property) + optional
+        : [
+            describeString(property.items) +
+              (property.maxItems !== undefined
+                ? `, at most ${property.maxItems} items`
+                : '') +
+              optional,
+          ];
+  }
+  return JSON.stringify(template, null, 2);
+}
+
+function validateString(
+  name: string,
+  raw: unknown,
+  schema: LlmStringSchema,
+): { value?: string; error?: string } {
+  if (typeof raw !== 'string') {
+    return { error: `"${name}" must be a string` };
+  }
+
+  const value = raw.trim();
+  if (schema.enum) {
+    const match = schema.enum.find(
+      (option) => option.toLowerCase() === value.toLowerCase(),
+    );
+    return match !== undefined
+      ? { value: match }
+      : { error: `"${name}" must be one of: ${schema.enum.join(', ')}` };
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return {
+      error:
+        schema.minLength === 1
+          ? `"${name}" must not be empty`
+          : `"${name}" must have at least ${schema.minLength} characters`,
+    };
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return {
+      error: `"${name}" must have at most ${schema.maxLength} characters`,
+    };
+  }
+  if (schema.pattern && !schema.pattern.test(value)) {
+    return { error: `"${name}" has an invalid format` };
+  }
+  return { value };
+}
+
+function describeString(schema: LlmStringSchema): string {
+  const parts = [schema.enum ? `one of: ${schema.enum.join(' | ')}` : 'string'];
+  if (schema.maxLength !== undefined) {
+    parts.push(`max ${schema.maxLength} characters`);
+  }
+  if (schema.description) {
+    parts.push(schema.description);
+  }
+  return parts.join(', ');
+}
@@ -1,10 +1,13 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
 import { QdrantClient } from '@qdrant/js-client-grpc';
+import { createHash } from 'crypto';
+import { EMBEDDING_DIMENSIONS } from './llm/llm-provider.interface';
 
 @Injectable()
 export class QdrantService implements OnModuleInit {
   private client: QdrantClient;
   private collectionName = 'emails';
+  private readonly CHUNK_HITS_PER_EMAIL = 4;
 
   constructor() {
     const qdrantHost = process.env.QDRANT_HOST || 'localhost';
@@ -44,7 +47,7 @@ export class QdrantService implements OnModuleInit {
         config: {
           case: 'params',
           value: {
-            size: BigInt(768), // 3. Fix: Size usually expects BigInt or number depending on proto version
+            size: BigInt(EMBEDDING_DIMENSIONS), // 3. Fix: Size usually expects BigInt or number depending on proto version
             distance: 1, // 1 = Cosine distance in Qdrant Distance enum
           },
         },
@@ -53,36 +56,56 @@ export class QdrantService implements OnModuleInit {
     console.log(`Created Qdrant collection: ${this.collectionName}`);
   }
 
-  async storeEmailEmbedding(
+  /**
+   * Store the chunk vectors of an email (one point per chunk)
+   * Replaces all earlier points of the email, including pre-chunking ones.
+   * Chunk points are overwritten first and the leftovers deleted after, so a
+   * failed upsert keeps the earlier vectors
+   */
+  async storeEmailChunks(
     emailId: number,
-    embedding: number[],
+    chunks: Array<{ index: number; text: string; values: number[] }>,
     payload: any,
   ): Promise<number> {
     try {
       await this.client.api('points').upsert({
         collectionName: this.collectionName,
         wait: true,
-        points: [
-          {
-            // 4. Fix: 'PointId' is a strict oneof wrapper
-            id: {
-              pointIdOptions: {
-                case: 'num',
-                value: BigInt(emailId), // 5. Fix: IDs are uint64 (BigInt)
-              },
+        points: chunks.map((chunk) => ({
+          id: {
+            pointIdOptions: {
+              case: 'uuid' as const,
+              value: this.chunkPointId(emailId, chunk.index),
             },
-            // 6. Fix: 'Vectors' is a strict oneof wrapper
-            vectors: {
-              vectorsOptions: {
-                case: 'vector',
-                value: { data: embedding },
-              },
+          },
+          vectors: {
+            vectorsOptions: {
+              case: 'vector' as const,
+              value: { data: chunk.values },
             },
-            payload: this.mapPayload(payload),
           },
-        ],
+          payload: this.mapPayload({
+            ...payload,
+            emailRawId: emailId,
+            chunkIndex: chunk.index,
+            chunkCount: chunks.length,
+            content: chunk.text,
+          }),
+        })),
       });
 
+      // Chunks past the new count, and pre-chunking points (no chunkIndex)
+      const filter = this.emailFilter([emailId]);
+      filter.mustNot = [
+        {
+          conditionOneOf: {
+            case: 'field',
+            value: { key: 'chunkIndex', range: { lt: chunks.length } },
+          },
+        },
+      ];
+      await this.deletePoints(filter);
+
       return emailId;
     } catch (error: any) {
       console.error('Failed to store embedding:', error);
@@ -90,6 +113,10 @@ export class QdrantService implements OnModuleInit {
     }
   }
 
+  /**
+   * Emails most similar to the query, best chunk per email
+   * The payload is the one of the best matching chunk (content: its passage)
+   */
   async searchSimilarEmails(
     queryEmbedding: number[],
     userId: number,
@@ -101,7 +128,8 @@ export class QdrantService implements OnModuleInit {
       const result = await this.client.api('points').search({
         collectionName: this.collectionName,
         vector: queryEmbedding,
-        limit: BigInt(limit), // Limit must be a BigInt
+        // Several chunks of one email can match, fetch extra to fill the limit
+        limit: BigInt(limit * this.CHUNK_HITS_PER_EMAIL),
         scoreThreshold: threshold,
         // FIX: Wrap 'enable' inside selectorOptions
         withPayload: {
@@ -110,72 +138,205 @@ export class QdrantService implements OnModuleInit {
             value: true,
           },
         },
-        filter: {
-          must: [
-            {
-              conditionOneOf: {
-                case: 'field',
-                value: {
-                  key: 'userId',
-                  match: {
-                    matchValue: {
-                      case: 'integer',
-                      value: BigInt(userId), // integer match must be BigInt
-                    },
-                  },
-                },
-              },
-            },
-          ],
-        },
+        filter: this.userFilter(userId),
       });
 
-      return result.result.map((point) => {
-        // Handle Point ID (which is also a OneOf)
-        let id = 0;
-        if (point.id?.pointIdOptions?.case === 'num') {
-          id = Number(point.id.pointIdOptions.value);
+      // Hits are sorted by score, so the first chunk of an email is its best
+      const emails = new Map<
+        number,
+        { id: number; score: number; payload: any }
+      >();
+      for (const point of result.result) {
+        const payload = point.payload ? this.mapToObj(point.payload) : {};
+        const emailId = Number(payload.emailRawId);
+        if (!emailId || emails.has(emailId)) {
+          continue;
         }
+        emails.set(emailId, { id: emailId, score: point.score, payload });
+      }
 
-        return {
-          id: id,
-          score: point.score,
-          payload: point.payload ? this.mapToObj(point.payload) : {},
-        };
-      });
+      return Array.from(emails.values()).slice(0, limit);
     } catch (error: any) {
       console.error('Qdrant search error:', error);
       throw new Error(`Qdrant search failed: ${error.message}`);
     }
   }
 
+  /**
+   * Stored chunk vectors of emails by email ID, in chunk order
+   * (emails without vectors are left out)
+   */
+  async getEmailEmbeddings(
+    emailIds: number[],
+  ): Promise<Map<number, Array<{ chunkIndex: number; vector: number[] }>>> {
+    const embeddings = new Map<
+      number,
+      Array<{ chunkIndex: number; vector: number[] }>
+    >();
+    if (emailIds.length === 0) {
+      return embeddings;
+    }
+
+    try {
+      let offset: any = undefined;
+      do {
+        const result = await this.client.api('points').scroll({
+          collectionName: this.collectionName,
+          filter: this.emailFilter(emailIds),
+          offset,
+          limit: 256,
+          withPayload: {
+            selectorOptions: {
+              case: 'enable',
+              value: true,
+            },
+          },
+          withVectors: {
+            selectorOptions: {
+              case: 'enable',
+              value: true,
+            },
+          },
+        });
+
+        for (const point of result.result) {
+          const payload = this.mapToObj(point.payload);
+          if (point.vectors?.vectorsOptions?.case !== 'vector') {
+            continue;
+          }
+          const emailId = Number(payload.emailRawId);
+          const chunks = embeddings.get(emailId) || [];
+          chunks.push({
+            chunkIndex: payload.chunkIndex ?? 0,
+            vector: point.vectors.vectorsOptions.value.data,
+          });
+          embeddings.set(emailId, chunks);
+        }
+
+        offset = result.nextPageOffset;
+      } while (offset);
+
+      for (const chunks of embeddings.values()) {
+        chunks.sort((a, b) => a.chunkIndex - b.chunkIndex);
+      }
+
+      return embeddings;
+    } catch (error: any) {
+      console.error('Qdrant retrieve error:', error);
+      throw new Error(`Qdrant retrieve failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete every point (chunk) of an email
+   */
   async deleteEmailEmbedding(emailId: number): Promise<void> {
     try {
-      await this.client.api('points').delete({
+      await this.deletePoints(this.emailFilter([emailId]));
+    } catch (error: any) {
+      console.error('Failed to delete embedding:', error);
+    }
+  }
+
+  /**
+   * Delete every point of a user's emails (account deletion)
+   * Returns how many points were deleted; errors are thrown, so the deletion
+   * can be retried
+   */
+  async deleteUserEmbeddings(userId: number): Promise<number> {
+    try {
+      const filter = this.userFilter(userId);
+      const { result } = await this.client.api('points').count({
         collectionName: this.collectionName,
-        wait: true,
-        points: {
-          pointsSelectorOneOf: {
-            case: 'points',
+        filter,
+        exact: true,
+      });
+      await this.deletePoints(filter);
+      return Number(result?.count ?? 0);
+    } catch (error: any) {
+      console.error('Failed to delete user embeddings:', error);
+      throw new Error(`Qdrant deletion failed: ${error.message}`);
+    }
+  }
+
+  // --- Helpers ---
+
+  private async deletePoints(filter: any): Promise<void> {
+    await this.client.api('points').delete({
+      collectionName: this.collectionName,
+      wait: true,
+      points: {
+        pointsSelectorOneOf: {
+          case: 'filter',
+          value: filter,
+        },
+      },
+    });
+  }
+
+  /**
+   * Points of the user's emails (payload userId)
+   */
+  private userFilter(userId: number): any {
+    return {
+      must: [
+        {
+          conditionOneOf: {
+            case: 'field',
             value: {
-              ids: [
-                {
-                  pointIdOptions: {
-                    case: 'num',
-                    value: BigInt(emailId),
-                  },
+              key: 'userId',
+              match: {
+                matchValue: {
+                  case: 'integer',
+                  value: BigInt(userId), // integer match must be BigInt
                 },
-              ],
+              },
             },
           },
         },
-      });
-    } catch (error: any) {
-      console.error('Failed to delete embedding:', error);
-    }
+      ],
+    };
   }
 
-  // --- Helpers ---
+  /**
+   * Points of the given emails (payload emailRawId)
+   */
+  private emailFilter(emailIds: number[]): any {
+    return {
+      must: [
+        {
+          conditionOneOf: {
+            case: 'field',
+            value: {
+              key: 'emailRawId',
+              match: {
+                matchValue: {
+                  case: 'integers',
+                  value: { integers: emailIds.map((id) => BigInt(id)) },
+                },
+              },
+            },
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Stable UUID of a chunk point, so re-embedding overwrites it
+   */
+  private chunkPointId(emailId: number, chunkIndex: number): string {
+    const hex = createHash('sha1')
+      .update(`email:${emailId}:chunk:${chunkIndex}`)
+      .digest('hex');
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20, 32),
+    ].join('-');
+  }
 
   private mapPayload(payload: any): Record<string, any> {
     const result: Record<string, any> = {};
@@ -0,0 +1,75 @@
+import { chunkText, estimateTokens } from './chunk.util';
+
+describe('chunk utils', () => {
+  describe('estimateTokens', () => {
+    it('should count about four characters per token', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('abcd')).toBe(1);
+      expect(estimateTokens('abcde')).toBe(2);
+    });
+
+    it('should count CJK characters as one token each', () => {
+      expect(estimateTokens('会議は明日です')).toBe(7);
+    });
+  });
+
+  describe('chunkText', () => {
+    const paragraph = (n: number) =>
+      `Paragraph ${n} ` + 'word '.repeat(30).trim() + '.';
+
+    it('should return a single chunk for short text', () => {
+      expect(chunkText('Hello there.', { maxTokens: 100 })).toEqual([
+        { index: 0, text: 'Hello there.', tokens: 3 },
+      ]);
+    });
+
+    it('should return no chunks for empty text', () => {
+      expect(chunkText(' \n\n ', { maxTokens: 100 })).toEqual([]);
+    });
+
+    it('should pack whole paragraphs up to the token limit', () => {
+      const text = [1, 2, 3, 4].map(paragraph).join('\n\n');
+
+      const chunks = chunkText(text, { maxTokens: 90 });
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual([
+        `${paragraph(1)}\n\n${paragraph(2)}`,
+        `${paragraph(3)}\n\n${paragraph(4)}`,
+      ]);
+      chunks.forEach((chunk) => expect(chunk.tokens).toBeLessThanOrEqual(90));
+    });
+
+    it('should split long paragraphs on sentences, then words', () => {
+      const text =
+        'First sentence here. ' + 'x'.repeat(10) + ' ' + 'y '.repeat(40);
+
+      const chunks = chunkText(text, { maxTokens: 8 });
+
+      expect(chunks[0].text).toMatch(/^First sentence here\. /);
+      chunks.forEach((chunk) => {
+        expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(8);
+      });
+      expect(chunks.map((chunk) => chunk.text).join(' ')).toBe(
+        text.trim().replace(/\s+/g, ' '),
+      );
+    });
+
+    it('should slice very long words', () => {
+      const chunks = chunkText('a'.repeat(100), { maxTokens: 10 });
+
+      expect(chunks.map((chunk) => chunk.text.length)).toEqual([40, 40, 20]);
+    });
+
+    it('should start each chunk with the end of the previous one', () => {
+      const text = 'One two three four five six seven eight nine ten';
+
+      const chunks = chunkText(text, { maxTokens: 8, overlapTokens: 4 });
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual([
+        'One two three four five six',
+        'four five six seven eight nine',
+        'eight nine ten',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Piece of a long text, small enough for one model call
+ */
+export interface TextChunk {
+  index: number;
+  text: string;
+  tokens: number; // Estimated
+}
+
+interface Unit {
+  text: string;
+  tokens: number;
+  separator: string; // Joins the unit to the one before it
+}
+
+// CJK characters are about one token each, other text about four characters
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g;
+
+/**
+ * Estimated token count (no tokenizer needed, errs on the high side for
+ * English prose)
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(CJK_PATTERN) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Split text into chunks of at most maxTokens, on paragraph boundaries where
+ * possible, then sentences, then words. With overlapTokens every chunk starts
+ * with the end of the previous one, so a passage cut in two stays findable
+ */
+export function chunkText(
+  text: string,
+  options: { maxTokens: number; overlapTokens?: number },
+): TextChunk[] {
+  const maxTokens = Math.max(1, options.maxTokens);
+  const overlapTokens = Math.min(
+    options.overlapTokens || 0,
+    Math.floor(maxTokens / 2),
+  );
+
+  const units = text
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .flatMap((paragraph) => splitUnit(paragraph, '\n\n', maxTokens));
+
+  const chunks: TextChunk[] = [];
+  let current: Unit[] = [];
+  let currentTokens = 0;
+
+  const emit = () => {
+    chunks.push({
+      index: chunks.length,
+      text: joinUnits(current),
+      tokens: currentTokens,
+    });
+  };
+
+  for (const unit of units) {
+    if (current.length > 0 && currentTokens + unit.tokens > maxTokens) {
+      emit();
+
+      // Carry the end of the chunk over, as far as overlap and room allow
+      const carried: Unit[] = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const tokens = carriedTokens + current[i].tokens;
+        if (tokens > overlapTokens || tokens + unit.tokens > maxTokens) {
+          break;
+        }
+        carried.unshift(current[i]);
+        carriedTokens = tokens;
+      }
+      current = carried;
+      currentTokens = carriedTokens;
+    }
+
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+
+  if (current.length > 0) {
+    emit();
+  }
+
+  return chunks;
+}
+
+/**
+ * Split a piece that is too long into sentences, words and, for very long
+ * words (URLs, base64), fixed-size slices
+ */
+function splitUnit(text: string, separator: string, maxTokens: number): Unit[] {
+  const tokens = estimateTokens(text);
+  if (tokens <= maxTokens) {
+    return [{ text, tokens, separator }];
+  }
+
+  const sentences = text.split(/(?<=[.!?。！？])\s+/);
+  if (sentences.length > 1) {
+    return sentences.flatMap((sentence, i) =>
+      splitUnit(sentence, i === 0 ? separator : ' ', maxTokens),
+    );
+  }
+
+  const words = text.split(/\s+/);
+  if (words.length > 1) {
+    return words.flatMap((word, i) =>
+      splitUnit(word, i === 0 ? separator : ' ', maxTokens),
+    );
+  }
+
+  // One long word (URL, base64, CJK text without spaces): slice by characters
+  const size = tokens > Math.ceil(text.length / 4) ? maxTokens : maxTokens * 4;
+  const units: Unit[] = [];
+  for (let start = 0; start < text.length; start += size) {
+    const slice = text.slice(start, start + size);
+    units.push({
+      text: slice,
+      tokens: estimateTokens(slice),
+      separator: start === 0 ? separator : '',
+    });
+  }
+  return units;
+}
+
+function joinUnits(units: Unit[]): string {
+  return units
+    .map((unit, i) => (i === 0 ? unit.text : unit.separator + unit.text))
+    .join('');
+}
@@ -0,0 +1,34 @@
+import {
+  DEFAULT_EMAIL_CATEGORIES,
+  normalizeCategories,
+  parseCategories,
+} from './email-category.util';
+
+describe('email-category.util', () => {
+  describe('normalizeCategories', () => {
+    it('should lowercase, trim and deduplicate names', () => {
+      expect(
+        normalizeCategories([' Clients ', 'clients', 'Side  Projects', '']),
+      ).toEqual(['clients', 'side projects', 'other']);
+    });
+
+    it('should keep the position of "other" when it is given', () => {
+      expect(normalizeCategories(['Other', 'work'])).toEqual(['other', 'work']);
+    });
+  });
+
+  describe('parseCategories', () => {
+    it('should use the defaults when nothing is stored', () => {
+      expect(parseCategories(null)).toEqual(DEFAULT_EMAIL_CATEGORIES);
+      expect(parseCategories('not json')).toEqual(DEFAULT_EMAIL_CATEGORIES);
+    });
+
+    it('should read a stored list', () => {
+      expect(parseCategories('["Clients", "invoices"]')).toEqual([
+        'clients',
+        'invoices',
+        'other',
+      ]);
+    });
+  });
+});
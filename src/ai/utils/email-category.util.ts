@@ -0,0 +1,65 @@
+// Category for mail that fits none of the others (always offered)
+export const OTHER_CATEGORY = 'other';
+
+// Categories of users who have not configured their own
+export const DEFAULT_EMAIL_CATEGORIES: readonly string[] = [
+  'work',
+  'personal',
+  'finance',
+  'travel',
+  'shopping',
+  'social',
+  'newsletter',
+  'promotions',
+  'notifications',
+  'spam',
+  OTHER_CATEGORY,
+];
+
+export const MAX_EMAIL_CATEGORIES = 30;
+export const MAX_CATEGORY_LENGTH = 50;
+
+/**
+ * Normalize a user's category list: lowercase, single spaces, no empty names
+ * or duplicates, and OTHER_CATEGORY last if it is missing
+ */
+export function normalizeCategories(categories: string[]): string[] {
+  const result: string[] = [];
+  for (const category of categories) {
+    const name = category
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .slice(0, MAX_CATEGORY_LENGTH);
+    if (name && !result.includes(name)) {
+      result.push(name);
+    }
+  }
+
+  if (!result.includes(OTHER_CATEGORY)) {
+    result.push(OTHER_CATEGORY);
+  }
+  return result;
+}
+
+/**
+ * Categories stored in user settings (JSON array as string)
+ * Null or unreadable values mean the defaults
+ */
+export function parseCategories(stored: string | null | undefined): string[] {
+  if (!stored) {
+    return [...DEFAULT_EMAIL_CATEGORIES];
+  }
+
+  try {
+    const categories = JSON.parse(stored);
+    if (Array.isArray(categories)) {
+      return normalizeCategories(
+        categories.filter((category) => typeof category === 'string'),
+      );
+    }
+  } catch (error) {
+    // Fall through to the defaults
+  }
+  return [...DEFAULT_EMAIL_CATEGORIES];
+}
@@ -0,0 +1,93 @@
+import {
+  cleanEmailText,
+  htmlToText,
+  stripQuotedReply,
+  stripSignature,
+} from './email-text.util';
+
+describe('email text utils', () => {
+  describe('htmlToText', () => {
+    it('should drop markup, styles and scripts and keep line structure', () => {
+      const html = `<html><head><title>Hi</title><style>p { color: red; }</style></head>
+<body><p>Hello&nbsp;Ann,</p><div>Totals:<br>A &amp; B&#39;s &lt;share&gt;</div>
+<ul><li>one</li><li>two</li></ul><script>alert(1)</script><!-- tracking --></body></html>`;
+
+      expect(htmlToText(html)).toBe(
+        "Hello Ann,\n\nTotals:\nA & B's <share>\n\n- one\n- two",
+      );
+    });
+
+    it('should decode numeric entities', () => {
+      expect(htmlToText('caf&#233; &#x2014; 10&euro;')).toBe('café — 10&euro;');
+    });
+  });
+
+  describe('stripQuotedReply', () => {
+    it('should cut at the "On ... wrote:" line, also when wrapped', () => {
+      const text =
+        'Sounds good, see you then.\n\nOn Mon, 3 Mar 2026 at 10:00, Ann Lee\n<ann@example.com> wrote:\n> Lunch on Friday?';
+
+      expect(stripQuotedReply(text)).toBe('Sounds good, see you then.');
+    });
+
+    it('should cut at Outlook reply headers', () => {
+      const text =
+        'Approved.\n\nFrom: Ann Lee <ann@example.com>\nSent: Monday, March 3, 2026 10:00\nTo: Bob\nSubject: Budget';
+
+      expect(stripQuotedReply(text)).toBe('Approved.');
+    });
+
+    it('should drop inline quoted lines and keep the answers', () => {
+      const text = '> Can you make it?\nYes.\n> Bring slides?\nNo.';
+
+      expect(stripQuotedReply(text)).toBe('Yes.\nNo.');
+    });
+
+    it('should keep a message that is nothing but a quote', () => {
+      expect(stripQuotedReply('> only quoted')).toBe('> only quoted');
+    });
+  });
+
+  describe('stripSignature', () => {
+    it('should cut at the signature delimiter near the end', () => {
+      expect(stripSignature('Thanks!\n\n-- \nBob\nACME Inc.')).toBe('Thanks!');
+    });
+
+    it('should keep a delimiter far above the end', () => {
+      const body = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+      const text = ['intro', '--', ...body].join('\n');
+
+      expect(stripSignature(text)).toBe(text);
+    });
+
+    it('should drop mobile client footers', () => {
+      expect(stripSignature('On my way.\n\nSent from my iPhone')).toBe(
+        'On my way.',
+      );
+    });
+  });
+
+  describe('cleanEmailText', () => {
+    it('should prefer the text part and strip reply and signature', () => {
+      expect(
+        cleanEmailText({
+          bodyText: 'Done.\r\n-- \r\nBob\r\n',
+          bodyHtml: '<p>ignored</p>',
+        }),
+      ).toBe('Done.');
+    });
+
+    it('should convert the HTML part when the text part is missing or HTML', () => {
+      expect(cleanEmailText({ bodyHtml: '<p>Invoice attached</p>' })).toBe(
+        'Invoice attached',
+      );
+      expect(cleanEmailText({ bodyText: '<div>Report</div>' })).toBe('Report');
+    });
+
+    it('should fall back to the snippet', () => {
+      expect(cleanEmailText({ bodyText: '', snippet: 'Preview  text' })).toBe(
+        'Preview text',
+      );
+    });
+  });
+});
@@ -0,0 +1,176 @@
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  '#39': "'",
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+// Start of the quoted message in replies ("On ... wrote:", Outlook headers)
+const REPLY_HEADER_PATTERNS = [
+  /^On\s.+\swrote:$/i,
+  /^Am\s.+\sschrieb\s.+:$/i,
+  /^Le\s.+\sa écrit\s?:$/i,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+];
+
+// Mobile client footers, only stripped near the end
+const CLIENT_FOOTER_PATTERNS = [
+  /^Sent from my \w+/i,
+  /^Get Outlook for \w+/i,
+  /^Sent from (Mail|Outlook) for \w+/i,
+  /^Sent from Yahoo Mail/i,
+];
+
+const SIGNATURE_MAX_LINES = 15; // A "-- " line further up is content
+
+/**
+ * Plain text of an HTML body: drops head, style and script, turns block
+ * elements into line breaks and decodes entities
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(
+      /<\/?(p|div|tr|table|ul|ol|h[1-6]|blockquote|section|hr)\b[^>]*>/gi,
+      '\n',
+    )
+    .replace(/<\/t[dh]\s*>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  return normalizeWhitespace(decodeEntities(text));
+}
+
+/**
+ * Remove the quoted message of a reply (and ">"-quoted lines)
+ * Returns the text unchanged when nothing would be left
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // "On <date>, <name>" is often wrapped before "wrote:"
+    const withNext = `${line} ${(lines[i + 1] || '').trim()}`;
+
+    if (
+      REPLY_HEADER_PATTERNS.some(
+        (pattern) => pattern.test(line) || pattern.test(withNext),
+      ) ||
+      isOutlookHeader(lines, i)
+    ) {
+      break;
+    }
+    if (!line.startsWith('>')) {
+      kept.push(lines[i]);
+    }
+  }
+
+  const result = normalizeWhitespace(kept.join('\n'));
+  return result || text;
+}
+
+/**
+ * Remove the signature ("-- " delimiter) and mobile client footers
+ * Returns the text unchanged when nothing would be left
+ */
+export function stripSignature(text: string): string {
+  let lines = text.split('\n');
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines.length - i > SIGNATURE_MAX_LINES) {
+      break;
+    }
+    if (lines[i].trimEnd() === '--' || lines[i] === '-- ') {
+      lines = lines.slice(0, i);
+      break;
+    }
+  }
+
+  const footerStart = Math.max(0, lines.length - 3);
+  for (let i = footerStart; i < lines.length; i++) {
+    if (
+      CLIENT_FOOTER_PATTERNS.some((pattern) => pattern.test(lines[i].trim()))
+    ) {
+      lines = lines.slice(0, i);
+      break;
+    }
+  }
+
+  const result = normalizeWhitespace(lines.join('\n'));
+  return result || text;
+}
+
+/**
+ * Text of an email for the AI pipeline: the plain text part (or the HTML part
+ * converted), without quoted replies and signature
+ */
+export function cleanEmailText(email: {
+  bodyText?: string | null;
+  bodyHtml?: string | null;
+  snippet?: string | null;
+}): string {
+  let text = email.bodyText?.trim() || '';
+
+  // Some senders put HTML into the text part
+  if (!text || /<(html|body|div|table|p)\b/i.test(text)) {
+    text = email.bodyHtml ? htmlToText(email.bodyHtml) : htmlToText(text);
+  }
+  if (!text) {
+    return normalizeWhitespace(email.snippet || '');
+  }
+
+  return stripSignature(stripQuotedReply(normalizeWhitespace(text)));
+}
+
+/**
+ * Collapse runs of spaces, trim lines and keep at most one empty line
+ */
+export function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1].toLowerCase() === 'x'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Outlook quotes replies below "From: ..." followed by "Sent:"/"Date:"
+ */
+function isOutlookHeader(lines: string[], index: number): boolean {
+  if (!/^From:\s.+/i.test(lines[index].trim())) {
+    return false;
+  }
+  return lines
+    .slice(index + 1, index + 4)
+    .some((line) => /^(Sent|Date):\s/i.test(line.trim()));
+}
@@ -6,13 +6,31 @@ import { EmailModule } from './email/email.module';
 import { GmailModule } from './gmail/gmail.module';
 import { AIModule } from './ai/ai.module';
 import { KafkaModule } from './kafka/kafka.module';
+import { RulesModule } from './rules/rules.module';
+import { ImapModule } from './imap/imap.module';
+import { OutlookModule } from './outlook/outlook.module';
+import { AccountModule } from './account/account.module';
 import { User } from './auth/entities/user.entity';
 import { RefreshToken } from './auth/entities/refresh-token.entity';
 import { EmailRaw } from './gmail/entities/email-raw.entity';
 import { GmailToken } from './gmail/entities/gmail-token.entity';
 import { KanbanColumn } from './gmail/entities/kanban-column.entity';
+import { GmailBackfillJob } from './gmail/entities/gmail-backfill-job.entity';
+import { UserSettings } from './gmail/entities/user-settings.entity';
+import { ScheduledEmail } from './gmail/entities/scheduled-email.entity';
 import { EmailSummary } from './ai/entities/email-summary.entity';
 import { EmailMetadata } from './ai/entities/email-metadata.entity';
+import { EmailProcessingState } from './ai/entities/email-processing-state.entity';
+import { AIReprocessJob } from './ai/entities/ai-reprocess-job.entity';
+import { EmailRule } from './rules/entities/email-rule.entity';
+import { RuleExecution } from './rules/entities/rule-execution.entity';
+import { ImapAccount } from './imap/entities/imap-account.entity';
+import { OutlookAccount } from './outlook/entities/outlook-account.entity';
+import { OAuthState } from './auth/entities/oauth-state.entity';
+import { UserTwoFactor } from './auth/entities/user-two-factor.entity';
+import { AuthLockout } from './auth/entities/auth-lockout.entity';
+import { RateLimitEntry } from './common/rate-limit/entities/rate-limit-entry.entity';
+import { AccountExport } from './account/entities/account-export.entity';
 
 @Module({
   imports: [
@@ -29,7 +47,29 @@ import { EmailMetadata } from './ai/entities/email-metadata.entity';
         username: configService.get<string>('DB_USERNAME', 'postgres'),
         password: configService.get<string>('DB_PASSWORD', 'postgres'),
         database: configService.get<string>('DB_NAME', 'email_auth_db'),
-        entities: [User, RefreshToken, EmailRaw, GmailToken, KanbanColumn, EmailSummary, EmailMetadata],
+        entities: [
+          User,
+          RefreshToken,
+          EmailRaw,
+          GmailToken,
+          KanbanColumn,
+          GmailBackfillJob,
+          UserSettings,
+          ScheduledEmail,
+          EmailSummary,
+          EmailMetadata,
+          EmailProcessingState,
+          AIReprocessJob,
+          EmailRule,
+          RuleExecution,
+          ImapAccount,
+          OutlookAccount,
+          OAuthState,
+          UserTwoFactor,
+          AuthLockout,
+          RateLimitEntry,
+          AccountExport,
+        ],
         synchronize: configService.get<string>('NODE_ENV') !== 'production', // Auto-sync in dev only
         logging: configService.get<string>('NODE_ENV') === 'development',
       }),
@@ -40,6 +80,10 @@ import { EmailMetadata } from './ai/entities/email-metadata.entity';
     GmailModule,
     KafkaModule,
     AIModule,
+    RulesModule,
+    ImapModule,
+    OutlookModule,
+    AccountModule,
   ],
 })
 export class AppModule {}
@@ -2,7 +2,9 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
+  Param,
   HttpCode,
   HttpStatus,
   UseGuards,
@@ -17,13 +19,33 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiExcludeEndpoint,
+  ApiParam,
 } from '@nestjs/swagger';
 import { Response as ExpressResponse } from 'express';
-import { AuthService } from './auth.service';
+import { AuthService, SessionMeta } from './auth.service';
+import { TwoFactorProvisioning, TwoFactorService } from './two-factor.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
-import { AuthResponseDto } from './dto/auth-response.dto';
+import {
+  AuthResponseDto,
+  TwoFactorChallengeDto,
+} from './dto/auth-response.dto';
+import {
+  TwoFactorConfirmDto,
+  TwoFactorLoginDto,
+  TwoFactorReauthDto,
+  TwoFactorSetupDto,
+} from './dto/two-factor.dto';
+import { SessionDto } from './dto/session.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import {
+  ChangePasswordDto,
+  ForgotPasswordDto,
+  RemovePasswordDto,
+  ResetPasswordDto,
+  SetPasswordDto,
+} from './dto/password.dto';
 import { TBaseDTO } from '../common/dto/base.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { GoogleOAuthGuard } from './guards/google-oauth.guard';
@@ -34,7 +56,10 @@ import { GoogleOAuthGuard } from './guards/google-oauth.guard';
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
 
   /**
    * Register a new user account
@@ -53,9 +78,13 @@ export class AuthController {
   })
   async register(
     @Body() registerDto: RegisterDto,
+    @Request() req: any,
     @Response({ passthrough: true }) res: any,
   ): Promise<TBaseDTO<AuthResponseDto>> {
-    const result = await this.authService.register(registerDto);
+    const result = await this.authService.register(
+      registerDto,
+      this.getSessionMeta(req),
+    );
 
     if (result.data?.refreshToken) {
       this.setRefreshTokenCookie(res, result.data.refreshToken);
@@ -68,10 +97,15 @@ export class AuthController {
 
   /**
    * Login with email and password
+   * Accounts with 2FA get a challenge token instead, see /auth/login/2fa
    */
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Login with email and password' })
+  @ApiOperation({
+    summary: 'Login with email and password',
+    description:
+      'Returns the tokens, or { twoFactorRequired, challengeToken } when the account has 2FA',
+  })
   @ApiResponse({
     status: 200,
     description: 'Login successful',
@@ -80,9 +114,47 @@ export class AuthController {
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
   async login(
     @Body() loginDto: LoginDto,
+    @Request() req: any,
+    @Response({ passthrough: true }) res: any,
+  ): Promise<TBaseDTO<AuthResponseDto | TwoFactorChallengeDto>> {
+    const result = await this.authService.login(
+      loginDto,
+      this.getSessionMeta(req),
+    );
+
+    if (result.data && 'refreshToken' in result.data) {
+      this.setRefreshTokenCookie(res, result.data.refreshToken);
+      // Remove refreshToken from response body
+      delete result.data.refreshToken;
+    }
+
+    return result;
+  }
+
+  /**
+   * Second login step for accounts with 2FA
+   */
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete a login with a 2FA code',
+    description:
+      'Exchanges the challenge token from /auth/login and a TOTP or recovery code for the tokens',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: TBaseDTO<AuthResponseDto>,
+  })
+  async loginWithTwoFactor(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Request() req: any,
     @Response({ passthrough: true }) res: any,
   ): Promise<TBaseDTO<AuthResponseDto>> {
-    const result = await this.authService.login(loginDto);
+    const result = await this.authService.loginWithTwoFactor(
+      twoFactorLoginDto,
+      this.getSessionMeta(req),
+    );
 
     if (result.data?.refreshToken) {
       this.setRefreshTokenCookie(res, result.data.refreshToken);
@@ -152,7 +224,10 @@ export class AuthController {
       }
 
       // Generate JWT tokens for our app
-      const authResponse = await this.authService.generateAuthResponse(user);
+      const authResponse = await this.authService.generateAuthResponse(
+        user,
+        this.getSessionMeta(req),
+      );
 
       if (!authResponse.data) {
         const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
@@ -179,10 +254,16 @@ export class AuthController {
 
   /**
    * Refresh access token
+   * Rotates the refresh token cookie; reusing an old refresh token revokes the session
    */
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Refresh access token' })
+  @ApiOperation({
+    summary: 'Refresh access token',
+    description:
+      'Issues a new access token and rotates the refresh token cookie. ' +
+      'Presenting an already rotated refresh token revokes the whole session.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Token refreshed successfully',
@@ -191,6 +272,7 @@ export class AuthController {
   @ApiResponse({ status: 401, description: 'Invalid refresh token' })
   async refreshToken(
     @Request() req: any,
+    @Response({ passthrough: true }) res: any,
   ): Promise<TBaseDTO<{ accessToken: string }>> {
     const refreshToken = req.cookies?.refreshToken;
 
@@ -202,7 +284,20 @@ export class AuthController {
       );
     }
 
-    return this.authService.refreshToken({ refreshToken });
+    const result = await this.authService.refreshToken(
+      { refreshToken },
+      this.getSessionMeta(req),
+    );
+
+    if (result.data?.refreshToken) {
+      this.setRefreshTokenCookie(res, result.data.refreshToken);
+      // Remove refreshToken from response body
+      delete result.data.refreshToken;
+    } else {
+      this.clearRefreshTokenCookie(res);
+    }
+
+    return result;
   }
 
   /**
@@ -261,6 +356,530 @@ export class AuthController {
     });
   }
 
+  /**
+   * Confirm an email address with the token from the verification mail
+   */
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify email address' })
+  @ApiResponse({
+    status: 200,
+    description: 'Email address verified',
+    type: TBaseDTO<{ message: string }>,
+  })
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  /**
+   * Send the verification mail again
+   */
+  @Post('verify-email/resend')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resend the verification email' })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification email sent',
+    type: TBaseDTO<{ message: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async resendVerificationEmail(
+    @Request() req: any,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    try {
+      return await this.authService.resendVerificationEmail(req.user.userId);
+    } catch (error: any) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to send verification email',
+      );
+    }
+  }
+
+  /**
+   * Request a password reset mail
+   */
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request a password reset',
+    description:
+      'Mails a reset link (valid 1 hour); the response does not reveal whether the address has an account',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Request accepted',
+    type: TBaseDTO<{ message: string }>,
+  })
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    return this.authService.requestPasswordReset(forgotPasswordDto.email);
+  }
+
+  /**
+   * Set a new password with the token from the reset mail
+   */
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset password',
+    description: 'Sets the new password and signs out all sessions',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password reset',
+    type: TBaseDTO<{ message: string }>,
+  })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @Response({ passthrough: true }) res: any,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    const result = await this.authService.resetPassword(resetPasswordDto);
+    if (result.data) {
+      this.clearRefreshTokenCookie(res);
+    }
+    return result;
+  }
+
+  /**
+   * Change the password (other sessions are signed out)
+   */
+  @Post('change-password')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change password',
+    description: 'Requires the current password; revokes all other sessions',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password changed',
+    type: TBaseDTO<{ message: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async changePassword(
+    @Request() req: any,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    return this.authService.changePassword(
+      req.user.userId,
+      changePasswordDto,
+      req.cookies?.refreshToken,
+    );
+  }
+
+  /**
+   * Add a password to a Google-only account
+   */
+  @Post('password')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Link a password',
+    description:
+      'Adds email/password login to an account that only uses Google',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password added',
+    type: TBaseDTO<{ message: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async setPassword(
+    @Request() req: any,
+    @Body() setPasswordDto: SetPasswordDto,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    return this.authService.setPassword(req.user.userId, setPasswordDto);
+  }
+
+  /**
+   * Remove the password of an account linked to Google
+   */
+  @Delete('password')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unlink the password',
+    description:
+      'Only for accounts linked to Google, which then log in with Google only; revokes other sessions',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password removed',
+    type: TBaseDTO<{ message: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async removePassword(
+    @Request() req: any,
+    @Body() removePasswordDto: RemovePasswordDto,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    return this.authService.removePassword(
+      req.user.userId,
+      removePasswordDto.currentPassword,
+      req.cookies?.refreshToken,
+    );
+  }
+
+  /**
+   * List active sessions (logins) of the current user
+   */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'List active sessions',
+    description:
+      'One entry per login with device and IP; current marks this browser',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions retrieved',
+    type: TBaseDTO<SessionDto[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getSessions(@Request() req: any): Promise<TBaseDTO<SessionDto[]>> {
+    try {
+      const sessions = await this.authService.getSessions(
+        req.user.userId,
+        req.cookies?.refreshToken,
+      );
+      return new TBaseDTO<SessionDto[]>(sessions);
+    } catch (error: any) {
+      return new TBaseDTO<SessionDto[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to get sessions',
+      );
+    }
+  }
+
+  /**
+   * Revoke one session (its refresh token stops working)
+   */
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke a session' })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Session revoked',
+    type: TBaseDTO<{ message: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async revokeSession(
+    @Request() req: any,
+    @Param('id') sessionId: string,
+    @Response({ passthrough: true }) res: any,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    try {
+      const sessions = await this.authService.getSessions(
+        req.user.userId,
+        req.cookies?.refreshToken,
+      );
+      const revoked = await this.authService.revokeSession(
+        req.user.userId,
+        sessionId,
+      );
+      if (!revoked) {
+        return new TBaseDTO<{ message: string }>(
+          undefined,
+          undefined,
+          'Session not found',
+        );
+      }
+
+      // Revoking this browser's session logs it out
+      if (
+        sessions.some((session) => session.current && session.id === sessionId)
+      ) {
+        this.clearRefreshTokenCookie(res);
+      }
+
+      return new TBaseDTO<{ message: string }>({ message: 'Session revoked' });
+    } catch (error: any) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to revoke session',
+      );
+    }
+  }
+
+  /**
+   * Revoke all sessions (sign out everywhere, including this browser)
+   */
+  @Delete('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke all sessions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions revoked',
+    type: TBaseDTO<{ revoked: number }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async revokeAllSessions(
+    @Request() req: any,
+    @Response({ passthrough: true }) res: any,
+  ): Promise<TBaseDTO<{ revoked: number }>> {
+    try {
+      const revoked = await this.authService.revokeAllSessions(req.user.userId);
+      this.clearRefreshTokenCookie(res);
+      return new TBaseDTO<{ revoked: number }>({ revoked });
+    } catch (error: any) {
+      return new TBaseDTO<{ revoked: number }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to revoke sessions',
+      );
+    }
+  }
+
+  /**
+   * 2FA state of the current user
+   */
+  @Get('2fa')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get two-factor authentication status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Status retrieved',
+    type: TBaseDTO<{ enabled: boolean; recoveryCodesLeft: number }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getTwoFactorStatus(
+    @Request() req: any,
+  ): Promise<TBaseDTO<{ enabled: boolean; recoveryCodesLeft: number }>> {
+    try {
+      const status = await this.twoFactorService.getStatus(req.user.userId);
+      return new TBaseDTO<{ enabled: boolean; recoveryCodesLeft: number }>(
+        status,
+      );
+    } catch (error: any) {
+      return new TBaseDTO<{ enabled: boolean; recoveryCodesLeft: number }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to get two-factor status',
+      );
+    }
+  }
+
+  /**
+   * Start 2FA enrolment
+   */
+  @Post('2fa/setup')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start two-factor setup',
+    description:
+      'Returns a new secret and its otpauth:// URI (for a QR code); confirm it with /auth/2fa/confirm',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Setup started',
+    type: TBaseDTO<{ secret: string; otpauthUri: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async setupTwoFactor(
+    @Request() req: any,
+    @Body() setupDto: TwoFactorSetupDto,
+  ): Promise<TBaseDTO<TwoFactorProvisioning>> {
+    try {
+      const user = await this.authService.validateUser(req.user.userId);
+      const provisioning = await this.twoFactorService.startSetup(
+        user,
+        setupDto.password,
+      );
+      return new TBaseDTO<TwoFactorProvisioning>(provisioning);
+    } catch (error: any) {
+      return new TBaseDTO<TwoFactorProvisioning>(
+        undefined,
+        undefined,
+        error.message || 'Failed to start two-factor setup',
+      );
+    }
+  }
+
+  /**
+   * Confirm enrolment (or a reset) with a code from the app
+   */
+  @Post('2fa/confirm')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm two-factor setup',
+    description:
+      'Enables 2FA with the pending secret and returns recovery codes (shown only once)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled',
+    type: TBaseDTO<{ recoveryCodes: string[] }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async confirmTwoFactor(
+    @Request() req: any,
+    @Body() confirmDto: TwoFactorConfirmDto,
+  ): Promise<TBaseDTO<{ recoveryCodes: string[] }>> {
+    try {
+      const recoveryCodes = await this.twoFactorService.confirm(
+        req.user.userId,
+        confirmDto.code,
+      );
+      return new TBaseDTO<{ recoveryCodes: string[] }>({ recoveryCodes });
+    } catch (error: any) {
+      return new TBaseDTO<{ recoveryCodes: string[] }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to confirm two-factor setup',
+      );
+    }
+  }
+
+  /**
+   * Move 2FA to a new authenticator app
+   */
+  @Post('2fa/reset')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset two-factor authentication',
+    description:
+      'Requires the password and a current code. Returns a new secret; the old one stays active until /auth/2fa/confirm',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reset started',
+    type: TBaseDTO<{ secret: string; otpauthUri: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async resetTwoFactor(
+    @Request() req: any,
+    @Body() reauthDto: TwoFactorReauthDto,
+  ): Promise<TBaseDTO<TwoFactorProvisioning>> {
+    try {
+      const user = await this.authService.validateUser(req.user.userId);
+      const provisioning = await this.twoFactorService.reset(
+        user,
+        reauthDto.password,
+        reauthDto.code,
+      );
+      return new TBaseDTO<TwoFactorProvisioning>(provisioning);
+    } catch (error: any) {
+      return new TBaseDTO<TwoFactorProvisioning>(
+        undefined,
+        undefined,
+        error.message || 'Failed to reset two-factor authentication',
+      );
+    }
+  }
+
+  /**
+   * Turn 2FA off
+   */
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description: 'Requires the password and a current or recovery code',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication disabled',
+    type: TBaseDTO<{ message: string }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async disableTwoFactor(
+    @Request() req: any,
+    @Body() reauthDto: TwoFactorReauthDto,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    try {
+      const user = await this.authService.validateUser(req.user.userId);
+      await this.twoFactorService.disable(
+        user,
+        reauthDto.password,
+        reauthDto.code,
+      );
+      return new TBaseDTO<{ message: string }>({
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error: any) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to disable two-factor authentication',
+      );
+    }
+  }
+
+  /**
+   * Replace the recovery codes
+   */
+  @Post('2fa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description:
+      'Requires the password and a current code; the old recovery codes stop working',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'New recovery codes (shown only once)',
+    type: TBaseDTO<{ recoveryCodes: string[] }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async regenerateRecoveryCodes(
+    @Request() req: any,
+    @Body() reauthDto: TwoFactorReauthDto,
+  ): Promise<TBaseDTO<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await this.authService.validateUser(req.user.userId);
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+        user,
+        reauthDto.password,
+        reauthDto.code,
+      );
+      return new TBaseDTO<{ recoveryCodes: string[] }>({ recoveryCodes });
+    } catch (error: any) {
+      return new TBaseDTO<{ recoveryCodes: string[] }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to regenerate recovery codes',
+      );
+    }
+  }
+
+  /**
+   * Device and IP of a request, stored with its session
+   */
+  private getSessionMeta(req: any): SessionMeta {
+    return {
+      userAgent: req.headers?.['user-agent'],
+      ipAddress: req.ip,
+    };
+  }
+
   /**
    * Set refresh token as httpOnly cookie
    */
@@ -3,24 +3,41 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { GoogleStrategy } from './strategies/google.strategy';
 import { User } from './entities/user.entity';
 import { RefreshToken } from './entities/refresh-token.entity';
-import { GmailToken } from '../gmail/entities/gmail-token.entity';
+import { UserTwoFactor } from './entities/user-two-factor.entity';
+import { AuthLockout } from './entities/auth-lockout.entity';
+import { CryptoModule } from '../common/crypto/crypto.module';
+import { MailerModule } from '../mailer/mailer.module';
+import { RateLimitModule } from '../common/rate-limit/rate-limit.module';
+import { GmailModule } from '../gmail/gmail.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User, RefreshToken, GmailToken]),
+    TypeOrmModule.forFeature([User, RefreshToken, UserTwoFactor, AuthLockout]),
     PassportModule,
+    CryptoModule,
+    MailerModule,
+    RateLimitModule,
+    GmailModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'secret-key',
       signOptions: { expiresIn: '15m' },
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, GoogleStrategy],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    TwoFactorService,
+    LoginThrottleService,
+    JwtStrategy,
+    GoogleStrategy,
+  ],
+  exports: [AuthService, TwoFactorService],
 })
 export class AuthModule {}
@@ -1,16 +1,39 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, LessThan, MoreThan, Not, Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
-import { AuthResponseDto, UserDto } from './dto/auth-response.dto';
+import {
+  AuthResponseDto,
+  TwoFactorChallengeDto,
+  UserDto,
+} from './dto/auth-response.dto';
+import { TwoFactorLoginDto } from './dto/two-factor.dto';
+import {
+  ChangePasswordDto,
+  ResetPasswordDto,
+  SetPasswordDto,
+} from './dto/password.dto';
+import { SessionDto } from './dto/session.dto';
 import { User } from './entities/user.entity';
 import { RefreshToken } from './entities/refresh-token.entity';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { MailerService } from '../mailer/mailer.service';
 import { TBaseDTO } from '../common/dto/base.dto';
 
+/**
+ * Device and IP of the request that logs in or refreshes
+ */
+export interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
 /**
  * Service for authentication operations
  */
@@ -18,6 +41,10 @@ import { TBaseDTO } from '../common/dto/base.dto';
 export class AuthService implements OnModuleInit {
   private readonly ACCESS_TOKEN_EXPIRY = '2h'; // 2 hours
   private readonly REFRESH_TOKEN_EXPIRY = '7d'; // 7 days
+  private readonly TWO_FACTOR_CHALLENGE_EXPIRY = '5m'; // 5 minutes
+  private readonly EMAIL_VERIFICATION_EXPIRY = '24h'; // 24 hours
+  private readonly PASSWORD_RESET_EXPIRY = '1h'; // 1 hour
+  private readonly REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Same as REFRESH_TOKEN_EXPIRY
 
   constructor(
     @InjectRepository(User)
@@ -25,6 +52,9 @@ export class AuthService implements OnModuleInit {
     @InjectRepository(RefreshToken)
     private readonly refreshTokenRepository: Repository<RefreshToken>,
     private readonly jwtService: JwtService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly mailerService: MailerService,
+    private readonly loginThrottleService: LoginThrottleService,
   ) {}
 
   /**
@@ -51,6 +81,7 @@ export class AuthService implements OnModuleInit {
         email: defaultEmail,
         password: hashedPassword,
         name: 'John Doe',
+        emailVerifiedAt: new Date(),
       });
 
       await this.userRepository.save(defaultUser);
@@ -61,7 +92,17 @@ export class AuthService implements OnModuleInit {
   /**
    * Register a new user
    */
-  async register(registerDto: RegisterDto): Promise<TBaseDTO<AuthResponseDto>> {
+  async register(
+    registerDto: RegisterDto,
+    meta: SessionMeta = {},
+  ): Promise<TBaseDTO<AuthResponseDto>> {
+    const retryAfter = await this.loginThrottleService.hitRegistration(
+      meta.ipAddress,
+    );
+    if (retryAfter > 0) {
+      return this.tooManyAttempts<AuthResponseDto>(retryAfter);
+    }
+
     // Check if user already exists
     const existingUser = await this.userRepository.findOne({
       where: { email: registerDto.email },
@@ -87,19 +128,40 @@ export class AuthService implements OnModuleInit {
 
     const savedUser = await this.userRepository.save(newUser);
 
+    // A failed mail does not fail the registration; it can be sent again
+    await this.sendVerificationEmail(savedUser).catch((error) =>
+      console.error('Failed to send verification email:', error),
+    );
+
     // Return auth response (auto-login after registration)
-    return this.generateAuthResponse(savedUser);
+    return this.generateAuthResponse(savedUser, meta);
   }
 
   /**
    * Authenticate user with email and password
+   * With 2FA enabled only a challenge token is returned (see loginWithTwoFactor)
    */
-  async login(loginDto: LoginDto): Promise<TBaseDTO<AuthResponseDto>> {
+  async login(
+    loginDto: LoginDto,
+    meta: SessionMeta = {},
+  ): Promise<TBaseDTO<AuthResponseDto | TwoFactorChallengeDto>> {
+    const retryAfter = await this.loginThrottleService.getLoginRetryAfter(
+      meta.ipAddress,
+      loginDto.email,
+    );
+    if (retryAfter > 0) {
+      return this.tooManyAttempts<AuthResponseDto>(retryAfter);
+    }
+
     const user = await this.userRepository.findOne({
       where: { email: loginDto.email },
     });
 
     if (!user || !user.password) {
+      await this.loginThrottleService.recordLoginFailure(
+        meta.ipAddress,
+        loginDto.email,
+      );
       return new TBaseDTO<AuthResponseDto>(
         undefined,
         undefined,
@@ -113,6 +175,11 @@ export class AuthService implements OnModuleInit {
     );
 
     if (!isPasswordValid) {
+      await this.loginThrottleService.recordLoginFailure(
+        meta.ipAddress,
+        loginDto.email,
+        user.id,
+      );
       return new TBaseDTO<AuthResponseDto>(
         undefined,
         undefined,
@@ -120,15 +187,107 @@ export class AuthService implements OnModuleInit {
       );
     }
 
-    return this.generateAuthResponse(user);
+    if (
+      process.env.REQUIRE_EMAIL_VERIFICATION === 'true' &&
+      !user.emailVerifiedAt
+    ) {
+      return new TBaseDTO<AuthResponseDto>(
+        undefined,
+        undefined,
+        'Please verify your email address first',
+      );
+    }
+
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      const challengeToken = this.jwtService.sign(
+        { sub: user.id, typ: '2fa' },
+        {
+          secret: process.env.JWT_SECRET || 'secret-key',
+          expiresIn: this.TWO_FACTOR_CHALLENGE_EXPIRY,
+        },
+      );
+      return new TBaseDTO<TwoFactorChallengeDto>({
+        twoFactorRequired: true,
+        challengeToken,
+      });
+    }
+
+    await this.loginThrottleService.recordLoginSuccess(user.email);
+    return this.generateAuthResponse(user, meta);
+  }
+
+  /**
+   * Second step of a password login with 2FA: challenge token plus a TOTP
+   * or recovery code
+   */
+  async loginWithTwoFactor(
+    twoFactorLoginDto: TwoFactorLoginDto,
+    meta: SessionMeta = {},
+  ): Promise<TBaseDTO<AuthResponseDto>> {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(twoFactorLoginDto.challengeToken, {
+        secret: process.env.JWT_SECRET || 'secret-key',
+      });
+    } catch (error) {
+      payload = null;
+    }
+    if (payload?.typ !== '2fa') {
+      return new TBaseDTO<AuthResponseDto>(
+        undefined,
+        undefined,
+        'Invalid or expired challenge, please log in again',
+      );
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub },
+    });
+    if (!user) {
+      return new TBaseDTO<AuthResponseDto>(
+        undefined,
+        undefined,
+        'User not found',
+      );
+    }
+
+    // Wrong codes count like wrong passwords
+    const retryAfter = await this.loginThrottleService.getLoginRetryAfter(
+      meta.ipAddress,
+      user.email,
+    );
+    if (retryAfter > 0) {
+      return this.tooManyAttempts<AuthResponseDto>(retryAfter);
+    }
+    if (
+      !(await this.twoFactorService.verifyCode(user.id, twoFactorLoginDto.code))
+    ) {
+      await this.loginThrottleService.recordLoginFailure(
+        meta.ipAddress,
+        user.email,
+        user.id,
+      );
+      return new TBaseDTO<AuthResponseDto>(
+        undefined,
+        undefined,
+        'Invalid verification code',
+      );
+    }
+
+    await this.loginThrottleService.recordLoginSuccess(user.email);
+    return this.generateAuthResponse(user, meta);
   }
 
   /**
    * Refresh access token using refresh token
+   * The refresh token is rotated: the presented one is spent and a new one of
+   * the same family is returned. Presenting a spent token again revokes the
+   * whole family (the token was likely stolen)
    */
   async refreshToken(
     refreshTokenDto: RefreshTokenDto,
-  ): Promise<TBaseDTO<{ accessToken: string }>> {
+    meta: SessionMeta = {},
+  ): Promise<TBaseDTO<{ accessToken: string; refreshToken: string }>> {
     try {
       const payload = this.jwtService.verify(refreshTokenDto.refreshToken, {
         secret: process.env.JWT_REFRESH_SECRET || 'refresh-secret-key',
@@ -140,35 +299,58 @@ export class AuthService implements OnModuleInit {
         relations: ['user'],
       });
 
-      if (!refreshTokenEntity || refreshTokenEntity.userId !== payload.sub) {
-        return new TBaseDTO<{ accessToken: string }>(
+      if (
+        !refreshTokenEntity ||
+        refreshTokenEntity.userId !== payload.sub ||
+        refreshTokenEntity.revokedAt
+      ) {
+        return new TBaseDTO<{ accessToken: string; refreshToken: string }>(
           undefined,
           undefined,
           'Invalid refresh token',
         );
       }
 
+      // Spend the token; only one of concurrent refreshes can succeed
+      const spent = refreshTokenEntity.rotatedAt
+        ? { affected: 0 }
+        : await this.refreshTokenRepository.update(
+            { id: refreshTokenEntity.id, rotatedAt: IsNull() },
+            { rotatedAt: new Date() },
+          );
+      if (!spent.affected) {
+        await this.revokeFamily(refreshTokenEntity.familyId);
+        console.warn(
+          `Refresh token reuse detected for user ${refreshTokenEntity.userId}, session ${refreshTokenEntity.familyId} revoked`,
+        );
+        return new TBaseDTO<{ accessToken: string; refreshToken: string }>(
+          undefined,
+          undefined,
+          'Refresh token reuse detected, session revoked',
+        );
+      }
+
       const user = refreshTokenEntity.user;
       if (!user) {
-        return new TBaseDTO<{ accessToken: string }>(
+        return new TBaseDTO<{ accessToken: string; refreshToken: string }>(
           undefined,
           undefined,
           'User not found',
         );
       }
 
-      // Generate new access token
-      const accessToken = this.jwtService.sign(
-        { sub: user.id, email: user.email },
-        {
-          secret: process.env.JWT_SECRET || 'secret-key',
-          expiresIn: this.ACCESS_TOKEN_EXPIRY,
-        },
-      );
+      const tokens = await this.issueTokens(user, {
+        familyId: refreshTokenEntity.familyId,
+        sessionStartedAt: refreshTokenEntity.sessionStartedAt,
+        userAgent: meta.userAgent || refreshTokenEntity.userAgent,
+        ipAddress: meta.ipAddress || refreshTokenEntity.ipAddress,
+      });
 
-      return new TBaseDTO<{ accessToken: string }>({ accessToken });
+      return new TBaseDTO<{ accessToken: string; refreshToken: string }>(
+        tokens,
+      );
     } catch (error) {
-      return new TBaseDTO<{ accessToken: string }>(
+      return new TBaseDTO<{ accessToken: string; refreshToken: string }>(
         undefined,
         undefined,
         'Invalid or expired refresh token',
@@ -180,30 +362,31 @@ export class AuthService implements OnModuleInit {
    * Generate authentication response with tokens
    * Made public for use in GoogleStrategy
    */
-  async generateAuthResponse(user: User): Promise<TBaseDTO<AuthResponseDto>> {
-    const payload = { sub: user.id, email: user.email };
-
-    const accessToken = this.jwtService.sign(payload, {
-      secret: process.env.JWT_SECRET || 'secret-key',
-      expiresIn: this.ACCESS_TOKEN_EXPIRY,
+  async generateAuthResponse(
+    user: User,
+    meta: SessionMeta = {},
+  ): Promise<TBaseDTO<AuthResponseDto>> {
+    // Drop this user's expired tokens
+    await this.refreshTokenRepository.delete({
+      userId: user.id,
+      expiresAt: LessThan(new Date()),
     });
 
-    const refreshToken = this.jwtService.sign(payload, {
-      secret: process.env.JWT_REFRESH_SECRET || 'refresh-secret-key',
-      expiresIn: this.REFRESH_TOKEN_EXPIRY,
+    // Each login starts a new session (token family)
+    const { accessToken, refreshToken } = await this.issueTokens(user, {
+      familyId: randomUUID(),
+      sessionStartedAt: new Date(),
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
     });
 
-    // Store refresh token in database
-    const refreshTokenEntity = this.refreshTokenRepository.create({
-      token: refreshToken,
-      userId: user.id,
-    });
-    await this.refreshTokenRepository.save(refreshTokenEntity);
-
     const userDto: UserDto = {
       id: user.id,
       email: user.email,
       name: user.name,
+      emailVerified: !!user.emailVerifiedAt,
+      hasPassword: !!user.password,
+      role: user.role,
     };
 
     const authResponse: AuthResponseDto = {
@@ -223,9 +406,430 @@ export class AuthService implements OnModuleInit {
   }
 
   /**
-   * Revoke refresh token (on logout)
+   * Revoke the session of a refresh token (on logout)
    */
   async revokeRefreshToken(refreshToken: string): Promise<void> {
-    await this.refreshTokenRepository.delete({ token: refreshToken });
+    const refreshTokenEntity = await this.refreshTokenRepository.findOne({
+      where: { token: refreshToken },
+    });
+    if (refreshTokenEntity) {
+      await this.revokeFamily(refreshTokenEntity.familyId);
+    }
+  }
+
+  /**
+   * Active sessions of a user, newest activity first
+   * currentRefreshToken (the caller's cookie) marks the calling session
+   */
+  async getSessions(
+    userId: number,
+    currentRefreshToken?: string,
+  ): Promise<SessionDto[]> {
+    // The unspent token of a family is its current one
+    const tokens = await this.refreshTokenRepository.find({
+      where: {
+        userId,
+        rotatedAt: IsNull(),
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { createdAt: 'DESC' },
+    });
+
+    return tokens.map((token) => ({
+      id: token.familyId,
+      userAgent: token.userAgent || null,
+      ipAddress: token.ipAddress || null,
+      createdAt: token.sessionStartedAt,
+      lastActiveAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      current: !!currentRefreshToken && token.token === currentRefreshToken,
+    }));
+  }
+
+  /**
+   * Revoke one session of a user
+   * Returns false when the session does not exist or is already revoked
+   */
+  async revokeSession(userId: number, sessionId: string): Promise<boolean> {
+    const result = await this.refreshTokenRepository.update(
+      { userId, familyId: sessionId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    return !!result.affected;
+  }
+
+  /**
+   * Revoke all sessions of a user (sign out everywhere), except keepSessionId
+   * Returns the number of revoked sessions
+   */
+  async revokeAllSessions(
+    userId: number,
+    keepSessionId?: string,
+  ): Promise<number> {
+    const sessions = await this.getSessions(userId);
+    await this.refreshTokenRepository.update(
+      {
+        userId,
+        revokedAt: IsNull(),
+        ...(keepSessionId ? { familyId: Not(keepSessionId) } : {}),
+      },
+      { revokedAt: new Date() },
+    );
+    return sessions.filter((session) => session.id !== keepSessionId).length;
+  }
+
+  /**
+   * Mail a link confirming the user's address
+   */
+  async sendVerificationEmail(user: User): Promise<void> {
+    const token = this.jwtService.sign(
+      { sub: user.id, typ: 'verify_email', email: user.email },
+      {
+        secret: process.env.JWT_SECRET || 'secret-key',
+        expiresIn: this.EMAIL_VERIFICATION_EXPIRY,
+      },
+    );
+    await this.mailerService.sendEmailVerification(
+      user.email,
+      user.name,
+      `${this.getFrontendUrl()}/verify-email?token=${encodeURIComponent(token)}`,
+    );
+  }
+
+  /**
+   * Send the verification mail again (current user)
+   */
+  async resendVerificationEmail(
+    userId: number,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'User not found',
+      );
+    }
+    if (user.emailVerifiedAt) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'Email address is already verified',
+      );
+    }
+
+    await this.sendVerificationEmail(user);
+    return new TBaseDTO<{ message: string }>({
+      message: 'Verification email sent',
+    });
+  }
+
+  /**
+   * Confirm an address with the token from the verification mail
+   * The token only works for the address it was sent to
+   */
+  async verifyEmail(token: string): Promise<TBaseDTO<{ message: string }>> {
+    const payload = this.verifyActionToken(token, 'verify_email');
+    const user = payload
+      ? await this.userRepository.findOne({ where: { id: payload.sub } })
+      : null;
+    if (!user || user.email !== payload.email) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'Invalid or expired verification link',
+      );
+    }
+
+    if (!user.emailVerifiedAt) {
+      user.emailVerifiedAt = new Date();
+      await this.userRepository.save(user);
+    }
+    return new TBaseDTO<{ message: string }>({
+      message: 'Email address verified',
+    });
+  }
+
+  /**
+   * Mail a password reset link
+   * The answer is the same whether or not the address has an account
+   */
+  async requestPasswordReset(
+    email: string,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    const user = await this.userRepository.findOne({ where: { email } });
+    if (user?.password) {
+      const token = this.jwtService.sign(
+        {
+          sub: user.id,
+          typ: 'reset_password',
+          pwd: this.getPasswordFingerprint(user),
+        },
+        {
+          secret: process.env.JWT_SECRET || 'secret-key',
+          expiresIn: this.PASSWORD_RESET_EXPIRY,
+        },
+      );
+      await this.mailerService
+        .sendPasswordReset(
+          user.email,
+          user.name,
+          `${this.getFrontendUrl()}/reset-password?token=${encodeURIComponent(token)}`,
+        )
+        .catch((error) =>
+          console.error('Failed to send password reset email:', error),
+        );
+    }
+
+    return new TBaseDTO<{ message: string }>({
+      message: 'If the address has an account, a reset link was sent',
+    });
+  }
+
+  /**
+   * Set a new password with the token from the reset mail
+   * The token stops working once the password changed; all sessions are revoked
+   */
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    const payload = this.verifyActionToken(
+      resetPasswordDto.token,
+      'reset_password',
+    );
+    const user = payload
+      ? await this.userRepository.findOne({ where: { id: payload.sub } })
+      : null;
+    if (!user || payload.pwd !== this.getPasswordFingerprint(user)) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'Invalid or expired reset link',
+      );
+    }
+
+    user.password = await bcrypt.hash(resetPasswordDto.newPassword, 10);
+    // The reset mail reached the address
+    user.emailVerifiedAt = user.emailVerifiedAt || new Date();
+    await this.userRepository.save(user);
+    await this.revokeAllSessions(user.id);
+
+    return new TBaseDTO<{ message: string }>({
+      message: 'Password has been reset, please log in',
+    });
+  }
+
+  /**
+   * Change the password of the current user
+   * Other sessions are revoked; the calling session (currentRefreshToken) stays
+   */
+  async changePassword(
+    userId: number,
+    changePasswordDto: ChangePasswordDto,
+    currentRefreshToken?: string,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (
+      !user?.password ||
+      !(await bcrypt.compare(changePasswordDto.currentPassword, user.password))
+    ) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'Current password is incorrect',
+      );
+    }
+
+    user.password = await bcrypt.hash(changePasswordDto.newPassword, 10);
+    await this.userRepository.save(user);
+    await this.revokeAllSessions(
+      user.id,
+      await this.getSessionId(user.id, currentRefreshToken),
+    );
+
+    return new TBaseDTO<{ message: string }>({ message: 'Password changed' });
+  }
+
+  /**
+   * Add a password to a Google-only account (enables email/password login)
+   */
+  async setPassword(
+    userId: number,
+    setPasswordDto: SetPasswordDto,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'User not found',
+      );
+    }
+    if (user.password) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'Account already has a password, use change password',
+      );
+    }
+
+    user.password = await bcrypt.hash(setPasswordDto.newPassword, 10);
+    await this.userRepository.save(user);
+    return new TBaseDTO<{ message: string }>({ message: 'Password added' });
+  }
+
+  /**
+   * Remove the password of an account linked to Google (Google login only)
+   * Other sessions are revoked
+   */
+  async removePassword(
+    userId: number,
+    currentPassword: string,
+    currentRefreshToken?: string,
+  ): Promise<TBaseDTO<{ message: string }>> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user?.googleId) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'Link a Google account before removing the password',
+      );
+    }
+    if (
+      !user.password ||
+      !(await bcrypt.compare(currentPassword, user.password))
+    ) {
+      return new TBaseDTO<{ message: string }>(
+        undefined,
+        undefined,
+        'Current password is incorrect',
+      );
+    }
+
+    user.password = null;
+    await this.userRepository.save(user);
+    await this.revokeAllSessions(
+      user.id,
+      await this.getSessionId(user.id, currentRefreshToken),
+    );
+    return new TBaseDTO<{ message: string }>({ message: 'Password removed' });
+  }
+
+  /**
+   * Sign an access token and a refresh token of the given family
+   */
+  private async issueTokens(
+    user: User,
+    session: {
+      familyId: string;
+      sessionStartedAt: Date;
+      userAgent?: string;
+      ipAddress?: string;
+    },
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const payload = { sub: user.id, email: user.email };
+
+    const accessToken = this.jwtService.sign(payload, {
+      secret: process.env.JWT_SECRET || 'secret-key',
+      expiresIn: this.ACCESS_TOKEN_EXPIRY,
+    });
+
+    // jti keeps tokens rotated within the same second unique
+    const refreshToken = this.jwtService.sign(
+      { ...payload, jti: randomUUID() },
+      {
+        secret: process.env.JWT_REFRESH_SECRET || 'refresh-secret-key',
+        expiresIn: this.REFRESH_TOKEN_EXPIRY,
+      },
+    );
+
+    // Store refresh token in database
+    const refreshTokenEntity = this.refreshTokenRepository.create({
+      token: refreshToken,
+      userId: user.id,
+      familyId: session.familyId,
+      sessionStartedAt: session.sessionStartedAt,
+      userAgent: session.userAgent?.slice(0, 255),
+      ipAddress: session.ipAddress?.slice(0, 64),
+      expiresAt: new Date(Date.now() + this.REFRESH_TOKEN_TTL_MS),
+    });
+    await this.refreshTokenRepository.save(refreshTokenEntity);
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Payload of a verification/reset token of the given type, or null
+   */
+  private verifyActionToken(token: string, type: string): any | null {
+    try {
+      const payload = this.jwtService.verify(token, {
+        secret: process.env.JWT_SECRET || 'secret-key',
+      });
+      return payload.typ === type ? payload : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Short hash of the stored password hash; reset tokens carry it so they
+   * are single use (the fingerprint changes with the password)
+   */
+  private getPasswordFingerprint(user: User): string {
+    return createHash('sha256')
+      .update(user.password || '')
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Session (token family) of a refresh token of the user
+   */
+  private async getSessionId(
+    userId: number,
+    refreshToken?: string,
+  ): Promise<string | undefined> {
+    if (!refreshToken) {
+      return undefined;
+    }
+    const refreshTokenEntity = await this.refreshTokenRepository.findOne({
+      where: { token: refreshToken, userId },
+    });
+    return refreshTokenEntity?.familyId;
+  }
+
+  /**
+   * Error returned while a client is throttled or locked out
+   */
+  private tooManyAttempts<T>(retryAfterSeconds: number): TBaseDTO<T> {
+    return new TBaseDTO<T>(
+      undefined,
+      `Retry after ${retryAfterSeconds} seconds`,
+      `Too many attempts, please try again in ${this.formatDuration(retryAfterSeconds)}`,
+    );
+  }
+
+  private formatDuration(seconds: number): string {
+    if (seconds < 60) {
+      return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    }
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+
+  private getFrontendUrl(): string {
+    return process.env.FRONTEND_URL || 'http://localhost:5173';
+  }
+
+  /**
+   * Revoke every token of a session
+   */
+  private async revokeFamily(familyId: string): Promise<void> {
+    await this.refreshTokenRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
   }
 }
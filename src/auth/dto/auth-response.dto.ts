@@ -12,6 +12,18 @@ export class UserDto {
 
   @ApiProperty({ example: 'John Doe' })
   name: string;
+
+  @ApiProperty({ example: true })
+  emailVerified: boolean;
+
+  @ApiProperty({
+    example: true,
+    description: 'False for Google-only accounts',
+  })
+  hasPassword: boolean;
+
+  @ApiProperty({ example: 'user', enum: ['user', 'admin'] })
+  role: string;
 }
 
 /**
@@ -34,3 +46,16 @@ export class AuthResponseDto {
   refreshToken: string;
 }
 
+/**
+ * Login response when the account has two-factor authentication
+ * The challenge token is exchanged at /auth/login/2fa together with a code
+ */
+export class TwoFactorChallengeDto {
+  @ApiProperty({ example: true })
+  twoFactorRequired: true;
+
+  @ApiProperty({
+    description: 'Short-lived (5 minutes) token for /auth/login/2fa',
+  })
+  challengeToken: string;
+}
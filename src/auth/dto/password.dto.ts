@@ -0,0 +1,80 @@
+import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for requesting a password reset mail
+ */
+export class ForgotPasswordDto {
+  @ApiProperty({
+    description: 'User email address',
+    example: 'user@example.com',
+  })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email: string;
+}
+
+/**
+ * DTO for setting a new password with the token from the reset mail
+ */
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset link' })
+  @IsString()
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+
+  @ApiProperty({
+    description: 'New password',
+    example: 'new-password123',
+    minLength: 6,
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'New password is required' })
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  newPassword: string;
+}
+
+/**
+ * DTO for changing the password of the current user
+ */
+export class ChangePasswordDto {
+  @ApiProperty({ description: 'Current password', example: 'password123' })
+  @IsString()
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword: string;
+
+  @ApiProperty({
+    description: 'New password',
+    example: 'new-password123',
+    minLength: 6,
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'New password is required' })
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  newPassword: string;
+}
+
+/**
+ * DTO for adding a password to a Google-only account
+ */
+export class SetPasswordDto {
+  @ApiProperty({
+    description: 'New password',
+    example: 'new-password123',
+    minLength: 6,
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'New password is required' })
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  newPassword: string;
+}
+
+/**
+ * DTO for removing the password of an account linked to Google
+ */
+export class RemovePasswordDto {
+  @ApiProperty({ description: 'Current password', example: 'password123' })
+  @IsString()
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword: string;
+}
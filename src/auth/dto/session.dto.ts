@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Active login session (refresh token family)
+ */
+export class SessionDto {
+  @ApiProperty({ example: '3f1c2b8e-9a4d-4e0f-8c51-2d7b6a9e4f10' })
+  id: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ description: 'Login time' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last token refresh' })
+  lastActiveAt: Date;
+
+  @ApiProperty({ description: 'Expiry of the current refresh token' })
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'Session of the calling browser' })
+  current: boolean;
+}
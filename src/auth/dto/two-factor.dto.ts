@@ -0,0 +1,61 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for starting 2FA setup (re-authentication with the password)
+ */
+export class TwoFactorSetupDto {
+  @ApiProperty({ description: 'Current password', example: 'password123' })
+  @IsString()
+  @IsNotEmpty({ message: 'Password is required' })
+  password: string;
+}
+
+/**
+ * DTO for confirming 2FA setup with a code from the authenticator app
+ */
+export class TwoFactorConfirmDto {
+  @ApiProperty({
+    description: 'Code from the authenticator app',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
+
+/**
+ * DTO for changing an enabled 2FA setup (password and a current code)
+ */
+export class TwoFactorReauthDto {
+  @ApiProperty({ description: 'Current password', example: 'password123' })
+  @IsString()
+  @IsNotEmpty({ message: 'Password is required' })
+  password: string;
+
+  @ApiProperty({
+    description: 'Code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
+
+/**
+ * DTO for the second step of a password login
+ */
+export class TwoFactorLoginDto {
+  @ApiProperty({ description: 'Challenge token returned by /auth/login' })
+  @IsString()
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken: string;
+
+  @ApiProperty({
+    description: 'Code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
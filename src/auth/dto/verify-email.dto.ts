@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for confirming an email address with the token from the mail
+ */
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token from the verification link' })
+  @IsString()
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+}
@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Scope of a lockout: one account (email) or one client IP
+ */
+export enum LockoutScope {
+  ACCOUNT = 'account',
+  IP = 'ip',
+}
+
+/**
+ * Temporary lockout after repeated failed logins (audit trail)
+ */
+@Entity('auth_lockouts')
+@Index(['scope', 'identifier'])
+export class AuthLockout {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  scope: LockoutScope;
+
+  @Column({ type: 'varchar', length: 255 })
+  identifier: string; // Email (account scope) or IP address
+
+  @Column({ nullable: true })
+  userId: number; // Account of the email, when it exists
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ipAddress: string; // IP of the failure that triggered the lockout
+
+  @Column({ type: 'int' })
+  failures: number;
+
+  @Column({ type: 'timestamp' })
+  lockedUntil: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
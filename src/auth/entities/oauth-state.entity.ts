@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Pending OAuth connect flow (Gmail, Outlook)
+ * The state sent to the provider is the nonce signed with HMAC; a row is
+ * consumed by the first callback that presents it
+ */
+@Entity('oauth_states')
+@Index(['nonce'], { unique: true })
+export class OAuthState {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 64 })
+  nonce: string;
+
+  @Column()
+  userId: number; // User the mailbox gets linked to
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 20 })
+  provider: string; // Mail provider of the flow (gmail, outlook)
+
+  @Column({ type: 'varchar', length: 128 })
+  codeVerifier: string; // PKCE verifier, sent with the code exchange
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  consumedAt: Date; // Set by the callback; a second use is a replay
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -5,13 +5,17 @@ import {
   ManyToOne,
   CreateDateColumn,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { User } from './user.entity';
 
 /**
  * Refresh token entity for PostgreSQL database
+ * Tokens are rotated on every refresh; all tokens issued from one login share
+ * a familyId, which is the session shown in the sessions API
  */
 @Entity('refresh_tokens')
+@Index(['familyId'])
 export class RefreshToken {
   @PrimaryGeneratedColumn()
   id: number;
@@ -26,7 +30,27 @@ export class RefreshToken {
   @JoinColumn({ name: 'userId' })
   user: User;
 
+  @Column({ type: 'varchar', length: 64 })
+  familyId: string; // Session (login) the token belongs to
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  userAgent: string; // Device of the login
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ipAddress: string; // IP of the last login or refresh
+
+  @Column({ type: 'timestamp' })
+  sessionStartedAt: Date; // Login time, carried over on rotation
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  rotatedAt: Date; // Set when exchanged; presenting it again is a reuse
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date; // Set on logout, session revocation or detected reuse
+
   @CreateDateColumn()
   createdAt: Date;
 }
-
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * TOTP two-factor authentication of a user (password logins)
+ * Secrets are encrypted like mailbox credentials (see TokenEncryptionService)
+ */
+@Entity('user_two_factor')
+export class UserTwoFactor {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'text', nullable: true })
+  secret: string; // Active TOTP secret (base32, encrypted)
+
+  @Column({ type: 'text', nullable: true })
+  pendingSecret: string; // Secret being enrolled, becomes active once confirmed
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  encryptionKeyId: string; // Master key the row's data key is wrapped with
+
+  @Column({ type: 'text', nullable: true })
+  encryptedDataKey: string;
+
+  @Column({ type: 'text', nullable: true })
+  recoveryCodeHashes: string; // SHA-256 of unused recovery codes (JSON array as string)
+
+  @Column({ type: 'bigint', nullable: true })
+  lastUsedStep: string; // TOTP time step of the last accepted code (no replays)
+
+  @Column({ type: 'timestamp', nullable: true })
+  enabledAt: Date; // Null until the first code is confirmed
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
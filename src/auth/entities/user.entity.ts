@@ -8,6 +8,14 @@ import {
 } from 'typeorm';
 import { RefreshToken } from './refresh-token.entity';
 
+/**
+ * User role values
+ */
+export enum UserRole {
+  USER = 'user',
+  ADMIN = 'admin', // Operates the system (e.g. the AI pipeline admin endpoints)
+}
+
 /**
  * User entity for PostgreSQL database
  */
@@ -28,6 +36,12 @@ export class User {
   @Column({ nullable: true, unique: true })
   googleId?: string;
 
+  @Column({ type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date; // Null until the address is confirmed (Google accounts are verified)
+
+  @Column({ type: 'varchar', length: 20, default: UserRole.USER })
+  role: string; // user, admin
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,23 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { UserRole } from '../entities/user.entity';
+
+/**
+ * Admin Guard
+ * Use after JwtAuthGuard; the role is loaded from the database on every
+ * request, so granting or removing it needs no new token
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    if (request.user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Admin access required');
+    }
+    return true;
+  }
+}
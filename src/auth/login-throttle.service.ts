@@ -0,0 +1,183 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuthLockout, LockoutScope } from './entities/auth-lockout.entity';
+import {
+  RATE_LIMIT_STORE,
+  RateLimitStore,
+} from '../common/rate-limit/rate-limit-store.interface';
+
+/**
+ * Failure limits of one scope: after backoffAfter failures each further one
+ * blocks for a doubling delay, at lockoutAfter the scope is locked
+ */
+interface ThrottlePolicy {
+  backoffAfter: number;
+  lockoutAfter: number;
+}
+
+/**
+ * Brute-force protection of password logins and registrations
+ * Failed logins are counted per account (email) and per client IP
+ */
+@Injectable()
+export class LoginThrottleService {
+  private readonly FAILURE_WINDOW_MS = 15 * 60 * 1000; // Failures are forgotten after 15 minutes
+  private readonly MAX_BACKOFF_MS = 60 * 1000; // 1 minute
+  private readonly LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+  private readonly ACCOUNT_POLICY: ThrottlePolicy = {
+    backoffAfter: 3,
+    lockoutAfter: 10,
+  };
+  // Higher, since many users can share an IP (NAT, offices)
+  private readonly IP_POLICY: ThrottlePolicy = {
+    backoffAfter: 10,
+    lockoutAfter: 50,
+  };
+  private readonly REGISTRATION_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+  private readonly MAX_REGISTRATIONS_PER_IP = 5;
+
+  constructor(
+    @Inject(RATE_LIMIT_STORE)
+    private readonly rateLimitStore: RateLimitStore,
+    @InjectRepository(AuthLockout)
+    private readonly lockoutRepository: Repository<AuthLockout>,
+  ) {}
+
+  /**
+   * Seconds until the next login attempt is allowed (0 = allowed now)
+   */
+  async getLoginRetryAfter(
+    ipAddress: string | undefined,
+    email: string,
+  ): Promise<number> {
+    const locks = await Promise.all([
+      this.rateLimitStore.get(this.lockKey(LockoutScope.ACCOUNT, email)),
+      this.rateLimitStore.get(this.lockKey(LockoutScope.IP, ipAddress)),
+    ]);
+    return Math.max(
+      0,
+      ...locks.map((lock) => this.secondsUntil(lock?.expiresAt)),
+    );
+  }
+
+  /**
+   * Count a failed login (wrong password or 2FA code)
+   */
+  async recordLoginFailure(
+    ipAddress: string | undefined,
+    email: string,
+    userId?: number,
+  ): Promise<void> {
+    await this.recordFailure(
+      LockoutScope.ACCOUNT,
+      this.normalizeEmail(email),
+      this.ACCOUNT_POLICY,
+      { ipAddress, userId },
+    );
+    await this.recordFailure(
+      LockoutScope.IP,
+      ipAddress || 'unknown',
+      this.IP_POLICY,
+      { ipAddress, userId },
+    );
+  }
+
+  /**
+   * Forget the account's failures after a successful login
+   * The IP counter stays, so logging into an own account does not reset it
+   */
+  async recordLoginSuccess(email: string): Promise<void> {
+    await this.rateLimitStore.delete(
+      this.failureKey(LockoutScope.ACCOUNT, email),
+    );
+  }
+
+  /**
+   * Count a registration; seconds to wait when the IP registered too often
+   */
+  async hitRegistration(ipAddress: string | undefined): Promise<number> {
+    const counter = await this.rateLimitStore.increment(
+      `register:ip:${ipAddress || 'unknown'}`,
+      this.REGISTRATION_WINDOW_MS,
+    );
+    return counter.count > this.MAX_REGISTRATIONS_PER_IP
+      ? this.secondsUntil(counter.expiresAt)
+      : 0;
+  }
+
+  private async recordFailure(
+    scope: LockoutScope,
+    identifier: string,
+    policy: ThrottlePolicy,
+    context: { ipAddress?: string; userId?: number },
+  ): Promise<void> {
+    const failureKey = this.failureKey(scope, identifier);
+    const { count } = await this.rateLimitStore.increment(
+      failureKey,
+      this.FAILURE_WINDOW_MS,
+    );
+
+    if (count >= policy.lockoutAfter) {
+      const lockedUntil = new Date(Date.now() + this.LOCKOUT_MS);
+      await this.rateLimitStore.set(
+        this.lockKey(scope, identifier),
+        1,
+        lockedUntil,
+      );
+      // Attempts after the lockout start from zero
+      await this.rateLimitStore.delete(failureKey);
+
+      await this.lockoutRepository.save(
+        this.lockoutRepository.create({
+          scope,
+          identifier,
+          userId: context.userId,
+          ipAddress: context.ipAddress?.slice(0, 64),
+          failures: count,
+          lockedUntil,
+        }),
+      );
+      console.warn(
+        `Login lockout (${scope} ${identifier}) after ${count} failures, until ${lockedUntil.toISOString()}`,
+      );
+    } else if (count >= policy.backoffAfter) {
+      const delayMs = Math.min(
+        1000 * 2 ** (count - policy.backoffAfter),
+        this.MAX_BACKOFF_MS,
+      );
+      await this.rateLimitStore.set(
+        this.lockKey(scope, identifier),
+        1,
+        new Date(Date.now() + delayMs),
+      );
+    }
+  }
+
+  private failureKey(scope: LockoutScope, identifier?: string): string {
+    return `login:fail:${scope}:${this.normalize(scope, identifier)}`;
+  }
+
+  private lockKey(scope: LockoutScope, identifier?: string): string {
+    return `login:lock:${scope}:${this.normalize(scope, identifier)}`;
+  }
+
+  private normalize(scope: LockoutScope, identifier?: string): string {
+    if (!identifier) {
+      return 'unknown';
+    }
+    return scope === LockoutScope.ACCOUNT
+      ? this.normalizeEmail(identifier)
+      : identifier;
+  }
+
+  private normalizeEmail(email: string): string {
+    return (email || '').trim().toLowerCase().slice(0, 255);
+  }
+
+  private secondsUntil(date?: Date): number {
+    return date
+      ? Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000))
+      : 0;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OAuthStateService } from './oauth-state.service';
+import { OAuthState } from './entities/oauth-state.entity';
+
+/**
+ * OAuth state handling for mailbox connect flows (used by Gmail and Outlook)
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([OAuthState])],
+  providers: [OAuthStateService],
+  exports: [OAuthStateService],
+})
+export class OAuthStateModule {}
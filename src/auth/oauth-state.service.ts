@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { OAuthState } from './entities/oauth-state.entity';
+import {
+  createPkcePair,
+  generateStateNonce,
+  matchesStateNonce,
+  signState,
+  verifyState,
+} from './utils/oauth-state.util';
+
+/**
+ * Rejected OAuth state; code is used as the error of the callback redirect
+ */
+export class OAuthStateError extends Error {
+  constructor(
+    readonly code: 'invalid_state' | 'expired_state' | 'state_reused',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'OAuthStateError';
+  }
+}
+
+/**
+ * Signed, single-use, expiring state (with PKCE) for OAuth connect flows
+ * Binds the callback to the user who started the flow, and to their browser
+ * through an httpOnly cookie holding the nonce: a consent URL sent to someone
+ * else cannot link their mailbox to the account that started the flow
+ */
+@Injectable()
+export class OAuthStateService {
+  private readonly STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+  private readonly RETENTION_MS = 24 * 60 * 60 * 1000; // Expired rows kept for a day
+
+  constructor(
+    @InjectRepository(OAuthState)
+    private readonly oauthStateRepository: Repository<OAuthState>,
+  ) {}
+
+  /**
+   * Start a flow: state for the authorization URL and the PKCE challenge
+   * Sets the state cookie on the response that redirects to the provider
+   */
+  async create(
+    userId: number,
+    provider: string,
+    res: Response,
+  ): Promise<{ state: string; codeChallenge: string }> {
+    const nonce = generateStateNonce();
+    const { codeVerifier, codeChallenge } = createPkcePair();
+
+    await this.oauthStateRepository.save(
+      this.oauthStateRepository.create({
+        nonce,
+        userId,
+        provider,
+        codeVerifier,
+        expiresAt: new Date(Date.now() + this.STATE_TTL_MS),
+      }),
+    );
+
+    // Drop flows that were never finished
+    await this.oauthStateRepository.delete({
+      expiresAt: LessThan(new Date(Date.now() - this.RETENTION_MS)),
+    });
+
+    // Lax: sent along with the provider's top-level redirect to the callback
+    res.cookie(this.getCookieName(provider), nonce, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: this.STATE_TTL_MS,
+      path: '/',
+    });
+
+    return { state: signState(nonce, this.getSecret()), codeChallenge };
+  }
+
+  /**
+   * Finish a flow: check the state and mark it used
+   * Throws OAuthStateError for tampered, unknown, expired or replayed states,
+   * and for states started in another browser
+   */
+  async consume(
+    state: string | undefined,
+    provider: string,
+    req: Request,
+    res: Response,
+  ): Promise<{ userId: number; codeVerifier: string }> {
+    const cookieName = this.getCookieName(provider);
+    const cookieValue: string | undefined = req.cookies?.[cookieName];
+    res.clearCookie(cookieName, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+    });
+
+    const nonce = verifyState(state, this.getSecret());
+    if (!nonce) {
+      throw new OAuthStateError('invalid_state', 'OAuth state is invalid');
+    }
+    if (!matchesStateNonce(nonce, cookieValue)) {
+      throw new OAuthStateError(
+        'invalid_state',
+        'OAuth state was started in another browser',
+      );
+    }
+
+    const row = await this.oauthStateRepository.findOne({ where: { nonce } });
+    if (!row || row.provider !== provider) {
+      throw new OAuthStateError('invalid_state', 'OAuth state is unknown');
+    }
+    if (row.consumedAt) {
+      throw new OAuthStateError('state_reused', 'OAuth state was already used');
+    }
+    if (row.expiresAt.getTime() < Date.now()) {
+      throw new OAuthStateError('expired_state', 'OAuth state has expired');
+    }
+
+    // Only one of concurrent callbacks with the same state gets through
+    const result = await this.oauthStateRepository.update(
+      { id: row.id, consumedAt: IsNull() },
+      { consumedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new OAuthStateError('state_reused', 'OAuth state was already used');
+    }
+
+    return { userId: row.userId, codeVerifier: row.codeVerifier };
+  }
+
+  private getCookieName(provider: string): string {
+    return `oauth_state_${provider}`;
+  }
+
+  private getSecret(): string {
+    return (
+      process.env.OAUTH_STATE_SECRET || process.env.JWT_SECRET || 'secret-key'
+    );
+  }
+}
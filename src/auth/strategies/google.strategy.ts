@@ -5,7 +5,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { User } from '../entities/user.entity';
-import { GmailToken } from '../../gmail/entities/gmail-token.entity';
+import { GmailService } from '../../gmail/gmail.service';
 
 /**
  * Google OAuth2 Strategy - BACKEND-DRIVEN ONLY
@@ -24,9 +24,8 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
-    @InjectRepository(GmailToken)
-    private readonly gmailTokenRepository: Repository<GmailToken>,
     private readonly configService: ConfigService,
+    private readonly gmailService: GmailService,
   ) {
     // Match Gmail flow config exactly
     const googleRedirectUri =
@@ -109,8 +108,9 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
         });
 
         if (user) {
-          // Link Google account to existing user
+          // Link Google account to existing user (Google verified the address)
           user.googleId = googleId;
+          user.emailVerifiedAt = user.emailVerifiedAt || new Date();
           await this.userRepository.save(user);
         } else {
           // Create new user (OAuth user - no password)
@@ -119,6 +119,7 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
             name,
             googleId,
             password: null, // OAuth users don't have passwords
+            emailVerifiedAt: new Date(),
           });
           await this.userRepository.save(user);
         }
@@ -134,31 +135,14 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
       // NOTE: With incremental authorization (minimal scopes in initial auth),
       // refresh_token will NOT be provided here. Users must connect Gmail separately.
       if (refreshToken) {
-        const expiryDate = new Date();
-        expiryDate.setHours(expiryDate.getHours() + 1); // Access tokens typically expire in 1 hour
-
-        let gmailToken = await this.gmailTokenRepository.findOne({
-          where: { userId: user.id },
-        });
-
-        if (gmailToken) {
-          // Update existing token
-          console.log('Updating existing token');
-          gmailToken.refreshToken = refreshToken;
-          gmailToken.accessToken = accessToken;
-          gmailToken.accessTokenExpiry = expiryDate;
-          await this.gmailTokenRepository.save(gmailToken);
-        } else {
-          // Create new token record
-          console.log('Creating new token record');
-          gmailToken = this.gmailTokenRepository.create({
-            userId: user.id,
-            refreshToken: refreshToken,
-            accessToken: accessToken,
-            accessTokenExpiry: expiryDate,
-          });
-          await this.gmailTokenRepository.save(gmailToken);
-        }
+        // Same account resolution as the mailbox connect flow
+        await this.gmailService.saveGmailTokens(
+          user.id,
+          accessToken,
+          refreshToken,
+          Date.now() + 60 * 60 * 1000, // Access tokens typically expire in 1 hour
+          email,
+        );
       } else if (!refreshToken) {
         // Expected: No refresh token in initial auth flow (incremental authorization)
         // User should connect Gmail separately via /gmail/auth to get refresh_token
@@ -30,10 +30,19 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
    * Validate JWT payload
    */
   async validate(payload: any): Promise<any> {
+    // 2FA challenge tokens are signed with the same secret but are no access tokens
+    if (payload.typ) {
+      throw new UnauthorizedException('Invalid token');
+    }
     const user = await this.authService.validateUser(payload.sub);
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
-    return { userId: user.id, email: user.email, name: user.name };
+    return {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    };
   }
 }
@@ -0,0 +1,275 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { User } from './entities/user.entity';
+import { UserTwoFactor } from './entities/user-two-factor.entity';
+import { TokenEncryptionService } from '../common/crypto/token-encryption.service';
+import {
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from './utils/totp.util';
+
+/**
+ * Secret to enter in an authenticator app, as text and as otpauth URI (QR code)
+ */
+export interface TwoFactorProvisioning {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * TOTP two-factor authentication with one-time recovery codes
+ * Changing the setup (reset, disable, new recovery codes) needs the password
+ * and a current code
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly RECOVERY_CODE_COUNT = 10;
+
+  constructor(
+    @InjectRepository(UserTwoFactor)
+    private readonly twoFactorRepository: Repository<UserTwoFactor>,
+    private readonly tokenEncryptionService: TokenEncryptionService,
+  ) {}
+
+  /**
+   * Whether logins of the user need a second factor
+   */
+  async isEnabled(userId: number): Promise<boolean> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    return !!twoFactor?.enabledAt;
+  }
+
+  /**
+   * 2FA state of the user
+   */
+  async getStatus(
+    userId: number,
+  ): Promise<{ enabled: boolean; recoveryCodesLeft: number }> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    return {
+      enabled: !!twoFactor?.enabledAt,
+      recoveryCodesLeft: twoFactor?.enabledAt
+        ? this.getRecoveryCodeHashes(twoFactor).length
+        : 0,
+    };
+  }
+
+  /**
+   * Start enrolment: a new secret, active once confirmed with a code
+   */
+  async startSetup(
+    user: User,
+    password: string,
+  ): Promise<TwoFactorProvisioning> {
+    await this.verifyPassword(user, password);
+
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId: user.id },
+    });
+    if (twoFactor?.enabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    return this.savePendingSecret(user, twoFactor);
+  }
+
+  /**
+   * Move 2FA to a new authenticator; the old one keeps working until the new
+   * secret is confirmed
+   */
+  async reset(
+    user: User,
+    password: string,
+    code: string,
+  ): Promise<TwoFactorProvisioning> {
+    const twoFactor = await this.reauthenticate(user, password, code);
+    return this.savePendingSecret(user, twoFactor);
+  }
+
+  /**
+   * Confirm the pending secret with a code from the app
+   * Enables 2FA and returns new recovery codes (shown once)
+   */
+  async confirm(userId: number, code: string): Promise<string[]> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    if (!twoFactor?.pendingSecret) {
+      throw new Error('No two-factor setup in progress');
+    }
+
+    const pendingSecret = this.tokenEncryptionService.decrypt(
+      twoFactor,
+      twoFactor.pendingSecret,
+    )!;
+    const step = verifyTotp(pendingSecret, code);
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes(this.RECOVERY_CODE_COUNT);
+    await this.twoFactorRepository.save({
+      ...twoFactor,
+      ...this.tokenEncryptionService.encrypt(twoFactor, {
+        secret: pendingSecret,
+        pendingSecret: null,
+      }),
+      recoveryCodeHashes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+      lastUsedStep: step.toString(),
+      enabledAt: twoFactor.enabledAt || new Date(),
+    });
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn 2FA off
+   */
+  async disable(user: User, password: string, code: string): Promise<void> {
+    const twoFactor = await this.reauthenticate(user, password, code);
+    await this.twoFactorRepository.delete({ id: twoFactor.id });
+  }
+
+  /**
+   * Replace all recovery codes (returns the new ones, shown once)
+   */
+  async regenerateRecoveryCodes(
+    user: User,
+    password: string,
+    code: string,
+  ): Promise<string[]> {
+    const twoFactor = await this.reauthenticate(user, password, code);
+    const recoveryCodes = generateRecoveryCodes(this.RECOVERY_CODE_COUNT);
+    await this.twoFactorRepository.update(
+      { id: twoFactor.id },
+      {
+        recoveryCodeHashes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+      },
+    );
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a second factor: a TOTP code, or a recovery code (used up)
+   */
+  async verifyCode(userId: number, code: string): Promise<boolean> {
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    if (!twoFactor?.enabledAt || !code) {
+      return false;
+    }
+
+    const secret = this.tokenEncryptionService.decrypt(
+      twoFactor,
+      twoFactor.secret,
+    )!;
+    const step = verifyTotp(secret, code);
+    if (step !== null) {
+      // A code is accepted once, even within its validity window; the
+      // conditional write also rejects a concurrent login with the same code
+      const result = await this.twoFactorRepository.update(
+        [
+          { id: twoFactor.id, lastUsedStep: IsNull() },
+          { id: twoFactor.id, lastUsedStep: LessThan(step.toString()) },
+        ],
+        { lastUsedStep: step.toString() },
+      );
+      return !!result.affected;
+    }
+
+    const hashes = this.getRecoveryCodeHashes(twoFactor);
+    const hash = hashRecoveryCode(code);
+    if (!hashes.includes(hash)) {
+      return false;
+    }
+    // Only if the list is unchanged, so a code cannot be used twice
+    const result = await this.twoFactorRepository.update(
+      { id: twoFactor.id, recoveryCodeHashes: twoFactor.recoveryCodeHashes },
+      {
+        recoveryCodeHashes: JSON.stringify(
+          hashes.filter((stored) => stored !== hash),
+        ),
+      },
+    );
+    return !!result.affected;
+  }
+
+  /**
+   * Password and a current code, required to change an enabled 2FA setup
+   */
+  private async reauthenticate(
+    user: User,
+    password: string,
+    code: string,
+  ): Promise<UserTwoFactor> {
+    await this.verifyPassword(user, password);
+
+    const twoFactor = await this.twoFactorRepository.findOne({
+      where: { userId: user.id },
+    });
+    if (!twoFactor?.enabledAt) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyCode(user.id, code))) {
+      throw new Error('Invalid verification code');
+    }
+
+    // verifyCode updated the row
+    return this.twoFactorRepository.findOneOrFail({
+      where: { id: twoFactor.id },
+    });
+  }
+
+  private async verifyPassword(user: User, password: string): Promise<void> {
+    if (!user.password) {
+      throw new Error('Two-factor authentication requires a password login');
+    }
+    if (!password || !(await bcrypt.compare(password, user.password))) {
+      throw new Error('Invalid password');
+    }
+  }
+
+  private async savePendingSecret(
+    user: User,
+    twoFactor: UserTwoFactor | null,
+  ): Promise<TwoFactorProvisioning> {
+    const pendingSecret = generateTotpSecret();
+    const secret = twoFactor
+      ? this.tokenEncryptionService.decrypt(twoFactor, twoFactor.secret)
+      : null;
+
+    await this.twoFactorRepository.save({
+      ...(twoFactor || { userId: user.id }),
+      ...this.tokenEncryptionService.encrypt(twoFactor, {
+        secret,
+        pendingSecret,
+      }),
+    });
+
+    return {
+      secret: pendingSecret,
+      otpauthUri: buildOtpAuthUri(
+        pendingSecret,
+        user.email,
+        process.env.TOTP_ISSUER || 'Email Dashboard',
+      ),
+    };
+  }
+
+  private getRecoveryCodeHashes(twoFactor: UserTwoFactor): string[] {
+    try {
+      return JSON.parse(twoFactor.recoveryCodeHashes || '[]');
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import {
+  createPkcePair,
+  generateStateNonce,
+  matchesStateNonce,
+  signState,
+  verifyState,
+} from './oauth-state.util';
+
+describe('oauth state', () => {
+  it('should return the nonce of a signed state', () => {
+    const nonce = generateStateNonce();
+    expect(verifyState(signState(nonce, 'secret'), 'secret')).toBe(nonce);
+  });
+
+  it('should reject tampered, foreign and malformed states', () => {
+    const state = signState(generateStateNonce(), 'secret');
+    const [nonce, signature] = state.split('.');
+    expect(
+      verifyState(`${generateStateNonce()}.${signature}`, 'secret'),
+    ).toBeNull();
+    expect(verifyState(state, 'other-secret')).toBeNull();
+    expect(verifyState(nonce, 'secret')).toBeNull();
+    expect(verifyState(`${state}.x`, 'secret')).toBeNull();
+    expect(verifyState('42', 'secret')).toBeNull();
+    expect(verifyState(undefined, 'secret')).toBeNull();
+  });
+});
+
+describe('matchesStateNonce', () => {
+  it('should only match the cookie set for the same nonce', () => {
+    const nonce = generateStateNonce();
+    expect(matchesStateNonce(nonce, nonce)).toBe(true);
+    expect(matchesStateNonce(nonce, generateStateNonce())).toBe(false);
+    expect(matchesStateNonce(nonce, nonce.slice(1))).toBe(false);
+    expect(matchesStateNonce(nonce, undefined)).toBe(false);
+  });
+});
+
+describe('createPkcePair', () => {
+  it('should derive the S256 challenge from the verifier', () => {
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(codeChallenge).toBe(
+      createHash('sha256').update(codeVerifier).digest('base64url'),
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * PKCE verifier kept server-side and the S256 challenge sent to the provider
+ */
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+/**
+ * Random single-use identifier of an OAuth flow
+ */
+export function generateStateNonce(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * OAuth state parameter: "<nonce>.<HMAC-SHA256(nonce)>"
+ */
+export function signState(nonce: string, secret: string): string {
+  return `${nonce}.${createHmac('sha256', secret).update(nonce).digest('base64url')}`;
+}
+
+/**
+ * Nonce of a state signed with signState, or null when it was tampered with
+ */
+export function verifyState(
+  state: string | undefined,
+  secret: string,
+): string | null {
+  const [nonce, signature, ...rest] = (state || '').split('.');
+  if (!nonce || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(signState(nonce, secret).split('.')[1]);
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return nonce;
+}
+
+/**
+ * Whether the state cookie of the browser holds the nonce of the state
+ */
+export function matchesStateNonce(
+  nonce: string,
+  cookieValue: string | undefined,
+): boolean {
+  const expected = Buffer.from(nonce);
+  const actual = Buffer.from(cookieValue || '');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * PKCE pair (RFC 7636) with the S256 challenge method
+ */
+export function createPkcePair(): PkcePair {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256')
+    .update(codeVerifier)
+    .digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
@@ -0,0 +1,82 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp.util';
+
+// RFC 6238 test secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('should round-trip bytes', () => {
+    const bytes = Buffer.from('hello, totp!');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(base32Decode('mzxw 6ytb oi==').toString()).toBe('foobar');
+  });
+
+  it('should reject invalid characters', () => {
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32');
+  });
+});
+
+describe('totp', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    const eight = { digits: 8 };
+    expect(generateTotp(RFC_SECRET, { ...eight, time: 59000 })).toBe(
+      '94287082',
+    );
+    expect(generateTotp(RFC_SECRET, { ...eight, time: 1111111109000 })).toBe(
+      '07081804',
+    );
+    expect(generateTotp(RFC_SECRET, { ...eight, time: 20000000000000 })).toBe(
+      '65353130',
+    );
+  });
+
+  it('should accept codes within the window and return their step', () => {
+    const secret = generateTotpSecret();
+    const time = 1_700_000_000_000;
+    const previous = generateTotp(secret, { time: time - 30000 });
+    expect(verifyTotp(secret, previous, { time })).toBe(
+      Math.floor(time / 30000) - 1,
+    );
+    expect(verifyTotp(secret, generateTotp(secret, { time }), { time })).toBe(
+      Math.floor(time / 30000),
+    );
+    const old = generateTotp(secret, { time: time - 90000 });
+    expect(verifyTotp(secret, old, { time })).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    const secret = generateTotpSecret();
+    expect(verifyTotp(secret, '12345')).toBeNull();
+    expect(verifyTotp(secret, 'abcdef')).toBeNull();
+    expect(verifyTotp(secret, '')).toBeNull();
+  });
+});
+
+describe('buildOtpAuthUri', () => {
+  it('should build a provisioning URI', () => {
+    expect(buildOtpAuthUri('ABC', 'user@example.com', 'Mail App')).toBe(
+      'otpauth://totp/Mail%20App%3Auser%40example.com?secret=ABC&issuer=Mail+App&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
+
+describe('recovery codes', () => {
+  it('should generate distinct codes that hash regardless of formatting', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    expect(hashRecoveryCode(codes[0].toUpperCase().replace('-', ' '))).toBe(
+      hashRecoveryCode(codes[0]),
+    );
+  });
+});
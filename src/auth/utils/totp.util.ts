@@ -0,0 +1,161 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * TOTP parameters (RFC 6238); the defaults are what authenticator apps expect
+ */
+export interface TotpOptions {
+  step?: number; // Seconds per code
+  digits?: number;
+  window?: number; // Accepted steps before/after the current one (clock drift)
+  time?: number; // Unix time in ms, defaults to now
+}
+
+/**
+ * Base32 (RFC 4648, no padding), the secret format of otpauth URIs
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decode base32; case, spaces and padding are ignored
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * New random TOTP secret (160 bits, base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * HOTP code (RFC 4226) for a counter
+ */
+export function generateHotp(
+  secret: string,
+  counter: number,
+  digits = 6,
+): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac('sha1', base32Decode(secret))
+    .update(message)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const code = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (code % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Time step of a moment (the TOTP counter)
+ */
+export function getTotpStep(options: TotpOptions = {}): number {
+  return Math.floor((options.time ?? Date.now()) / 1000 / (options.step ?? 30));
+}
+
+/**
+ * Current TOTP code of a secret
+ */
+export function generateTotp(
+  secret: string,
+  options: TotpOptions = {},
+): string {
+  return generateHotp(secret, getTotpStep(options), options.digits ?? 6);
+}
+
+/**
+ * Check a TOTP code; returns the matched time step (store it to refuse
+ * replays of the same code) or null when the code is wrong
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: TotpOptions = {},
+): number | null {
+  const digits = options.digits ?? 6;
+  const normalized = (code || '').replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = getTotpStep(options);
+  const window = options.window ?? 1;
+  for (let step = current - window; step <= current + window; step++) {
+    if (generateHotp(secret, step, digits) === normalized) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Provisioning URI for authenticator apps (rendered as a QR code by the client)
+ */
+export function buildOtpAuthUri(
+  secret: string,
+  account: string,
+  issuer: string,
+): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: '6',
+    period: '30',
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * One-time recovery codes ("xxxxx-xxxxx", base32)
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Stored form of a recovery code; dashes, spaces and case are ignored
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = (code || '').toLowerCase().replace(/[\s-]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,61 @@
+import { randomBytes } from 'crypto';
+import {
+  generateDataKey,
+  openValue,
+  parseKeyring,
+  sealValue,
+} from './envelope.util';
+
+const keyA = randomBytes(32).toString('base64');
+const keyB = randomBytes(32).toString('base64');
+
+describe('parseKeyring', () => {
+  it('should return null when no keys are configured', () => {
+    expect(parseKeyring(undefined)).toBeNull();
+    expect(parseKeyring(' , ')).toBeNull();
+  });
+
+  it('should parse keys and default the active key to the first one', () => {
+    const keyring = parseKeyring(`k2:${keyA}, k1:${keyB}`);
+    expect(keyring?.activeKeyId).toBe('k2');
+    expect([...(keyring?.keys.keys() || [])]).toEqual(['k2', 'k1']);
+    expect(parseKeyring(`k2:${keyA},k1:${keyB}`, 'k1')?.activeKeyId).toBe('k1');
+  });
+
+  it('should reject short, duplicate and unknown active keys', () => {
+    expect(() => parseKeyring('k1:c2hvcnQ=')).toThrow('Invalid encryption key');
+    expect(() => parseKeyring(`k1:${keyA},k1:${keyB}`)).toThrow('Duplicate');
+    expect(() => parseKeyring(`k1:${keyA}`, 'k9')).toThrow('not configured');
+  });
+});
+
+describe('sealValue / openValue', () => {
+  it('should round-trip values with a fresh IV each time', () => {
+    const key = generateDataKey();
+    const first = sealValue(key, '1//refresh-token');
+    const second = sealValue(key, '1//refresh-token');
+
+    expect(first).not.toBe(second);
+    expect(openValue(key, first).toString('utf-8')).toBe('1//refresh-token');
+  });
+
+  it('should wrap data keys with a master key', () => {
+    const masterKey = randomBytes(32);
+    const dataKey = generateDataKey();
+    expect(openValue(masterKey, sealValue(masterKey, dataKey))).toEqual(
+      dataKey,
+    );
+  });
+
+  it('should fail with the wrong key or altered data', () => {
+    const key = generateDataKey();
+    const sealed = Buffer.from(sealValue(key, 'secret'), 'base64');
+
+    expect(() =>
+      openValue(generateDataKey(), sealed.toString('base64')),
+    ).toThrow();
+    sealed[sealed.length - 1] ^= 1;
+    expect(() => openValue(key, sealed.toString('base64'))).toThrow();
+    expect(() => openValue(key, 'abc')).toThrow('malformed');
+  });
+});
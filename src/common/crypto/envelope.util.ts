@@ -0,0 +1,103 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Master keys (key encryption keys) by ID, and the one used for new data keys
+ */
+export interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Parse a keyring from configuration
+ * Format: "keyId:base64Key,keyId:base64Key" with 32-byte keys; the active key
+ * defaults to the first one. Returns null when no keys are configured
+ */
+export function parseKeyring(
+  value: string | undefined,
+  activeKeyId?: string,
+): Keyring | null {
+  const entries = (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => !!entry);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    const id = separator > 0 ? entry.slice(0, separator).trim() : '';
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+    if (!id || key.length !== KEY_LENGTH) {
+      throw new Error(
+        `Invalid encryption key "${id || entry.slice(0, 8)}": expected keyId:base64 of ${KEY_LENGTH} bytes`,
+      );
+    }
+    if (keys.has(id)) {
+      throw new Error(`Duplicate encryption key ID "${id}"`);
+    }
+    keys.set(id, key);
+  }
+
+  const active = activeKeyId || entries[0].split(':')[0].trim();
+  if (!keys.has(active)) {
+    throw new Error(`Active encryption key "${active}" is not configured`);
+  }
+
+  return { activeKeyId: active, keys };
+}
+
+/**
+ * Random key for one row's values (data encryption key)
+ */
+export function generateDataKey(): Buffer {
+  return randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Encrypt with AES-256-GCM; result is base64(iv | auth tag | ciphertext)
+ * Used both for values (with a data key) and for data keys (with a master key)
+ */
+export function sealValue(key: Buffer, plaintext: Buffer | string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(
+      typeof plaintext === 'string'
+        ? Buffer.from(plaintext, 'utf-8')
+        : plaintext,
+    ),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    'base64',
+  );
+}
+
+/**
+ * Decrypt a sealValue result; throws when the key is wrong or data was altered
+ */
+export function openValue(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  if (data.length < IV_LENGTH + TAG_LENGTH) {
+    throw new Error('Encrypted value is malformed');
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    data.subarray(0, IV_LENGTH),
+  );
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
@@ -0,0 +1,83 @@
+import { randomBytes } from 'crypto';
+import { TokenEncryptionService } from './token-encryption.service';
+
+describe('TokenEncryptionService', () => {
+  const env = { ...process.env };
+  const oldKey = `old:${randomBytes(32).toString('base64')}`;
+  const newKey = `new:${randomBytes(32).toString('base64')}`;
+
+  const createService = (keys?: string, activeKey?: string) => {
+    process.env.TOKEN_ENCRYPTION_KEYS = keys || '';
+    process.env.TOKEN_ENCRYPTION_ACTIVE_KEY = activeKey || '';
+    return new TokenEncryptionService();
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('should encrypt every value of a row with one envelope', () => {
+    const service = createService(oldKey);
+    const row = service.encrypt(null, {
+      accessToken: 'ya29.access',
+      refreshToken: '1//refresh',
+    });
+
+    expect(row.encryptionKeyId).toBe('old');
+    expect(row.encryptedDataKey).toBeTruthy();
+    expect(row.refreshToken).not.toContain('refresh');
+    expect(service.decrypt(row, row.accessToken)).toBe('ya29.access');
+    expect(service.decrypt(row, row.refreshToken)).toBe('1//refresh');
+  });
+
+  it('should reuse the data key of an encrypted row', () => {
+    const service = createService(oldKey);
+    const row = service.encrypt(null, { accessToken: 'a' });
+    const updated = service.encrypt(row, { accessToken: 'b' });
+
+    expect(updated.encryptedDataKey).toBe(row.encryptedDataKey);
+    expect(service.decrypt(updated, updated.accessToken)).toBe('b');
+  });
+
+  it('should pass plaintext rows and nulls through', () => {
+    const service = createService(oldKey);
+    const legacy = { encryptionKeyId: null, encryptedDataKey: null };
+    expect(service.decrypt(legacy, 'plain-token')).toBe('plain-token');
+    expect(service.encrypt(null, { accessToken: null }).accessToken).toBeNull();
+  });
+
+  it('should store plaintext when no keys are configured', () => {
+    const service = createService();
+    expect(service.encrypt(null, { password: 'secret' })).toEqual({
+      password: 'secret',
+      encryptionKeyId: null,
+      encryptedDataKey: null,
+    });
+  });
+
+  it('should require keys in production', () => {
+    process.env.NODE_ENV = 'production';
+    expect(() => createService()).toThrow('must be set in production');
+  });
+
+  it('should rewrap data keys under the active key without touching values', () => {
+    const row = createService(oldKey).encrypt(null, { accessToken: 'a' });
+    const service = createService(`${newKey},${oldKey}`);
+
+    const envelope = service.rewrap(row);
+    expect(envelope?.encryptionKeyId).toBe('new');
+    expect(service.rewrap({ ...row, ...envelope })).toBeNull();
+
+    // Only the new key is needed once rows are rewrapped
+    const rotated = createService(newKey);
+    expect(rotated.decrypt({ ...row, ...envelope }, row.accessToken)).toBe('a');
+    expect(() => rotated.decrypt(row, row.accessToken)).toThrow(
+      'Encryption key "old" is not configured',
+    );
+  });
+});
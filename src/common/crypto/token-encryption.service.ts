@@ -0,0 +1,147 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Keyring,
+  generateDataKey,
+  openValue,
+  parseKeyring,
+  sealValue,
+} from './envelope.util';
+
+/**
+ * Envelope columns of a row with encrypted secrets
+ * Both null means the secrets are stored in plaintext (rows from before
+ * encryption was configured; the rotation script encrypts them)
+ */
+export interface EncryptedRow {
+  encryptionKeyId: string | null; // Master key the data key is wrapped with
+  encryptedDataKey: string | null; // The row's data key, wrapped
+}
+
+/**
+ * Envelope encryption of stored credentials (OAuth tokens, mailbox passwords)
+ * Each row has its own data key; the data key is wrapped with a master key
+ * from TOKEN_ENCRYPTION_KEYS, so rotating master keys only rewraps data keys
+ */
+@Injectable()
+export class TokenEncryptionService {
+  private readonly keyring: Keyring | null;
+
+  constructor() {
+    this.keyring = parseKeyring(
+      process.env.TOKEN_ENCRYPTION_KEYS,
+      process.env.TOKEN_ENCRYPTION_ACTIVE_KEY,
+    );
+
+    if (!this.keyring) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('TOKEN_ENCRYPTION_KEYS must be set in production');
+      }
+      console.warn(
+        'Token encryption: TOKEN_ENCRYPTION_KEYS is not set, credentials are stored in plaintext',
+      );
+    }
+  }
+
+  /**
+   * ID of the master key new data keys are wrapped with (null when disabled)
+   */
+  get activeKeyId(): string | null {
+    return this.keyring?.activeKeyId || null;
+  }
+
+  /**
+   * Encrypt all secret values of a row and return the columns to store
+   * (values plus envelope). The row's data key is reused when it has one;
+   * pass every secret column, since a new data key replaces the old one
+   */
+  encrypt<K extends string>(
+    row: Partial<EncryptedRow> | null,
+    values: Record<K, string | null | undefined>,
+  ): Record<K, string | null> & EncryptedRow {
+    const result = {} as Record<K, string | null> & EncryptedRow;
+
+    if (!this.keyring) {
+      for (const field of Object.keys(values) as K[]) {
+        (result as any)[field] = values[field] ?? null;
+      }
+      result.encryptionKeyId = null;
+      result.encryptedDataKey = null;
+      return result;
+    }
+
+    let dataKey: Buffer;
+    if (
+      row?.encryptionKeyId &&
+      row.encryptedDataKey &&
+      this.keyring.keys.has(row.encryptionKeyId)
+    ) {
+      dataKey = this.unwrapDataKey(row);
+      result.encryptionKeyId = row.encryptionKeyId;
+      result.encryptedDataKey = row.encryptedDataKey;
+    } else {
+      dataKey = generateDataKey();
+      result.encryptionKeyId = this.keyring.activeKeyId;
+      result.encryptedDataKey = sealValue(
+        this.keyring.keys.get(this.keyring.activeKeyId)!,
+        dataKey,
+      );
+    }
+
+    for (const field of Object.keys(values) as K[]) {
+      const value = values[field];
+      (result as any)[field] =
+        value === null || value === undefined
+          ? null
+          : sealValue(dataKey, value);
+    }
+    return result;
+  }
+
+  /**
+   * Decrypt one secret column of a row (plaintext rows are returned as they are)
+   */
+  decrypt(
+    row: Partial<EncryptedRow>,
+    value: string | null | undefined,
+  ): string | null {
+    if (value === null || value === undefined || value === '') {
+      return value ?? null;
+    }
+    if (!row.encryptionKeyId) {
+      return value;
+    }
+
+    return openValue(this.unwrapDataKey(row), value).toString('utf-8');
+  }
+
+  /**
+   * Envelope with the row's data key wrapped by the active master key,
+   * or null when it already is (values stay untouched)
+   */
+  rewrap(row: Partial<EncryptedRow>): EncryptedRow | null {
+    if (!this.keyring) {
+      throw new Error('TOKEN_ENCRYPTION_KEYS is not set');
+    }
+    if (!row.encryptionKeyId || row.encryptionKeyId === this.activeKeyId) {
+      return null;
+    }
+
+    return {
+      encryptionKeyId: this.keyring.activeKeyId,
+      encryptedDataKey: sealValue(
+        this.keyring.keys.get(this.keyring.activeKeyId)!,
+        this.unwrapDataKey(row),
+      ),
+    };
+  }
+
+  private unwrapDataKey(row: Partial<EncryptedRow>): Buffer {
+    const masterKey = this.keyring?.keys.get(row.encryptionKeyId || '');
+    if (!masterKey || !row.encryptedDataKey) {
+      throw new Error(
+        `Encryption key "${row.encryptionKeyId}" is not configured`,
+      );
+    }
+    return openValue(masterKey, row.encryptedDataKey);
+  }
+}
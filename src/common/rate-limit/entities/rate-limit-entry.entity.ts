@@ -0,0 +1,16 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+/**
+ * Rate limit counter of the Postgres store (see PostgresRateLimitStore)
+ */
+@Entity('rate_limits')
+export class RateLimitEntry {
+  @PrimaryColumn({ type: 'varchar', length: 320 })
+  key: string; // e.g. "login:fail:account:<email>"
+
+  @Column({ type: 'int' })
+  count: number;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+}
@@ -0,0 +1,30 @@
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should count hits within a window and start over afterwards', async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.increment('a', 1000)).count).toBe(1);
+    const second = await store.increment('a', 1000);
+    expect(second.count).toBe(2);
+    expect(second.expiresAt.getTime()).toBe(1_700_000_001_000);
+
+    jest.setSystemTime(1_700_000_001_000);
+    expect(await store.get('a')).toBeNull();
+    expect((await store.increment('a', 1000)).count).toBe(1);
+  });
+
+  it('should set and delete counters', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.set('lock', 1, new Date(Date.now() + 60000));
+    expect((await store.get('lock'))?.count).toBe(1);
+
+    await store.delete('lock');
+    expect(await store.get('lock')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { RateLimitCounter, RateLimitStore } from './rate-limit-store.interface';
+
+const PRUNE_EVERY_WRITES = 1000;
+
+/**
+ * In-process store: for tests and single-instance deployments
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, RateLimitCounter>();
+  private writes = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    this.pruneOccasionally();
+    const current = await this.get(key);
+    const counter = current
+      ? { count: current.count + 1, expiresAt: current.expiresAt }
+      : { count: 1, expiresAt: new Date(Date.now() + windowMs) };
+    this.counters.set(key, counter);
+    return { ...counter };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return { ...counter };
+  }
+
+  async set(key: string, count: number, expiresAt: Date): Promise<void> {
+    this.pruneOccasionally();
+    this.counters.set(key, { count, expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  private pruneOccasionally(): void {
+    if (++this.writes % PRUNE_EVERY_WRITES !== 0) {
+      return;
+    }
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt.getTime() <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { DataSource } from 'typeorm';
+import { RateLimitCounter, RateLimitStore } from './rate-limit-store.interface';
+
+const PRUNE_EVERY_WRITES = 100;
+
+/**
+ * Store in the rate_limits table, shared by all app instances
+ * Increments are a single upsert, so concurrent hits are counted correctly
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private writes = 0;
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    await this.pruneOccasionally();
+    const now = new Date();
+    const rows = await this.dataSource.query(
+      `INSERT INTO rate_limits ("key", count, "expiresAt") VALUES ($1, 1, $3)
+       ON CONFLICT ("key") DO UPDATE SET
+         count = CASE WHEN rate_limits."expiresAt" <= $2
+           THEN 1 ELSE rate_limits.count + 1 END,
+         "expiresAt" = CASE WHEN rate_limits."expiresAt" <= $2
+           THEN $3 ELSE rate_limits."expiresAt" END
+       RETURNING count, "expiresAt"`,
+      [key, now, new Date(now.getTime() + windowMs)],
+    );
+    return { count: rows[0].count, expiresAt: new Date(rows[0].expiresAt) };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const rows = await this.dataSource.query(
+      `SELECT count, "expiresAt" FROM rate_limits
+       WHERE "key" = $1 AND "expiresAt" > $2`,
+      [key, new Date()],
+    );
+    return rows.length > 0
+      ? { count: rows[0].count, expiresAt: new Date(rows[0].expiresAt) }
+      : null;
+  }
+
+  async set(key: string, count: number, expiresAt: Date): Promise<void> {
+    await this.pruneOccasionally();
+    await this.dataSource.query(
+      `INSERT INTO rate_limits ("key", count, "expiresAt") VALUES ($1, $2, $3)
+       ON CONFLICT ("key") DO UPDATE SET
+         count = EXCLUDED.count, "expiresAt" = EXCLUDED."expiresAt"`,
+      [key, count, expiresAt],
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.dataSource.query(`DELETE FROM rate_limits WHERE "key" = $1`, [
+      key,
+    ]);
+  }
+
+  private async pruneOccasionally(): Promise<void> {
+    if (++this.writes % PRUNE_EVERY_WRITES !== 0) {
+      return;
+    }
+    await this.dataSource.query(
+      `DELETE FROM rate_limits WHERE "expiresAt" <= $1`,
+      [new Date()],
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Counter of a key within its current window
+ */
+export interface RateLimitCounter {
+  count: number;
+  expiresAt: Date; // End of the window; the counter is gone afterwards
+}
+
+/**
+ * Storage of rate limit counters, shared by all app instances when backed
+ * by a database; selected with RATE_LIMIT_STORE
+ */
+export interface RateLimitStore {
+  /**
+   * Count a hit; starts a new window of windowMs when there is none
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+
+  /**
+   * Current counter, or null when missing or expired
+   */
+  get(key: string): Promise<RateLimitCounter | null>;
+
+  /**
+   * Overwrite a counter (used for locks: count 1 until expiresAt)
+   */
+  set(key: string, count: number, expiresAt: Date): Promise<void>;
+
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Injection token of the configured RateLimitStore
+ */
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
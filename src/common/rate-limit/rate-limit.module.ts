@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { RATE_LIMIT_STORE, RateLimitStore } from './rate-limit-store.interface';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { PostgresRateLimitStore } from './postgres-rate-limit.store';
+
+/**
+ * Store from RATE_LIMIT_STORE: "postgres" (shared by all instances) or
+ * "memory" (default, per instance)
+ */
+function createRateLimitStore(dataSource: DataSource): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'postgres') {
+    return new PostgresRateLimitStore(dataSource);
+  }
+  return new MemoryRateLimitStore();
+}
+
+@Module({
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      useFactory: createRateLimitStore,
+      inject: [DataSource],
+    },
+  ],
+  exports: [RATE_LIMIT_STORE],
+})
+export class RateLimitModule {}
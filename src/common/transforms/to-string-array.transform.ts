@@ -0,0 +1,25 @@
+import { TransformFnParams } from 'class-transformer';
+
+/**
+ * Normalize list fields sent as multipart form data
+ * Accepts an array, a JSON array string or a comma-separated string
+ */
+export function toStringArray({ value }: TransformFnParams): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (e) {
+      return value;
+    }
+  }
+
+  return trimmed
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => !!item);
+}
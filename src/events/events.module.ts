@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { MailboxEventsService } from './mailbox-events.service';
+
+@Module({
+  providers: [MailboxEventsService],
+  exports: [MailboxEventsService],
+})
+export class EventsModule {}
@@ -0,0 +1,84 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Observable, Subject, filter, interval, map, merge } from 'rxjs';
+
+/**
+ * Mailbox change events pushed to the frontend
+ */
+export enum MailboxEventType {
+  EMAIL_STORED = 'email.stored',
+  EMAIL_UPDATED = 'email.updated',
+  EMAIL_DELETED = 'email.deleted',
+  STATUS_CHANGED = 'email.status_changed',
+  EMAIL_SNOOZED = 'email.snoozed',
+  EMAIL_RESTORED = 'email.restored',
+  SUMMARY_READY = 'summary.ready',
+  COLUMN_CHANGED = 'column.changed',
+  SCHEDULED_SENT = 'scheduled.sent',
+  SCHEDULED_FAILED = 'scheduled.failed',
+}
+
+export interface MailboxEvent {
+  type: MailboxEventType;
+  data: any;
+  timestamp: string;
+}
+
+/**
+ * In-process event bus for mailbox changes
+ * Services emit per-user events, the SSE endpoint streams them to open sessions
+ */
+@Injectable()
+export class MailboxEventsService {
+  private readonly HEARTBEAT_INTERVAL_MS = 30 * 1000; // Keep proxies from closing idle streams
+  private readonly events$ = new Subject<{
+    userId: number;
+    event: MailboxEvent;
+  }>();
+
+  /**
+   * Publish an event to all open sessions of a user
+   */
+  emit(userId: number, type: MailboxEventType, data: any): void {
+    this.events$.next({
+      userId,
+      event: { type, data, timestamp: new Date().toISOString() },
+    });
+  }
+
+  /**
+   * Events of the given types for all users, for in-process subscribers
+   */
+  ofType(
+    ...types: MailboxEventType[]
+  ): Observable<{ userId: number; event: MailboxEvent }> {
+    return this.events$.pipe(
+      filter((entry) => types.includes(entry.event.type)),
+    );
+  }
+
+  /**
+   * Event stream for one user, formatted for Server-Sent Events
+   */
+  streamForUser(userId: number): Observable<MessageEvent> {
+    const events = this.events$.pipe(
+      filter((entry) => entry.userId === userId),
+      map(
+        (entry): MessageEvent => ({
+          type: entry.event.type,
+          data: entry.event,
+        }),
+      ),
+    );
+
+    const heartbeat = interval(this.HEARTBEAT_INTERVAL_MS).pipe(
+      map(
+        (): MessageEvent => ({
+          type: 'ping',
+          data: { timestamp: new Date().toISOString() },
+        }),
+      ),
+    );
+
+    return merge(events, heartbeat);
+  }
+}
@@ -45,5 +45,17 @@ export class CreateKanbanColumnDto {
   @IsString({ message: 'Gmail label must be a string' })
   @MaxLength(50, { message: 'Gmail label must not exceed 50 characters' })
   gmailLabel?: string;
+
+  @ApiProperty({
+    description:
+      'Outlook category to map this column to (e.g., "Red category", or custom category)',
+    example: 'Follow up',
+    required: false,
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString({ message: 'Outlook category must be a string' })
+  @MaxLength(50, { message: 'Outlook category must not exceed 50 characters' })
+  outlookCategory?: string;
 }
 
@@ -0,0 +1,48 @@
+import { ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { IsArray, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { SendEmailDto } from './send-email.dto';
+import { toStringArray } from '../../common/transforms/to-string-array.transform';
+
+/**
+ * DTO for creating or updating a Gmail draft
+ * Same fields as SendEmailDto, all optional while composing
+ * (multipart/form-data with files in the "attachments" field is accepted too)
+ */
+export class DraftEmailDto extends PartialType(
+  OmitType(SendEmailDto, ['sendAt'] as const),
+) {
+  @ApiPropertyOptional({
+    description:
+      'Stored email ID this draft replies to (keeps the thread and In-Reply-To headers, defaults "to" to the sender)',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  replyToEmailId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Stored email ID this draft forwards (body is added above the quoted original)',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  forwardEmailId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'On update: filenames of existing draft attachments to remove (others are kept)',
+    example: ['old-report.pdf'],
+    type: [String],
+  })
+  @Transform(toStringArray)
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  removeAttachments?: string[];
+}
@@ -1,4 +1,11 @@
-import { IsOptional, IsNumber, Min, Max } from 'class-validator';
+import {
+  IsOptional,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  IsBoolean,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 /**
@@ -6,7 +13,8 @@ import { ApiProperty } from '@nestjs/swagger';
  */
 export class FetchEmailsDto {
   @ApiProperty({
-    description: 'Maximum number of emails to fetch',
+    description:
+      'Maximum number of emails to fetch when a full inbox sync is needed',
     example: 50,
     default: 50,
     minimum: 1,
@@ -18,4 +26,25 @@ export class FetchEmailsDto {
   @Min(1)
   @Max(500)
   maxResults?: number;
+
+  @ApiProperty({
+    description:
+      'Ignore the stored history checkpoint and re-list the inbox (maxResults applies)',
+    example: false,
+    default: false,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  fullResync?: boolean;
+
+  @ApiProperty({
+    description: 'Only sync this linked account (default: all accounts)',
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  accountId?: number;
 }
@@ -1,8 +1,18 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsArray, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { toStringArray } from '../../common/transforms/to-string-array.transform';
 
 /**
  * DTO for forwarding email
+ * Also accepted as multipart/form-data with files in the "attachments" field;
+ * the original email's attachments are always forwarded
  */
 export class ForwardEmailDto {
   @ApiProperty({
@@ -10,6 +20,7 @@ export class ForwardEmailDto {
     example: ['recipient@example.com'],
     type: [String],
   })
+  @Transform(toStringArray)
   @IsArray()
   @IsNotEmpty({ message: 'At least one recipient is required' })
   to: string[];
@@ -27,7 +38,17 @@ export class ForwardEmailDto {
     example: ['cc@example.com'],
     type: [String],
   })
+  @Transform(toStringArray)
   @IsArray()
   @IsOptional()
   cc?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Send later: ISO timestamp with offset (e.g. 8am in the recipient time zone). Omit to send now',
+    example: '2025-01-06T08:00:00-05:00',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'sendAt must be an ISO date string' })
+  sendAt?: string;
 }
@@ -1,8 +1,14 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString } from 'class-validator';
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
 
 /**
  * DTO for replying to email
+ * Also accepted as multipart/form-data with files in the "attachments" field
  */
 export class ReplyEmailDto {
   @ApiProperty({
@@ -12,5 +18,14 @@ export class ReplyEmailDto {
   @IsString()
   @IsNotEmpty({ message: 'Reply body is required' })
   body: string;
-}
 
+  @ApiProperty({
+    description:
+      'Send later: ISO timestamp with offset (e.g. 8am in the recipient time zone). Omit to send now',
+    example: '2025-01-06T08:00:00-05:00',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'sendAt must be an ISO date string' })
+  sendAt?: string;
+}
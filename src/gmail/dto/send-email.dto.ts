@@ -1,8 +1,22 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, IsArray, IsEmail, IsOptional } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsString,
+  IsArray,
+  IsEmail,
+  IsOptional,
+  IsDateString,
+  IsInt,
+  IsEnum,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { toStringArray } from '../../common/transforms/to-string-array.transform';
+import { MailProviderType } from '../../mail/mail-provider.interface';
 
 /**
  * DTO for sending email
+ * Also accepted as multipart/form-data with files in the "attachments" field
  */
 export class SendEmailDto {
   @ApiProperty({
@@ -10,6 +24,7 @@ export class SendEmailDto {
     example: ['recipient@example.com'],
     type: [String],
   })
+  @Transform(toStringArray)
   @IsArray()
   @IsNotEmpty({ message: 'To addresses are required' })
   @IsEmail({}, { each: true, message: 'Invalid email address' })
@@ -37,6 +52,7 @@ export class SendEmailDto {
     type: [String],
     required: false,
   })
+  @Transform(toStringArray)
   @IsArray()
   @IsOptional()
   @IsEmail({}, { each: true, message: 'Invalid email address' })
@@ -48,9 +64,43 @@ export class SendEmailDto {
     type: [String],
     required: false,
   })
+  @Transform(toStringArray)
   @IsArray()
   @IsOptional()
   @IsEmail({}, { each: true, message: 'Invalid email address' })
   bcc?: string[];
-}
 
+  @ApiProperty({
+    description:
+      'Send later: ISO timestamp with offset (e.g. 8am in the recipient time zone). Omit to send now',
+    example: '2025-01-06T08:00:00-05:00',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'sendAt must be an ISO date string' })
+  sendAt?: string;
+
+  @ApiProperty({
+    description: 'Mail provider to send with (default gmail)',
+    enum: MailProviderType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(MailProviderType, {
+    message: 'provider must be "gmail", "imap" or "outlook"',
+  })
+  provider?: MailProviderType;
+
+  @ApiProperty({
+    description:
+      'Account to send from: a Gmail account (GET /gmail/accounts) or, with provider imap, ' +
+      'an IMAP account (GET /imap/accounts). Omit to use the default account',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  accountId?: number;
+}
@@ -0,0 +1,61 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO for starting a mailbox backfill
+ * Without filters the whole mailbox (all folders and labels) is backfilled
+ */
+export class StartBackfillDto {
+  @ApiPropertyOptional({
+    description: 'Only backfill mail received on or after this date',
+    example: '2024-01-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'after must be an ISO date string' })
+  after?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only backfill mail received before this date',
+    example: '2025-01-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'before must be an ISO date string' })
+  before?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only backfill mail carrying all of these Gmail labels',
+    example: ['SENT'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  labelIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Include Spam and Trash',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeSpamTrash?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Linked Gmail account to backfill (default account if omitted)',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  accountId?: number;
+}
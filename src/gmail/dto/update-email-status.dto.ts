@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsString } from 'class-validator';
+import { IsNotEmpty, IsNotIn, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 /**
@@ -11,6 +11,7 @@ export enum KanbanStatus {
   IN_PROGRESS = 'in_progress',
   DONE = 'done',
   SNOOZED = 'snoozed',
+  ARCHIVED = 'archived', // Backfilled mail that is not in the inbox
 }
 
 /**
@@ -23,6 +24,10 @@ export class UpdateEmailStatusDto {
   })
   @IsNotEmpty({ message: 'Status is required' })
   @IsString({ message: 'Status must be a string' })
+  // Archived is set by the backfill from Gmail labels, not moved to by hand
+  @IsNotIn([KanbanStatus.ARCHIVED], {
+    message: 'Status cannot be set to archived',
+  })
   status: string;
 }
 
@@ -37,6 +37,17 @@ export class UpdateKanbanColumnDto {
   @MaxLength(50, { message: 'Gmail label must not exceed 50 characters' })
   gmailLabel?: string;
 
+  @ApiProperty({
+    description: 'Outlook category to map this column to',
+    example: 'Follow up',
+    required: false,
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString({ message: 'Outlook category must be a string' })
+  @MaxLength(50, { message: 'Outlook category must not exceed 50 characters' })
+  outlookCategory?: string;
+
   @ApiProperty({
     description: 'Whether column is active/visible',
     example: true,
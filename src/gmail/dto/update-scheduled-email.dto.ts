@@ -0,0 +1,7 @@
+import { PartialType } from '@nestjs/swagger';
+import { SendEmailDto } from './send-email.dto';
+
+/**
+ * DTO for editing a scheduled email before it is sent
+ */
+export class UpdateScheduledEmailDto extends PartialType(SendEmailDto) {}
@@ -0,0 +1,63 @@
+import {
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  Min,
+  Max,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  MAX_CATEGORY_LENGTH,
+  MAX_EMAIL_CATEGORIES,
+} from '../../ai/utils/email-category.util';
+
+/**
+ * DTO for updating mailbox preferences
+ */
+export class UpdateUserSettingsDto {
+  @ApiProperty({
+    description:
+      'Show one card per thread (latest message) in mailbox lists and Kanban columns',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  groupByThread?: boolean;
+
+  @ApiProperty({
+    description:
+      'Seconds outgoing mail is held before it is sent, so it can be undone (0 disables the undo window)',
+    example: 10,
+    minimum: 0,
+    maximum: 30,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(30)
+  @IsOptional()
+  undoSendSeconds?: number;
+
+  @ApiProperty({
+    description:
+      'Categories the AI files mail under ("other" is always added; null restores the defaults). ' +
+      'Already summarized mail keeps its category until it is reprocessed.',
+    example: ['work', 'clients', 'invoices', 'newsletter'],
+    type: [String],
+    nullable: true,
+    required: false,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_EMAIL_CATEGORIES)
+  @IsString({ each: true })
+  @MaxLength(MAX_CATEGORY_LENGTH, { each: true })
+  @IsOptional()
+  aiCategories?: string[] | null;
+}
@@ -6,13 +6,17 @@ import {
   UpdateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { User } from '../../auth/entities/user.entity';
+import { GmailToken } from './gmail-token.entity';
 
 /**
- * Email raw entity for storing Gmail emails
+ * Email raw entity for storing emails of every mail provider
+ * rawData keeps the Gmail API message shape for all providers
  */
 @Entity('email_raw')
+@Index(['userId', 'accountId'])
 export class EmailRaw {
   @PrimaryGeneratedColumn()
   id: number;
@@ -24,11 +28,24 @@ export class EmailRaw {
   @JoinColumn({ name: 'userId' })
   user: User;
 
+  @Column({ type: 'int', nullable: true })
+  accountId: number; // Linked Gmail account (null: legacy or disconnected, default account is used)
+
+  @ManyToOne(() => GmailToken, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'accountId' })
+  account: GmailToken;
+
+  @Column({ type: 'varchar', length: 20, default: 'gmail' })
+  provider: string; // Mail provider that stored the email: 'gmail', 'imap'
+
+  @Column({ type: 'int', nullable: true })
+  providerAccountId: number; // Account of a non-Gmail provider (e.g. imap_accounts.id)
+
   @Column({ unique: true })
-  gmailId: string; // Gmail message ID
+  gmailId: string; // Provider message ID (Gmail message ID, or imap:<account>:<uidvalidity>:<uid>)
 
   @Column({ type: 'text', nullable: true })
-  threadId: string; // Gmail thread ID
+  threadId: string; // Gmail thread ID (derived from References for other providers)
 
   @Column({ type: 'text', nullable: true })
   from: string; // Sender email address
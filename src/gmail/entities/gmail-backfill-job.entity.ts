@@ -0,0 +1,88 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Backfill job status values
+ */
+export enum BackfillStatus {
+  RUNNING = 'running',
+  PAUSED = 'paused',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Full-mailbox backfill job
+ * Stores the Gmail page token after every page so an interrupted job can resume
+ */
+@Entity('gmail_backfill_jobs')
+@Index(['userId', 'createdAt'])
+export class GmailBackfillJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'int', nullable: true })
+  accountId: number; // Gmail account to backfill (null: default account)
+
+  @Column({ type: 'varchar', length: 20, default: BackfillStatus.RUNNING })
+  status: string; // running, paused, completed, failed, cancelled
+
+  @Column({ type: 'text', nullable: true })
+  query: string; // Gmail search query built from the date range
+
+  @Column({ type: 'text', nullable: true })
+  labelIds: string; // Label filter (JSON array as string), null = whole mailbox
+
+  @Column({ type: 'timestamp', nullable: true })
+  after: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  before: Date;
+
+  @Column({ type: 'boolean', default: false })
+  includeSpamTrash: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  pageToken: string; // Next page to fetch, null once the last page is done
+
+  @Column({ type: 'int', default: 0 })
+  pagesProcessed: number;
+
+  @Column({ type: 'int', default: 0 })
+  messagesSeen: number;
+
+  @Column({ type: 'int', default: 0 })
+  storedCount: number;
+
+  @Column({ type: 'int', nullable: true })
+  resultSizeEstimate: number; // Gmail's estimate from the first page
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
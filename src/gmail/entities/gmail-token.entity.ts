@@ -12,9 +12,10 @@ import { User } from '../../auth/entities/user.entity';
 
 /**
  * Gmail OAuth token entity for storing Google refresh tokens securely
+ * One row per linked Gmail account, each with its own sync state
  */
 @Entity('gmail_tokens')
-@Index(['userId'], { unique: true }) // One token per user
+@Index(['userId', 'email'], { unique: true }) // Each mailbox linked once per user
 export class GmailToken {
   @PrimaryGeneratedColumn()
   id: number;
@@ -26,15 +27,36 @@ export class GmailToken {
   @JoinColumn({ name: 'userId' })
   user: User;
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  email: string; // Gmail address, used to route Pub/Sub push notifications
+
+  @Column({ type: 'boolean', default: false })
+  isDefault: boolean; // Account used for new emails and drafts when none is chosen
+
   @Column({ type: 'text' })
-  refreshToken: string; // Google OAuth refresh token (encrypted in production)
+  refreshToken: string; // Google OAuth refresh token (encrypted)
+
+  @Column({ type: 'text', nullable: true })
+  accessToken: string; // Current access token (temporary, encrypted)
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  encryptionKeyId: string; // Master key encryptedDataKey is wrapped with (null: stored in plaintext)
 
   @Column({ type: 'text', nullable: true })
-  accessToken: string; // Current access token (temporary)
+  encryptedDataKey: string; // Data key the tokens are encrypted with, wrapped
 
   @Column({ type: 'timestamp', nullable: true })
   accessTokenExpiry: Date; // When access token expires
 
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  historyId: string; // Gmail history checkpoint for incremental sync
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastSyncedAt: Date; // When the last successful sync finished
+
+  @Column({ type: 'timestamp', nullable: true })
+  watchExpiration: Date; // When the users.watch registration expires
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -39,6 +39,9 @@ export class KanbanColumn {
   @Column({ type: 'varchar', length: 50, nullable: true })
   gmailLabel: string; // Gmail label to map to (e.g., "STARRED", "IMPORTANT", or custom label)
 
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  outlookCategory: string; // Outlook category to map to (e.g., "Red category", or custom category)
+
   @Column({ type: 'boolean', default: true })
   isActive: boolean; // Whether column is active/visible
 
@@ -0,0 +1,111 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Scheduled email status values
+ */
+export enum ScheduledEmailStatus {
+  PENDING = 'pending',
+  SENDING = 'sending',
+  SENT = 'sent',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Kind of outgoing message
+ */
+export enum ScheduledEmailKind {
+  SEND = 'send',
+  REPLY = 'reply',
+  FORWARD = 'forward',
+}
+
+/**
+ * Outbox row for an email sent later
+ * Dispatched by the scheduler once nextAttemptAt has passed
+ */
+@Entity('scheduled_emails')
+@Index(['status', 'nextAttemptAt'])
+@Index(['userId', 'status'])
+export class ScheduledEmail {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 20, default: ScheduledEmailKind.SEND })
+  kind: string; // send, reply, forward
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: ScheduledEmailStatus.PENDING,
+  })
+  status: string; // pending, sending, sent, failed, cancelled
+
+  @Column({ type: 'int', nullable: true })
+  sourceEmailId: number; // Stored email replied to / forwarded
+
+  @Column({ type: 'varchar', length: 20, default: 'gmail' })
+  provider: string; // Mail provider that sends the email: 'gmail', 'imap'
+
+  @Column({ type: 'int', nullable: true })
+  accountId: number; // Sending account of the provider for new emails (null: default account)
+
+  @Column({ type: 'text', nullable: true })
+  to: string; // Recipient email addresses (JSON array as string)
+
+  @Column({ type: 'text', nullable: true })
+  cc: string; // CC email addresses (JSON array as string)
+
+  @Column({ type: 'text', nullable: true })
+  bcc: string; // BCC email addresses (JSON array as string)
+
+  @Column({ type: 'text', nullable: true })
+  subject: string;
+
+  @Column({ type: 'text', nullable: true })
+  body: string; // HTML body (forward: message above the quoted original)
+
+  @Column({ type: 'text', nullable: true })
+  attachments: string; // Uploaded files (JSON array, base64 content)
+
+  @Column({ type: 'timestamp' })
+  sendAt: Date; // Requested send time
+
+  @Column({ type: 'timestamp' })
+  nextAttemptAt: Date; // sendAt, pushed back after a failed attempt
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  messageId: string; // Gmail message ID once sent
+
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Per-user mailbox preferences
+ */
+@Entity('user_settings')
+@Index(['userId'], { unique: true }) // One settings row per user
+export class UserSettings {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'boolean', default: false })
+  groupByThread: boolean; // Show one card/row per thread in lists and Kanban
+
+  @Column({ type: 'int', default: 0 })
+  undoSendSeconds: number; // Hold outgoing mail this long so it can be undone (0 = send immediately)
+
+  @Column({ type: 'text', nullable: true })
+  aiCategories: string; // Categories the AI files mail under (JSON array as string, null = defaults)
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
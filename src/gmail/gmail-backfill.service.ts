@@ -0,0 +1,335 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import { GmailService } from './gmail.service';
+import {
+  BackfillStatus,
+  GmailBackfillJob,
+} from './entities/gmail-backfill-job.entity';
+
+/**
+ * Service for full-mailbox backfill jobs
+ * Pages through messages.list and saves the page token after every page,
+ * so a paused, failed or interrupted job resumes where it stopped
+ */
+@Injectable()
+export class GmailBackfillService implements OnModuleInit {
+  private readonly PAGE_SIZE = 100;
+  private readonly PAGE_DELAY_MS = 250; // Stay well below Gmail API quota
+  private activeJobs = new Set<number>(); // Jobs running in this process
+
+  constructor(
+    @InjectRepository(GmailBackfillJob)
+    private readonly backfillJobRepository: Repository<GmailBackfillJob>,
+    private readonly gmailService: GmailService,
+  ) {}
+
+  /**
+   * Resume jobs that were still running when the process stopped
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      const interrupted = await this.backfillJobRepository.find({
+        where: { status: BackfillStatus.RUNNING },
+      });
+      for (const job of interrupted) {
+        console.log(
+          `Gmail Backfill Service: Resuming interrupted job ${job.id} for user ${job.userId}`,
+        );
+        this.runJob(job.id);
+      }
+    } catch (error: any) {
+      console.error('Gmail Backfill Service: Failed to resume jobs:', error);
+    }
+  }
+
+  /**
+   * Start a new backfill for the whole mailbox or a date range / label set
+   */
+  async startBackfill(
+    userId: number,
+    options: {
+      after?: string;
+      before?: string;
+      labelIds?: string[];
+      includeSpamTrash?: boolean;
+      accountId?: number;
+    },
+  ): Promise<any> {
+    const active = await this.backfillJobRepository.findOne({
+      where: {
+        userId,
+        status: In([BackfillStatus.RUNNING, BackfillStatus.PAUSED]),
+      },
+    });
+
+    if (active) {
+      throw new Error(
+        `Backfill job ${active.id} is already ${active.status}. Resume or cancel it first.`,
+      );
+    }
+
+    if (options.accountId) {
+      const accounts = await this.gmailService.listAccounts(userId);
+      if (!accounts.some((account) => account.id === options.accountId)) {
+        throw new Error('Gmail account not found');
+      }
+    }
+
+    const after = options.after ? new Date(options.after) : null;
+    const before = options.before ? new Date(options.before) : null;
+    if (after && before && after >= before) {
+      throw new Error('"after" must be earlier than "before"');
+    }
+
+    // Gmail search accepts epoch seconds for after:/before:
+    const terms: string[] = [];
+    if (after) terms.push(`after:${Math.floor(after.getTime() / 1000)}`);
+    if (before) terms.push(`before:${Math.floor(before.getTime() / 1000)}`);
+
+    const job = await this.backfillJobRepository.save(
+      this.backfillJobRepository.create({
+        userId,
+        status: BackfillStatus.RUNNING,
+        query: terms.length > 0 ? terms.join(' ') : null,
+        labelIds: options.labelIds?.length
+          ? JSON.stringify(options.labelIds)
+          : null,
+        after,
+        before,
+        includeSpamTrash: options.includeSpamTrash || false,
+        accountId: options.accountId || null,
+      }),
+    );
+
+    this.runJob(job.id);
+
+    return this.formatJob(job);
+  }
+
+  /**
+   * Resume a paused or failed job from its saved page token
+   */
+  async resumeBackfill(userId: number, jobId: number): Promise<any> {
+    // A failed job may have been followed by a new one
+    const active = await this.backfillJobRepository.findOne({
+      where: {
+        id: Not(jobId),
+        userId,
+        status: In([BackfillStatus.RUNNING, BackfillStatus.PAUSED]),
+      },
+    });
+    if (active) {
+      throw new Error(
+        `Backfill job ${active.id} is already ${active.status}. Resume or cancel it first.`,
+      );
+    }
+
+    const job = await this.changeStatus(
+      userId,
+      jobId,
+      [BackfillStatus.PAUSED, BackfillStatus.FAILED],
+      { status: BackfillStatus.RUNNING, lastError: null },
+      'resume',
+    );
+
+    this.runJob(job.id);
+
+    return this.formatJob(job);
+  }
+
+  /**
+   * Pause a running job after the page in progress
+   */
+  async pauseBackfill(userId: number, jobId: number): Promise<any> {
+    const job = await this.changeStatus(
+      userId,
+      jobId,
+      [BackfillStatus.RUNNING],
+      { status: BackfillStatus.PAUSED },
+      'pause',
+    );
+
+    return this.formatJob(job);
+  }
+
+  /**
+   * Cancel a job (stored emails are kept)
+   */
+  async cancelBackfill(userId: number, jobId: number): Promise<any> {
+    const job = await this.changeStatus(
+      userId,
+      jobId,
+      [BackfillStatus.RUNNING, BackfillStatus.PAUSED, BackfillStatus.FAILED],
+      { status: BackfillStatus.CANCELLED },
+      'cancel',
+    );
+
+    return this.formatJob(job);
+  }
+
+  /**
+   * Get the latest backfill job with progress for a user
+   */
+  async getBackfillStatus(userId: number): Promise<any | null> {
+    const job = await this.backfillJobRepository.findOne({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return job ? this.formatJob(job) : null;
+  }
+
+  /**
+   * Page through Gmail until the job completes, is paused/cancelled or fails
+   */
+  private async runJob(jobId: number): Promise<void> {
+    if (this.activeJobs.has(jobId)) {
+      return;
+    }
+    this.activeJobs.add(jobId);
+
+    try {
+      while (true) {
+        // Reload every page so pause/cancel requests are picked up
+        const job = await this.backfillJobRepository.findOne({
+          where: { id: jobId },
+        });
+        if (!job || job.status !== BackfillStatus.RUNNING) {
+          return;
+        }
+
+        const page = await this.gmailService.fetchMessagePage(job.userId, {
+          accountId: job.accountId,
+          q: job.query,
+          labelIds: job.labelIds ? JSON.parse(job.labelIds) : undefined,
+          includeSpamTrash: job.includeSpamTrash,
+          pageToken: job.pageToken,
+          maxResults: this.PAGE_SIZE,
+        });
+
+        const done = !page.nextPageToken;
+        // The last page only completes a job still running: a job paused or
+        // cancelled meanwhile keeps its status (and a paused one its page)
+        const result = await this.backfillJobRepository.update(
+          done ? { id: jobId, status: BackfillStatus.RUNNING } : { id: jobId },
+          {
+            pageToken: page.nextPageToken,
+            pagesProcessed: job.pagesProcessed + 1,
+            messagesSeen: job.messagesSeen + page.seen,
+            storedCount: job.storedCount + page.storedEmailIds.length,
+            resultSizeEstimate:
+              job.resultSizeEstimate ?? page.resultSizeEstimate,
+            ...(done
+              ? { status: BackfillStatus.COMPLETED, completedAt: new Date() }
+              : {}),
+          },
+        );
+
+        if (done) {
+          if (result.affected) {
+            console.log(
+              `Gmail Backfill Service: Job ${jobId} completed (${job.storedCount + page.storedEmailIds.length} emails stored)`,
+            );
+          }
+          return;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, this.PAGE_DELAY_MS));
+      }
+    } catch (error: any) {
+      console.error(`Gmail Backfill Service: Job ${jobId} failed:`, error);
+      try {
+        await this.backfillJobRepository.update(
+          { id: jobId, status: BackfillStatus.RUNNING },
+          {
+            status: BackfillStatus.FAILED,
+            lastError: error.message || 'Unknown error',
+          },
+        );
+      } catch (updateError) {
+        console.error(
+          `Gmail Backfill Service: Failed to mark job ${jobId} as failed:`,
+          updateError,
+        );
+      }
+    } finally {
+      this.activeJobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Change the status of a job that is in one of the expected states
+   * Only the given columns are written, so progress saved by the runner is
+   * kept; returns the updated job
+   */
+  private async changeStatus(
+    userId: number,
+    jobId: number,
+    expected: BackfillStatus[],
+    changes: Partial<GmailBackfillJob>,
+    action: string,
+  ): Promise<GmailBackfillJob> {
+    const result = await this.backfillJobRepository.update(
+      { id: jobId, userId, status: In(expected) },
+      changes,
+    );
+
+    const job = await this.findJob(userId, jobId);
+    if (!result.affected) {
+      throw new Error(`Cannot ${action} a ${job.status} backfill job`);
+    }
+    return job;
+  }
+
+  private async findJob(
+    userId: number,
+    jobId: number,
+  ): Promise<GmailBackfillJob> {
+    const job = await this.backfillJobRepository.findOne({
+      where: { id: jobId, userId },
+    });
+
+    if (!job) {
+      throw new Error('Backfill job not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * Format a job for the status endpoint
+   */
+  private formatJob(job: GmailBackfillJob): any {
+    let progress: number | null = null;
+    if (job.status === BackfillStatus.COMPLETED) {
+      progress = 100;
+    } else if (job.resultSizeEstimate) {
+      // Gmail's estimate is rough, never report 100% before the last page
+      progress = Math.min(
+        99,
+        Math.round((job.messagesSeen / job.resultSizeEstimate) * 100),
+      );
+    }
+
+    return {
+      id: job.id,
+      accountId: job.accountId,
+      status: job.status,
+      query: job.query,
+      labelIds: job.labelIds ? JSON.parse(job.labelIds) : [],
+      after: job.after,
+      before: job.before,
+      includeSpamTrash: job.includeSpamTrash,
+      pagesProcessed: job.pagesProcessed,
+      messagesSeen: job.messagesSeen,
+      storedCount: job.storedCount,
+      resultSizeEstimate: job.resultSizeEstimate,
+      progress,
+      lastError: job.lastError,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { GmailService } from './gmail.service';
+import { EmailRaw } from './entities/email-raw.entity';
+import { MimeMessageOptions } from './utils/mime.util';
+import { MailProviderRegistry } from '../mail/mail-provider.registry';
+import {
+  MailFlagChanges,
+  MailFolder,
+  MailProvider,
+  MailProviderType,
+} from '../mail/mail-provider.interface';
+
+/**
+ * Gmail as a mail provider
+ * Adapter over GmailService, which keeps the Gmail API logic (labels map 1:1)
+ */
+@Injectable()
+export class GmailMailProvider implements MailProvider, OnModuleInit {
+  readonly type = MailProviderType.GMAIL;
+
+  constructor(
+    private readonly gmailService: GmailService,
+    private readonly mailProviderRegistry: MailProviderRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.mailProviderRegistry.register(this);
+  }
+
+  async hasAccount(userId: number, accountId: number): Promise<boolean> {
+    const accounts = await this.gmailService.listAccounts(userId);
+    return accounts.some((account) => account.id === accountId);
+  }
+
+  async fetch(
+    userId: number,
+    options: { accountId?: number; maxResults?: number } = {},
+  ): Promise<{ success: boolean; count: number; message: string }> {
+    return await this.gmailService.fetchAndStoreEmails(
+      userId,
+      options.maxResults,
+      { accountId: options.accountId },
+    );
+  }
+
+  async send(
+    userId: number,
+    message: MimeMessageOptions,
+    options: { accountId?: number | null; threadId?: string } = {},
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    return await this.gmailService.sendMessage(userId, message, options);
+  }
+
+  async modifyFlags(email: EmailRaw, changes: MailFlagChanges): Promise<void> {
+    const result = await this.gmailService.modifyEmail(
+      email.userId,
+      email.id,
+      changes,
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  async move(email: EmailRaw, folder: MailFolder): Promise<void> {
+    if (folder === MailFolder.TRASH) {
+      const result = await this.gmailService.deleteEmail(
+        email.userId,
+        email.id,
+      );
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return;
+    }
+
+    // Gmail folders are labels: archiving only removes INBOX
+    const changes: Record<MailFolder, MailFlagChanges> = {
+      [MailFolder.INBOX]: { addLabelIds: ['INBOX'], removeLabelIds: ['SPAM'] },
+      [MailFolder.ARCHIVE]: { removeLabelIds: ['INBOX'] },
+      [MailFolder.SPAM]: { addLabelIds: ['SPAM'], removeLabelIds: ['INBOX'] },
+      [MailFolder.TRASH]: {},
+    };
+    await this.modifyFlags(email, changes[folder]);
+  }
+
+  async delete(email: EmailRaw): Promise<void> {
+    const result = await this.gmailService.deleteEmail(
+      email.userId,
+      email.id,
+      true,
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  async getAttachment(email: EmailRaw, attachmentId: string): Promise<Buffer> {
+    const result = await this.gmailService.getAttachment(
+      email.userId,
+      email.id,
+      attachmentId,
+    );
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Attachment data not found');
+    }
+    return result.data;
+  }
+}
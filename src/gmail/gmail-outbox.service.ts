@@ -0,0 +1,584 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { GmailService } from './gmail.service';
+import { EmailRaw } from './entities/email-raw.entity';
+import {
+  ScheduledEmail,
+  ScheduledEmailKind,
+  ScheduledEmailStatus,
+} from './entities/scheduled-email.entity';
+import { MimeAttachment, assertAttachmentLimits } from './utils/mime.util';
+import {
+  MailboxEventsService,
+  MailboxEventType,
+} from '../events/mailbox-events.service';
+import { MailProviderRegistry } from '../mail/mail-provider.registry';
+import { MailProviderType } from '../mail/mail-provider.interface';
+
+/**
+ * Outbox for scheduled sends and the undo-send window
+ * Emails are stored until their send time and dispatched by GmailSchedulerService,
+ * failed attempts are retried with a growing delay before the row is marked failed
+ */
+@Injectable()
+export class GmailOutboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000];
+  private readonly MAX_ATTEMPTS = this.RETRY_DELAYS_MS.length + 1;
+  // Emails due sooner than this get their own timer instead of waiting for the scheduler
+  private readonly TIMER_THRESHOLD_MS = 60 * 1000;
+  private timers = new Map<number, NodeJS.Timeout>();
+
+  constructor(
+    @InjectRepository(ScheduledEmail)
+    private readonly scheduledEmailRepository: Repository<ScheduledEmail>,
+    @InjectRepository(EmailRaw)
+    private readonly emailRawRepository: Repository<EmailRaw>,
+    private readonly gmailService: GmailService,
+    private readonly mailboxEventsService: MailboxEventsService,
+    private readonly mailProviderRegistry: MailProviderRegistry,
+  ) {}
+
+  /**
+   * Rows left in "sending" by a crash may or may not have reached Gmail,
+   * so they are surfaced as failed instead of being sent twice
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.scheduledEmailRepository.update(
+        { status: ScheduledEmailStatus.SENDING },
+        {
+          status: ScheduledEmailStatus.FAILED,
+          lastError:
+            'Interrupted while sending. Check the Sent folder before rescheduling.',
+        },
+      );
+    } catch (error: any) {
+      console.error('Gmail Outbox Service: Failed to recover sends:', error);
+    }
+  }
+
+  onModuleDestroy(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Store an email to be sent at sendAt
+   */
+  async scheduleEmail(
+    userId: number,
+    email: {
+      kind: ScheduledEmailKind;
+      sourceEmailId?: number;
+      to?: string[];
+      cc?: string[];
+      bcc?: string[];
+      subject?: string;
+      body?: string;
+      attachments?: MimeAttachment[];
+      provider?: MailProviderType;
+      accountId?: number;
+      sendAt: Date;
+    },
+  ): Promise<any> {
+    if (isNaN(email.sendAt.getTime()) || email.sendAt <= new Date()) {
+      throw new Error('sendAt must be a date in the future');
+    }
+    assertAttachmentLimits(email.attachments || []);
+
+    // Replies and forwards go out through the provider that received the email
+    let provider = email.provider || MailProviderType.GMAIL;
+    if (email.kind !== ScheduledEmailKind.SEND) {
+      const source = await this.emailRawRepository.findOne({
+        where: { id: email.sourceEmailId, userId },
+      });
+      if (!source) {
+        throw new Error('Email not found');
+      }
+      provider = source.provider as MailProviderType;
+    }
+
+    if (email.accountId) {
+      await this.assertAccount(userId, provider, email.accountId);
+    }
+
+    const scheduled = await this.scheduledEmailRepository.save(
+      this.scheduledEmailRepository.create({
+        userId,
+        kind: email.kind,
+        status: ScheduledEmailStatus.PENDING,
+        sourceEmailId: email.sourceEmailId || null,
+        to: email.to ? JSON.stringify(email.to) : null,
+        cc: email.cc ? JSON.stringify(email.cc) : null,
+        bcc: email.bcc ? JSON.stringify(email.bcc) : null,
+        subject: email.subject ?? null,
+        body: email.body ?? null,
+        attachments: this.serializeAttachments(email.attachments),
+        provider,
+        // Replies and forwards always go out from the account that received the email
+        accountId:
+          email.kind === ScheduledEmailKind.SEND
+            ? email.accountId || null
+            : null,
+        sendAt: email.sendAt,
+        nextAttemptAt: email.sendAt,
+      }),
+    );
+    this.armTimer(scheduled.id, scheduled.sendAt);
+
+    return this.formatScheduled(scheduled);
+  }
+
+  /**
+   * List scheduled emails, soonest first
+   */
+  async listScheduled(
+    userId: number,
+    status?: ScheduledEmailStatus,
+  ): Promise<any[]> {
+    const emails = await this.scheduledEmailRepository.find({
+      where: status ? { userId, status } : { userId },
+      order: { sendAt: 'ASC' },
+    });
+
+    return emails.map((email) => this.formatScheduled(email));
+  }
+
+  /**
+   * Edit a pending (or failed) scheduled email before dispatch
+   * Editing a failed email reschedules it
+   */
+  async updateScheduled(
+    userId: number,
+    id: number,
+    updates: {
+      to?: string[];
+      cc?: string[];
+      bcc?: string[];
+      subject?: string;
+      body?: string;
+      accountId?: number;
+      sendAt?: Date;
+    },
+  ): Promise<any> {
+    const scheduled = await this.findScheduled(userId, id);
+
+    if (
+      scheduled.status !== ScheduledEmailStatus.PENDING &&
+      scheduled.status !== ScheduledEmailStatus.FAILED
+    ) {
+      throw new Error(`Cannot edit a ${scheduled.status} email`);
+    }
+
+    if (
+      updates.sendAt &&
+      (isNaN(updates.sendAt.getTime()) || updates.sendAt <= new Date())
+    ) {
+      throw new Error('sendAt must be a date in the future');
+    }
+
+    if (updates.accountId !== undefined) {
+      if (scheduled.kind !== ScheduledEmailKind.SEND) {
+        throw new Error(
+          'Replies and forwards are sent from the receiving account',
+        );
+      }
+      await this.assertAccount(userId, scheduled.provider, updates.accountId);
+    }
+
+    const changes: Partial<ScheduledEmail> = {};
+    if (updates.to !== undefined) changes.to = JSON.stringify(updates.to);
+    if (updates.cc !== undefined) changes.cc = JSON.stringify(updates.cc);
+    if (updates.bcc !== undefined) changes.bcc = JSON.stringify(updates.bcc);
+    if (updates.subject !== undefined) changes.subject = updates.subject;
+    if (updates.body !== undefined) changes.body = updates.body;
+    if (updates.accountId !== undefined) changes.accountId = updates.accountId;
+    if (updates.sendAt) {
+      changes.sendAt = updates.sendAt;
+      changes.nextAttemptAt = updates.sendAt;
+    }
+    if (scheduled.status === ScheduledEmailStatus.FAILED) {
+      changes.status = ScheduledEmailStatus.PENDING;
+      changes.attempts = 0;
+      changes.lastError = null;
+      changes.nextAttemptAt = updates.sendAt || new Date();
+    }
+
+    // Only apply if the dispatcher has not claimed the email meanwhile
+    const result = await this.scheduledEmailRepository.update(
+      { id, userId, status: scheduled.status },
+      changes,
+    );
+    if (!result.affected) {
+      throw new Error('Email is already being sent');
+    }
+
+    const updated = await this.findScheduled(userId, id);
+    this.armTimer(updated.id, updated.nextAttemptAt);
+
+    return this.formatScheduled(updated);
+  }
+
+  /**
+   * Cancel a pending (or failed) scheduled email
+   */
+  async cancelScheduled(userId: number, id: number): Promise<any> {
+    const result = await this.scheduledEmailRepository.update(
+      {
+        id,
+        userId,
+        status: In([ScheduledEmailStatus.PENDING, ScheduledEmailStatus.FAILED]),
+      },
+      { status: ScheduledEmailStatus.CANCELLED },
+    );
+
+    const scheduled = await this.findScheduled(userId, id);
+    if (!result.affected) {
+      throw new Error(`Cannot cancel a ${scheduled.status} email`);
+    }
+
+    return this.formatScheduled(scheduled);
+  }
+
+  /**
+   * Undo a pending send and turn it into a Gmail draft
+   * Only possible until the dispatcher claims the email
+   * Other providers have no drafts: the cancelled email is returned instead
+   */
+  async undoSend(userId: number, id: number): Promise<any> {
+    const result = await this.scheduledEmailRepository.update(
+      { id, userId, status: ScheduledEmailStatus.PENDING },
+      { status: ScheduledEmailStatus.CANCELLED },
+    );
+
+    const scheduled = await this.findScheduled(userId, id);
+    if (!result.affected) {
+      throw new Error(
+        scheduled.status === ScheduledEmailStatus.SENT ||
+        scheduled.status === ScheduledEmailStatus.SENDING
+          ? 'Email has already been sent'
+          : `Cannot undo a ${scheduled.status} email`,
+      );
+    }
+    this.clearTimer(id);
+
+    if (scheduled.provider !== MailProviderType.GMAIL) {
+      return this.formatScheduled(scheduled);
+    }
+
+    const draft = await this.gmailService.createDraft(userId, {
+      to: scheduled.to ? JSON.parse(scheduled.to) : undefined,
+      cc: scheduled.cc ? JSON.parse(scheduled.cc) : undefined,
+      bcc: scheduled.bcc ? JSON.parse(scheduled.bcc) : undefined,
+      subject: scheduled.subject ?? undefined,
+      body: scheduled.body ?? undefined,
+      replyToEmailId:
+        scheduled.kind === ScheduledEmailKind.REPLY
+          ? scheduled.sourceEmailId
+          : undefined,
+      forwardEmailId:
+        scheduled.kind === ScheduledEmailKind.FORWARD
+          ? scheduled.sourceEmailId
+          : undefined,
+      attachments: this.deserializeAttachments(scheduled.attachments),
+      accountId: scheduled.accountId ?? undefined,
+    });
+
+    if (!draft.success) {
+      // The cancelled row keeps its content, so nothing is lost
+      await this.scheduledEmailRepository.update(
+        { id },
+        { lastError: draft.error || 'Failed to create draft' },
+      );
+      throw new Error(
+        `Send was cancelled but the draft could not be created: ${draft.error}`,
+      );
+    }
+
+    await this.scheduledEmailRepository.update({ id }, { attachments: null });
+
+    return draft.draft;
+  }
+
+  /**
+   * Send all emails that are due
+   * This should be called periodically by a scheduled task
+   */
+  async dispatchDueEmails(): Promise<{ sent: number; failed: number }> {
+    return await this.claimAndDispatch();
+  }
+
+  /**
+   * Claim due rows (optionally a single one) and send them
+   * Claiming is atomic so the scheduler and timers never send twice
+   */
+  private async claimAndDispatch(
+    id?: number,
+  ): Promise<{ sent: number; failed: number }> {
+    const query = this.scheduledEmailRepository
+      .createQueryBuilder()
+      .update(ScheduledEmail)
+      .set({ status: ScheduledEmailStatus.SENDING })
+      .where('status = :status', { status: ScheduledEmailStatus.PENDING })
+      .andWhere('nextAttemptAt <= :now', { now: new Date() });
+    if (id !== undefined) {
+      query.andWhere('id = :id', { id });
+    }
+    const claimed = await query.returning(['id']).execute();
+
+    let sent = 0;
+    let failed = 0;
+    for (const row of (claimed.raw || []) as Array<{ id: number }>) {
+      const email = await this.scheduledEmailRepository.findOne({
+        where: { id: row.id },
+      });
+      if (!email) continue;
+
+      if (await this.dispatch(email)) {
+        sent++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * Dispatch an email right when it is due if that is before the next scheduler run
+   * Timers are only an optimisation: after a restart the scheduler picks the row up
+   */
+  private armTimer(id: number, dueAt: Date): void {
+    const delay = dueAt.getTime() - Date.now();
+    if (delay > this.TIMER_THRESHOLD_MS) {
+      return;
+    }
+
+    this.clearTimer(id);
+    this.timers.set(
+      id,
+      setTimeout(
+        () => {
+          this.timers.delete(id);
+          this.claimAndDispatch(id).catch((error) =>
+            console.error(
+              `Gmail Outbox Service: Failed to dispatch email ${id}:`,
+              error,
+            ),
+          );
+        },
+        Math.max(delay, 0),
+      ),
+    );
+  }
+
+  private clearTimer(id: number): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  /**
+   * Send one claimed email and record the outcome
+   */
+  private async dispatch(email: ScheduledEmail): Promise<boolean> {
+    let result: { success: boolean; messageId?: string; error?: string };
+    try {
+      result = await this.sendNow(email);
+    } catch (error: any) {
+      result = { success: false, error: error.message || 'Unknown error' };
+    }
+
+    if (result.success) {
+      await this.scheduledEmailRepository.update(
+        { id: email.id },
+        {
+          status: ScheduledEmailStatus.SENT,
+          messageId: result.messageId || null,
+          sentAt: new Date(),
+          attempts: email.attempts + 1,
+          lastError: null,
+          attachments: null, // Content is in Gmail now
+        },
+      );
+      this.mailboxEventsService.emit(
+        email.userId,
+        MailboxEventType.SCHEDULED_SENT,
+        { scheduledEmailId: email.id, messageId: result.messageId },
+      );
+      return true;
+    }
+
+    const attempts = email.attempts + 1;
+    const exhausted = attempts >= this.MAX_ATTEMPTS;
+    await this.scheduledEmailRepository.update(
+      { id: email.id },
+      {
+        status: exhausted
+          ? ScheduledEmailStatus.FAILED
+          : ScheduledEmailStatus.PENDING,
+        attempts,
+        lastError: result.error || 'Failed to send email',
+        ...(exhausted
+          ? {}
+          : {
+              nextAttemptAt: new Date(
+                Date.now() + this.RETRY_DELAYS_MS[attempts - 1],
+              ),
+            }),
+      },
+    );
+
+    if (exhausted) {
+      console.error(
+        `Gmail Outbox Service: Scheduled email ${email.id} failed after ${attempts} attempts: ${result.error}`,
+      );
+      this.mailboxEventsService.emit(
+        email.userId,
+        MailboxEventType.SCHEDULED_FAILED,
+        { scheduledEmailId: email.id, error: result.error },
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Send through the matching GmailService method
+   * (new emails through the mail provider they were scheduled on)
+   */
+  private async sendNow(
+    email: ScheduledEmail,
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const to = email.to ? JSON.parse(email.to) : [];
+    const cc = email.cc ? JSON.parse(email.cc) : undefined;
+    const bcc = email.bcc ? JSON.parse(email.bcc) : undefined;
+    const attachments = this.deserializeAttachments(email.attachments);
+
+    switch (email.kind) {
+      case ScheduledEmailKind.REPLY:
+        return await this.gmailService.replyToEmail(
+          email.userId,
+          email.sourceEmailId,
+          email.body || '',
+          attachments,
+        );
+      case ScheduledEmailKind.FORWARD:
+        return await this.gmailService.forwardEmail(
+          email.userId,
+          email.sourceEmailId,
+          to,
+          email.body || undefined,
+          cc,
+          attachments,
+        );
+      default:
+        return await this.mailProviderRegistry.get(email.provider).send(
+          email.userId,
+          {
+            to,
+            cc,
+            bcc,
+            subject: email.subject || '',
+            html: email.body || '',
+            attachments,
+          },
+          { accountId: email.accountId },
+        );
+    }
+  }
+
+  /**
+   * Reject accounts the user has not linked
+   */
+  private async assertAccount(
+    userId: number,
+    provider: string,
+    accountId: number,
+  ): Promise<void> {
+    const linked = await this.mailProviderRegistry
+      .get(provider)
+      .hasAccount(userId, accountId);
+    if (!linked) {
+      throw new Error(
+        provider === MailProviderType.GMAIL
+          ? 'Gmail account not found'
+          : 'Mail account not found',
+      );
+    }
+  }
+
+  private async findScheduled(
+    userId: number,
+    id: number,
+  ): Promise<ScheduledEmail> {
+    const scheduled = await this.scheduledEmailRepository.findOne({
+      where: { id, userId },
+    });
+
+    if (!scheduled) {
+      throw new Error('Scheduled email not found');
+    }
+
+    return scheduled;
+  }
+
+  private serializeAttachments(attachments?: MimeAttachment[]): string | null {
+    if (!attachments || attachments.length === 0) {
+      return null;
+    }
+    return JSON.stringify(
+      attachments.map((file) => ({
+        ...file,
+        content: file.content.toString('base64'),
+      })),
+    );
+  }
+
+  private deserializeAttachments(value: string | null): MimeAttachment[] {
+    if (!value) {
+      return [];
+    }
+    return JSON.parse(value).map((file: any) => ({
+      ...file,
+      content: Buffer.from(file.content, 'base64'),
+    }));
+  }
+
+  /**
+   * Format a scheduled email for the API (attachment content omitted)
+   */
+  private formatScheduled(email: ScheduledEmail): any {
+    const attachments = this.deserializeAttachments(email.attachments);
+
+    return {
+      id: email.id,
+      provider: email.provider,
+      accountId: email.accountId,
+      kind: email.kind,
+      status: email.status,
+      sourceEmailId: email.sourceEmailId,
+      to: email.to ? JSON.parse(email.to) : [],
+      cc: email.cc ? JSON.parse(email.cc) : [],
+      bcc: email.bcc ? JSON.parse(email.bcc) : [],
+      subject: email.subject,
+      body: email.body,
+      attachments: attachments.map((file) => ({
+        filename: file.filename,
+        contentType: file.contentType,
+        size: file.content.length,
+      })),
+      sendAt: email.sendAt,
+      attempts: email.attempts,
+      lastError: email.lastError,
+      messageId: email.messageId,
+      sentAt: email.sentAt,
+      createdAt: email.createdAt,
+      updatedAt: email.updatedAt,
+    };
+  }
+}
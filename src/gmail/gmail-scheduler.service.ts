@@ -1,16 +1,26 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { GmailService } from './gmail.service';
+import { GmailOutboxService } from './gmail-outbox.service';
 
 /**
- * Scheduled service to restore snoozed emails
+ * Scheduled service to restore snoozed emails, renew Gmail push watches and send scheduled emails
  * Runs every 5 minutes to check and restore emails that have passed their snooze date
+ * Runs every hour to renew users.watch registrations that expire within a day
+ * Runs every 30 seconds to dispatch scheduled emails that are due
  */
 @Injectable()
 export class GmailSchedulerService implements OnModuleInit, OnModuleDestroy {
   private intervalId: NodeJS.Timeout | null = null;
+  private watchIntervalId: NodeJS.Timeout | null = null;
+  private outboxIntervalId: NodeJS.Timeout | null = null;
   private readonly RESTORE_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+  private readonly WATCH_RENEW_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+  private readonly OUTBOX_INTERVAL_MS = 30 * 1000; // 30 seconds
 
-  constructor(private readonly gmailService: GmailService) {}
+  constructor(
+    private readonly gmailService: GmailService,
+    private readonly gmailOutboxService: GmailOutboxService,
+  ) {}
 
   /**
    * Start the scheduler when module initializes
@@ -28,6 +38,12 @@ export class GmailSchedulerService implements OnModuleInit, OnModuleDestroy {
       clearInterval(this.intervalId);
       console.log('Gmail Scheduler Service: Stopped scheduler');
     }
+    if (this.watchIntervalId) {
+      clearInterval(this.watchIntervalId);
+    }
+    if (this.outboxIntervalId) {
+      clearInterval(this.outboxIntervalId);
+    }
   }
 
   /**
@@ -43,6 +59,54 @@ export class GmailSchedulerService implements OnModuleInit, OnModuleDestroy {
     }, this.RESTORE_INTERVAL_MS);
 
     console.log(`Gmail Scheduler Service: Scheduler started (interval: ${this.RESTORE_INTERVAL_MS / 1000}s)`);
+
+    // Gmail watches expire after 7 days, renew them well before that
+    this.renewWatches();
+    this.watchIntervalId = setInterval(() => {
+      this.renewWatches();
+    }, this.WATCH_RENEW_INTERVAL_MS);
+
+    this.outboxIntervalId = setInterval(() => {
+      this.dispatchScheduledEmails();
+    }, this.OUTBOX_INTERVAL_MS);
+  }
+
+  /**
+   * Send scheduled emails whose send time has passed
+   */
+  private async dispatchScheduledEmails(): Promise<void> {
+    try {
+      const result = await this.gmailOutboxService.dispatchDueEmails();
+      if (result.sent > 0 || result.failed > 0) {
+        console.log(
+          `Gmail Scheduler Service: Sent ${result.sent} scheduled email(s), ${result.failed} failed attempt(s)`,
+        );
+      }
+    } catch (error: any) {
+      console.error(
+        'Gmail Scheduler Service: Error dispatching scheduled emails:',
+        error,
+      );
+    }
+  }
+
+  /**
+   * Renew Gmail push watches that are missing or about to expire
+   */
+  private async renewWatches(): Promise<void> {
+    try {
+      const result = await this.gmailService.renewExpiringWatches();
+      if (result.renewed > 0 || result.failed > 0) {
+        console.log(
+          `Gmail Scheduler Service: Renewed ${result.renewed} Gmail watch(es), ${result.failed} failed`,
+        );
+      }
+    } catch (error: any) {
+      console.error(
+        'Gmail Scheduler Service: Error renewing Gmail watches:',
+        error,
+      );
+    }
   }
 
   /**
@@ -13,7 +13,14 @@ import {
   Res,
   Param,
   Req,
+  ForbiddenException,
+  Sse,
+  MessageEvent,
+  UseInterceptors,
+  UploadedFiles,
 } from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { Observable } from 'rxjs';
 import { Response } from 'express';
 import {
   ApiTags,
@@ -23,26 +30,73 @@ import {
   ApiQuery,
   ApiParam,
   ApiExcludeEndpoint,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { GmailService } from './gmail.service';
-import { GeminiService } from '../ai/gemini.service';
+import { GmailBackfillService } from './gmail-backfill.service';
+import { GmailOutboxService } from './gmail-outbox.service';
+import { EmailAnalysisService } from '../ai/email-analysis.service';
 import { QdrantService } from '../ai/qdrant.service';
 import { AIProcessorService } from '../ai/ai-processor.service';
+import { parseCategories } from '../ai/utils/email-category.util';
+import { MailboxEventsService } from '../events/mailbox-events.service';
+import { MailProviderRegistry } from '../mail/mail-provider.registry';
+import { MailProviderType } from '../mail/mail-provider.interface';
+import {
+  OAuthStateError,
+  OAuthStateService,
+} from '../auth/oauth-state.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { FetchEmailsDto } from './dto/fetch-emails.dto';
+import { StartBackfillDto } from './dto/start-backfill.dto';
 import { SendEmailDto } from './dto/send-email.dto';
+import {
+  ScheduledEmailKind,
+  ScheduledEmailStatus,
+} from './entities/scheduled-email.entity';
 import { ReplyEmailDto } from './dto/reply-email.dto';
 import { ForwardEmailDto } from './dto/forward-email.dto';
+import { DraftEmailDto } from './dto/draft.dto';
+import { UpdateScheduledEmailDto } from './dto/update-scheduled-email.dto';
 import { ModifyEmailDto } from './dto/modify-email.dto';
 import { UpdateEmailStatusDto, KanbanStatus } from './dto/update-email-status.dto';
 import { SnoozeEmailDto } from './dto/snooze-email.dto';
 import { CreateKanbanColumnDto } from './dto/create-kanban-column.dto';
 import { UpdateKanbanColumnDto } from './dto/update-kanban-column.dto';
+import { UpdateUserSettingsDto } from './dto/update-user-settings.dto';
 import { TBaseDTO } from '../common/dto/base.dto';
 import { GGJParseIntPipe } from '../common/pipes/parse-int.pipe';
-import { google } from 'googleapis';
+import { isValidPushToken, parsePubSubPushPayload } from './utils/pubsub.util';
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENT_COUNT,
+  UploadedAttachmentFile,
+  toMimeAttachments,
+} from './utils/mime.util';
+import { Auth, google } from 'googleapis';
 import { ConfigService } from '@nestjs/config';
 
+// Multipart uploads for outgoing mail ("attachments" field, kept in memory)
+const AttachmentsInterceptor = FilesInterceptor(
+  'attachments',
+  MAX_ATTACHMENT_COUNT,
+  { limits: { fileSize: MAX_ATTACHMENT_BYTES } },
+);
+
+// Response shape of the settings endpoints
+type MailboxSettings = {
+  groupByThread: boolean;
+  undoSendSeconds: number;
+  aiCategories: string[];
+};
+
+// Response shape of the connection status endpoints
+type GmailConnectionStatus = {
+  connected: boolean;
+  email?: string; // Default account
+  accounts?: any[];
+};
+
 /**
  * Controller for Gmail integration endpoints
  */
@@ -51,10 +105,15 @@ import { ConfigService } from '@nestjs/config';
 export class GmailController {
   constructor(
     private readonly gmailService: GmailService,
+    private readonly gmailBackfillService: GmailBackfillService,
+    private readonly gmailOutboxService: GmailOutboxService,
     private readonly configService: ConfigService,
-    private readonly geminiService: GeminiService,
+    private readonly emailAnalysisService: EmailAnalysisService,
     private readonly qdrantService: QdrantService,
     private readonly aiProcessorService: AIProcessorService,
+    private readonly mailboxEventsService: MailboxEventsService,
+    private readonly mailProviderRegistry: MailProviderRegistry,
+    private readonly oauthStateService: OAuthStateService,
   ) {}
 
   /**
@@ -86,6 +145,13 @@ export class GmailController {
   ): Promise<void> {
     const userId = req.user.userId;
 
+    // Signed single-use state bound to this user and browser, plus a PKCE challenge
+    const { state, codeChallenge } = await this.oauthStateService.create(
+      userId,
+      MailProviderType.GMAIL,
+      res,
+    );
+
     // Create OAuth2 client
     const oauth2Client = new google.auth.OAuth2(
       this.configService.get<string>('GOOGLE_CLIENT_ID'),
@@ -103,8 +169,10 @@ export class GmailController {
         'https://www.googleapis.com/auth/userinfo.email',
         'https://www.googleapis.com/auth/userinfo.profile',
       ],
-      state: userId.toString(), // Pass userId in state to retrieve after callback
-      prompt: 'consent',
+      state,
+      code_challenge_method: Auth.CodeChallengeMethod.S256,
+      code_challenge: codeChallenge,
+      prompt: 'select_account consent', // Let users link more than one account
     });
 
     res.redirect(authUrl);
@@ -119,6 +187,7 @@ export class GmailController {
   async handleGmailCallback(
     @Query('code') code: string,
     @Query('state') state: string,
+    @Req() req: any,
     @Res() res: Response,
   ): Promise<void> {
     const frontendUrl =
@@ -129,12 +198,24 @@ export class GmailController {
         return res.redirect(`${frontendUrl}/dashboard?gmail_error=no_code`);
       }
 
-      const userId = parseInt(state, 10);
-      if (!userId || isNaN(userId)) {
-        return res.redirect(
-          `${frontendUrl}/dashboard?gmail_error=invalid_state`,
+      // Rejects tampered, expired and replayed states
+      let flow: { userId: number; codeVerifier: string };
+      try {
+        flow = await this.oauthStateService.consume(
+          state,
+          MailProviderType.GMAIL,
+          req,
+          res,
         );
+      } catch (error) {
+        if (error instanceof OAuthStateError) {
+          return res.redirect(
+            `${frontendUrl}/dashboard?gmail_error=${error.code}`,
+          );
+        }
+        throw error;
       }
+      const { userId, codeVerifier } = flow;
 
       // Exchange authorization code for tokens
       const oauth2Client = new google.auth.OAuth2(
@@ -143,7 +224,7 @@ export class GmailController {
         `${this.configService.get<string>('GOOGLE_REDIRECT_URI')}`,
       );
 
-      const { tokens } = await oauth2Client.getToken(code);
+      const { tokens } = await oauth2Client.getToken({ code, codeVerifier });
 
       if (!tokens.access_token) {
         return res.redirect(`${frontendUrl}/dashboard?gmail_error=no_token`);
@@ -154,8 +235,8 @@ export class GmailController {
       const oauth2 = google.oauth2({ version: 'v2', auth: oauth2Client });
       const userInfo = await oauth2.userinfo.get();
 
-      // Save tokens to database
-      await this.gmailService.saveGmailTokens(
+      // Save tokens to database (links a new account or updates a known one)
+      const account = await this.gmailService.saveGmailTokens(
         userId,
         tokens.access_token,
         tokens.refresh_token,
@@ -163,6 +244,9 @@ export class GmailController {
         userInfo.data.email,
       );
 
+      // Register push notifications (no-op when Pub/Sub is not configured)
+      await this.gmailService.startWatch(userId, account.id);
+
       // Redirect to dashboard with success
       res.redirect(`${frontendUrl}/dashboard?gmail_connected=true`);
     } catch (error) {
@@ -182,15 +266,15 @@ export class GmailController {
   @ApiResponse({
     status: 200,
     description: 'Gmail connection status',
-    type: TBaseDTO<{ connected: boolean; email?: string }>,
+    type: TBaseDTO<GmailConnectionStatus>,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getGmailConnectionStatus(
     @Request() req: any,
-  ): Promise<TBaseDTO<{ connected: boolean; email?: string }>> {
+  ): Promise<TBaseDTO<GmailConnectionStatus>> {
     const userId = req.user.userId;
     const status = await this.gmailService.checkGmailConnection(userId);
-    return new TBaseDTO<{ connected: boolean; email?: string }>(status);
+    return new TBaseDTO<GmailConnectionStatus>(status);
   }
 
   /**
@@ -200,7 +284,11 @@ export class GmailController {
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Disconnect Gmail account' })
+  @ApiOperation({
+    summary: 'Disconnect Gmail accounts',
+    description:
+      'Disconnects all linked accounts. Use DELETE /gmail/accounts/:id to remove just one.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Gmail disconnected successfully',
@@ -215,6 +303,96 @@ export class GmailController {
     return new TBaseDTO<{ success: boolean }>({ success: true });
   }
 
+  /**
+   * List linked Gmail accounts
+   */
+  @Get('accounts')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List linked Gmail accounts',
+    description:
+      'Link another account by going through /gmail/auth again. ' +
+      'The default account is used for new emails and drafts.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Accounts retrieved successfully',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listAccounts(@Request() req: any): Promise<TBaseDTO<any[]>> {
+    const accounts = await this.gmailService.listAccounts(req.user.userId);
+    return new TBaseDTO<any[]>(accounts);
+  }
+
+  /**
+   * Make a linked account the default one
+   */
+  @Put('accounts/:id/default')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Make a linked Gmail account the default' })
+  @ApiParam({ name: 'id', description: 'Account ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Default account updated',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async setDefaultAccount(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) accountId: number,
+  ): Promise<TBaseDTO<any[]>> {
+    try {
+      const accounts = await this.gmailService.setDefaultAccount(
+        req.user.userId,
+        accountId,
+      );
+      return new TBaseDTO<any[]>(accounts, 'Default account updated');
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to update default account',
+      );
+    }
+  }
+
+  /**
+   * Disconnect one linked account
+   * Its stored emails stay in the mailbox without an account
+   */
+  @Delete('accounts/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disconnect one linked Gmail account' })
+  @ApiParam({ name: 'id', description: 'Account ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Account disconnected successfully',
+    type: TBaseDTO<void>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async removeAccount(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) accountId: number,
+  ): Promise<TBaseDTO<void>> {
+    try {
+      await this.gmailService.deleteGmailTokens(req.user.userId, accountId);
+      return new TBaseDTO<void>(undefined, 'Account disconnected successfully');
+    } catch (error: any) {
+      return new TBaseDTO<void>(
+        undefined,
+        undefined,
+        error.message || 'Failed to disconnect account',
+      );
+    }
+  }
+
   /**
    * Check Gmail connection status (legacy endpoint)
    * @deprecated Use /gmail/connection/status instead
@@ -227,25 +405,280 @@ export class GmailController {
   @ApiResponse({
     status: 200,
     description: 'Gmail connection status',
-    type: TBaseDTO<{ connected: boolean; email?: string }>,
+    type: TBaseDTO<GmailConnectionStatus>,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getGmailStatus(
     @Request() req: any,
-  ): Promise<TBaseDTO<{ connected: boolean; email?: string }>> {
+  ): Promise<TBaseDTO<GmailConnectionStatus>> {
     const userId = req.user.userId;
     const status = await this.gmailService.checkGmailConnection(userId);
-    return new TBaseDTO<{ connected: boolean; email?: string }>(status);
+    return new TBaseDTO<GmailConnectionStatus>(status);
+  }
+
+  /**
+   * Stream mailbox changes to the frontend (Server-Sent Events)
+   * EventSource cannot set headers, so the JWT may be passed as ?token=
+   */
+  @Sse('events')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Stream mailbox change events',
+    description:
+      "Server-Sent Events stream of the current user's mailbox changes. Event types: " +
+      'email.stored, email.updated, email.deleted, email.status_changed, email.snoozed, ' +
+      'email.restored, summary.ready, column.changed, plus a periodic ping.',
+  })
+  @ApiQuery({
+    name: 'token',
+    required: false,
+    description: 'JWT access token (alternative to the Authorization header)',
+  })
+  @ApiResponse({ status: 200, description: 'text/event-stream of events' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  streamEvents(@Request() req: any): Observable<MessageEvent> {
+    return this.mailboxEventsService.streamForUser(req.user.userId);
+  }
+
+  /**
+   * Register (or renew) Gmail push notifications for the current user
+   */
+  @Post('watch')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Register Gmail push notifications',
+    description:
+      'Calls users.watch so Gmail publishes mailbox changes to the configured Pub/Sub topic. ' +
+      'Watches are renewed automatically before they expire.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Watch registered',
+    type: TBaseDTO<{ expiration: Date }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async startWatch(
+    @Request() req: any,
+  ): Promise<TBaseDTO<{ expiration: Date }>> {
+    const userId = req.user.userId;
+    const result = await this.gmailService.startWatch(userId);
+
+    if (result.success) {
+      return new TBaseDTO<{ expiration: Date }>({
+        expiration: result.expiration,
+      });
+    } else {
+      return new TBaseDTO<{ expiration: Date }>(
+        undefined,
+        undefined,
+        result.error || 'Failed to register Gmail watch',
+      );
+    }
+  }
+
+  /**
+   * Pub/Sub push webhook for Gmail notifications
+   * Pub/Sub retries any non-2xx answer, so the sync runs after acknowledging
+   */
+  @Post('webhook/pubsub')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiExcludeEndpoint()
+  async handlePubSubPush(
+    @Query('token') token: string,
+    @Body() body: any,
+  ): Promise<void> {
+    const expectedToken = this.configService.get<string>(
+      'GMAIL_PUBSUB_VERIFICATION_TOKEN',
+    );
+    if (!isValidPushToken(token, expectedToken)) {
+      throw new ForbiddenException('Invalid push verification token');
+    }
+
+    const notification = parsePubSubPushPayload(body);
+    if (!notification) {
+      console.warn('Ignoring malformed Pub/Sub push payload');
+      return;
+    }
+
+    this.gmailService
+      .handlePushNotification(notification.emailAddress, notification.historyId)
+      .catch((error) => {
+        console.error('Push notification sync error:', error);
+      });
+  }
+
+  /**
+   * Get progress of the latest mailbox backfill
+   */
+  @Get('backfill/status')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get progress of the latest mailbox backfill' })
+  @ApiResponse({
+    status: 200,
+    description: 'Latest backfill job (null if none was started)',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getBackfillStatus(@Request() req: any): Promise<TBaseDTO<any>> {
+    const userId = req.user.userId;
+    const job = await this.gmailBackfillService.getBackfillStatus(userId);
+    return new TBaseDTO<any>(job);
+  }
+
+  /**
+   * Start a full-mailbox backfill (all folders, or a date range / label set)
+   */
+  @Post('backfill')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start a full-mailbox backfill',
+    description:
+      'Pages through the whole mailbox (Sent, archived and labelled mail included) in the background. ' +
+      'Progress is available from /gmail/backfill/status.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Backfill started',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 400, description: 'A backfill is already active' })
+  async startBackfill(
+    @Request() req: any,
+    @Body() startBackfillDto: StartBackfillDto,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const job = await this.gmailBackfillService.startBackfill(
+        userId,
+        startBackfillDto,
+      );
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to start backfill',
+      );
+    }
+  }
+
+  /**
+   * Pause a running backfill
+   */
+  @Post('backfill/:id/pause')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause a running backfill' })
+  @ApiParam({ name: 'id', description: 'Backfill job ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Backfill paused',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async pauseBackfill(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) jobId: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const job = await this.gmailBackfillService.pauseBackfill(userId, jobId);
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to pause backfill',
+      );
+    }
+  }
+
+  /**
+   * Resume a paused or failed backfill from its saved page token
+   */
+  @Post('backfill/:id/resume')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused or failed backfill' })
+  @ApiParam({ name: 'id', description: 'Backfill job ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Backfill resumed',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async resumeBackfill(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) jobId: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const job = await this.gmailBackfillService.resumeBackfill(userId, jobId);
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to resume backfill',
+      );
+    }
+  }
+
+  /**
+   * Cancel a backfill (already stored emails are kept)
+   */
+  @Post('backfill/:id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a backfill' })
+  @ApiParam({ name: 'id', description: 'Backfill job ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Backfill cancelled',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelBackfill(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) jobId: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const job = await this.gmailBackfillService.cancelBackfill(userId, jobId);
+      return new TBaseDTO<any>(job);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to cancel backfill',
+      );
+    }
   }
 
   /**
-   * Sync emails from Gmail - fetch and store in database
+   * Sync emails from Gmail - incremental via History API, full resync as fallback
    */
   @Post('sync')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Sync emails from Gmail to database' })
+  @ApiOperation({
+    summary: 'Sync emails from Gmail to database',
+    description:
+      'Applies Gmail history (new, deleted and relabelled messages) since the last sync. ' +
+      'Falls back to a full inbox resync when no checkpoint exists or it has expired.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Emails synced successfully',
@@ -256,8 +689,8 @@ export class GmailController {
   async syncEmails(
     @Request() req: any,
   ): Promise<TBaseDTO<{ synced: number; message: string }>> {
-      const userId = req.user.userId;
-    const result = await this.gmailService.fetchAndStoreEmails(userId,50);
+    const userId = req.user.userId;
+    const result = await this.gmailService.fetchAndStoreEmails(userId, 50);
 
     if (result.success) {
       return new TBaseDTO<{ synced: number; message: string }>({
@@ -275,12 +708,18 @@ export class GmailController {
 
   /**
    * Fetch emails from Gmail and store in database
+   * Same incremental sync as /gmail/sync, with optional full resync
    */
   @Post('fetch')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Fetch emails from Gmail and store in database' })
+  @ApiOperation({
+    summary: 'Fetch emails from Gmail and store in database',
+    description:
+      'Incremental sync from the stored history checkpoint. ' +
+      'Set fullResync to re-list the inbox instead.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Emails fetched and stored successfully',
@@ -296,6 +735,10 @@ export class GmailController {
     const result = await this.gmailService.fetchAndStoreEmails(
       userId,
       fetchEmailsDto.maxResults || 50,
+      {
+        fullResync: fetchEmailsDto.fullResync,
+        accountId: fetchEmailsDto.accountId,
+      },
     );
 
     if (result.success) {
@@ -332,6 +775,12 @@ export class GmailController {
     type: Number,
     description: 'Items per page (default: 20, max: 100)',
   })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description: 'Only this linked Gmail account (default: all accounts)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Stored emails retrieved successfully',
@@ -347,6 +796,7 @@ export class GmailController {
     @Request() req: any,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('accountId') accountId?: string,
   ): Promise<
     TBaseDTO<{ emails: any[]; total: number; page: number; limit: number }>
   > {
@@ -367,6 +817,7 @@ export class GmailController {
       userId,
       pageNum,
       limitNum,
+      accountId ? parseInt(accountId, 10) : undefined,
     );
     return new TBaseDTO<{
       emails: any[];
@@ -384,6 +835,12 @@ export class GmailController {
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get list of mailboxes' })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description: 'Only this linked Gmail account (default: all accounts)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Mailboxes retrieved successfully',
@@ -397,7 +854,10 @@ export class GmailController {
     }>,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async getMailboxes(@Request() req: any): Promise<
+  async getMailboxes(
+    @Request() req: any,
+    @Query('accountId') accountId?: string,
+  ): Promise<
     TBaseDTO<{
       mailboxes: Array<{
         id: string;
@@ -408,7 +868,10 @@ export class GmailController {
     }>
   > {
     const userId = req.user.userId;
-    const result = await this.gmailService.getMailboxes(userId);
+    const result = await this.gmailService.getMailboxes(
+      userId,
+      accountId ? parseInt(accountId, 10) : undefined,
+    );
     return new TBaseDTO<{
       mailboxes: Array<{
         id: string;
@@ -456,6 +919,12 @@ export class GmailController {
     type: Boolean,
     description: 'Filter by starred status',
   })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description: 'Only this linked Gmail account (default: all accounts)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Emails retrieved successfully',
@@ -468,160 +937,706 @@ export class GmailController {
     }>,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 404, description: 'Mailbox not found' })
-  async getEmailsByMailbox(
+  @ApiResponse({ status: 404, description: 'Mailbox not found' })
+  async getEmailsByMailbox(
+    @Request() req: any,
+    @Param('id') mailboxId: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('isRead') isRead?: string,
+    @Query('isStarred') isStarred?: string,
+    @Query('accountId') accountId?: string,
+  ): Promise<
+    TBaseDTO<{
+      emails: any[];
+      total: number;
+      page: number;
+      limit: number;
+      mailbox: string;
+    }>
+  > {
+    const userId = req.user.userId;
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const limitNum = limit ? Math.min(parseInt(limit, 10), 100) : 20;
+
+    if (pageNum < 1 || limitNum < 1) {
+      return new TBaseDTO<{
+        emails: any[];
+        total: number;
+        page: number;
+        limit: number;
+        mailbox: string;
+      }>(undefined, undefined, 'Page and limit must be positive numbers');
+    }
+
+    const filters: {
+      isRead?: boolean;
+      isStarred?: boolean;
+      accountId?: number;
+    } = {};
+    if (isRead !== undefined) {
+      filters.isRead = isRead === 'true';
+    }
+    if (isStarred !== undefined) {
+      filters.isStarred = isStarred === 'true';
+    }
+    if (accountId) {
+      filters.accountId = parseInt(accountId, 10);
+    }
+
+    const result = await this.gmailService.getEmailsByMailbox(
+      userId,
+      mailboxId,
+      pageNum,
+      limitNum,
+      filters,
+    );
+
+    return new TBaseDTO<{
+      emails: any[];
+      total: number;
+      page: number;
+      limit: number;
+      mailbox: string;
+    }>(result);
+  }
+
+  /**
+   * Get email detail by ID
+   */
+  @Get('emails/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get email detail by ID' })
+  @ApiParam({ name: 'id', description: 'Email ID', type: Number, example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'Email detail retrieved successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Email not found' })
+  async getEmailDetail(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) emailId: number,
+  ): Promise<TBaseDTO<any>> {
+    const userId = req.user.userId;
+    const email = await this.gmailService.getEmailDetail(userId, emailId);
+
+    if (!email) {
+      return new TBaseDTO<any>(undefined, undefined, 'Email not found');
+    }
+
+    return new TBaseDTO<any>(email);
+  }
+
+  /**
+   * Get a conversation thread with aggregate info
+   */
+  @Get('threads/:threadId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get a thread with its messages',
+    description:
+      'Returns participants, message and unread counts, last activity, a combined AI summary ' +
+      'and the thread messages (oldest first).',
+  })
+  @ApiParam({
+    name: 'threadId',
+    description: 'Gmail thread ID',
+    type: String,
+    example: '18c1f2a3b4d5e6f7',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Thread retrieved successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Thread not found' })
+  async getThread(
+    @Request() req: any,
+    @Param('threadId') threadId: string,
+  ): Promise<TBaseDTO<any>> {
+    const userId = req.user.userId;
+    const thread = await this.gmailService.getThread(userId, threadId);
+
+    if (!thread) {
+      return new TBaseDTO<any>(undefined, undefined, 'Thread not found');
+    }
+
+    return new TBaseDTO<any>(thread);
+  }
+
+  /**
+   * Get mailbox preferences
+   */
+  @Get('settings')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get mailbox preferences' })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings retrieved successfully',
+    type: TBaseDTO<MailboxSettings>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getSettings(@Request() req: any): Promise<TBaseDTO<MailboxSettings>> {
+    const userId = req.user.userId;
+    const settings = await this.gmailService.getUserSettings(userId);
+    return new TBaseDTO<MailboxSettings>({
+      groupByThread: settings.groupByThread,
+      undoSendSeconds: settings.undoSendSeconds,
+      aiCategories: parseCategories(settings.aiCategories),
+    });
+  }
+
+  /**
+   * Update mailbox preferences
+   */
+  @Put('settings')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Update mailbox preferences',
+    description:
+      'groupByThread: show one card per thread (its latest message) in mailbox lists and Kanban columns. ' +
+      'undoSendSeconds: hold sends, replies and forwards for up to 30 seconds so they can be undone (0 disables). ' +
+      'aiCategories: categories the AI files new mail under (null restores the defaults).',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings updated successfully',
+    type: TBaseDTO<MailboxSettings>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateSettings(
+    @Request() req: any,
+    @Body() updateSettingsDto: UpdateUserSettingsDto,
+  ): Promise<TBaseDTO<MailboxSettings>> {
+    try {
+      const userId = req.user.userId;
+      const settings = await this.gmailService.updateUserSettings(userId, {
+        groupByThread: updateSettingsDto.groupByThread,
+        undoSendSeconds: updateSettingsDto.undoSendSeconds,
+        aiCategories: updateSettingsDto.aiCategories,
+      });
+      return new TBaseDTO<MailboxSettings>({
+        groupByThread: settings.groupByThread,
+        undoSendSeconds: settings.undoSendSeconds,
+        aiCategories: parseCategories(settings.aiCategories),
+      });
+    } catch (error: any) {
+      return new TBaseDTO<MailboxSettings>(
+        undefined,
+        undefined,
+        error.message || 'Failed to update settings',
+      );
+    }
+  }
+
+  /**
+   * Send email
+   */
+  @Post('emails/send')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(AttachmentsInterceptor)
+  @ApiBearerAuth('JWT-auth')
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Send email via Gmail API',
+    description:
+      'Set provider to imap to send through a linked IMAP/SMTP account. ' +
+      'Send as multipart/form-data to attach files ("attachments" field, up to 10 files / 25 MB). ' +
+      'Images referenced in the body as cid:<filename> are embedded inline. ' +
+      'With sendAt, or when the undo-send window is enabled in settings, the email is queued ' +
+      'and a scheduledEmailId is returned instead (see /gmail/scheduled/:id/undo).',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Email sent (or scheduled) successfully',
+    type: TBaseDTO<{ messageId?: string; scheduledEmailId?: number }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async sendEmail(
+    @Request() req: any,
+    @Body() sendEmailDto: SendEmailDto,
+    @UploadedFiles() files?: UploadedAttachmentFile[],
+  ): Promise<TBaseDTO<{ messageId?: string; scheduledEmailId?: number }>> {
+    const userId = req.user.userId;
+
+    const sendAt = await this.resolveSendAt(userId, sendEmailDto.sendAt);
+    if (sendAt) {
+      return await this.scheduleEmail(userId, {
+        kind: ScheduledEmailKind.SEND,
+        to: sendEmailDto.to,
+        cc: sendEmailDto.cc,
+        bcc: sendEmailDto.bcc,
+        subject: sendEmailDto.subject,
+        body: sendEmailDto.body,
+        attachments: toMimeAttachments(files, sendEmailDto.body),
+        provider: sendEmailDto.provider,
+        accountId: sendEmailDto.accountId,
+        sendAt,
+      });
+    }
+
+    let result: { success: boolean; messageId?: string; error?: string };
+    try {
+      result = await this.mailProviderRegistry
+        .get(sendEmailDto.provider || MailProviderType.GMAIL)
+        .send(
+          userId,
+          {
+            to: sendEmailDto.to,
+            cc: sendEmailDto.cc,
+            bcc: sendEmailDto.bcc,
+            subject: sendEmailDto.subject,
+            html: sendEmailDto.body,
+            attachments: toMimeAttachments(files, sendEmailDto.body),
+          },
+          { accountId: sendEmailDto.accountId },
+        );
+    } catch (error: any) {
+      result = { success: false, error: error.message };
+    }
+
+    if (result.success && result.messageId) {
+      return new TBaseDTO<{ messageId: string }>({
+        messageId: result.messageId,
+      });
+    } else {
+      return new TBaseDTO<{ messageId: string }>(
+        undefined,
+        undefined,
+        result.error || 'Failed to send email',
+      );
+    }
+  }
+
+  /**
+   * Reply to email
+   */
+  @Post('emails/:id/reply')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(AttachmentsInterceptor)
+  @ApiBearerAuth('JWT-auth')
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reply to an email',
+    description:
+      'Send as multipart/form-data to attach files ("attachments" field). ' +
+      'With sendAt, or when the undo-send window is enabled, the reply is queued.',
+  })
+  @ApiParam({ name: 'id', description: 'Email ID', type: Number, example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'Reply sent (or scheduled) successfully',
+    type: TBaseDTO<{ messageId?: string; scheduledEmailId?: number }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Email not found' })
+  async replyToEmail(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) emailId: number,
+    @Body() replyEmailDto: ReplyEmailDto,
+    @UploadedFiles() files?: UploadedAttachmentFile[],
+  ): Promise<TBaseDTO<{ messageId?: string; scheduledEmailId?: number }>> {
+    const userId = req.user.userId;
+
+    const sendAt = await this.resolveSendAt(userId, replyEmailDto.sendAt);
+    if (sendAt) {
+      return await this.scheduleEmail(userId, {
+        kind: ScheduledEmailKind.REPLY,
+        sourceEmailId: emailId,
+        body: replyEmailDto.body,
+        attachments: toMimeAttachments(files, replyEmailDto.body),
+        sendAt,
+      });
+    }
+
+    const result = await this.gmailService.replyToEmail(
+      userId,
+      emailId,
+      replyEmailDto.body,
+      toMimeAttachments(files, replyEmailDto.body),
+    );
+
+    if (result.success && result.messageId) {
+      return new TBaseDTO<{ messageId: string }>({
+        messageId: result.messageId,
+      });
+    } else {
+      return new TBaseDTO<{ messageId: string }>(
+        undefined,
+        undefined,
+        result.error || 'Failed to reply to email',
+      );
+    }
+  }
+
+  /**
+   * Forward an email to new recipients
+   */
+  @Post('emails/:id/forward')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(AttachmentsInterceptor)
+  @ApiBearerAuth('JWT-auth')
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Forward an email',
+    description:
+      'The original attachments are forwarded. Send as multipart/form-data to add files ("attachments" field). ' +
+      'With sendAt, or when the undo-send window is enabled, the forward is queued.',
+  })
+  @ApiParam({ name: 'id', description: 'Email ID', type: Number, example: 1 })
+  @ApiResponse({
+    status: 200,
+    description: 'Email forwarded (or scheduled) successfully',
+    type: TBaseDTO<{ messageId?: string; scheduledEmailId?: number }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Email not found' })
+  async forwardEmail(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) emailId: number,
+    @Body() forwardEmailDto: ForwardEmailDto,
+    @UploadedFiles() files?: UploadedAttachmentFile[],
+  ): Promise<TBaseDTO<{ messageId?: string; scheduledEmailId?: number }>> {
+    const userId = req.user.userId;
+
+    const sendAt = await this.resolveSendAt(userId, forwardEmailDto.sendAt);
+    if (sendAt) {
+      return await this.scheduleEmail(userId, {
+        kind: ScheduledEmailKind.FORWARD,
+        sourceEmailId: emailId,
+        to: forwardEmailDto.to,
+        cc: forwardEmailDto.cc,
+        body: forwardEmailDto.message,
+        attachments: toMimeAttachments(files, forwardEmailDto.message),
+        sendAt,
+      });
+    }
+
+    const result = await this.gmailService.forwardEmail(
+      userId,
+      emailId,
+      forwardEmailDto.to,
+      forwardEmailDto.message,
+      forwardEmailDto.cc,
+      toMimeAttachments(files, forwardEmailDto.message),
+    );
+
+    if (result.success && result.messageId) {
+      return new TBaseDTO<{ messageId: string }>({
+        messageId: result.messageId,
+      });
+    } else {
+      return new TBaseDTO<{ messageId: string }>(
+        undefined,
+        undefined,
+        result.error || 'Failed to forward email',
+      );
+    }
+  }
+
+  /**
+   * List drafts
+   */
+  @Get('drafts')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'List Gmail drafts' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Drafts per page',
+    example: 20,
+  })
+  @ApiQuery({
+    name: 'pageToken',
+    required: false,
+    type: String,
+    description: 'Token from the previous page',
+  })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description:
+      'Linked Gmail account of the draft (default account if omitted)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Drafts retrieved successfully',
+    type: TBaseDTO<{ drafts: any[]; nextPageToken: string | null }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listDrafts(
+    @Request() req: any,
+    @Query('limit') limit?: string,
+    @Query('pageToken') pageToken?: string,
+    @Query('accountId') accountId?: string,
+  ): Promise<TBaseDTO<{ drafts: any[]; nextPageToken: string | null }>> {
+    const limitNum = limit ? Math.min(parseInt(limit, 10), 100) : 20;
+
+    if (!(limitNum >= 1)) {
+      return new TBaseDTO<{ drafts: any[]; nextPageToken: string | null }>(
+        undefined,
+        undefined,
+        'Limit must be a positive number',
+      );
+    }
+
+    try {
+      const userId = req.user.userId;
+      const result = await this.gmailService.listDrafts(
+        userId,
+        limitNum,
+        pageToken,
+        accountId ? parseInt(accountId, 10) : undefined,
+      );
+      return new TBaseDTO<{ drafts: any[]; nextPageToken: string | null }>(
+        result,
+      );
+    } catch (error: any) {
+      return new TBaseDTO<{ drafts: any[]; nextPageToken: string | null }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to list drafts',
+      );
+    }
+  }
+
+  /**
+   * Get a draft with its body
+   */
+  @Get('drafts/:draftId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get a Gmail draft' })
+  @ApiParam({ name: 'draftId', description: 'Gmail draft ID', type: String })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description:
+      'Linked Gmail account of the draft (default account if omitted)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Draft retrieved successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Draft not found' })
+  async getDraft(
+    @Request() req: any,
+    @Param('draftId') draftId: string,
+    @Query('accountId') accountId?: string,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const draft = await this.gmailService.getDraft(
+        userId,
+        draftId,
+        accountId ? parseInt(accountId, 10) : undefined,
+      );
+
+      if (!draft) {
+        return new TBaseDTO<any>(undefined, undefined, 'Draft not found');
+      }
+
+      return new TBaseDTO<any>(draft);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to get draft',
+      );
+    }
+  }
+
+  /**
+   * Create a draft (new message, reply or forward)
+   */
+  @Post('drafts')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(AttachmentsInterceptor)
+  @ApiBearerAuth('JWT-auth')
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Create a Gmail draft',
+    description:
+      'Set replyToEmailId or forwardEmailId to draft a reply/forward that stays in the original thread.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Draft created successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async createDraft(
     @Request() req: any,
-    @Param('id') mailboxId: string,
-    @Query('page') page?: string,
-    @Query('limit') limit?: string,
-    @Query('isRead') isRead?: string,
-    @Query('isStarred') isStarred?: string,
-  ): Promise<
-    TBaseDTO<{
-      emails: any[];
-      total: number;
-      page: number;
-      limit: number;
-      mailbox: string;
-    }>
-  > {
+    @Body() draftDto: DraftEmailDto,
+    @UploadedFiles() files?: UploadedAttachmentFile[],
+  ): Promise<TBaseDTO<any>> {
     const userId = req.user.userId;
-    const pageNum = page ? parseInt(page, 10) : 1;
-    const limitNum = limit ? Math.min(parseInt(limit, 10), 100) : 20;
-
-    if (pageNum < 1 || limitNum < 1) {
-      return new TBaseDTO<{
-        emails: any[];
-        total: number;
-        page: number;
-        limit: number;
-        mailbox: string;
-      }>(undefined, undefined, 'Page and limit must be positive numbers');
-    }
+    const result = await this.gmailService.createDraft(userId, {
+      ...draftDto,
+      attachments: toMimeAttachments(files, draftDto.body),
+    });
 
-    const filters: { isRead?: boolean; isStarred?: boolean } = {};
-    if (isRead !== undefined) {
-      filters.isRead = isRead === 'true';
-    }
-    if (isStarred !== undefined) {
-      filters.isStarred = isStarred === 'true';
+    if (result.success) {
+      return new TBaseDTO<any>(result.draft);
+    } else {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        result.error || 'Failed to create draft',
+      );
     }
-
-    const result = await this.gmailService.getEmailsByMailbox(
-      userId,
-      mailboxId,
-      pageNum,
-      limitNum,
-      filters,
-    );
-
-    return new TBaseDTO<{
-      emails: any[];
-      total: number;
-      page: number;
-      limit: number;
-      mailbox: string;
-    }>(result);
   }
 
   /**
-   * Get email detail by ID
+   * Replace the content of a draft
    */
-  @Get('emails/:id')
+  @Put('drafts/:draftId')
   @UseGuards(JwtAuthGuard)
+  @UseInterceptors(AttachmentsInterceptor)
   @ApiBearerAuth('JWT-auth')
+  @ApiConsumes('application/json', 'multipart/form-data')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Get email detail by ID' })
-  @ApiParam({ name: 'id', description: 'Email ID', type: Number, example: 1 })
+  @ApiOperation({
+    summary: 'Update a Gmail draft',
+    description:
+      'Replaces the draft content. Reply and forward drafts keep their thread and In-Reply-To headers. ' +
+      'Existing attachments are kept unless listed in removeAttachments; uploaded files are added.',
+  })
+  @ApiParam({ name: 'draftId', description: 'Gmail draft ID', type: String })
   @ApiResponse({
     status: 200,
-    description: 'Email detail retrieved successfully',
+    description: 'Draft updated successfully',
     type: TBaseDTO<any>,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 404, description: 'Email not found' })
-  async getEmailDetail(
+  @ApiResponse({ status: 404, description: 'Draft not found' })
+  async updateDraft(
     @Request() req: any,
-    @Param('id', GGJParseIntPipe) emailId: number,
+    @Param('draftId') draftId: string,
+    @Body() draftDto: DraftEmailDto,
+    @UploadedFiles() files?: UploadedAttachmentFile[],
   ): Promise<TBaseDTO<any>> {
     const userId = req.user.userId;
-    const email = await this.gmailService.getEmailDetail(userId, emailId);
+    const result = await this.gmailService.updateDraft(userId, draftId, {
+      ...draftDto,
+      attachments: toMimeAttachments(files, draftDto.body),
+    });
 
-    if (!email) {
-      return new TBaseDTO<any>(undefined, undefined, 'Email not found');
+    if (result.success) {
+      return new TBaseDTO<any>(result.draft);
+    } else {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        result.error || 'Failed to update draft',
+      );
     }
-
-    return new TBaseDTO<any>(email);
   }
 
   /**
-   * Send email
+   * Delete a draft
    */
-  @Post('emails/send')
+  @Delete('drafts/:draftId')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Send email via Gmail API' })
+  @ApiOperation({ summary: 'Delete a Gmail draft' })
+  @ApiParam({ name: 'draftId', description: 'Gmail draft ID', type: String })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description:
+      'Linked Gmail account of the draft (default account if omitted)',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Email sent successfully',
-    type: TBaseDTO<{ messageId: string }>,
+    description: 'Draft deleted successfully',
+    type: TBaseDTO<{ success: boolean }>,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 400, description: 'Bad request' })
-  async sendEmail(
+  @ApiResponse({ status: 404, description: 'Draft not found' })
+  async deleteDraft(
     @Request() req: any,
-    @Body() sendEmailDto: SendEmailDto,
-  ): Promise<TBaseDTO<{ messageId: string }>> {
+    @Param('draftId') draftId: string,
+    @Query('accountId') accountId?: string,
+  ): Promise<TBaseDTO<{ success: boolean }>> {
     const userId = req.user.userId;
-    const result = await this.gmailService.sendEmail(
+    const result = await this.gmailService.deleteDraft(
       userId,
-      sendEmailDto.to,
-      sendEmailDto.subject,
-      sendEmailDto.body,
-      sendEmailDto.cc,
-      sendEmailDto.bcc,
+      draftId,
+      accountId ? parseInt(accountId, 10) : undefined,
     );
 
-    if (result.success && result.messageId) {
-      return new TBaseDTO<{ messageId: string }>({
-        messageId: result.messageId,
-      });
+    if (result.success) {
+      return new TBaseDTO<{ success: boolean }>({ success: true });
     } else {
-      return new TBaseDTO<{ messageId: string }>(
+      return new TBaseDTO<{ success: boolean }>(
         undefined,
         undefined,
-        result.error || 'Failed to send email',
+        result.error || 'Failed to delete draft',
       );
     }
   }
 
   /**
-   * Reply to email
+   * Send a draft
    */
-  @Post('emails/:id/reply')
+  @Post('drafts/:draftId/send')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Reply to an email' })
-  @ApiParam({ name: 'id', description: 'Email ID', type: Number, example: 1 })
+  @ApiOperation({ summary: 'Send a Gmail draft' })
+  @ApiParam({ name: 'draftId', description: 'Gmail draft ID', type: String })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description:
+      'Linked Gmail account of the draft (default account if omitted)',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Reply sent successfully',
+    description: 'Draft sent successfully',
     type: TBaseDTO<{ messageId: string }>,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 404, description: 'Email not found' })
-  async replyToEmail(
+  @ApiResponse({ status: 404, description: 'Draft not found' })
+  async sendDraft(
     @Request() req: any,
-    @Param('id', GGJParseIntPipe) emailId: number,
-    @Body() replyEmailDto: ReplyEmailDto,
+    @Param('draftId') draftId: string,
+    @Query('accountId') accountId?: string,
   ): Promise<TBaseDTO<{ messageId: string }>> {
     const userId = req.user.userId;
-    const result = await this.gmailService.replyToEmail(
+    const result = await this.gmailService.sendDraft(
       userId,
-      emailId,
-      replyEmailDto.body,
+      draftId,
+      accountId ? parseInt(accountId, 10) : undefined,
     );
 
     if (result.success && result.messageId) {
@@ -632,50 +1647,165 @@ export class GmailController {
       return new TBaseDTO<{ messageId: string }>(
         undefined,
         undefined,
-        result.error || 'Failed to reply to email',
+        result.error || 'Failed to send draft',
       );
     }
   }
 
   /**
-   * Forward an email to new recipients
+   * List scheduled emails
    */
-  @Post('emails/:id/forward')
+  @Get('scheduled')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
-  @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Forward an email' })
-  @ApiParam({ name: 'id', description: 'Email ID', type: Number, example: 1 })
+  @ApiOperation({ summary: 'List scheduled emails, soonest first' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ScheduledEmailStatus,
+    description: 'Only return scheduled emails in this status',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Email forwarded successfully',
-    type: TBaseDTO<{ messageId: string }>,
+    description: 'Scheduled emails',
+    type: TBaseDTO<any[]>,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 404, description: 'Email not found' })
-  async forwardEmail(
+  async listScheduledEmails(
     @Request() req: any,
-    @Param('id', GGJParseIntPipe) emailId: number,
-    @Body() forwardEmailDto: ForwardEmailDto,
-  ): Promise<TBaseDTO<{ messageId: string }>> {
-    const userId = req.user.userId;
-    const result = await this.gmailService.forwardEmail(
-      userId,
-      emailId,
-      forwardEmailDto.to,
-      forwardEmailDto.message,
-      forwardEmailDto.cc,
-    );
+    @Query('status') status?: ScheduledEmailStatus,
+  ): Promise<TBaseDTO<any[]>> {
+    try {
+      if (
+        status &&
+        !Object.values(ScheduledEmailStatus).includes(status as any)
+      ) {
+        throw new Error(`Invalid status "${status}"`);
+      }
+      const userId = req.user.userId;
+      const emails = await this.gmailOutboxService.listScheduled(
+        userId,
+        status,
+      );
+      return new TBaseDTO<any[]>(emails);
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to list scheduled emails',
+      );
+    }
+  }
 
-    if (result.success && result.messageId) {
-      return new TBaseDTO<{ messageId: string }>({
-        messageId: result.messageId,
+  /**
+   * Edit a scheduled email before it is dispatched
+   */
+  @Put('scheduled/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Edit a scheduled email before dispatch',
+    description:
+      'Only pending or failed emails can be edited. Editing a failed email reschedules it.',
+  })
+  @ApiParam({ name: 'id', description: 'Scheduled email ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled email updated',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateScheduledEmail(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) id: number,
+    @Body() updateDto: UpdateScheduledEmailDto,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const email = await this.gmailOutboxService.updateScheduled(userId, id, {
+        to: updateDto.to,
+        cc: updateDto.cc,
+        bcc: updateDto.bcc,
+        subject: updateDto.subject,
+        body: updateDto.body,
+        accountId: updateDto.accountId,
+        sendAt: updateDto.sendAt ? new Date(updateDto.sendAt) : undefined,
       });
-    } else {
-      return new TBaseDTO<{ messageId: string }>(
+      return new TBaseDTO<any>(email);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
         undefined,
         undefined,
-        result.error || 'Failed to forward email',
+        error.message || 'Failed to update scheduled email',
+      );
+    }
+  }
+
+  /**
+   * Cancel a scheduled email before it is dispatched
+   */
+  @Post('scheduled/:id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a scheduled email before dispatch' })
+  @ApiParam({ name: 'id', description: 'Scheduled email ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled email cancelled',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelScheduledEmail(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) id: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const email = await this.gmailOutboxService.cancelScheduled(userId, id);
+      return new TBaseDTO<any>(email);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to cancel scheduled email',
+      );
+    }
+  }
+
+  /**
+   * Undo a send during the undo window (or a scheduled email) and keep it as a draft
+   */
+  @Post('scheduled/:id/undo')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Undo a queued send',
+    description:
+      'Cancels a pending send (undo window or scheduled) and returns it as a Gmail draft. ' +
+      'Fails once the email has been handed to Gmail.',
+  })
+  @ApiParam({ name: 'id', description: 'Scheduled email ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Send undone, draft created',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async undoSend(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) id: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const userId = req.user.userId;
+      const draft = await this.gmailOutboxService.undoSend(userId, id);
+      return new TBaseDTO<any>(draft, 'Send undone, saved as draft');
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to undo send',
       );
     }
   }
@@ -903,6 +2033,12 @@ export class GmailController {
   })
   @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (default: 1)' })
   @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page (default: 50, max: 100)' })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description: 'Only this linked Gmail account (default: all accounts)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Emails retrieved successfully',
@@ -914,6 +2050,7 @@ export class GmailController {
     @Param('status') status: KanbanStatus,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('accountId') accountId?: string,
   ): Promise<TBaseDTO<{ emails: any[]; total: number; page: number; limit: number; status: string }>> {
     const userId = req.user.userId;
     const pageNum = page ? parseInt(page, 10) : 1;
@@ -932,7 +2069,7 @@ export class GmailController {
       return new TBaseDTO<{ emails: any[]; total: number; page: number; limit: number; status: string }>(
         undefined,
         undefined,
-        'Invalid status. Must be one of: inbox, todo, in_progress, done, snoozed',
+        `Invalid status. Must be one of: ${Object.values(KanbanStatus).join(', ')}`,
       );
     }
 
@@ -941,6 +2078,8 @@ export class GmailController {
       status,
       pageNum,
       limitNum,
+      undefined,
+      accountId ? parseInt(accountId, 10) : undefined,
     );
 
     return new TBaseDTO<{ emails: any[]; total: number; page: number; limit: number; status: string }>(result);
@@ -954,6 +2093,12 @@ export class GmailController {
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Get full Kanban board with all columns' })
+  @ApiQuery({
+    name: 'accountId',
+    required: false,
+    type: Number,
+    description: 'Only this linked Gmail account (default: all accounts)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Kanban board retrieved successfully',
@@ -969,6 +2114,7 @@ export class GmailController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getKanbanBoard(
     @Request() req: any,
+    @Query('accountId') accountId?: string,
   ): Promise<TBaseDTO<{
     columns: Array<{
       id: string;
@@ -978,7 +2124,10 @@ export class GmailController {
     }>;
   }>> {
     const userId = req.user.userId;
-    const result = await this.gmailService.getKanbanBoard(userId);
+    const result = await this.gmailService.getKanbanBoard(
+      userId,
+      accountId ? parseInt(accountId, 10) : undefined,
+    );
     return new TBaseDTO<{
       columns: Array<{
         id: string;
@@ -1007,6 +2156,7 @@ export class GmailController {
       results: Array<{
         email: any;
         relevanceScore: number;
+        passage: { text: string; chunkIndex: number };
       }>;
       total: number;
     }>,
@@ -1021,6 +2171,7 @@ export class GmailController {
     results: Array<{
       email: any;
       relevanceScore: number;
+      passage: { text: string; chunkIndex: number };
     }>;
     total: number;
   }>> {
@@ -1029,6 +2180,7 @@ export class GmailController {
         results: Array<{
           email: any;
           relevanceScore: number;
+          passage: { text: string; chunkIndex: number };
         }>;
         total: number;
       }>(
@@ -1046,6 +2198,7 @@ export class GmailController {
         results: Array<{
           email: any;
           relevanceScore: number;
+          passage: { text: string; chunkIndex: number };
         }>;
         total: number;
       }>(
@@ -1057,7 +2210,9 @@ export class GmailController {
 
     try {
       // Generate embedding for query
-      const queryEmbedding = await this.geminiService.generateEmbedding(query.trim());
+      const queryEmbedding = await this.emailAnalysisService.generateEmbedding(
+        query.trim(),
+      );
 
       // Search in Qdrant
       const qdrantResults = await this.qdrantService.searchSimilarEmails(
@@ -1118,6 +2273,11 @@ export class GmailController {
                   : null,
               },
               relevanceScore: Math.round(result.score * 100) / 100,
+              // Best matching chunk of the email
+              passage: {
+                text: result.payload.content || '',
+                chunkIndex: result.payload.chunkIndex ?? 0,
+              },
             };
           }),
       );
@@ -1129,6 +2289,7 @@ export class GmailController {
         results: Array<{
           email: any;
           relevanceScore: number;
+          passage: { text: string; chunkIndex: number };
         }>;
         total: number;
       }>({
@@ -1140,6 +2301,7 @@ export class GmailController {
         results: Array<{
           email: any;
           relevanceScore: number;
+          passage: { text: string; chunkIndex: number };
         }>;
         total: number;
       }>(
@@ -1268,6 +2430,7 @@ export class GmailController {
       statusId: string;
       order: number;
       gmailLabel: string | null;
+      outlookCategory: string | null;
       isActive: boolean;
       isDefault: boolean;
     }>>,
@@ -1306,6 +2469,7 @@ export class GmailController {
         createColumnDto.statusId,
         createColumnDto.order,
         createColumnDto.gmailLabel,
+        createColumnDto.outlookCategory,
       );
       return new TBaseDTO<any>(column);
     } catch (error: any) {
@@ -1340,6 +2504,7 @@ export class GmailController {
         name: updateColumnDto.name,
         order: updateColumnDto.order,
         gmailLabel: updateColumnDto.gmailLabel,
+        outlookCategory: updateColumnDto.outlookCategory,
         isActive: updateColumnDto.isActive,
       });
       return new TBaseDTO<any>(column);
@@ -1377,4 +2542,47 @@ export class GmailController {
       return new TBaseDTO<{ success: boolean }>(undefined, undefined, result.error || 'Failed to delete column');
     }
   }
+
+  /**
+   * When to queue an outgoing email: the requested sendAt, or the end of the
+   * user's undo-send window; null sends right away
+   */
+  private async resolveSendAt(
+    userId: number,
+    sendAt?: string,
+  ): Promise<Date | null> {
+    if (sendAt) {
+      return new Date(sendAt);
+    }
+
+    const settings = await this.gmailService.getUserSettings(userId);
+    return settings.undoSendSeconds > 0
+      ? new Date(Date.now() + settings.undoSendSeconds * 1000)
+      : null;
+  }
+
+  /**
+   * Queue a send/reply/forward in the outbox instead of sending it now
+   */
+  private async scheduleEmail(
+    userId: number,
+    email: Parameters<GmailOutboxService['scheduleEmail']>[1],
+  ): Promise<TBaseDTO<{ scheduledEmailId: number; sendAt: Date }>> {
+    try {
+      const scheduled = await this.gmailOutboxService.scheduleEmail(
+        userId,
+        email,
+      );
+      return new TBaseDTO<{ scheduledEmailId: number; sendAt: Date }>(
+        { scheduledEmailId: scheduled.id, sendAt: scheduled.sendAt },
+        'Email scheduled',
+      );
+    } catch (error: any) {
+      return new TBaseDTO<{ scheduledEmailId: number; sendAt: Date }>(
+        undefined,
+        undefined,
+        error.message || 'Failed to schedule email',
+      );
+    }
+  }
 }
@@ -3,23 +3,53 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { GmailService } from './gmail.service';
 import { GmailController } from './gmail.controller';
 import { GmailSchedulerService } from './gmail-scheduler.service';
+import { GmailBackfillService } from './gmail-backfill.service';
+import { GmailOutboxService } from './gmail-outbox.service';
+import { GmailMailProvider } from './gmail-mail.provider';
 import { EmailRaw } from './entities/email-raw.entity';
 import { GmailToken } from './entities/gmail-token.entity';
 import { KanbanColumn } from './entities/kanban-column.entity';
+import { GmailBackfillJob } from './entities/gmail-backfill-job.entity';
+import { UserSettings } from './entities/user-settings.entity';
+import { ScheduledEmail } from './entities/scheduled-email.entity';
 import { User } from '../auth/entities/user.entity';
 import { EmailSummary } from '../ai/entities/email-summary.entity';
 import { EmailMetadata } from '../ai/entities/email-metadata.entity';
 import { KafkaModule } from '../kafka/kafka.module';
 import { AIModule } from '../ai/ai.module';
+import { EventsModule } from '../events/events.module';
+import { MailModule } from '../mail/mail.module';
+import { CryptoModule } from '../common/crypto/crypto.module';
+import { OAuthStateModule } from '../auth/oauth-state.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([EmailRaw, GmailToken, KanbanColumn, User, EmailSummary, EmailMetadata]),
+    TypeOrmModule.forFeature([
+      EmailRaw,
+      GmailToken,
+      KanbanColumn,
+      GmailBackfillJob,
+      UserSettings,
+      ScheduledEmail,
+      User,
+      EmailSummary,
+      EmailMetadata,
+    ]),
     KafkaModule,
     AIModule,
+    EventsModule,
+    MailModule,
+    CryptoModule,
+    OAuthStateModule,
   ],
   controllers: [GmailController],
-  providers: [GmailService, GmailSchedulerService],
+  providers: [
+    GmailService,
+    GmailSchedulerService,
+    GmailBackfillService,
+    GmailOutboxService,
+    GmailMailProvider,
+  ],
   exports: [GmailService],
 })
 export class GmailModule {}
@@ -1,22 +1,60 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { google } from 'googleapis';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
+import { google, gmail_v1 } from 'googleapis';
 import { EmailRaw } from './entities/email-raw.entity';
 import { GmailToken } from './entities/gmail-token.entity';
 import { KanbanColumn } from './entities/kanban-column.entity';
+import { UserSettings } from './entities/user-settings.entity';
 import { User } from '../auth/entities/user.entity';
 import { EmailSummary } from '../ai/entities/email-summary.entity';
 import { EmailMetadata } from '../ai/entities/email-metadata.entity';
+import { normalizeCategories } from '../ai/utils/email-category.util';
 import { KafkaService } from '../kafka/kafka.service';
+import {
+  MailboxEventsService,
+  MailboxEventType,
+} from '../events/mailbox-events.service';
+import { MailProviderRegistry } from '../mail/mail-provider.registry';
+import { TokenEncryptionService } from '../common/crypto/token-encryption.service';
+import { MailFolder, MailProviderType } from '../mail/mail-provider.interface';
 import { KanbanStatus } from './dto/update-email-status.dto';
+import { mergeThreadSummaries, parseAddress } from './utils/thread.util';
+import {
+  MimeAttachment,
+  MimeMessageOptions,
+  assertAttachmentLimits,
+  buildMimeMessage,
+  extractHtmlBody,
+  getPayloadHeader,
+  listPayloadAttachments,
+  toBase64Url,
+} from './utils/mime.util';
+
+/**
+ * Draft fields accepted by create/update (all optional while composing)
+ */
+export interface DraftInput {
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject?: string;
+  body?: string;
+  replyToEmailId?: number;
+  forwardEmailId?: number;
+  attachments?: MimeAttachment[];
+  removeAttachments?: string[]; // Filenames of existing attachments to drop on update
+  accountId?: number; // Account the draft lives in (default account when omitted)
+}
 
 /**
  * Service for Gmail integration
  */
 @Injectable()
 export class GmailService {
-  private refreshLocks = new Map<number, Promise<string>>(); // Concurrency guard for token refresh
+  private refreshLocks = new Map<number, Promise<string>>(); // Concurrency guard for token refresh, by account
+  private pushSyncs = new Map<number, Promise<void>>(); // Push-triggered syncs in progress, by account
+  private pendingPushSyncs = new Set<number>(); // Accounts notified during a running sync
 
   constructor(
     @InjectRepository(EmailRaw)
@@ -25,6 +63,8 @@ export class GmailService {
     private readonly gmailTokenRepository: Repository<GmailToken>,
     @InjectRepository(KanbanColumn)
     private readonly kanbanColumnRepository: Repository<KanbanColumn>,
+    @InjectRepository(UserSettings)
+    private readonly userSettingsRepository: Repository<UserSettings>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     @InjectRepository(EmailSummary)
@@ -32,6 +72,9 @@ export class GmailService {
     @InjectRepository(EmailMetadata)
     private readonly emailMetadataRepository: Repository<EmailMetadata>,
     private readonly kafkaService: KafkaService,
+    private readonly mailboxEventsService: MailboxEventsService,
+    private readonly mailProviderRegistry: MailProviderRegistry,
+    private readonly tokenEncryptionService: TokenEncryptionService,
   ) {}
 
   /**
@@ -57,27 +100,64 @@ export class GmailService {
 
   /**
    * Check if user has Gmail connected
+   * email is the default account, accounts lists every linked account
    */
-  async checkGmailConnection(
-    userId: number,
-  ): Promise<{ connected: boolean; email?: string }> {
-    const token = await this.gmailTokenRepository.findOne({
-      where: { userId },
-      relations: ['user'],
-    });
+  async checkGmailConnection(userId: number): Promise<{
+    connected: boolean;
+    email?: string;
+    accounts?: any[];
+  }> {
+    const accounts = await this.listAccounts(userId);
 
-    if (!token) {
+    if (accounts.length === 0) {
       return { connected: false };
     }
 
     return {
       connected: true,
-      email: token.user?.email,
+      email: accounts.find((account) => account.isDefault)?.email,
+      accounts,
     };
   }
 
   /**
-   * Save Gmail OAuth tokens (for OAuth callback)
+   * List linked Gmail accounts, default account first
+   */
+  async listAccounts(userId: number): Promise<any[]> {
+    const tokens = await this.gmailTokenRepository.find({
+      where: { userId },
+      order: { isDefault: 'DESC', id: 'ASC' },
+    });
+
+    return tokens.map((token) => ({
+      id: token.id,
+      email: token.email,
+      isDefault: token.isDefault,
+      lastSyncedAt: token.lastSyncedAt,
+      watchExpiration: token.watchExpiration,
+      createdAt: token.createdAt,
+    }));
+  }
+
+  /**
+   * Make an account the one used for new emails and drafts
+   */
+  async setDefaultAccount(userId: number, accountId: number): Promise<any[]> {
+    const account = await this.getAccount(userId, accountId);
+
+    await this.gmailTokenRepository.update({ userId }, { isDefault: false });
+    await this.gmailTokenRepository.update(
+      { id: account.id },
+      { isDefault: true },
+    );
+
+    return this.listAccounts(userId);
+  }
+
+  /**
+   * Save Gmail OAuth tokens (mailbox connect callback and Google login)
+   * Links a new account, or updates the tokens of an already linked one
+   * Tokens are stored encrypted (see TokenEncryptionService)
    */
   async saveGmailTokens(
     userId: number,
@@ -85,85 +165,216 @@ export class GmailService {
     refreshToken: string | null | undefined,
     expiryDate: number | null | undefined,
     email?: string | null,
-  ): Promise<void> {
-    let token = await this.gmailTokenRepository.findOne({
+  ): Promise<GmailToken> {
+    const address = (
+      email ||
+      (await this.getProfileEmail(this.createOAuth2Client(accessToken)))
+    ).toLowerCase();
+    const accounts = await this.gmailTokenRepository.find({
       where: { userId },
     });
 
+    let token = await this.resolveAccount(accounts, address);
     const accessTokenExpiry = expiryDate ? new Date(expiryDate) : null;
 
     if (token) {
-      token.accessToken = accessToken;
-      if (refreshToken) {
-        token.refreshToken = refreshToken;
-      }
+      Object.assign(
+        token,
+        this.tokenEncryptionService.encrypt(token, {
+          accessToken,
+          refreshToken:
+            refreshToken ||
+            this.tokenEncryptionService.decrypt(token, token.refreshToken),
+        }),
+      );
       token.accessTokenExpiry = accessTokenExpiry;
     } else {
       token = this.gmailTokenRepository.create({
         userId,
-        accessToken,
-        refreshToken: refreshToken || '',
+        email: address,
+        isDefault: accounts.length === 0,
+        ...this.tokenEncryptionService.encrypt(null, {
+          accessToken,
+          refreshToken: refreshToken || '',
+        }),
         accessTokenExpiry,
       });
     }
 
-    await this.gmailTokenRepository.save(token);
+    return await this.gmailTokenRepository.save(token);
+  }
+
+  /**
+   * Linked account of a mailbox address, or null when it is not linked yet
+   * Accounts saved before addresses were recorded are only reused once their
+   * own tokens confirm they belong to the address
+   */
+  private async resolveAccount(
+    accounts: GmailToken[],
+    address: string,
+  ): Promise<GmailToken | null> {
+    const known = accounts.find((account) => account.email === address);
+    if (known) {
+      return known;
+    }
+
+    for (const account of accounts.filter((a) => !a.email)) {
+      if ((await this.ensureAccountEmail(account)) === address) {
+        return account;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Address of an account, looked up with its tokens and stored when the
+   * account predates recorded addresses; null when the lookup fails
+   */
+  private async ensureAccountEmail(
+    account: GmailToken,
+  ): Promise<string | null> {
+    if (account.email) {
+      return account.email;
+    }
+
+    try {
+      const accessToken = await this.getValidAccessToken(
+        account.userId,
+        account.id,
+      );
+      const address = (
+        await this.getProfileEmail(this.createOAuth2Client(accessToken))
+      ).toLowerCase();
+      await this.gmailTokenRepository.update(
+        { id: account.id },
+        { email: address },
+      );
+      account.email = address;
+      return address;
+    } catch (error: any) {
+      console.error(
+        `Failed to look up the address of Gmail account ${account.id}:`,
+        error.message,
+      );
+      return null;
+    }
+  }
+
+  private async getProfileEmail(
+    auth: ReturnType<GmailService['createOAuth2Client']>,
+  ): Promise<string> {
+    const gmail = google.gmail({ version: 'v1', auth });
+    const profile = await gmail.users.getProfile({ userId: 'me' });
+    if (!profile.data.emailAddress) {
+      throw new Error('Gmail profile has no email address');
+    }
+    return profile.data.emailAddress;
   }
 
   /**
-   * Delete Gmail tokens (disconnect)
+   * Delete Gmail tokens (disconnect one account, or all when accountId is omitted)
+   * Stored emails are kept
    */
-  async deleteGmailTokens(userId: number): Promise<void> {
-    await this.gmailTokenRepository.delete({ userId });
+  async deleteGmailTokens(userId: number, accountId?: number): Promise<void> {
+    const accounts = accountId
+      ? [await this.getAccount(userId, accountId)]
+      : await this.gmailTokenRepository.find({ where: { userId } });
+
+    for (const account of accounts) {
+      // Stop push notifications while the token is still usable
+      await this.stopAccountWatch(account);
+      await this.gmailTokenRepository.delete({ id: account.id });
+    }
+
+    await this.ensureDefaultAccount(userId);
   }
 
   /**
-   * Save or update Gmail OAuth tokens for a user
+   * Revoke the app's access at Google for every linked account, then delete
+   * the tokens (used on account deletion)
+   * Revocation errors are logged: a token revoked by the user is already gone
    */
-  async saveGmailToken(
-    userId: number,
-    refreshToken: string,
-    accessToken?: string,
-    expiresIn?: number,
-  ): Promise<GmailToken> {
-    let token = await this.gmailTokenRepository.findOne({
+  async revokeGmailTokens(userId: number): Promise<void> {
+    const accounts = await this.gmailTokenRepository.find({
       where: { userId },
     });
 
-    const accessTokenExpiry =
-      accessToken && expiresIn ? new Date(Date.now() + expiresIn * 1000) : null;
+    for (const account of accounts) {
+      // Stop push notifications while the token is still usable
+      await this.stopAccountWatch(account);
 
-    if (token) {
-      token.refreshToken = refreshToken;
-      if (accessToken) {
-        token.accessToken = accessToken;
-        token.accessTokenExpiry = accessTokenExpiry;
+      try {
+        // Revoking the refresh token ends the whole grant, access tokens included
+        const token =
+          this.tokenEncryptionService.decrypt(account, account.refreshToken) ||
+          this.tokenEncryptionService.decrypt(account, account.accessToken);
+        if (token) {
+          await this.createOAuth2Client().revokeToken(token);
+        }
+      } catch (error: any) {
+        console.error(
+          `Gmail revoke error for account ${account.id}:`,
+          error.message,
+        );
       }
-    } else {
-      token = this.gmailTokenRepository.create({
-        userId,
-        refreshToken,
-        accessToken: accessToken || null,
-        accessTokenExpiry,
-      });
+
+      await this.gmailTokenRepository.delete({ id: account.id });
     }
+  }
 
-    return await this.gmailTokenRepository.save(token);
+  /**
+   * Resolve a linked account: the given one, or the user's default account
+   */
+  private async getAccount(
+    userId: number,
+    accountId?: number | null,
+  ): Promise<GmailToken> {
+    const token = accountId
+      ? await this.gmailTokenRepository.findOne({
+          where: { id: accountId, userId },
+        })
+      : await this.gmailTokenRepository.findOne({
+          where: { userId },
+          order: { isDefault: 'DESC', id: 'ASC' },
+        });
+
+    if (!token) {
+      throw new Error(
+        accountId
+          ? 'Gmail account not found'
+          : 'Gmail token not found. Please re-authenticate with Google.',
+      );
+    }
+
+    return token;
   }
 
   /**
-   * Get valid access token for user (refresh if needed)
+   * Promote the oldest remaining account when the default one was removed
    */
-  async getValidAccessToken(userId: number): Promise<string> {
-    const token = await this.gmailTokenRepository.findOne({
+  private async ensureDefaultAccount(userId: number): Promise<void> {
+    const accounts = await this.gmailTokenRepository.find({
       where: { userId },
+      order: { id: 'ASC' },
     });
 
-    if (!token) {
-      throw new Error(
-        'Gmail token not found. Please re-authenticate with Google.',
+    if (accounts.length > 0 && !accounts.some((a) => a.isDefault)) {
+      await this.gmailTokenRepository.update(
+        { id: accounts[0].id },
+        { isDefault: true },
       );
     }
+  }
+
+  /**
+   * Get valid access token for an account (refresh if needed)
+   * Without accountId the user's default account is used
+   */
+  async getValidAccessToken(
+    userId: number,
+    accountId?: number | null,
+  ): Promise<string> {
+    const token = await this.getAccount(userId, accountId);
 
     // Check if access token is still valid (with 5 minute buffer)
     if (
@@ -171,33 +382,34 @@ export class GmailService {
       token.accessTokenExpiry &&
       token.accessTokenExpiry.getTime() > Date.now() + 5 * 60 * 1000
     ) {
-      return token.accessToken;
+      return this.tokenEncryptionService.decrypt(token, token.accessToken);
     }
 
     // Refresh token if already in progress, wait for it
-    if (this.refreshLocks.has(userId)) {
-      return await this.refreshLocks.get(userId)!;
+    if (this.refreshLocks.has(token.id)) {
+      return await this.refreshLocks.get(token.id)!;
     }
 
     // Start refresh
-    const refreshPromise = this.refreshAccessToken(userId, token.refreshToken);
-    this.refreshLocks.set(userId, refreshPromise);
+    const refreshPromise = this.refreshAccessToken(token);
+    this.refreshLocks.set(token.id, refreshPromise);
 
     try {
       const newAccessToken = await refreshPromise;
       return newAccessToken;
     } finally {
-      this.refreshLocks.delete(userId);
+      this.refreshLocks.delete(token.id);
     }
   }
 
   /**
    * Refresh access token using refresh token
    */
-  private async refreshAccessToken(
-    userId: number,
-    refreshToken: string,
-  ): Promise<string> {
+  private async refreshAccessToken(token: GmailToken): Promise<string> {
+    const refreshToken = this.tokenEncryptionService.decrypt(
+      token,
+      token.refreshToken,
+    );
     const oauth2Client = this.createOAuth2Client();
     oauth2Client.setCredentials({
       refresh_token: refreshToken,
@@ -206,22 +418,26 @@ export class GmailService {
     try {
       const { credentials } = await oauth2Client.refreshAccessToken();
       const newAccessToken = credentials.access_token || '';
-      const expiresIn = credentials.expiry_date
-        ? Math.floor((credentials.expiry_date - Date.now()) / 1000)
-        : undefined;
 
-      // Update stored token
-      await this.saveGmailToken(
-        userId,
-        refreshToken,
-        newAccessToken,
-        expiresIn,
+      // Update stored token (rows saved in plaintext get encrypted here)
+      await this.gmailTokenRepository.update(
+        { id: token.id },
+        {
+          ...this.tokenEncryptionService.encrypt(token, {
+            accessToken: newAccessToken,
+            refreshToken,
+          }),
+          accessTokenExpiry: credentials.expiry_date
+            ? new Date(credentials.expiry_date)
+            : null,
+        },
       );
 
       return newAccessToken;
     } catch (error: any) {
-      // If refresh fails, delete token and force re-auth
-      await this.gmailTokenRepository.delete({ userId });
+      // If refresh fails, delete token and force re-auth of this account
+      await this.gmailTokenRepository.delete({ id: token.id });
+      await this.ensureDefaultAccount(token.userId);
       throw new Error(
         `Failed to refresh access token: ${error.message}. Please re-authenticate.`,
       );
@@ -230,20 +446,26 @@ export class GmailService {
 
   /**
    * Get Gmail API client with valid token
+   * Without accountId the user's default account is used
    */
-  private async getGmailClient(userId: number) {
-    const accessToken = await this.getValidAccessToken(userId);
+  private async getGmailClient(userId: number, accountId?: number | null) {
+    const accessToken = await this.getValidAccessToken(userId, accountId);
     const oauth2Client = this.createOAuth2Client(accessToken);
     return google.gmail({ version: 'v1', auth: oauth2Client });
   }
 
   /**
-   * Fetch emails from Gmail and store in database
+   * Sync emails from Gmail and store in database
+   * Syncs every linked account (or only options.accountId), each from its own
+   * History API checkpoint, falling back to a full inbox resync when there is
+   * no checkpoint or Gmail reports it as expired
    */
   async fetchAndStoreEmails(
     userId: number,
     maxResults: number = 50,
+    options: { fullResync?: boolean; accountId?: number } = {},
   ): Promise<{ success: boolean; count: number; message: string }> {
+    let accounts: GmailToken[];
     try {
       // Get user
       const user = await this.userRepository.findOne({ where: { id: userId } });
@@ -251,296 +473,844 @@ export class GmailService {
         return { success: false, count: 0, message: 'User not found' };
       }
 
-      // Use stored token with auto-refresh
-      const gmail = await this.getGmailClient(userId);
+      accounts = options.accountId
+        ? [await this.getAccount(userId, options.accountId)]
+        : await this.gmailTokenRepository.find({
+            where: { userId },
+            order: { isDefault: 'DESC', id: 'ASC' },
+          });
+      if (accounts.length === 0) {
+        return {
+          success: false,
+          count: 0,
+          message:
+            'Failed to fetch emails: Gmail token not found. Please re-authenticate with Google.',
+        };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        count: 0,
+        message: this.describeSyncError(error),
+      };
+    }
+
+    let storedCount = 0;
+    const messages: string[] = [];
+    const failures: string[] = [];
 
-      // Fetch messages
-      let response;
+    for (const account of accounts) {
       try {
-        response = await gmail.users.messages.list({
-          userId: 'me',
-          maxResults,
-          q: 'in:inbox', // Only fetch inbox emails
-        });
+        const result = await this.syncAccount(account, maxResults, options);
+        storedCount += result.count;
+        messages.push(
+          accounts.length > 1
+            ? `${account.email}: ${result.message}`
+            : result.message,
+        );
       } catch (error: any) {
-        console.error('Gmail API list error:', error);
-        if (error.code === 401 || error.response?.status === 401) {
-          return {
-            success: false,
-            count: 0,
-            message: 'Invalid or expired access token. Please re-authenticate.',
-          };
-        }
-        if (error.code === 403 || error.response?.status === 403) {
-          return {
-            success: false,
-            count: 0,
-            message: 'Gmail API access denied. Please grant Gmail permissions.',
-          };
-        }
-        throw error;
+        console.error(`Gmail fetch error for account ${account.id}:`, error);
+        console.error('Error details:', {
+          message: error.message,
+          code: error.code,
+          status: error.response?.status,
+          statusText: error.response?.statusText,
+          data: error.response?.data,
+        });
+        const message = this.describeSyncError(error);
+        failures.push(
+          accounts.length > 1 ? `${account.email}: ${message}` : message,
+        );
       }
+    }
 
-      const messages = response.data.messages || [];
-      let storedCount = 0;
-      let skippedCount = 0;
-      const storedEmailIds: number[] = [];
-
-      // Process each message
-      for (const message of messages) {
-        if (!message.id) continue;
+    return {
+      success: failures.length < accounts.length,
+      count: storedCount,
+      message: [...messages, ...failures].join(' '),
+    };
+  }
 
-        // Check if email already exists
-        const existing = await this.emailRawRepository.findOne({
-          where: { gmailId: message.id, userId },
-        });
+  /**
+   * Sync one linked account
+   */
+  private async syncAccount(
+    account: GmailToken,
+    maxResults: number,
+    options: { fullResync?: boolean },
+  ): Promise<{ count: number; message: string }> {
+    // Use stored token with auto-refresh
+    const gmail = await this.getGmailClient(account.userId, account.id);
+
+    let result: {
+      storedEmailIds: number[];
+      skipped: number;
+      updated: number;
+      deleted: number;
+    };
+    let mode = 'full';
 
-        if (existing) {
-          skippedCount++;
-          continue;
+    if (account.historyId && !options.fullResync) {
+      try {
+        result = await this.runIncrementalSync(
+          gmail,
+          account,
+          account.historyId,
+        );
+        mode = 'incremental';
+      } catch (error: any) {
+        if (!this.isHistoryExpiredError(error)) {
+          throw error;
         }
+        console.warn(
+          `History ${account.historyId} expired for account ${account.id}, running full resync`,
+        );
+        result = await this.runFullSync(gmail, account, maxResults);
+      }
+    } else {
+      result = await this.runFullSync(gmail, account, maxResults);
+    }
 
-        try {
-          // Get full message details
-          let messageDetail;
-          try {
-            messageDetail = await gmail.users.messages.get({
-              userId: 'me',
-              id: message.id,
-              format: 'full',
-            });
-          } catch (error: any) {
-            console.error(
-              `Error fetching message ${message.id}:`,
-              error.message,
-            );
-            // Skip this message and continue
-            continue;
-          }
+    const storedCount = result.storedEmailIds.length;
 
-          const msg = messageDetail.data;
-          const payload = msg.payload;
+    // Publish event to Kafka for AI processing
+    if (storedCount > 0) {
+      try {
+        await this.kafkaService.publishEmailFetchedEvent(
+          account.userId,
+          result.storedEmailIds,
+        );
+      } catch (kafkaError: any) {
+        console.error('Failed to publish Kafka event:', kafkaError);
+        // Don't fail the whole operation if Kafka fails
+      }
+    }
 
-          if (!payload) {
-            console.warn(`Message ${message.id} has no payload, skipping`);
-            continue;
-          }
+    return {
+      count: storedCount,
+      message:
+        mode === 'incremental'
+          ? `Incremental sync stored ${storedCount} new emails, updated ${result.updated} and removed ${result.deleted}.`
+          : `Successfully stored ${storedCount} emails. ${result.skipped} emails already existed.`,
+    };
+  }
 
-          // Extract headers
-          const headers = payload.headers || [];
-          const getHeader = (name: string): string => {
-            const header = headers.find(
-              (h) => h.name?.toLowerCase() === name.toLowerCase(),
-            );
-            return header?.value || '';
-          };
+  /**
+   * User-facing message for a failed sync
+   */
+  private describeSyncError(error: any): string {
+    // Provide more specific error messages
+    if (error.code === 401 || error.response?.status === 401) {
+      return 'Invalid or expired access token. Please re-authenticate with Google.';
+    }
+    if (error.code === 403 || error.response?.status === 403) {
+      return 'Gmail API access denied. Please grant Gmail.readonly permission.';
+    }
+    if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+      return 'Network error. Cannot connect to Gmail API.';
+    }
 
-          // Extract email addresses
-          const from = getHeader('From');
-          const fromMatch = from.match(/(.*?)\s*<(.+?)>|(.+)/);
-          const fromName = fromMatch
-            ? (fromMatch[1] || fromMatch[3] || '').trim()
-            : '';
-          const fromEmail = fromMatch
-            ? (fromMatch[2] || fromMatch[3] || '').trim()
-            : from;
-
-          const to = getHeader('To') || '';
-          const cc = getHeader('Cc') || '';
-          const bcc = getHeader('Bcc') || '';
-
-          // Extract body
-          let bodyText = '';
-          let bodyHtml = '';
-
-          const extractBody = (part: any): void => {
-            if (part.body?.data) {
-              const data = Buffer.from(part.body.data, 'base64').toString(
-                'utf-8',
-              );
-              const mimeType = part.mimeType || '';
-
-              if (mimeType === 'text/plain') {
-                bodyText = data;
-              } else if (mimeType === 'text/html') {
-                bodyHtml = data;
-              }
-            }
+    return `Failed to fetch emails: ${error.message || error.code || 'Unknown error'}`;
+  }
 
-            if (part.parts) {
-              part.parts.forEach((p: any) => extractBody(p));
-            }
-          };
+  /**
+   * Full inbox sync: list the latest inbox messages and store the unknown ones,
+   * then reset the history checkpoint
+   */
+  private async runFullSync(
+    gmail: gmail_v1.Gmail,
+    account: GmailToken,
+    maxResults: number,
+  ): Promise<{
+    storedEmailIds: number[];
+    skipped: number;
+    updated: number;
+    deleted: number;
+  }> {
+    // Read the history id before listing so changes made while we page
+    // through the inbox are replayed by the next incremental sync
+    const profile = await gmail.users.getProfile({ userId: 'me' });
+
+    const response = await gmail.users.messages.list({
+      userId: 'me',
+      maxResults,
+      q: 'in:inbox', // Only fetch inbox emails
+    });
 
-          extractBody(payload);
+    const messageIds = (response.data.messages || [])
+      .map((message) => message.id)
+      .filter((id): id is string => !!id);
 
-          // If no body found, try to get from parts
-          if (!bodyText && !bodyHtml && payload.parts) {
-            payload.parts.forEach((part: any) => extractBody(part));
-          }
+    const storedEmailIds = await this.storeNewMessages(
+      gmail,
+      account,
+      messageIds,
+    );
 
-          // Get dates
-          let internalDate: Date | null = null;
-          if (msg.internalDate) {
-            try {
-              internalDate = new Date(parseInt(msg.internalDate));
-              if (isNaN(internalDate.getTime())) {
-                internalDate = null;
-              }
-            } catch (e) {
-              internalDate = null;
-            }
-          }
+    await this.saveHistoryCheckpoint(account.id, profile.data.historyId);
 
-          let sentAt: Date | null = internalDate;
-          const dateHeader = getHeader('Date');
-          if (dateHeader) {
-            try {
-              const parsedDate = new Date(dateHeader);
-              if (!isNaN(parsedDate.getTime())) {
-                sentAt = parsedDate;
-              }
-            } catch (e) {
-              // Use internalDate if date header parsing fails
-            }
-          }
+    return {
+      storedEmailIds,
+      skipped: messageIds.length - storedEmailIds.length,
+      updated: 0,
+      deleted: 0,
+    };
+  }
+
+  /**
+   * Incremental sync: replay Gmail history since the stored checkpoint
+   * (messagesAdded, messagesDeleted, labelsAdded, labelsRemoved)
+   */
+  private async runIncrementalSync(
+    gmail: gmail_v1.Gmail,
+    account: GmailToken,
+    startHistoryId: string,
+  ): Promise<{
+    storedEmailIds: number[];
+    skipped: number;
+    updated: number;
+    deleted: number;
+  }> {
+    const userId = account.userId;
+    const addedIds = new Set<string>();
+    const deletedIds = new Set<string>();
+    const labelChanges: Array<{
+      gmailId: string;
+      add: string[];
+      remove: string[];
+    }> = [];
 
-          // Get labels
-          const labels = msg.labelIds || [];
+    let latestHistoryId = startHistoryId;
+    let pageToken: string | undefined;
 
-          // Create email raw record
-          try {
-            const emailRaw = this.emailRawRepository.create({
-              userId,
-              gmailId: message.id,
-              threadId: msg.threadId || null,
-              from: fromEmail || '',
-              fromName: fromName || fromEmail || '',
-              to: to
-                ? JSON.stringify(to.split(',').map((e: string) => e.trim()))
-                : null,
-              cc: cc
-                ? JSON.stringify(cc.split(',').map((e: string) => e.trim()))
-                : null,
-              bcc: bcc
-                ? JSON.stringify(bcc.split(',').map((e: string) => e.trim()))
-                : null,
-              subject: getHeader('Subject') || '',
-              snippet: msg.snippet || '',
-              bodyText: bodyText || '',
-              bodyHtml: bodyHtml || '',
-              isRead: !labels.includes('UNREAD'),
-              isStarred: labels.includes('STARRED'),
-              isImportant: labels.includes('IMPORTANT'),
-              labels: labels.length > 0 ? JSON.stringify(labels) : null,
-              receivedAt: internalDate,
-              sentAt: sentAt,
-              rawData: JSON.stringify(msg),
-              status: 'inbox', // Set default status for new emails
-              snoozeUntil: null, // No snooze initially
-            });
+    do {
+      const response = await gmail.users.history.list({
+        userId: 'me',
+        startHistoryId,
+        historyTypes: [
+          'messageAdded',
+          'messageDeleted',
+          'labelAdded',
+          'labelRemoved',
+        ],
+        pageToken,
+      });
 
-            const savedEmail = await this.emailRawRepository.save(emailRaw);
-            storedCount++;
-            storedEmailIds.push(savedEmail.id);
-          } catch (dbError: any) {
-            console.error(
-              `Error saving email ${message.id} to database:`,
-              dbError.message,
-            );
-            // Continue with next message
+      for (const record of response.data.history || []) {
+        for (const added of record.messagesAdded || []) {
+          const labels = added.message?.labelIds || [];
+          if (added.message?.id && labels.includes('INBOX')) {
+            addedIds.add(added.message.id);
           }
-        } catch (error: any) {
-          console.error(
-            `Error processing message ${message.id}:`,
-            error.message,
-          );
-          // Continue with next message
         }
-      }
-
-      // Publish event to Kafka for AI processing
-      if (storedCount > 0 && storedEmailIds.length > 0) {
-        try {
-          await this.kafkaService.publishEmailFetchedEvent(
-            userId,
-            storedEmailIds,
-          );
-        } catch (kafkaError: any) {
-          console.error('Failed to publish Kafka event:', kafkaError);
-          // Don't fail the whole operation if Kafka fails
+        for (const removed of record.messagesDeleted || []) {
+          if (removed.message?.id) {
+            deletedIds.add(removed.message.id);
+          }
+        }
+        for (const change of record.labelsAdded || []) {
+          if (!change.message?.id) continue;
+          labelChanges.push({
+            gmailId: change.message.id,
+            add: change.labelIds || [],
+            remove: [],
+          });
+          // A message moved back to the inbox may not be stored yet
+          if (change.labelIds?.includes('INBOX')) {
+            addedIds.add(change.message.id);
+          }
+        }
+        for (const change of record.labelsRemoved || []) {
+          if (!change.message?.id) continue;
+          labelChanges.push({
+            gmailId: change.message.id,
+            add: [],
+            remove: change.labelIds || [],
+          });
         }
       }
 
-      return {
-        success: true,
-        count: storedCount,
-        message: `Successfully stored ${storedCount} emails. ${skippedCount} emails already existed.`,
-      };
-    } catch (error: any) {
-      console.error('Gmail fetch error:', error);
-      console.error('Error details:', {
-        message: error.message,
-        code: error.code,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        data: error.response?.data,
+      latestHistoryId = response.data.historyId || latestHistoryId;
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    deletedIds.forEach((id) => addedIds.delete(id));
+
+    // 1. Store new messages
+    const storedEmailIds = await this.storeNewMessages(
+      gmail,
+      account,
+      Array.from(addedIds),
+    );
+
+    // 2. Apply label changes in history order
+    let updated = 0;
+    const changedGmailIds = Array.from(
+      new Set(labelChanges.map((change) => change.gmailId)),
+    ).filter((id) => !deletedIds.has(id));
+
+    if (changedGmailIds.length > 0) {
+      const emails = await this.emailRawRepository.find({
+        where: { userId, gmailId: In(changedGmailIds) },
       });
+      const emailsByGmailId = new Map(
+        emails.map((email) => [email.gmailId, email]),
+      );
 
-      // Provide more specific error messages
-      if (error.code === 401 || error.response?.status === 401) {
-        return {
-          success: false,
-          count: 0,
-          message:
-            'Invalid or expired access token. Please re-authenticate with Google.',
-        };
-      }
-      if (error.code === 403 || error.response?.status === 403) {
-        return {
-          success: false,
-          count: 0,
-          message:
-            'Gmail API access denied. Please grant Gmail.readonly permission.',
-        };
+      for (const change of labelChanges) {
+        const email = emailsByGmailId.get(change.gmailId);
+        if (!email) continue;
+        const labels = new Set<string>(
+          email.labels ? JSON.parse(email.labels) : [],
+        );
+        change.add.forEach((label) => labels.add(label));
+        change.remove.forEach((label) => labels.delete(label));
+        this.applyLabelState(email, Array.from(labels));
+        // Backfilled mail moved into the inbox joins the Kanban board
+        if (email.status === KanbanStatus.ARCHIVED && labels.has('INBOX')) {
+          email.status = KanbanStatus.INBOX;
+        }
       }
-      if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-        return {
-          success: false,
-          count: 0,
-          message: 'Network error. Cannot connect to Gmail API.',
-        };
+
+      await this.emailRawRepository.save(emails);
+      updated = emails.length;
+
+      if (updated > 0) {
+        this.mailboxEventsService.emit(userId, MailboxEventType.EMAIL_UPDATED, {
+          emailIds: emails.map((email) => email.id),
+        });
       }
+    }
 
-      return {
-        success: false,
-        count: 0,
-        message: `Failed to fetch emails: ${error.message || error.code || 'Unknown error'}`,
-      };
+    // 3. Remove messages deleted in Gmail
+    let deleted = 0;
+    if (deletedIds.size > 0) {
+      const removed = await this.emailRawRepository.find({
+        select: ['id'],
+        where: { userId, gmailId: In(Array.from(deletedIds)) },
+      });
+      if (removed.length > 0) {
+        const removedIds = removed.map((email) => email.id);
+        await this.emailRawRepository.delete({ id: In(removedIds) });
+        deleted = removedIds.length;
+        this.mailboxEventsService.emit(userId, MailboxEventType.EMAIL_DELETED, {
+          emailIds: removedIds,
+        });
+      }
     }
+
+    await this.saveHistoryCheckpoint(account.id, latestHistoryId);
+
+    return { storedEmailIds, skipped: 0, updated, deleted };
   }
 
   /**
-   * Get list of mailboxes (Inbox, Sent, etc.) based on labels
+   * Fetch one page of messages matching a Gmail search and store the new ones
+   * Used by the backfill job, which pages through the whole mailbox
    */
-  async getMailboxes(userId: number): Promise<{
-    mailboxes: Array<{
-      id: string;
-      name: string;
-      count: number;
-      unreadCount: number;
-    }>;
+  async fetchMessagePage(
+    userId: number,
+    options: {
+      accountId?: number | null; // Default account when omitted
+      q?: string;
+      labelIds?: string[];
+      includeSpamTrash?: boolean;
+      pageToken?: string;
+      maxResults?: number;
+    },
+  ): Promise<{
+    storedEmailIds: number[];
+    seen: number;
+    nextPageToken: string | null;
+    resultSizeEstimate: number | null;
   }> {
-    const MAX_MAILBOXES = 50;
-    const commonMailboxes = [
-      { id: 'INBOX', name: 'Inbox' },
-      { id: 'SENT', name: 'Sent' },
-      { id: 'DRAFT', name: 'Drafts' },
-      { id: 'SPAM', name: 'Spam' },
-      { id: 'TRASH', name: 'Trash' },
-      { id: 'IMPORTANT', name: 'Important' },
-      { id: 'STARRED', name: 'Starred' },
-    ];
+    const account = await this.getAccount(userId, options.accountId);
+    const gmail = await this.getGmailClient(userId, account.id);
+
+    const response = await gmail.users.messages.list({
+      userId: 'me',
+      q: options.q || undefined,
+      labelIds: options.labelIds?.length ? options.labelIds : undefined,
+      includeSpamTrash: options.includeSpamTrash || false,
+      pageToken: options.pageToken || undefined,
+      maxResults: options.maxResults || 100,
+    });
+
+    const messageIds = (response.data.messages || [])
+      .map((message) => message.id)
+      .filter((id): id is string => !!id);
+
+    const storedEmailIds = await this.storeNewMessages(
+      gmail,
+      account,
+      messageIds,
+    );
+
+    // Publish event to Kafka for AI processing
+    if (storedEmailIds.length > 0) {
+      try {
+        await this.kafkaService.publishEmailFetchedEvent(
+          userId,
+          storedEmailIds,
+        );
+      } catch (kafkaError: any) {
+        console.error('Failed to publish Kafka event:', kafkaError);
+      }
+    }
+
+    return {
+      storedEmailIds,
+      seen: messageIds.length,
+      nextPageToken: response.data.nextPageToken || null,
+      resultSizeEstimate: response.data.resultSizeEstimate ?? null,
+    };
+  }
+
+  /**
+   * Gmail answers 404 when the start history id is too old to replay
+   */
+  private isHistoryExpiredError(error: any): boolean {
+    return error?.code === 404 || error?.response?.status === 404;
+  }
+
+  /**
+   * Persist the history id the next incremental sync starts from
+   */
+  private async saveHistoryCheckpoint(
+    accountId: number,
+    historyId: string | null | undefined,
+  ): Promise<void> {
+    if (!historyId) return;
+    await this.gmailTokenRepository.update(
+      { id: accountId },
+      { historyId, lastSyncedAt: new Date() },
+    );
+  }
+
+  /**
+   * Fetch and store the given Gmail messages, skipping ones already stored
+   * Returns the database IDs of the stored emails
+   */
+  private async storeNewMessages(
+    gmail: gmail_v1.Gmail,
+    account: GmailToken,
+    messageIds: string[],
+  ): Promise<number[]> {
+    if (messageIds.length === 0) {
+      return [];
+    }
+    const userId = account.userId;
+
+    // Check which emails already exist in one query
+    const existing = await this.emailRawRepository.find({
+      select: ['gmailId'],
+      where: { gmailId: In(messageIds) },
+    });
+    const existingIds = new Set(existing.map((email) => email.gmailId));
+
+    const storedEmailIds: number[] = [];
+
+    for (const messageId of messageIds) {
+      if (existingIds.has(messageId)) continue;
+
+      // Get full message details
+      let messageDetail;
+      try {
+        messageDetail = await gmail.users.messages.get({
+          userId: 'me',
+          id: messageId,
+          format: 'full',
+        });
+      } catch (error: any) {
+        console.error(`Error fetching message ${messageId}:`, error.message);
+        // Skip this message and continue
+        continue;
+      }
+
+      if (!messageDetail.data.payload) {
+        console.warn(`Message ${messageId} has no payload, skipping`);
+        continue;
+      }
+
+      try {
+        const emailRaw = this.emailRawRepository.create({
+          ...this.mapMessageToEmail(userId, messageDetail.data),
+          accountId: account.id,
+        });
+        const savedEmail = await this.emailRawRepository.save(emailRaw);
+        storedEmailIds.push(savedEmail.id);
+      } catch (dbError: any) {
+        console.error(
+          `Error saving email ${messageId} to database:`,
+          dbError.message,
+        );
+        // Continue with next message
+      }
+    }
+
+    if (storedEmailIds.length > 0) {
+      this.mailboxEventsService.emit(userId, MailboxEventType.EMAIL_STORED, {
+        emailIds: storedEmailIds,
+      });
+    }
+
+    return storedEmailIds;
+  }
+
+  /**
+   * Map a full Gmail message to EmailRaw columns (without the account)
+   * Other providers parse their mail into the same message shape and reuse this
+   */
+  mapMessageToEmail(
+    userId: number,
+    msg: gmail_v1.Schema$Message,
+  ): Partial<EmailRaw> {
+    const payload = msg.payload;
+
+    // Extract headers
+    const headers = payload?.headers || [];
+    const getHeader = (name: string): string => {
+      const header = headers.find(
+        (h) => h.name?.toLowerCase() === name.toLowerCase(),
+      );
+      return header?.value || '';
+    };
+
+    // Extract email addresses
+    const from = getHeader('From');
+    const fromMatch = from.match(/(.*?)\s*<(.+?)>|(.+)/);
+    const fromName = fromMatch
+      ? (fromMatch[1] || fromMatch[3] || '').trim()
+      : '';
+    const fromEmail = fromMatch
+      ? (fromMatch[2] || fromMatch[3] || '').trim()
+      : from;
+
+    const to = getHeader('To') || '';
+    const cc = getHeader('Cc') || '';
+    const bcc = getHeader('Bcc') || '';
+
+    // Extract body
+    let bodyText = '';
+    let bodyHtml = '';
+
+    const extractBody = (part: any): void => {
+      if (part.body?.data) {
+        const data = Buffer.from(part.body.data, 'base64').toString('utf-8');
+        const mimeType = part.mimeType || '';
+
+        if (mimeType === 'text/plain') {
+          bodyText = data;
+        } else if (mimeType === 'text/html') {
+          bodyHtml = data;
+        }
+      }
+
+      if (part.parts) {
+        part.parts.forEach((p: any) => extractBody(p));
+      }
+    };
+
+    if (payload) {
+      extractBody(payload);
+    }
+
+    // Get dates
+    let internalDate: Date | null = null;
+    if (msg.internalDate) {
+      internalDate = new Date(parseInt(msg.internalDate));
+      if (isNaN(internalDate.getTime())) {
+        internalDate = null;
+      }
+    }
+
+    let sentAt: Date | null = internalDate;
+    const dateHeader = getHeader('Date');
+    if (dateHeader) {
+      const parsedDate = new Date(dateHeader);
+      if (!isNaN(parsedDate.getTime())) {
+        sentAt = parsedDate;
+      }
+    }
+
+    const splitAddresses = (value: string): string | null =>
+      value
+        ? JSON.stringify(value.split(',').map((e: string) => e.trim()))
+        : null;
+
+    const email: Partial<EmailRaw> = {
+      userId,
+      gmailId: msg.id,
+      threadId: msg.threadId || null,
+      from: fromEmail || '',
+      fromName: fromName || fromEmail || '',
+      to: splitAddresses(to),
+      cc: splitAddresses(cc),
+      bcc: splitAddresses(bcc),
+      subject: getHeader('Subject') || '',
+      snippet: msg.snippet || '',
+      bodyText: bodyText || '',
+      bodyHtml: bodyHtml || '',
+      receivedAt: internalDate,
+      sentAt: sentAt,
+      rawData: JSON.stringify(msg),
+      // New inbox mail lands in the Inbox column, backfilled mail from other
+      // folders (Sent, archived, labels) stays off the Kanban board
+      status: (msg.labelIds || []).includes('INBOX')
+        ? KanbanStatus.INBOX
+        : KanbanStatus.ARCHIVED,
+      snoozeUntil: null, // No snooze initially
+    };
+
+    this.applyLabelState(email, msg.labelIds || []);
+
+    return email;
+  }
+
+  /**
+   * Set labels and the flags derived from them (read, starred, important)
+   */
+  private applyLabelState(email: Partial<EmailRaw>, labels: string[]): void {
+    email.labels = labels.length > 0 ? JSON.stringify(labels) : null;
+    email.isRead = !labels.includes('UNREAD');
+    email.isStarred = labels.includes('STARRED');
+    email.isImportant = labels.includes('IMPORTANT');
+  }
+
+  /**
+   * Register Gmail push watches (users.watch) for the user's accounts
+   * (all of them, or only accountId)
+   * Gmail publishes change notifications to GMAIL_PUBSUB_TOPIC until expiration (max 7 days)
+   */
+  async startWatch(
+    userId: number,
+    accountId?: number,
+  ): Promise<{ success: boolean; expiration?: Date; error?: string }> {
+    if (!process.env.GMAIL_PUBSUB_TOPIC) {
+      return { success: false, error: 'GMAIL_PUBSUB_TOPIC is not configured' };
+    }
+
+    let accounts: GmailToken[];
+    try {
+      accounts = accountId
+        ? [await this.getAccount(userId, accountId)]
+        : await this.gmailTokenRepository.find({ where: { userId } });
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+    if (accounts.length === 0) {
+      return {
+        success: false,
+        error: 'Gmail token not found. Please re-authenticate with Google.',
+      };
+    }
+
+    const errors: string[] = [];
+    let expiration: Date | undefined;
+    for (const account of accounts) {
+      const result = await this.startAccountWatch(account);
+      if (!result.success) {
+        errors.push(
+          accounts.length > 1
+            ? `${account.email}: ${result.error}`
+            : result.error,
+        );
+      } else if (
+        result.expiration &&
+        (!expiration || result.expiration < expiration)
+      ) {
+        expiration = result.expiration; // Earliest renewal across accounts
+      }
+    }
+
+    return errors.length === 0
+      ? { success: true, expiration }
+      : { success: false, expiration, error: errors.join('; ') };
+  }
+
+  /**
+   * Register the push watch of one account
+   */
+  private async startAccountWatch(
+    account: GmailToken,
+  ): Promise<{ success: boolean; expiration?: Date; error?: string }> {
+    // Push notifications are routed by address
+    if (!(await this.ensureAccountEmail(account))) {
+      return { success: false, error: 'Gmail account address is unknown' };
+    }
+
+    try {
+      const gmail = await this.getGmailClient(account.userId, account.id);
+      const response = await gmail.users.watch({
+        userId: 'me',
+        requestBody: { topicName: process.env.GMAIL_PUBSUB_TOPIC },
+      });
+
+      const expiration = response.data.expiration
+        ? new Date(Number(response.data.expiration))
+        : null;
+
+      await this.gmailTokenRepository.update(
+        { id: account.id },
+        { watchExpiration: expiration },
+      );
+
+      return { success: true, expiration };
+    } catch (error: any) {
+      console.error(
+        `Gmail watch error for account ${account.id}:`,
+        error.message,
+      );
+      return {
+        success: false,
+        error: error.message || 'Failed to register Gmail watch',
+      };
+    }
+  }
+
+  /**
+   * Stop Gmail push notifications for one account
+   */
+  private async stopAccountWatch(account: GmailToken): Promise<void> {
+    if (!account.watchExpiration) {
+      return;
+    }
+
+    try {
+      const gmail = await this.getGmailClient(account.userId, account.id);
+      await gmail.users.stop({ userId: 'me' });
+      await this.gmailTokenRepository.update(
+        { id: account.id },
+        { watchExpiration: null },
+      );
+    } catch (error: any) {
+      console.error(
+        `Gmail stop watch error for account ${account.id}:`,
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Renew watches that are missing or expire within the renewal window
+   * This should be called periodically by a scheduled task
+   */
+  async renewExpiringWatches(
+    renewBeforeMs: number = 24 * 60 * 60 * 1000,
+  ): Promise<{ renewed: number; failed: number }> {
+    if (!process.env.GMAIL_PUBSUB_TOPIC) {
+      return { renewed: 0, failed: 0 };
+    }
+
+    const tokens = await this.gmailTokenRepository
+      .createQueryBuilder('token')
+      .where(
+        '(token.watchExpiration IS NULL OR token.watchExpiration <= :renewBefore)',
+        { renewBefore: new Date(Date.now() + renewBeforeMs) },
+      )
+      .getMany();
+
+    let renewed = 0;
+    let failed = 0;
+    for (const token of tokens) {
+      const result = await this.startAccountWatch(token);
+      if (result.success) {
+        renewed++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { renewed, failed };
+  }
+
+  /**
+   * Handle a Gmail push notification: run an incremental sync of the mailbox
+   * for every user who linked it
+   * Notifications arrive in bursts, so syncs for the same account are coalesced
+   */
+  async handlePushNotification(
+    emailAddress: string,
+    historyId: string,
+  ): Promise<void> {
+    const tokens = await this.gmailTokenRepository.find({
+      where: { email: emailAddress.toLowerCase() },
+    });
+
+    if (tokens.length === 0) {
+      console.warn(`Gmail push for unknown mailbox ${emailAddress}, ignoring`);
+      return;
+    }
+
+    await Promise.all(
+      tokens.map((token) => this.runPushSync(token, historyId)),
+    );
+  }
+
+  private async runPushSync(
+    token: GmailToken,
+    historyId: string,
+  ): Promise<void> {
+    // Already synced past this point
+    if (
+      token.historyId &&
+      /^\d+$/.test(historyId) &&
+      BigInt(historyId) <= BigInt(token.historyId)
+    ) {
+      return;
+    }
+
+    const accountId = token.id;
+    if (this.pushSyncs.has(accountId)) {
+      // A sync is running, run once more after it finishes
+      this.pendingPushSyncs.add(accountId);
+      return;
+    }
+
+    const run = async (): Promise<void> => {
+      do {
+        this.pendingPushSyncs.delete(accountId);
+        const result = await this.fetchAndStoreEmails(token.userId, 50, {
+          accountId,
+        });
+        if (!result.success) {
+          console.error(
+            `Push-triggered sync failed for account ${accountId}: ${result.message}`,
+          );
+        }
+      } while (this.pendingPushSyncs.has(accountId));
+    };
+
+    const promise = run().finally(() => this.pushSyncs.delete(accountId));
+    this.pushSyncs.set(accountId, promise);
+    await promise;
+  }
+
+  /**
+   * Get list of mailboxes (Inbox, Sent, etc.) based on labels
+   */
+  async getMailboxes(
+    userId: number,
+    accountId?: number,
+  ): Promise<{
+    mailboxes: Array<{
+      id: string;
+      name: string;
+      count: number;
+      unreadCount: number;
+    }>;
+  }> {
+    const MAX_MAILBOXES = 50;
+    const accountScope = accountId ? { accountId } : {};
+    const commonMailboxes = [
+      { id: 'INBOX', name: 'Inbox' },
+      { id: 'SENT', name: 'Sent' },
+      { id: 'DRAFT', name: 'Drafts' },
+      { id: 'SPAM', name: 'Spam' },
+      { id: 'TRASH', name: 'Trash' },
+      { id: 'IMPORTANT', name: 'Important' },
+      { id: 'STARRED', name: 'Starred' },
+    ];
 
     const mailboxes: Array<{
       id: string;
@@ -558,12 +1328,14 @@ export class GmailService {
         count = await this.emailRawRepository.count({
           where: {
             userId,
+            ...accountScope,
             isStarred: true,
           },
         });
         unreadCount = await this.emailRawRepository.count({
           where: {
             userId,
+            ...accountScope,
             isStarred: true,
             isRead: false,
           },
@@ -572,12 +1344,14 @@ export class GmailService {
         count = await this.emailRawRepository.count({
           where: {
             userId,
+            ...accountScope,
             isImportant: true,
           },
         });
         unreadCount = await this.emailRawRepository.count({
           where: {
             userId,
+            ...accountScope,
             isImportant: true,
             isRead: false,
           },
@@ -586,12 +1360,14 @@ export class GmailService {
         count = await this.emailRawRepository
           .createQueryBuilder('email')
           .where('email.userId = :userId', { userId })
+          .andWhere(this.accountCondition(accountId), { accountId })
           .andWhere('email.labels LIKE :label', { label: `%${mailbox.id}%` })
           .getCount();
 
         unreadCount = await this.emailRawRepository
           .createQueryBuilder('email')
           .where('email.userId = :userId', { userId })
+          .andWhere(this.accountCondition(accountId), { accountId })
           .andWhere('email.labels LIKE :label', { label: `%${mailbox.id}%` })
           .andWhere('email.isRead = :isRead', { isRead: false })
           .getCount();
@@ -610,6 +1386,7 @@ export class GmailService {
       .createQueryBuilder('email')
       .select('email.labels', 'labels')
       .where('email.userId = :userId', { userId })
+      .andWhere(this.accountCondition(accountId), { accountId })
       .andWhere('email.labels IS NOT NULL')
       .limit(MAX_MAILBOXES)
       .getRawMany();
@@ -640,12 +1417,14 @@ export class GmailService {
       const count = await this.emailRawRepository
         .createQueryBuilder('email')
         .where('email.userId = :userId', { userId })
+        .andWhere(this.accountCondition(accountId), { accountId })
         .andWhere('email.labels LIKE :label', { label: `%${label}%` })
         .getCount();
 
       const unreadCount = await this.emailRawRepository
         .createQueryBuilder('email')
         .where('email.userId = :userId', { userId })
+        .andWhere(this.accountCondition(accountId), { accountId })
         .andWhere('email.labels LIKE :label', { label: `%${label}%` })
         .andWhere('email.isRead = :isRead', { isRead: false })
         .getCount();
@@ -669,7 +1448,7 @@ export class GmailService {
     mailboxId: string,
     page: number = 1,
     limit: number = 20,
-    filters: { isRead?: boolean; isStarred?: boolean } = {},
+    filters: { isRead?: boolean; isStarred?: boolean; accountId?: number } = {},
   ): Promise<{
     emails: any[];
     total: number;
@@ -682,7 +1461,10 @@ export class GmailService {
     // Build query
     const queryBuilder = this.emailRawRepository
       .createQueryBuilder('email')
-      .where('email.userId = :userId', { userId });
+      .where('email.userId = :userId', { userId })
+      .andWhere(this.accountCondition(filters.accountId), {
+        accountId: filters.accountId,
+      });
 
     // Filter by mailbox (label)
     if (mailboxId === 'STARRED') {
@@ -717,17 +1499,27 @@ export class GmailService {
       { snoozedStatus: KanbanStatus.SNOOZED, now: new Date() },
     );
 
+    // One row per thread if the user prefers it
+    const { groupByThread } = await this.getUserSettings(userId);
+    const listQuery = groupByThread
+      ? this.collapseThreads(queryBuilder)
+      : queryBuilder;
+
     // Get total count
-    const total = await queryBuilder.getCount();
+    const total = await listQuery.getCount();
 
     // Get emails with pagination
-    const emails = await queryBuilder
+    const emails = await listQuery
       .orderBy('email.receivedAt', 'DESC')
       .addOrderBy('email.sentAt', 'DESC')
       .skip(skip)
       .take(limit)
       .getMany();
 
+    const threadCounts = groupByThread
+      ? await this.getThreadCounts(userId, emails)
+      : null;
+
     // Format emails for response with summaries
     const formattedEmails = await Promise.all(
       emails.map(async (email) => {
@@ -737,6 +1529,7 @@ export class GmailService {
 
         return {
           id: email.id,
+          accountId: email.accountId,
           gmailId: email.gmailId,
           threadId: email.threadId,
           from: email.from,
@@ -755,6 +1548,9 @@ export class GmailService {
           createdAt: email.createdAt,
           status: email.status || 'inbox',
           snoozeUntil: email.snoozeUntil,
+          thread: threadCounts
+            ? this.getThreadCount(threadCounts, email)
+            : null,
           summary: summary
             ? {
                 summary: summary.summary,
@@ -779,6 +1575,13 @@ export class GmailService {
     };
   }
 
+  /**
+   * Query condition limiting results to one account (all accounts when unset)
+   */
+  private accountCondition(accountId?: number): string {
+    return accountId ? 'email.accountId = :accountId' : '1=1';
+  }
+
   /**
    * Helper method to enrich email with summary
    */
@@ -845,6 +1648,7 @@ export class GmailService {
     // Parse JSON fields and format for frontend
     return {
       id: email.id,
+      accountId: email.accountId,
       gmailId: email.gmailId,
       threadId: email.threadId,
       from: {
@@ -903,14 +1707,18 @@ export class GmailService {
     // Get base enriched data
     const enrichedEmail = await this.enrichEmailWithSummary(email);
 
-    // Fetch attachments info from Gmail
+    // Fetch attachments info from Gmail (stored payload for other providers)
     try {
-      const gmail = await this.getGmailClient(userId);
-      const message = await gmail.users.messages.get({
-        userId: 'me',
-        id: email.gmailId,
-        format: 'full',
-      });
+      const gmail = await this.getSourceGmailClient(userId, email);
+      const payload = gmail
+        ? (
+            await gmail.users.messages.get({
+              userId: 'me',
+              id: email.gmailId,
+              format: 'full',
+            })
+          ).data.payload
+        : this.getStoredPayload(email);
 
       const attachments: Array<{
         attachmentId: string;
@@ -936,198 +1744,840 @@ export class GmailService {
         }
       };
 
-      if (message.data.payload?.parts) {
-        extractAttachments(message.data.payload.parts);
+      if (payload?.parts) {
+        extractAttachments(payload.parts);
+      }
+
+      enrichedEmail.attachments = attachments;
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      enrichedEmail.attachments = [];
+    }
+
+    return enrichedEmail;
+  }
+
+  /**
+   * Get a thread with its messages (oldest first) and aggregate info:
+   * participants, message/unread counts, last activity and a combined summary
+   */
+  async getThread(userId: number, threadId: string): Promise<any | null> {
+    const emails = await this.emailRawRepository.find({
+      where: { userId, threadId },
+      order: { receivedAt: 'ASC', id: 'ASC' },
+    });
+
+    if (emails.length === 0) {
+      return null;
+    }
+
+    const messages = await Promise.all(
+      emails.map(async (email) => await this.enrichEmailWithSummary(email)),
+    );
+
+    // Collect unique participants from senders and recipients
+    const participants = new Map<string, { name: string; email: string }>();
+    const addParticipant = (value: string | null, name?: string | null) => {
+      if (!value) return;
+      const address = parseAddress(value);
+      const key = address.email.toLowerCase();
+      if (!participants.has(key)) {
+        participants.set(key, {
+          name: name || address.name,
+          email: address.email,
+        });
+      }
+    };
+    for (const email of emails) {
+      addParticipant(email.from, email.fromName);
+      for (const field of [email.to, email.cc]) {
+        if (!field) continue;
+        try {
+          (JSON.parse(field) as string[]).forEach((value) =>
+            addParticipant(value),
+          );
+        } catch (e) {
+          addParticipant(field);
+        }
+      }
+    }
+
+    const latest = emails[emails.length - 1];
+    const unreadCount = emails.filter((email) => !email.isRead).length;
+
+    return {
+      threadId,
+      subject: emails[0].subject || '(No Subject)',
+      participants: Array.from(participants.values()),
+      messageCount: emails.length,
+      unreadCount,
+      isUnread: unreadCount > 0,
+      isStarred: emails.some((email) => email.isStarred),
+      firstMessageAt: emails[0].receivedAt,
+      lastActivityAt: latest.receivedAt,
+      status: latest.status || 'inbox',
+      summary: mergeThreadSummaries(messages.map((message) => message.summary)),
+      messages,
+    };
+  }
+
+  /**
+   * Keep only the newest email of each thread among the rows matched by a query
+   * Messages without a thread ID are treated as single-message threads
+   */
+  private collapseThreads(
+    queryBuilder: SelectQueryBuilder<EmailRaw>,
+  ): SelectQueryBuilder<EmailRaw> {
+    const ranked = queryBuilder
+      .clone()
+      .select('email.id', 'id')
+      .addSelect(
+        'ROW_NUMBER() OVER (PARTITION BY COALESCE(email.threadId, email.gmailId) ORDER BY email.receivedAt DESC NULLS LAST, email.id DESC)',
+        'threadRank',
+      );
+
+    return this.emailRawRepository
+      .createQueryBuilder('email')
+      .where(
+        `email.id IN (SELECT ranked."id" FROM (${ranked.getQuery()}) ranked WHERE ranked."threadRank" = 1)`,
+      )
+      .setParameters(ranked.getParameters());
+  }
+
+  /**
+   * Message and unread counts for the threads of the given emails
+   */
+  private async getThreadCounts(
+    userId: number,
+    emails: EmailRaw[],
+  ): Promise<Map<string, { messageCount: number; unreadCount: number }>> {
+    const counts = new Map<
+      string,
+      { messageCount: number; unreadCount: number }
+    >();
+    const threadIds = Array.from(
+      new Set(emails.map((email) => email.threadId).filter((id) => !!id)),
+    );
+
+    if (threadIds.length === 0) {
+      return counts;
+    }
+
+    const rows = await this.emailRawRepository
+      .createQueryBuilder('email')
+      .select('email.threadId', 'threadId')
+      .addSelect('COUNT(*)', 'messageCount')
+      .addSelect(
+        'SUM(CASE WHEN email.isRead = false THEN 1 ELSE 0 END)',
+        'unreadCount',
+      )
+      .where('email.userId = :userId', { userId })
+      .andWhere('email.threadId IN (:...threadIds)', { threadIds })
+      .groupBy('email.threadId')
+      .getRawMany();
+
+    for (const row of rows) {
+      counts.set(row.threadId, {
+        messageCount: Number(row.messageCount),
+        unreadCount: Number(row.unreadCount),
+      });
+    }
+
+    return counts;
+  }
+
+  private getThreadCount(
+    counts: Map<string, { messageCount: number; unreadCount: number }>,
+    email: EmailRaw,
+  ): { messageCount: number; unreadCount: number } {
+    return (
+      counts.get(email.threadId) || {
+        messageCount: 1,
+        unreadCount: email.isRead ? 0 : 1,
+      }
+    );
+  }
+
+  /**
+   * Get mailbox preferences, creating the defaults on first access
+   */
+  async getUserSettings(userId: number): Promise<UserSettings> {
+    const settings = await this.userSettingsRepository.findOne({
+      where: { userId },
+    });
+
+    if (settings) {
+      return settings;
+    }
+
+    // Concurrent first requests (list and board) may both get here
+    await this.userSettingsRepository
+      .createQueryBuilder()
+      .insert()
+      .into(UserSettings)
+      .values({ userId, groupByThread: false, undoSendSeconds: 0 })
+      .orIgnore()
+      .execute();
+
+    return await this.userSettingsRepository.findOne({ where: { userId } });
+  }
+
+  /**
+   * Update mailbox preferences
+   */
+  async updateUserSettings(
+    userId: number,
+    updates: {
+      groupByThread?: boolean;
+      undoSendSeconds?: number;
+      aiCategories?: string[] | null;
+    },
+  ): Promise<UserSettings> {
+    const settings = await this.getUserSettings(userId);
+
+    if (updates.groupByThread !== undefined) {
+      settings.groupByThread = updates.groupByThread;
+    }
+    if (updates.undoSendSeconds !== undefined) {
+      settings.undoSendSeconds = updates.undoSendSeconds;
+    }
+    if (updates.aiCategories !== undefined) {
+      settings.aiCategories = updates.aiCategories
+        ? JSON.stringify(normalizeCategories(updates.aiCategories))
+        : null;
+    }
+
+    return await this.userSettingsRepository.save(settings);
+  }
+
+  /**
+   * Get stored emails for a user
+   */
+  async getStoredEmails(
+    userId: number,
+    page: number = 1,
+    limit: number = 20,
+    accountId?: number,
+  ): Promise<{ emails: any[]; total: number; page: number; limit: number }> {
+    const [emails, total] = await this.emailRawRepository.findAndCount({
+      where: accountId ? { userId, accountId } : { userId },
+      order: { receivedAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    // Enrich emails with summaries
+    const enrichedEmails = await Promise.all(
+      emails.map(async (email) => await this.enrichEmailWithSummary(email)),
+    );
+
+    return {
+      emails: enrichedEmails,
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Send email via Gmail API
+   */
+  async sendEmail(
+    userId: number,
+    to: string[],
+    subject: string,
+    body: string,
+    cc?: string[],
+    bcc?: string[],
+    attachments: MimeAttachment[] = [],
+    accountId?: number | null, // Sending account (default account when omitted)
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    return await this.sendMessage(
+      userId,
+      { to, cc, bcc, subject, html: body, attachments },
+      { accountId },
+    );
+  }
+
+  /**
+   * Send a composed message from a Gmail account
+   * Used by sendEmail and by the Gmail mail provider
+   */
+  async sendMessage(
+    userId: number,
+    message: MimeMessageOptions,
+    options: { accountId?: number | null; threadId?: string } = {},
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      assertAttachmentLimits(message.attachments || []);
+      const gmail = await this.getGmailClient(userId, options.accountId);
+
+      const sent = await this.sendMimeMessage(gmail, message, options.threadId);
+
+      return {
+        success: true,
+        messageId: sent.id || undefined,
+      };
+    } catch (error: any) {
+      console.error('Send email error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to send email',
+      };
+    }
+  }
+
+  /**
+   * Reply to an email
+   */
+  async replyToEmail(
+    userId: number,
+    emailId: number,
+    replyBody: string,
+    attachments: MimeAttachment[] = [],
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      assertAttachmentLimits(attachments);
+
+      // Get original email from database
+      const originalEmail = await this.emailRawRepository.findOne({
+        where: { id: emailId, userId },
+      });
+
+      if (!originalEmail) {
+        return { success: false, error: 'Email not found' };
+      }
+
+      const gmail = await this.getSourceGmailClient(userId, originalEmail);
+      const reply = await this.composeReply(gmail, originalEmail, replyBody, {
+        attachments,
+      });
+
+      if (!gmail) {
+        return await this.sendWithProvider(userId, originalEmail, reply);
+      }
+
+      const sent = await this.sendMimeMessage(
+        gmail,
+        reply.message,
+        reply.threadId,
+      );
+
+      return {
+        success: true,
+        messageId: sent.id || undefined,
+      };
+    } catch (error: any) {
+      console.error('Reply email error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to reply to email',
+      };
+    }
+  }
+
+  /**
+   * Forward an email to new recipients
+   */
+  async forwardEmail(
+    userId: number,
+    emailId: number,
+    to: string[],
+    message?: string,
+    cc?: string[],
+    attachments: MimeAttachment[] = [],
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      // Get original email from database
+      const originalEmail = await this.emailRawRepository.findOne({
+        where: { id: emailId, userId },
+      });
+
+      if (!originalEmail) {
+        return { success: false, error: 'Email not found' };
+      }
+
+      const gmail = await this.getSourceGmailClient(userId, originalEmail);
+      const forward = await this.composeForward(gmail, originalEmail, {
+        to,
+        cc,
+        message,
+        attachments,
+      });
+
+      if (!gmail) {
+        return await this.sendWithProvider(userId, originalEmail, forward);
+      }
+
+      const sent = await this.sendMimeMessage(
+        gmail,
+        forward.message,
+        forward.threadId,
+      );
+
+      return {
+        success: true,
+        messageId: sent.id || undefined,
+      };
+    } catch (error: any) {
+      console.error('Forward email error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to forward email',
+      };
+    }
+  }
+
+  /**
+   * Gmail client of the account that received a stored email
+   * Null for emails of other providers (their stored rawData is used instead)
+   */
+  private async getSourceGmailClient(
+    userId: number,
+    email: EmailRaw,
+  ): Promise<gmail_v1.Gmail | null> {
+    if (email.provider !== MailProviderType.GMAIL) {
+      return null;
+    }
+    return await this.getGmailClient(userId, email.accountId);
+  }
+
+  /**
+   * Payload of a stored email as saved at sync time
+   */
+  private getStoredPayload(
+    email: EmailRaw,
+  ): gmail_v1.Schema$MessagePart | undefined {
+    try {
+      return email.rawData ? JSON.parse(email.rawData).payload : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a reply/forward of a non-Gmail email from the account that received it
+   */
+  private async sendWithProvider(
+    userId: number,
+    originalEmail: EmailRaw,
+    composed: { message: MimeMessageOptions; threadId?: string },
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    return await this.mailProviderRegistry
+      .forEmail(originalEmail)
+      .send(userId, composed.message, {
+        accountId: originalEmail.providerAccountId,
+        threadId: composed.threadId,
+      });
+  }
+
+  /**
+   * Build a reply to a stored email: answers the sender, keeps the thread
+   * and sets In-Reply-To/References from the original headers
+   */
+  private async composeReply(
+    gmail: gmail_v1.Gmail | null,
+    originalEmail: EmailRaw,
+    replyBody: string,
+    overrides: MimeMessageOptions = {},
+  ): Promise<{ message: MimeMessageOptions; threadId?: string }> {
+    // Get original message from Gmail to get headers
+    const payload = gmail
+      ? (
+          await gmail.users.messages.get({
+            userId: 'me',
+            id: originalEmail.gmailId,
+            format: 'metadata',
+            metadataHeaders: ['From', 'Subject', 'Message-ID', 'References'],
+          })
+        ).data.payload
+      : this.getStoredPayload(originalEmail);
+    const fromEmail = getPayloadHeader(payload, 'From');
+    const subject = getPayloadHeader(payload, 'Subject');
+    const messageId = getPayloadHeader(payload, 'Message-ID');
+    const references = getPayloadHeader(payload, 'References');
+
+    return {
+      message: {
+        to: [fromEmail],
+        subject: `Re: ${subject.replace(/^Re:\s*/i, '')}`,
+        ...overrides,
+        html: replyBody,
+        inReplyTo: messageId || undefined,
+        references: messageId
+          ? [references, messageId].filter((ref) => !!ref).join(' ')
+          : undefined,
+      },
+      threadId: originalEmail.threadId || undefined,
+    };
+  }
+
+  /**
+   * Build a forward of a stored email: quotes the original body below the
+   * optional message and keeps the thread
+   */
+  private async composeForward(
+    gmail: gmail_v1.Gmail | null,
+    originalEmail: EmailRaw,
+    options: MimeMessageOptions & { message?: string },
+  ): Promise<{ message: MimeMessageOptions; threadId?: string }> {
+    // Get original message from Gmail with full content
+    const payload = gmail
+      ? (
+          await gmail.users.messages.get({
+            userId: 'me',
+            id: originalEmail.gmailId,
+            format: 'full',
+          })
+        ).data.payload
+      : this.getStoredPayload(originalEmail);
+    const originalFrom = getPayloadHeader(payload, 'From');
+    const originalTo = getPayloadHeader(payload, 'To');
+    const originalSubject = getPayloadHeader(payload, 'Subject');
+    const originalDate = getPayloadHeader(payload, 'Date');
+    const messageId = getPayloadHeader(payload, 'Message-ID');
+    const originalBody = extractHtmlBody(payload);
+
+    // Keep the original's attachments (inline images stay referenced by cid:)
+    const attachments = [
+      ...(options.attachments || []),
+      ...(await this.downloadMessageAttachments(
+        payload,
+        gmail
+          ? this.gmailAttachmentLoader(gmail, originalEmail.gmailId)
+          : (attachmentId) =>
+              this.mailProviderRegistry
+                .forEmail(originalEmail)
+                .getAttachment(originalEmail, attachmentId),
+      )),
+    ];
+    assertAttachmentLimits(attachments);
+
+    // Build forward message body
+    const forwardedContent = `
+${options.message ? `<p>${options.message}</p><br/>` : ''}
+<div style="border-left: 2px solid #ccc; padding-left: 10px; margin-left: 10px;">
+  <p><strong>---------- Forwarded message ---------</strong></p>
+  <p><strong>From:</strong> ${originalFrom}</p>
+  <p><strong>Date:</strong> ${originalDate}</p>
+  <p><strong>Subject:</strong> ${originalSubject}</p>
+  <p><strong>To:</strong> ${originalTo}</p>
+  <br/>
+  ${originalBody}
+</div>`;
+
+    return {
+      message: {
+        to: options.to,
+        cc: options.cc,
+        bcc: options.bcc,
+        subject:
+          options.subject || `Fwd: ${originalSubject.replace(/^Fwd:\s*/i, '')}`,
+        html: forwardedContent,
+        inReplyTo: messageId || undefined,
+        attachments,
+      },
+      threadId: originalEmail.threadId || undefined,
+    };
+  }
+
+  /**
+   * Download all attachments of a message payload
+   * loadAttachment fetches the content of parts that only carry an attachment ID
+   */
+  private async downloadMessageAttachments(
+    payload: gmail_v1.Schema$MessagePart | undefined,
+    loadAttachment: (attachmentId: string) => Promise<Buffer>,
+  ): Promise<MimeAttachment[]> {
+    const parts: gmail_v1.Schema$MessagePart[] = [];
+    const collect = (part: gmail_v1.Schema$MessagePart | undefined) => {
+      if (!part) return;
+      if (part.filename && (part.body?.attachmentId || part.body?.data)) {
+        parts.push(part);
+      }
+      (part.parts || []).forEach(collect);
+    };
+    collect(payload);
+
+    return await Promise.all(
+      parts.map(async (part) => {
+        const content = part.body?.data
+          ? Buffer.from(part.body.data, 'base64url')
+          : await loadAttachment(part.body!.attachmentId!);
+
+        const contentId = getPayloadHeader(part, 'Content-ID').replace(
+          /^<|>$/g,
+          '',
+        );
+        const disposition = getPayloadHeader(part, 'Content-Disposition');
+
+        return {
+          filename: part.filename!,
+          contentType: part.mimeType || 'application/octet-stream',
+          content,
+          contentId: contentId || undefined,
+          inline: !!contentId && !/^attachment/i.test(disposition),
+        };
+      }),
+    );
+  }
+
+  /**
+   * Attachment loader for a Gmail message (attachments.get, base64url)
+   */
+  private gmailAttachmentLoader(
+    gmail: gmail_v1.Gmail,
+    messageId: string,
+  ): (attachmentId: string) => Promise<Buffer> {
+    return async (attachmentId) => {
+      const response = await gmail.users.messages.attachments.get({
+        userId: 'me',
+        messageId,
+        id: attachmentId,
+      });
+      return Buffer.from(response.data.data || '', 'base64url');
+    };
+  }
+
+  /**
+   * Send a composed message
+   * Messages with attachments go through the media upload endpoint (35 MB
+   * limit) instead of the base64url `raw` field
+   */
+  private async sendMimeMessage(
+    gmail: gmail_v1.Gmail,
+    message: MimeMessageOptions,
+    threadId?: string,
+  ): Promise<gmail_v1.Schema$Message> {
+    const rawMessage = buildMimeMessage(message);
+
+    const response = message.attachments?.length
+      ? await gmail.users.messages.send({
+          userId: 'me',
+          requestBody: { threadId },
+          media: { mimeType: 'message/rfc822', body: rawMessage },
+        })
+      : await gmail.users.messages.send({
+          userId: 'me',
+          requestBody: { raw: toBase64Url(rawMessage), threadId },
+        });
+
+    return response.data;
+  }
+
+  /**
+   * List drafts (newest first) with their headers
+   */
+  async listDrafts(
+    userId: number,
+    maxResults: number = 20,
+    pageToken?: string,
+    accountId?: number,
+  ): Promise<{ drafts: any[]; nextPageToken: string | null }> {
+    const account = await this.getAccount(userId, accountId);
+    const gmail = await this.getGmailClient(userId, account.id);
+
+    const response = await gmail.users.drafts.list({
+      userId: 'me',
+      maxResults,
+      pageToken: pageToken || undefined,
+    });
+
+    const drafts = await Promise.all(
+      (response.data.drafts || []).map(async (draft) => {
+        const detail = await gmail.users.drafts.get({
+          userId: 'me',
+          id: draft.id!,
+          format: 'metadata',
+        });
+        return this.formatDraft(detail.data, false, account.id);
+      }),
+    );
+
+    return {
+      drafts,
+      nextPageToken: response.data.nextPageToken || null,
+    };
+  }
+
+  /**
+   * Get a draft with its body, for editing
+   */
+  async getDraft(
+    userId: number,
+    draftId: string,
+    accountId?: number,
+  ): Promise<any | null> {
+    const account = await this.getAccount(userId, accountId);
+    const gmail = await this.getGmailClient(userId, account.id);
+
+    try {
+      const response = await gmail.users.drafts.get({
+        userId: 'me',
+        id: draftId,
+        format: 'full',
+      });
+      return this.formatDraft(response.data, true, account.id);
+    } catch (error: any) {
+      if (error?.code === 404 || error?.response?.status === 404) {
+        return null;
       }
-
-      enrichedEmail.attachments = attachments;
-    } catch (error) {
-      console.error('Error fetching attachments:', error);
-      enrichedEmail.attachments = [];
+      throw error;
     }
-
-    return enrichedEmail;
   }
 
   /**
-   * Get stored emails for a user
+   * Create a draft, optionally as a reply to or forward of a stored email
+   * Reply/forward drafts are saved in the account that received the email
    */
-  async getStoredEmails(
+  async createDraft(
     userId: number,
-    page: number = 1,
-    limit: number = 20,
-  ): Promise<{ emails: any[]; total: number; page: number; limit: number }> {
-    const [emails, total] = await this.emailRawRepository.findAndCount({
-      where: { userId },
-      order: { receivedAt: 'DESC' },
-      skip: (page - 1) * limit,
-      take: limit,
-    });
+    draft: DraftInput,
+  ): Promise<{ success: boolean; draft?: any; error?: string }> {
+    try {
+      const sourceEmailId = draft.replyToEmailId || draft.forwardEmailId;
+      const sourceEmail = sourceEmailId
+        ? await this.emailRawRepository.findOne({
+            where: { id: sourceEmailId, userId },
+          })
+        : null;
+      const account = await this.getAccount(
+        userId,
+        sourceEmail ? sourceEmail.accountId : draft.accountId,
+      );
 
-    // Enrich emails with summaries
-    const enrichedEmails = await Promise.all(
-      emails.map(async (email) => await this.enrichEmailWithSummary(email)),
-    );
+      const gmail = await this.getGmailClient(userId, account.id);
+      const { message, threadId } = await this.composeDraft(
+        gmail,
+        userId,
+        draft,
+      );
 
-    return {
-      emails: enrichedEmails,
-      total,
-      page,
-      limit,
-    };
+      const draftId = await this.saveDraftMessage(gmail, message, threadId);
+
+      return {
+        success: true,
+        draft: await this.getDraft(userId, draftId, account.id),
+      };
+    } catch (error: any) {
+      console.error('Create draft error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to create draft',
+      };
+    }
   }
 
   /**
-   * Send email via Gmail API
+   * Replace the content of a draft
+   * Reply/forward drafts keep their thread and In-Reply-To/References headers,
+   * existing attachments are kept unless listed in removeAttachments
    */
-  async sendEmail(
+  async updateDraft(
     userId: number,
-    to: string[],
-    subject: string,
-    body: string,
-    cc?: string[],
-    bcc?: string[],
-    attachments?: Array<{
-      filename: string;
-      content: string;
-      contentType: string;
-    }>,
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    draftId: string,
+    draft: DraftInput,
+  ): Promise<{ success: boolean; draft?: any; error?: string }> {
     try {
-      const gmail = await this.getGmailClient(userId);
+      const account = await this.getAccount(userId, draft.accountId);
+      const gmail = await this.getGmailClient(userId, account.id);
 
-      // Helper to encode subject with RFC 2047 MIME encoded-word for UTF-8
-      const encodeSubject = (subj: string): string => {
-        if (/[^\x00-\x7F]/.test(subj)) {
-          const encoded = Buffer.from(subj, 'utf-8').toString('base64');
-          return `=?UTF-8?B?${encoded}?=`;
+      let existing: gmail_v1.Schema$Draft;
+      try {
+        existing = (
+          await gmail.users.drafts.get({
+            userId: 'me',
+            id: draftId,
+            format: 'full',
+          })
+        ).data;
+      } catch (error: any) {
+        if (error?.code === 404 || error?.response?.status === 404) {
+          return { success: false, error: 'Draft not found' };
         }
-        return subj;
-      };
-
-      // Build email message
-      const messageParts: string[] = [];
-      messageParts.push(`To: ${to.join(', ')}`);
-      if (cc && cc.length > 0) {
-        messageParts.push(`Cc: ${cc.join(', ')}`);
-      }
-      if (bcc && bcc.length > 0) {
-        messageParts.push(`Bcc: ${bcc.join(', ')}`);
+        throw error;
       }
-      messageParts.push(`Subject: ${encodeSubject(subject)}`);
-      messageParts.push('Content-Type: text/html; charset=utf-8');
-      messageParts.push('');
-      messageParts.push(body);
 
-      const rawMessage = messageParts.join('\r\n');
-
-      // Encode message
-      const encodedMessage = Buffer.from(rawMessage)
-        .toString('base64')
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
+      const payload = existing.message?.payload;
+
+      // A re-composed forward brings the original's attachments again
+      let keptAttachments: MimeAttachment[] = [];
+      if (!draft.forwardEmailId && existing.message?.id) {
+        const removed = new Set(draft.removeAttachments || []);
+        keptAttachments = (
+          await this.downloadMessageAttachments(
+            payload,
+            this.gmailAttachmentLoader(gmail, existing.message.id),
+          )
+        ).filter((file) => !removed.has(file.filename));
+      }
 
-      const response = await gmail.users.messages.send({
-        userId: 'me',
-        requestBody: {
-          raw: encodedMessage,
+      const { message, threadId } = await this.composeDraft(
+        gmail,
+        userId,
+        {
+          ...draft,
+          attachments: [...keptAttachments, ...(draft.attachments || [])],
         },
-      });
+        {
+          threadId: existing.message?.threadId || undefined,
+          inReplyTo: getPayloadHeader(payload, 'In-Reply-To') || undefined,
+          references: getPayloadHeader(payload, 'References') || undefined,
+        },
+      );
+
+      await this.saveDraftMessage(gmail, message, threadId, draftId);
 
       return {
         success: true,
-        messageId: response.data.id || undefined,
+        draft: await this.getDraft(userId, draftId, account.id),
       };
     } catch (error: any) {
-      console.error('Send email error:', error);
+      console.error('Update draft error:', error);
       return {
         success: false,
-        error: error.message || 'Failed to send email',
+        error: error.message || 'Failed to update draft',
       };
     }
   }
 
   /**
-   * Reply to an email
+   * Delete a draft permanently
    */
-  async replyToEmail(
+  async deleteDraft(
     userId: number,
-    emailId: number,
-    replyBody: string,
-    attachments?: Array<{
-      filename: string;
-      content: string;
-      contentType: string;
-    }>,
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    draftId: string,
+    accountId?: number,
+  ): Promise<{ success: boolean; error?: string }> {
     try {
-      // Get original email from database
-      const originalEmail = await this.emailRawRepository.findOne({
-        where: { id: emailId, userId },
-      });
-
-      if (!originalEmail) {
-        return { success: false, error: 'Email not found' };
+      const gmail = await this.getGmailClient(userId, accountId);
+      await gmail.users.drafts.delete({ userId: 'me', id: draftId });
+      return { success: true };
+    } catch (error: any) {
+      console.error('Delete draft error:', error);
+      if (error?.code === 404 || error?.response?.status === 404) {
+        return { success: false, error: 'Draft not found' };
       }
-
-      // Get original message from Gmail to get headers
-      const gmail = await this.getGmailClient(userId);
-      const originalMessage = await gmail.users.messages.get({
-        userId: 'me',
-        id: originalEmail.gmailId,
-        format: 'metadata',
-        metadataHeaders: ['From', 'To', 'Subject', 'Message-ID'],
-      });
-
-      const headers = originalMessage.data.payload?.headers || [];
-      const getHeader = (name: string) =>
-        headers.find((h: any) => h.name === name)?.value || '';
-
-      const fromEmail = getHeader('From');
-      const toEmail = getHeader('To') || fromEmail;
-      const subject = getHeader('Subject');
-      const messageId = getHeader('Message-ID');
-
-      // Helper to encode subject with RFC 2047 MIME encoded-word for UTF-8
-      const encodeSubject = (subj: string): string => {
-        // Check if subject contains non-ASCII characters
-        if (/[^\x00-\x7F]/.test(subj)) {
-          // Encode as base64 with UTF-8 charset
-          const encoded = Buffer.from(subj, 'utf-8').toString('base64');
-          return `=?UTF-8?B?${encoded}?=`;
-        }
-        return subj;
+      return {
+        success: false,
+        error: error.message || 'Failed to delete draft',
       };
+    }
+  }
 
-      // Build reply message
-      const replySubject = `Re: ${subject.replace(/^Re:\s*/i, '')}`;
-      const messageParts: string[] = [];
-      messageParts.push(`To: ${fromEmail}`);
-      messageParts.push(`Subject: ${encodeSubject(replySubject)}`);
-      if (messageId) {
-        messageParts.push(`In-Reply-To: ${messageId}`);
-        messageParts.push(`References: ${messageId}`);
-      }
-      messageParts.push('Content-Type: text/html; charset=utf-8');
-      messageParts.push('');
-      messageParts.push(replyBody);
-
-      const rawMessage = messageParts.join('\r\n');
-
-      // Encode message
-      const encodedMessage = Buffer.from(rawMessage)
-        .toString('base64')
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
-
-      const response = await gmail.users.messages.send({
+  /**
+   * Send an existing draft
+   */
+  async sendDraft(
+    userId: number,
+    draftId: string,
+    accountId?: number,
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      const gmail = await this.getGmailClient(userId, accountId);
+      const response = await gmail.users.drafts.send({
         userId: 'me',
-        requestBody: {
-          raw: encodedMessage,
-          threadId: originalEmail.threadId || undefined,
-        },
+        requestBody: { id: draftId },
       });
 
       return {
@@ -1135,137 +2585,153 @@ export class GmailService {
         messageId: response.data.id || undefined,
       };
     } catch (error: any) {
-      console.error('Reply email error:', error);
+      console.error('Send draft error:', error);
+      if (error?.code === 404 || error?.response?.status === 404) {
+        return { success: false, error: 'Draft not found' };
+      }
       return {
         success: false,
-        error: error.message || 'Failed to reply to email',
+        error: error.message || 'Failed to send draft',
       };
     }
   }
 
   /**
-   * Forward an email to new recipients
+   * Build the message of a draft
+   * Threading comes from the replied/forwarded email, or from the existing draft on update
    */
-  async forwardEmail(
+  private async composeDraft(
+    gmail: gmail_v1.Gmail,
     userId: number,
-    emailId: number,
-    to: string[],
-    message?: string,
-    cc?: string[],
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    try {
-      // Get original email from database
+    draft: DraftInput,
+    existing: {
+      threadId?: string;
+      inReplyTo?: string;
+      references?: string;
+    } = {},
+  ): Promise<{ message: MimeMessageOptions; threadId?: string }> {
+    if (draft.replyToEmailId && draft.forwardEmailId) {
+      throw new Error('A draft cannot be both a reply and a forward');
+    }
+    assertAttachmentLimits(draft.attachments || []);
+
+    // Only explicitly provided fields override reply/forward defaults
+    const fields: MimeMessageOptions = { attachments: draft.attachments };
+    if (draft.to !== undefined) fields.to = draft.to;
+    if (draft.cc !== undefined) fields.cc = draft.cc;
+    if (draft.bcc !== undefined) fields.bcc = draft.bcc;
+    if (draft.subject !== undefined) fields.subject = draft.subject;
+
+    const sourceEmailId = draft.replyToEmailId || draft.forwardEmailId;
+    if (sourceEmailId) {
       const originalEmail = await this.emailRawRepository.findOne({
-        where: { id: emailId, userId },
+        where: { id: sourceEmailId, userId },
       });
-
       if (!originalEmail) {
-        return { success: false, error: 'Email not found' };
+        throw new Error('Email not found');
+      }
+      if (originalEmail.provider !== MailProviderType.GMAIL) {
+        throw new Error('Drafts are only supported for Gmail accounts');
       }
 
-      // Get original message from Gmail with full content
-      const gmail = await this.getGmailClient(userId);
-      const originalMessage = await gmail.users.messages.get({
-        userId: 'me',
-        id: originalEmail.gmailId,
-        format: 'full',
-      });
-
-      const headers = originalMessage.data.payload?.headers || [];
-      const getHeader = (name: string) =>
-        headers.find((h: any) => h.name === name)?.value || '';
-
-      const originalFrom = getHeader('From');
-      const originalTo = getHeader('To');
-      const originalSubject = getHeader('Subject');
-      const originalDate = getHeader('Date');
-
-      // Extract original body
-      let originalBody = '';
-      const extractBody = (parts: any[]): string => {
-        for (const part of parts) {
-          if (part.mimeType === 'text/html' && part.body?.data) {
-            return Buffer.from(part.body.data, 'base64').toString('utf-8');
-          }
-          if (part.mimeType === 'text/plain' && part.body?.data) {
-            const text = Buffer.from(part.body.data, 'base64').toString('utf-8');
-            return `<pre>${text}</pre>`;
-          }
-          if (part.parts) {
-            const nested = extractBody(part.parts);
-            if (nested) return nested;
-          }
-        }
-        return '';
-      };
+      const composed = draft.replyToEmailId
+        ? await this.composeReply(
+            gmail,
+            originalEmail,
+            draft.body || '',
+            fields,
+          )
+        : await this.composeForward(gmail, originalEmail, {
+            ...fields,
+            message: draft.body,
+          });
 
-      if (originalMessage.data.payload?.body?.data) {
-        originalBody = Buffer.from(originalMessage.data.payload.body.data, 'base64').toString('utf-8');
-      } else if (originalMessage.data.payload?.parts) {
-        originalBody = extractBody(originalMessage.data.payload.parts);
-      }
+      return composed;
+    }
 
-      // Build forward message body
-      const forwardedContent = `
-${message ? `<p>${message}</p><br/>` : ''}
-<div style="border-left: 2px solid #ccc; padding-left: 10px; margin-left: 10px;">
-  <p><strong>---------- Forwarded message ---------</strong></p>
-  <p><strong>From:</strong> ${originalFrom}</p>
-  <p><strong>Date:</strong> ${originalDate}</p>
-  <p><strong>Subject:</strong> ${originalSubject}</p>
-  <p><strong>To:</strong> ${originalTo}</p>
-  <br/>
-  ${originalBody}
-</div>`;
+    return {
+      message: {
+        ...fields,
+        html: draft.body,
+        inReplyTo: existing.inReplyTo || undefined,
+        references: existing.references || undefined,
+      },
+      threadId: existing.threadId || undefined,
+    };
+  }
 
-      // Helper to encode subject with RFC 2047 MIME encoded-word for UTF-8
-      const encodeSubject = (subj: string): string => {
-        if (/[^\x00-\x7F]/.test(subj)) {
-          const encoded = Buffer.from(subj, 'utf-8').toString('base64');
-          return `=?UTF-8?B?${encoded}?=`;
+  /**
+   * Create (or replace when draftId is given) a draft with the composed message
+   * Returns the draft ID
+   */
+  private async saveDraftMessage(
+    gmail: gmail_v1.Gmail,
+    message: MimeMessageOptions,
+    threadId?: string,
+    draftId?: string,
+  ): Promise<string> {
+    const rawMessage = buildMimeMessage(message);
+    const upload = message.attachments?.length
+      ? {
+          requestBody: { id: draftId, message: { threadId } },
+          media: { mimeType: 'message/rfc822', body: rawMessage },
         }
-        return subj;
-      };
-
-      // Build message headers
-      const forwardSubject = `Fwd: ${originalSubject.replace(/^Fwd:\s*/i, '')}`;
-      const messageParts: string[] = [];
-      messageParts.push(`To: ${to.join(', ')}`);
-      if (cc && cc.length > 0) {
-        messageParts.push(`Cc: ${cc.join(', ')}`);
-      }
-      messageParts.push(`Subject: ${encodeSubject(forwardSubject)}`);
-      messageParts.push('Content-Type: text/html; charset=utf-8');
-      messageParts.push('');
-      messageParts.push(forwardedContent);
+      : {
+          requestBody: {
+            id: draftId,
+            message: { raw: toBase64Url(rawMessage), threadId },
+          },
+        };
 
-      const rawMessage = messageParts.join('\r\n');
+    const response = draftId
+      ? await gmail.users.drafts.update({
+          userId: 'me',
+          id: draftId,
+          ...upload,
+        })
+      : await gmail.users.drafts.create({ userId: 'me', ...upload });
 
-      // Encode message
-      const encodedMessage = Buffer.from(rawMessage)
-        .toString('base64')
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
+    return response.data.id!;
+  }
 
-      const response = await gmail.users.messages.send({
-        userId: 'me',
-        requestBody: {
-          raw: encodedMessage,
-        },
-      });
+  /**
+   * Format a Gmail draft for the API
+   */
+  private formatDraft(
+    draft: gmail_v1.Schema$Draft,
+    includeBody: boolean,
+    accountId: number,
+  ): any {
+    const message = draft.message;
+    const payload = message?.payload;
+    const splitAddresses = (value: string): string[] =>
+      value
+        .split(',')
+        .map((address) => address.trim())
+        .filter((address) => !!address);
 
-      return {
-        success: true,
-        messageId: response.data.id || undefined,
-      };
-    } catch (error: any) {
-      console.error('Forward email error:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to forward email',
-      };
-    }
+    return {
+      id: draft.id,
+      accountId,
+      messageId: message?.id,
+      threadId: message?.threadId,
+      to: splitAddresses(getPayloadHeader(payload, 'To')),
+      cc: splitAddresses(getPayloadHeader(payload, 'Cc')),
+      bcc: splitAddresses(getPayloadHeader(payload, 'Bcc')),
+      subject: getPayloadHeader(payload, 'Subject'),
+      snippet: message?.snippet,
+      inReplyTo: getPayloadHeader(payload, 'In-Reply-To') || null,
+      references: getPayloadHeader(payload, 'References') || null,
+      updatedAt: message?.internalDate
+        ? new Date(parseInt(message.internalDate))
+        : null,
+      ...(includeBody
+        ? {
+            body: extractHtmlBody(payload),
+            attachments: listPayloadAttachments(payload),
+          }
+        : {}),
+    };
   }
 
   /**
@@ -1289,8 +2755,6 @@ ${message ? `<p>${message}</p><br/>` : ''}
         return { success: false, error: 'Email not found' };
       }
 
-      const gmail = await this.getGmailClient(userId);
-
       const addLabelIds: string[] = [];
       const removeLabelIds: string[] = [];
 
@@ -1309,15 +2773,23 @@ ${message ? `<p>${message}</p><br/>` : ''}
         removeLabelIds.push(...actions.removeLabelIds);
       }
 
-      await gmail.users.messages.modify({
-        userId: 'me',
-        id: email.gmailId,
-        requestBody: {
-          addLabelIds: addLabelIds.length > 0 ? addLabelIds : undefined,
-          removeLabelIds:
-            removeLabelIds.length > 0 ? removeLabelIds : undefined,
-        },
-      });
+      if (email.provider !== MailProviderType.GMAIL) {
+        // Other providers map labels to flags/folders themselves
+        await this.mailProviderRegistry
+          .forEmail(email)
+          .modifyFlags(email, actions);
+      } else {
+        const gmail = await this.getGmailClient(userId, email.accountId);
+        await gmail.users.messages.modify({
+          userId: 'me',
+          id: email.gmailId,
+          requestBody: {
+            addLabelIds: addLabelIds.length > 0 ? addLabelIds : undefined,
+            removeLabelIds:
+              removeLabelIds.length > 0 ? removeLabelIds : undefined,
+          },
+        });
+      }
 
       // Update local database
       let needsSave = false;
@@ -1351,6 +2823,10 @@ ${message ? `<p>${message}</p><br/>` : ''}
         await this.emailRawRepository.save(email);
       }
 
+      this.mailboxEventsService.emit(userId, MailboxEventType.EMAIL_UPDATED, {
+        emailIds: [email.id],
+      });
+
       return { success: true };
     } catch (error: any) {
       console.error('Modify email error:', error);
@@ -1378,27 +2854,44 @@ ${message ? `<p>${message}</p><br/>` : ''}
         return { success: false, error: 'Email not found' };
       }
 
-      const gmail = await this.getGmailClient(userId);
+      if (email.provider !== MailProviderType.GMAIL) {
+        const provider = this.mailProviderRegistry.forEmail(email);
+        if (permanentDelete) {
+          await provider.delete(email);
+        } else {
+          await provider.move(email, MailFolder.TRASH);
+        }
+      } else {
+        const gmail = await this.getGmailClient(userId, email.accountId);
+        if (permanentDelete) {
+          // Permanently delete the email
+          await gmail.users.messages.delete({
+            userId: 'me',
+            id: email.gmailId,
+          });
+        } else {
+          // Move to trash
+          await gmail.users.messages.trash({
+            userId: 'me',
+            id: email.gmailId,
+          });
+        }
+      }
 
       if (permanentDelete) {
-        // Permanently delete the email
-        await gmail.users.messages.delete({
-          userId: 'me',
-          id: email.gmailId,
-        });
         // Delete from local database
         await this.emailRawRepository.delete({ id: emailId });
       } else {
-        // Move to trash
-        await gmail.users.messages.trash({
-          userId: 'me',
-          id: email.gmailId,
-        });
         // Update local database to reflect trash status
         email.labels = JSON.stringify(['TRASH']);
         await this.emailRawRepository.save(email);
       }
 
+      this.mailboxEventsService.emit(userId, MailboxEventType.EMAIL_DELETED, {
+        emailIds: [emailId],
+        permanent: permanentDelete,
+      });
+
       return { success: true };
     } catch (error: any) {
       console.error('Delete email error:', error);
@@ -1432,24 +2925,31 @@ ${message ? `<p>${message}</p><br/>` : ''}
         return { success: false, error: 'Email not found' };
       }
 
-      const gmail = await this.getGmailClient(userId);
+      let buffer: Buffer;
+      if (email.provider !== MailProviderType.GMAIL) {
+        buffer = await this.mailProviderRegistry
+          .forEmail(email)
+          .getAttachment(email, attachmentId);
+      } else {
+        const gmail = await this.getGmailClient(userId, email.accountId);
 
-      const response = await gmail.users.messages.attachments.get({
-        userId: 'me',
-        messageId: email.gmailId,
-        id: attachmentId,
-      });
+        const response = await gmail.users.messages.attachments.get({
+          userId: 'me',
+          messageId: email.gmailId,
+          id: attachmentId,
+        });
 
-      const attachmentData = response.data.data;
-      if (!attachmentData) {
-        return { success: false, error: 'Attachment data not found' };
-      }
+        const attachmentData = response.data.data;
+        if (!attachmentData) {
+          return { success: false, error: 'Attachment data not found' };
+        }
 
-      // Decode base64url
-      const buffer = Buffer.from(
-        attachmentData.replace(/-/g, '+').replace(/_/g, '/'),
-        'base64',
-      );
+        // Decode base64url
+        buffer = Buffer.from(
+          attachmentData.replace(/-/g, '+').replace(/_/g, '/'),
+          'base64',
+        );
+      }
 
       // Try to get filename from email raw data
       let filename = 'attachment';
@@ -1500,7 +3000,7 @@ ${message ? `<p>${message}</p><br/>` : ''}
 
   /**
    * Update email status (for Kanban drag-and-drop)
-   * Also applies Gmail label if column is mapped to a label
+   * Also applies the Gmail label or Outlook category the column is mapped to
    */
   async updateEmailStatus(
     userId: number,
@@ -1521,6 +3021,7 @@ ${message ? `<p>${message}</p><br/>` : ''}
         where: { userId, statusId: status, isActive: true },
       });
 
+      const previousStatus = email.status;
       email.status = status;
       // If moving out of snoozed, clear snoozeUntil
       if (status !== KanbanStatus.SNOOZED) {
@@ -1529,10 +3030,16 @@ ${message ? `<p>${message}</p><br/>` : ''}
 
       await this.emailRawRepository.save(email);
 
+      this.mailboxEventsService.emit(userId, MailboxEventType.STATUS_CHANGED, {
+        emailId: email.id,
+        status,
+        previousStatus,
+      });
+
       // Apply Gmail label if column is mapped to a label
-      if (column?.gmailLabel) {
+      if (column?.gmailLabel && email.provider === MailProviderType.GMAIL) {
         try {
-          const gmail = await this.getGmailClient(userId);
+          const gmail = await this.getGmailClient(userId, email.accountId);
           const addLabelIds: string[] = [];
           const removeLabelIds: string[] = [];
 
@@ -1563,6 +3070,31 @@ ${message ? `<p>${message}</p><br/>` : ''}
         }
       }
 
+      // Apply Outlook category if column is mapped to a category
+      if (
+        column?.outlookCategory &&
+        email.provider === MailProviderType.OUTLOOK
+      ) {
+        try {
+          const otherColumns = await this.kanbanColumnRepository.find({
+            where: { userId, isActive: true },
+          });
+          const removeLabelIds = otherColumns
+            .map((col) => col.outlookCategory)
+            .filter(
+              (category) => category && category !== column.outlookCategory,
+            );
+
+          await this.mailProviderRegistry.forEmail(email).modifyFlags(email, {
+            addLabelIds: [column.outlookCategory],
+            removeLabelIds,
+          });
+        } catch (outlookError: any) {
+          console.error('Failed to apply Outlook category:', outlookError);
+          // Don't fail the whole operation if the category update fails
+        }
+      }
+
       return { success: true };
     } catch (error: any) {
       console.error('Update email status error:', error);
@@ -1599,6 +3131,11 @@ ${message ? `<p>${message}</p><br/>` : ''}
 
       await this.emailRawRepository.save(email);
 
+      this.mailboxEventsService.emit(userId, MailboxEventType.EMAIL_SNOOZED, {
+        emailId: email.id,
+        snoozeUntil,
+      });
+
       return { success: true };
     } catch (error: any) {
       console.error('Snooze email error:', error);
@@ -1617,6 +3154,8 @@ ${message ? `<p>${message}</p><br/>` : ''}
     status: KanbanStatus,
     page: number = 1,
     limit: number = 50,
+    groupByThread?: boolean,
+    accountId?: number,
   ): Promise<{
     emails: any[];
     total: number;
@@ -1630,6 +3169,7 @@ ${message ? `<p>${message}</p><br/>` : ''}
     const queryBuilder = this.emailRawRepository
       .createQueryBuilder('email')
       .where('email.userId = :userId', { userId })
+      .andWhere(this.accountCondition(accountId), { accountId })
       .andWhere('email.status = :status', { status });
 
     // For snoozed emails, only show those that are still snoozed
@@ -1643,17 +3183,29 @@ ${message ? `<p>${message}</p><br/>` : ''}
       );
     }
 
+    // One card per thread if the user prefers it
+    if (groupByThread === undefined) {
+      groupByThread = (await this.getUserSettings(userId)).groupByThread;
+    }
+    const listQuery = groupByThread
+      ? this.collapseThreads(queryBuilder)
+      : queryBuilder;
+
     // Get total count
-    const total = await queryBuilder.getCount();
+    const total = await listQuery.getCount();
 
     // Get emails with pagination
-    const emails = await queryBuilder
+    const emails = await listQuery
       .orderBy('email.receivedAt', 'DESC')
       .addOrderBy('email.sentAt', 'DESC')
       .skip(skip)
       .take(limit)
       .getMany();
 
+    const threadCounts = groupByThread
+      ? await this.getThreadCounts(userId, emails)
+      : null;
+
     // Format emails with summaries and metadata
     const formattedEmails = await Promise.all(
       emails.map(async (email) => {
@@ -1679,6 +3231,7 @@ ${message ? `<p>${message}</p><br/>` : ''}
 
         return {
           id: email.id,
+          accountId: email.accountId,
           gmailId: email.gmailId,
           threadId: email.threadId,
           from: email.from,
@@ -1699,6 +3252,9 @@ ${message ? `<p>${message}</p><br/>` : ''}
           snoozeUntil: email.snoozeUntil,
           hasAttachment: metadata?.hasAttachment || false,
           attachmentCount,
+          thread: threadCounts
+            ? this.getThreadCount(threadCounts, email)
+            : null,
           summary: summary
             ? {
                 summary: summary.summary,
@@ -1726,13 +3282,17 @@ ${message ? `<p>${message}</p><br/>` : ''}
   /**
    * Get Kanban board with all columns (from database)
    */
-  async getKanbanBoard(userId: number): Promise<{
+  async getKanbanBoard(
+    userId: number,
+    accountId?: number,
+  ): Promise<{
     columns: Array<{
       id: string;
       name: string;
       emails: any[];
       count: number;
       gmailLabel?: string;
+      outlookCategory?: string;
       order: number;
     }>;
   }> {
@@ -1745,10 +3305,19 @@ ${message ? `<p>${message}</p><br/>` : ''}
       order: { order: 'ASC' },
     });
 
+    const { groupByThread } = await this.getUserSettings(userId);
+
     // Build columns with emails
     const columns = await Promise.all(
       userColumns.map(async (col) => {
-        const result = await this.getEmailsByStatus(userId, col.statusId as any, 1, 100);
+        const result = await this.getEmailsByStatus(
+          userId,
+          col.statusId as any,
+          1,
+          100,
+          groupByThread,
+          accountId,
+        );
         return {
           id: col.statusId,
           dbId: col.id, // Database ID for update/delete operations
@@ -1756,6 +3325,7 @@ ${message ? `<p>${message}</p><br/>` : ''}
           emails: result.emails,
           count: result.total,
           gmailLabel: col.gmailLabel || undefined,
+          outlookCategory: col.outlookCategory || undefined,
           order: col.order,
         };
       }),
@@ -1782,8 +3352,26 @@ ${message ? `<p>${message}</p><br/>` : ''}
       })
       .where('status = :status', { status: KanbanStatus.SNOOZED })
       .andWhere('snoozeUntil <= :now', { now })
+      .returning(['id', 'userId'])
       .execute();
 
+    // Notify each owner about their restored emails
+    const restoredByUser = new Map<number, number[]>();
+    for (const row of (result.raw || []) as Array<{
+      id: number;
+      userId: number;
+    }>) {
+      const ids = restoredByUser.get(row.userId) || [];
+      ids.push(row.id);
+      restoredByUser.set(row.userId, ids);
+    }
+    restoredByUser.forEach((emailIds, userId) => {
+      this.mailboxEventsService.emit(userId, MailboxEventType.EMAIL_RESTORED, {
+        emailIds,
+        status: KanbanStatus.INBOX,
+      });
+    });
+
     return { restored: result.affected || 0 };
   }
 
@@ -1817,6 +3405,7 @@ ${message ? `<p>${message}</p><br/>` : ''}
         statusId: col.statusId,
         order: col.order,
         gmailLabel: null,
+        outlookCategory: null,
         isActive: true,
         isDefault: true,
       });
@@ -1846,6 +3435,7 @@ ${message ? `<p>${message}</p><br/>` : ''}
     statusId: string,
     order?: number,
     gmailLabel?: string,
+    outlookCategory?: string,
   ): Promise<KanbanColumn> {
     // Check if statusId already exists
     const existing = await this.kanbanColumnRepository.findOne({
@@ -1872,11 +3462,19 @@ ${message ? `<p>${message}</p><br/>` : ''}
       statusId,
       order,
       gmailLabel: gmailLabel || null,
+      outlookCategory: outlookCategory || null,
       isActive: true,
       isDefault: false,
     });
 
-    return await this.kanbanColumnRepository.save(column);
+    const saved = await this.kanbanColumnRepository.save(column);
+
+    this.mailboxEventsService.emit(userId, MailboxEventType.COLUMN_CHANGED, {
+      action: 'created',
+      column: saved,
+    });
+
+    return saved;
   }
 
   /**
@@ -1889,6 +3487,7 @@ ${message ? `<p>${message}</p><br/>` : ''}
       name?: string;
       order?: number;
       gmailLabel?: string;
+      outlookCategory?: string;
       isActive?: boolean;
     },
   ): Promise<KanbanColumn> {
@@ -1911,11 +3510,21 @@ ${message ? `<p>${message}</p><br/>` : ''}
     if (updates.gmailLabel !== undefined) {
       column.gmailLabel = updates.gmailLabel || null;
     }
+    if (updates.outlookCategory !== undefined) {
+      column.outlookCategory = updates.outlookCategory || null;
+    }
     if (updates.isActive !== undefined) {
       column.isActive = updates.isActive;
     }
 
-    return await this.kanbanColumnRepository.save(column);
+    const saved = await this.kanbanColumnRepository.save(column);
+
+    this.mailboxEventsService.emit(userId, MailboxEventType.COLUMN_CHANGED, {
+      action: 'updated',
+      column: saved,
+    });
+
+    return saved;
   }
 
   /**
@@ -1944,6 +3553,11 @@ ${message ? `<p>${message}</p><br/>` : ''}
 
       await this.kanbanColumnRepository.remove(column);
 
+      this.mailboxEventsService.emit(userId, MailboxEventType.COLUMN_CHANGED, {
+        action: 'deleted',
+        column: { id: columnId, statusId: column.statusId },
+      });
+
       return { success: true };
     } catch (error: any) {
       console.error('Delete Kanban column error:', error);
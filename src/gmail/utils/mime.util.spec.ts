@@ -0,0 +1,109 @@
+import {
+  buildMimeMessage,
+  detectMimeType,
+  toMimeAttachments,
+} from './mime.util';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('buildMimeMessage', () => {
+  it('should build a single-part HTML message without attachments', () => {
+    const raw = buildMimeMessage({
+      to: ['a@example.com'],
+      subject: 'Hello',
+      html: '<p>Hi</p>',
+    });
+    expect(raw).toBe(
+      'To: a@example.com\r\nSubject: Hello\r\nContent-Type: text/html; charset=utf-8\r\n\r\n<p>Hi</p>',
+    );
+  });
+
+  it('should build multipart/mixed with attachments', () => {
+    const raw = buildMimeMessage({
+      to: ['a@example.com'],
+      subject: 'Report',
+      html: '<p>See attached</p>',
+      attachments: [
+        {
+          filename: 'report.pdf',
+          contentType: 'application/pdf',
+          content: Buffer.from('%PDF-1.4'),
+        },
+      ],
+    });
+    expect(raw).toContain('MIME-Version: 1.0');
+    expect(raw).toMatch(/Content-Type: multipart\/mixed; boundary="[^"]+"/);
+    expect(raw).toContain(
+      'Content-Disposition: attachment; filename="report.pdf"',
+    );
+    expect(raw).toContain(Buffer.from('%PDF-1.4').toString('base64'));
+    expect(raw).not.toContain('multipart/related');
+  });
+
+  it('should group inline images with the body in multipart/related', () => {
+    const raw = buildMimeMessage({
+      subject: 'Logo',
+      html: '<img src="cid:logo.png">',
+      attachments: [
+        {
+          filename: 'logo.png',
+          contentType: 'image/png',
+          content: PNG,
+          contentId: 'logo.png',
+          inline: true,
+        },
+      ],
+    });
+    expect(raw).toMatch(/Content-Type: multipart\/related; boundary="[^"]+"/);
+    expect(raw).not.toContain('multipart/mixed');
+    expect(raw).toContain('Content-ID: <logo.png>');
+    expect(raw).toContain('Content-Disposition: inline; filename="logo.png"');
+  });
+});
+
+describe('detectMimeType', () => {
+  it('should prefer the file signature', () => {
+    expect(detectMimeType(PNG, 'image.jpg', 'image/jpeg')).toBe('image/png');
+  });
+
+  it('should use the extension for zip based office documents', () => {
+    const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00]);
+    expect(detectMimeType(zip, 'notes.docx')).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    );
+    expect(detectMimeType(zip, 'archive')).toBe('application/zip');
+  });
+
+  it('should fall back to the declared type', () => {
+    expect(detectMimeType(Buffer.from('x'), 'file', 'text/x-custom')).toBe(
+      'text/x-custom',
+    );
+    expect(detectMimeType(Buffer.from('x'), 'file')).toBe(
+      'application/octet-stream',
+    );
+  });
+});
+
+describe('toMimeAttachments', () => {
+  it('should mark images referenced by cid as inline', () => {
+    const [logo, other] = toMimeAttachments(
+      [
+        {
+          originalname: 'logo.png',
+          mimetype: 'image/png',
+          size: 8,
+          buffer: PNG,
+        },
+        {
+          originalname: 'photo.png',
+          mimetype: 'image/png',
+          size: 8,
+          buffer: PNG,
+        },
+      ],
+      '<img src="cid:logo.png">',
+    );
+    expect(logo).toMatchObject({ inline: true, contentId: 'logo.png' });
+    expect(other).toMatchObject({ inline: false, contentId: undefined });
+  });
+});
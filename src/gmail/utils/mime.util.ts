@@ -0,0 +1,346 @@
+import { randomBytes } from 'crypto';
+import { gmail_v1 } from 'googleapis';
+
+export const MAX_ATTACHMENT_COUNT = 10;
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024; // Gmail's limit for all attachments of a message
+
+/**
+ * File attached to an outgoing message
+ * Inline attachments are referenced from the HTML body as cid:<contentId>
+ */
+export interface MimeAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  contentId?: string;
+  inline?: boolean;
+}
+
+/**
+ * Uploaded file as provided by the multipart interceptor (memory storage)
+ */
+export interface UploadedAttachmentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Fields of an outgoing HTML message
+ */
+export interface MimeMessageOptions {
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject?: string;
+  html?: string;
+  inReplyTo?: string; // Message-ID of the message being answered
+  references?: string; // References chain (space separated Message-IDs)
+  attachments?: MimeAttachment[];
+}
+
+/**
+ * Encode a header value with RFC 2047 MIME encoded-word when it is not ASCII
+ */
+export function encodeHeaderWord(value: string): string {
+  if (/[^\x00-\x7F]/.test(value)) {
+    const encoded = Buffer.from(value, 'utf-8').toString('base64');
+    return `=?UTF-8?B?${encoded}?=`;
+  }
+  return value;
+}
+
+/**
+ * Build an RFC 2822 message with an HTML body
+ * With attachments the body becomes multipart/mixed, inline images are
+ * grouped with the HTML in a multipart/related part
+ */
+export function buildMimeMessage(options: MimeMessageOptions): string {
+  const messageParts: string[] = [];
+  if (options.to && options.to.length > 0) {
+    messageParts.push(`To: ${options.to.join(', ')}`);
+  }
+  if (options.cc && options.cc.length > 0) {
+    messageParts.push(`Cc: ${options.cc.join(', ')}`);
+  }
+  if (options.bcc && options.bcc.length > 0) {
+    messageParts.push(`Bcc: ${options.bcc.join(', ')}`);
+  }
+  messageParts.push(`Subject: ${encodeHeaderWord(options.subject || '')}`);
+  if (options.inReplyTo) {
+    messageParts.push(`In-Reply-To: ${options.inReplyTo}`);
+    messageParts.push(`References: ${options.references || options.inReplyTo}`);
+  }
+
+  const attachments = options.attachments || [];
+  if (attachments.length === 0) {
+    messageParts.push('Content-Type: text/html; charset=utf-8');
+    messageParts.push('');
+    messageParts.push(options.html || '');
+    return messageParts.join('\r\n');
+  }
+
+  const inline = attachments.filter((file) => file.inline && file.contentId);
+  const regular = attachments.filter((file) => !inline.includes(file));
+
+  let body = buildHtmlPart(options.html || '');
+  if (inline.length > 0) {
+    body = buildMultipart('related', [
+      body,
+      ...inline.map(buildAttachmentPart),
+    ]);
+  }
+  if (regular.length > 0) {
+    body = buildMultipart('mixed', [body, ...regular.map(buildAttachmentPart)]);
+  }
+
+  messageParts.push('MIME-Version: 1.0');
+  messageParts.push(body);
+
+  return messageParts.join('\r\n');
+}
+
+/**
+ * Base64 encode with 76 character lines (RFC 2045)
+ */
+export function encodeBase64Lines(content: Buffer): string {
+  return (content.toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+function buildHtmlPart(html: string): string {
+  return [
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Lines(Buffer.from(html, 'utf-8')),
+  ].join('\r\n');
+}
+
+function buildAttachmentPart(file: MimeAttachment): string {
+  const filename = encodeHeaderWord(file.filename).replace(/"/g, '');
+  const headers = [
+    `Content-Type: ${file.contentType}; name="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+  ];
+  if (file.inline && file.contentId) {
+    headers.push(`Content-Disposition: inline; filename="${filename}"`);
+    headers.push(`Content-ID: <${file.contentId}>`);
+  } else {
+    headers.push(`Content-Disposition: attachment; filename="${filename}"`);
+  }
+
+  return [...headers, '', encodeBase64Lines(file.content)].join('\r\n');
+}
+
+/**
+ * Wrap parts (each starting with its headers) into a multipart entity
+ */
+function buildMultipart(subtype: 'mixed' | 'related', parts: string[]): string {
+  const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+const MAGIC_NUMBERS: Array<{ bytes: number[]; offset?: number; type: string }> =
+  [
+    { bytes: [0x25, 0x50, 0x44, 0x46], type: 'application/pdf' }, // %PDF
+    { bytes: [0x89, 0x50, 0x4e, 0x47], type: 'image/png' },
+    { bytes: [0xff, 0xd8, 0xff], type: 'image/jpeg' },
+    { bytes: [0x47, 0x49, 0x46, 0x38], type: 'image/gif' }, // GIF8
+    { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, type: 'image/webp' }, // RIFF....WEBP
+    { bytes: [0x50, 0x4b, 0x03, 0x04], type: 'application/zip' },
+    { bytes: [0x1f, 0x8b], type: 'application/gzip' },
+  ];
+
+const EXTENSION_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  html: 'text/html',
+  ics: 'text/calendar',
+  json: 'application/json',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+/**
+ * Detect the MIME type of a file from its content, then its extension,
+ * then the type declared by the client
+ * Office documents are zip files, so a zip signature defers to the extension
+ */
+export function detectMimeType(
+  content: Buffer,
+  filename: string,
+  declaredType?: string,
+): string {
+  const extension = filename.includes('.')
+    ? filename.split('.').pop()!.toLowerCase()
+    : '';
+  const byExtension = EXTENSION_TYPES[extension];
+
+  const sniffed = MAGIC_NUMBERS.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, index) => content[offset + index] === byte),
+  )?.type;
+
+  if (sniffed && !(sniffed === 'application/zip' && byExtension)) {
+    return sniffed;
+  }
+  if (byExtension) {
+    return byExtension;
+  }
+  if (declaredType && declaredType !== 'application/octet-stream') {
+    return declaredType;
+  }
+  return 'application/octet-stream';
+}
+
+/**
+ * Convert uploaded files to attachments
+ * A file is sent inline when the HTML body references it as cid:<filename>
+ */
+export function toMimeAttachments(
+  files: UploadedAttachmentFile[] | undefined,
+  html: string = '',
+): MimeAttachment[] {
+  return (files || []).map((file) => {
+    const contentType = detectMimeType(
+      file.buffer,
+      file.originalname,
+      file.mimetype,
+    );
+    const inline =
+      contentType.startsWith('image/') &&
+      html.includes(`cid:${file.originalname}`);
+
+    return {
+      filename: file.originalname,
+      contentType,
+      content: file.buffer,
+      contentId: inline ? file.originalname : undefined,
+      inline,
+    };
+  });
+}
+
+/**
+ * Throw when attachments exceed the count or total size limits
+ */
+export function assertAttachmentLimits(attachments: MimeAttachment[]): void {
+  if (attachments.length > MAX_ATTACHMENT_COUNT) {
+    throw new Error(`Too many attachments (maximum ${MAX_ATTACHMENT_COUNT})`);
+  }
+  const totalBytes = attachments.reduce(
+    (sum, file) => sum + file.content.length,
+    0,
+  );
+  if (totalBytes > MAX_ATTACHMENT_BYTES) {
+    throw new Error(
+      `Attachments exceed the ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB limit`,
+    );
+  }
+}
+
+/**
+ * Encode a raw message as base64url for the Gmail API `raw` field
+ */
+export function toBase64Url(rawMessage: string): string {
+  return Buffer.from(rawMessage)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Read a header from a Gmail message payload (case-insensitive)
+ */
+export function getPayloadHeader(
+  payload: gmail_v1.Schema$MessagePart | undefined,
+  name: string,
+): string {
+  const header = (payload?.headers || []).find(
+    (h) => h.name?.toLowerCase() === name.toLowerCase(),
+  );
+  return header?.value || '';
+}
+
+/**
+ * Attachment info (without content) of a Gmail message payload
+ */
+export function listPayloadAttachments(
+  payload: gmail_v1.Schema$MessagePart | undefined,
+): Array<{ filename: string; mimeType: string; size: number }> {
+  const attachments: Array<{
+    filename: string;
+    mimeType: string;
+    size: number;
+  }> = [];
+  const collect = (part: gmail_v1.Schema$MessagePart | undefined) => {
+    if (!part) return;
+    if (part.filename) {
+      attachments.push({
+        filename: part.filename,
+        mimeType: part.mimeType || 'application/octet-stream',
+        size: part.body?.size || 0,
+      });
+    }
+    (part.parts || []).forEach(collect);
+  };
+  collect(payload);
+  return attachments;
+}
+
+/**
+ * Extract the body of a Gmail message payload as HTML
+ * Prefers text/html, wraps text/plain in <pre>
+ */
+export function extractHtmlBody(
+  payload: gmail_v1.Schema$MessagePart | undefined,
+): string {
+  if (!payload) {
+    return '';
+  }
+
+  if (payload.body?.data) {
+    const content = Buffer.from(payload.body.data, 'base64').toString('utf-8');
+    return payload.mimeType === 'text/plain'
+      ? `<pre>${content}</pre>`
+      : content;
+  }
+
+  const extractBody = (parts: gmail_v1.Schema$MessagePart[]): string => {
+    for (const part of parts) {
+      if (part.mimeType === 'text/html' && part.body?.data) {
+        return Buffer.from(part.body.data, 'base64').toString('utf-8');
+      }
+      if (part.mimeType === 'text/plain' && part.body?.data) {
+        const text = Buffer.from(part.body.data, 'base64').toString('utf-8');
+        return `<pre>${text}</pre>`;
+      }
+      if (part.parts) {
+        const nested = extractBody(part.parts);
+        if (nested) return nested;
+      }
+    }
+    return '';
+  };
+
+  return payload.parts ? extractBody(payload.parts) : '';
+}
@@ -0,0 +1,45 @@
+import {
+  buildPubSubPushPayload,
+  isValidPushToken,
+  parsePubSubPushPayload,
+} from './pubsub.util';
+
+describe('parsePubSubPushPayload', () => {
+  it('should decode a Gmail notification', () => {
+    const body = buildPubSubPushPayload({
+      emailAddress: 'User@Example.com',
+      historyId: '9876',
+    });
+    expect(parsePubSubPushPayload(body)).toEqual({
+      emailAddress: 'user@example.com',
+      historyId: '9876',
+    });
+  });
+
+  it('should accept numeric history ids', () => {
+    const data = Buffer.from(
+      JSON.stringify({ emailAddress: 'a@b.com', historyId: 42 }),
+    ).toString('base64');
+    expect(parsePubSubPushPayload({ message: { data } })?.historyId).toBe('42');
+  });
+
+  it('should return null for malformed payloads', () => {
+    expect(parsePubSubPushPayload(undefined)).toBeNull();
+    expect(parsePubSubPushPayload({ message: {} })).toBeNull();
+    expect(
+      parsePubSubPushPayload({ message: { data: 'not-json' } }),
+    ).toBeNull();
+    const data = Buffer.from(JSON.stringify({ foo: 'bar' })).toString('base64');
+    expect(parsePubSubPushPayload({ message: { data } })).toBeNull();
+  });
+});
+
+describe('isValidPushToken', () => {
+  it('should only accept the configured token', () => {
+    expect(isValidPushToken('secret-token', 'secret-token')).toBe(true);
+    expect(isValidPushToken('secret-tokem', 'secret-token')).toBe(false);
+    expect(isValidPushToken('secret', 'secret-token')).toBe(false);
+    expect(isValidPushToken(undefined, 'secret-token')).toBe(false);
+    expect(isValidPushToken('secret-token', undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Gmail notification carried in a Pub/Sub push message
+ */
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+/**
+ * Decode a Pub/Sub push request body into a Gmail notification
+ * Body shape: { message: { data: base64(JSON), messageId, publishTime }, subscription }
+ * Returns null when the payload is not a Gmail notification
+ */
+export function parsePubSubPushPayload(
+  body: any,
+): GmailPushNotification | null {
+  const data = body?.message?.data;
+  if (!data || typeof data !== 'string') {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(data, 'base64').toString('utf-8'));
+    if (!decoded?.emailAddress || decoded.historyId === undefined) {
+      return null;
+    }
+
+    return {
+      emailAddress: String(decoded.emailAddress).toLowerCase(),
+      historyId: String(decoded.historyId),
+    };
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Build a Pub/Sub push request body (used by the local push simulator)
+ */
+export function buildPubSubPushPayload(
+  notification: GmailPushNotification,
+  subscription: string = 'projects/local/subscriptions/gmail-push',
+): any {
+  return {
+    message: {
+      data: Buffer.from(JSON.stringify(notification)).toString('base64'),
+      messageId: `local-${Date.now()}`,
+      publishTime: new Date().toISOString(),
+    },
+    subscription,
+  };
+}
+
+/**
+ * Whether a push request carries the configured verification token
+ * Compares SHA-256 digests, so the buffers have equal length and the time
+ * taken does not depend on the token
+ */
+export function isValidPushToken(
+  token: string | undefined,
+  expectedToken: string | undefined,
+): boolean {
+  if (!token || !expectedToken) {
+    return false;
+  }
+  const digest = (value: string): Buffer =>
+    createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(expectedToken));
+}
@@ -0,0 +1,65 @@
+import { mergeThreadSummaries, parseAddress } from './thread.util';
+
+const summary = (overrides: Record<string, any> = {}) => ({
+  summary: 'Summary',
+  keyPoints: [],
+  sentiment: 'neutral',
+  category: 'work',
+  priority: 'medium',
+  ...overrides,
+});
+
+describe('mergeThreadSummaries', () => {
+  it('should return null when nothing is summarized', () => {
+    expect(mergeThreadSummaries([null, null])).toBeNull();
+  });
+
+  it('should merge summaries of a thread', () => {
+    const merged = mergeThreadSummaries([
+      summary({
+        summary: 'Asks for a quote',
+        keyPoints: ['Needs quote'],
+        priority: 'high',
+      }),
+      null,
+      summary({
+        summary: 'Quote sent',
+        keyPoints: ['Quote attached', 'needs quote'],
+        sentiment: 'positive',
+        category: 'sales',
+        priority: 'low',
+      }),
+    ]);
+
+    expect(merged).toEqual({
+      summary: 'Asks for a quote\nQuote sent',
+      keyPoints: ['Quote attached', 'needs quote'],
+      sentiment: 'positive',
+      category: 'sales',
+      priority: 'high',
+      summarizedMessages: 2,
+    });
+  });
+
+  it('should pick the most frequent category', () => {
+    const merged = mergeThreadSummaries([
+      summary({ category: 'work' }),
+      summary({ category: 'work' }),
+      summary({ category: 'personal' }),
+    ]);
+    expect(merged?.category).toBe('work');
+  });
+});
+
+describe('parseAddress', () => {
+  it('should split name and address', () => {
+    expect(parseAddress('"Jane Doe" <jane@example.com>')).toEqual({
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+    });
+    expect(parseAddress('jane@example.com')).toEqual({
+      name: 'jane@example.com',
+      email: 'jane@example.com',
+    });
+  });
+});
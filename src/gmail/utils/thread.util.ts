@@ -0,0 +1,93 @@
+/**
+ * Per-message AI summary as returned by the email list/detail endpoints
+ */
+export interface MessageSummary {
+  summary: string;
+  keyPoints: string[];
+  sentiment: string;
+  category: string;
+  priority: string;
+}
+
+export interface ThreadSummary extends MessageSummary {
+  summarizedMessages: number;
+}
+
+const PRIORITY_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 };
+const MAX_SUMMARY_PARTS = 5;
+const MAX_KEY_POINTS = 10;
+
+/**
+ * Split an address header value ("Name <a@b.com>" or "a@b.com") into parts
+ */
+export function parseAddress(value: string): { name: string; email: string } {
+  const match = value.match(/(.*?)\s*<(.+?)>|(.+)/);
+  const name = (match?.[1] || match?.[3] || value).trim().replace(/^"|"$/g, '');
+  const email = (match?.[2] || match?.[3] || value).trim();
+  return { name: name || email, email };
+}
+
+/**
+ * Combine the summaries of a thread's messages (oldest first) into one
+ * - summary: the latest message summaries, oldest first
+ * - keyPoints: de-duplicated, newest first
+ * - priority: the highest of the thread
+ * - sentiment: the latest message's
+ * - category: the most frequent, ties go to the latest
+ * Returns null when no message has been summarized yet
+ */
+export function mergeThreadSummaries(
+  summaries: Array<MessageSummary | null>,
+): ThreadSummary | null {
+  const available = summaries.filter((s): s is MessageSummary => !!s);
+  if (available.length === 0) {
+    return null;
+  }
+
+  const latest = available[available.length - 1];
+
+  const keyPoints: string[] = [];
+  const seenPoints = new Set<string>();
+  for (const item of [...available].reverse()) {
+    for (const point of item.keyPoints || []) {
+      const key = point.trim().toLowerCase();
+      if (!key || seenPoints.has(key)) continue;
+      seenPoints.add(key);
+      keyPoints.push(point.trim());
+    }
+  }
+
+  let priority = latest.priority;
+  const categoryCounts = new Map<string, number>();
+  for (const item of available) {
+    if (
+      (PRIORITY_RANK[item.priority] ?? -1) > (PRIORITY_RANK[priority] ?? -1)
+    ) {
+      priority = item.priority;
+    }
+    categoryCounts.set(
+      item.category,
+      (categoryCounts.get(item.category) || 0) + 1,
+    );
+  }
+
+  let category = latest.category;
+  categoryCounts.forEach((count, name) => {
+    if (count > (categoryCounts.get(category) || 0)) {
+      category = name;
+    }
+  });
+
+  return {
+    summary: available
+      .slice(-MAX_SUMMARY_PARTS)
+      .map((item) => item.summary)
+      .filter((text) => !!text)
+      .join('\n'),
+    keyPoints: keyPoints.slice(0, MAX_KEY_POINTS),
+    sentiment: latest.sentiment,
+    category,
+    priority,
+    summarizedMessages: available.length,
+  };
+}
@@ -0,0 +1,77 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO for linking an IMAP/SMTP account
+ * Both logins are checked before the account is saved
+ */
+export class ConnectImapAccountDto {
+  @ApiProperty({
+    description: 'Email address of the mailbox, used as sender',
+    example: 'me@example.com',
+  })
+  @IsEmail({}, { message: 'email must be a valid email address' })
+  email: string;
+
+  @ApiProperty({ description: 'IMAP server', example: 'imap.example.com' })
+  @IsString()
+  @IsNotEmpty()
+  imapHost: string;
+
+  @ApiPropertyOptional({ description: 'IMAP port', example: 993, default: 993 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  imapPort?: number;
+
+  @ApiPropertyOptional({
+    description: 'Implicit TLS; when false STARTTLS is used if offered',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  imapSecure?: boolean;
+
+  @ApiProperty({ description: 'SMTP server', example: 'smtp.example.com' })
+  @IsString()
+  @IsNotEmpty()
+  smtpHost: string;
+
+  @ApiPropertyOptional({ description: 'SMTP port', example: 465, default: 465 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  smtpPort?: number;
+
+  @ApiPropertyOptional({
+    description: 'Implicit TLS; when false STARTTLS is used if offered',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  smtpSecure?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Login for IMAP and SMTP (defaults to the email address)',
+    example: 'me@example.com',
+  })
+  @IsOptional()
+  @IsString()
+  username?: string;
+
+  @ApiProperty({ description: 'Password or app password' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
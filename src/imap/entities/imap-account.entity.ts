@@ -0,0 +1,80 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * IMAP/SMTP account entity for mailboxes outside Gmail
+ * Incremental sync is tracked per INBOX with UIDVALIDITY and the last seen UID
+ */
+@Entity('imap_accounts')
+@Index(['userId', 'email'], { unique: true }) // Each mailbox linked once per user
+export class ImapAccount {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 255 })
+  email: string; // Address used as sender
+
+  @Column({ type: 'varchar', length: 255 })
+  imapHost: string;
+
+  @Column({ type: 'int', default: 993 })
+  imapPort: number;
+
+  @Column({ type: 'boolean', default: true })
+  imapSecure: boolean; // Implicit TLS; otherwise STARTTLS when offered
+
+  @Column({ type: 'varchar', length: 255 })
+  smtpHost: string;
+
+  @Column({ type: 'int', default: 465 })
+  smtpPort: number;
+
+  @Column({ type: 'boolean', default: true })
+  smtpSecure: boolean; // Implicit TLS; otherwise STARTTLS when offered
+
+  @Column({ type: 'varchar', length: 255 })
+  username: string; // Login for both IMAP and SMTP
+
+  @Column({ type: 'text' })
+  password: string; // Password or app password (encrypted)
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  encryptionKeyId: string; // Master key encryptedDataKey is wrapped with (null: stored in plaintext)
+
+  @Column({ type: 'text', nullable: true })
+  encryptedDataKey: string; // Data key the password is encrypted with, wrapped
+
+  @Column({ type: 'bigint', nullable: true })
+  uidValidity: string; // INBOX UIDVALIDITY of the last sync
+
+  @Column({ type: 'bigint', default: 0 })
+  lastUid: string; // Highest INBOX UID already stored
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastSyncedAt: Date; // When the last successful sync finished
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string; // Error of the last failed sync
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
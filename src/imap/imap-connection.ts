@@ -0,0 +1,385 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import {
+  ImapValue,
+  findResponseEnd,
+  parseFetchAttributes,
+  parseImapValues,
+  quoteImapString,
+} from './utils/imap-response.util';
+
+/**
+ * Server and credentials of an IMAP account
+ */
+export interface ImapConnectionOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (993); otherwise STARTTLS when offered
+  username: string;
+  password: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Mailbox of a LIST response
+ */
+export interface ImapMailbox {
+  name: string;
+  flags: string[]; // Includes RFC 6154 special-use flags (\Archive, \Trash, \Junk, \Sent)
+}
+
+interface PendingCommand {
+  tag: string;
+  untagged: Buffer[];
+  resolve: (result: { untagged: Buffer[]; text: string }) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Minimal IMAP4rev1 client: one connection, one command at a time
+ * Covers what mail sync needs (SELECT, UID SEARCH/FETCH/STORE/MOVE, LIST)
+ * Mailbox names are expected to be ASCII (no modified UTF-7)
+ */
+export class ImapConnection {
+  private socket: net.Socket | tls.TLSSocket;
+  private buffer = Buffer.alloc(0);
+  private tagCounter = 0;
+  private pending: PendingCommand | null = null;
+  private greeting: PendingCommand | null = null;
+  private closedError: Error | null = null;
+  private capabilities = new Set<string>();
+
+  private constructor(private readonly options: ImapConnectionOptions) {}
+
+  /**
+   * Connect, upgrade to TLS when needed and log in
+   */
+  static async open(options: ImapConnectionOptions): Promise<ImapConnection> {
+    const connection = new ImapConnection(options);
+    await connection.connect();
+    return connection;
+  }
+
+  private async connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+
+    const greeting = new Promise<{ untagged: Buffer[]; text: string }>(
+      (resolve, reject) => {
+        this.greeting = { tag: '*', untagged: [], resolve, reject };
+      },
+    );
+    this.attach(
+      secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port }),
+    );
+    await greeting;
+
+    await this.refreshCapabilities();
+    if (!secure && this.capabilities.has('STARTTLS')) {
+      await this.command('STARTTLS');
+      this.attach(
+        tls.connect({ socket: this.socket, servername: host }),
+        false,
+      );
+      await this.refreshCapabilities();
+    }
+
+    await this.command(
+      `LOGIN ${quoteImapString(this.options.username)} ${quoteImapString(this.options.password)}`,
+    );
+    await this.refreshCapabilities();
+  }
+
+  /**
+   * Whether the server announced a capability (e.g. MOVE, UIDPLUS)
+   */
+  hasCapability(name: string): boolean {
+    return this.capabilities.has(name.toUpperCase());
+  }
+
+  /**
+   * Run a command, resolves with its untagged responses
+   * Throws when the server answers NO or BAD
+   */
+  command(command: string): Promise<{ untagged: Buffer[]; text: string }> {
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+    if (this.pending) {
+      return Promise.reject(new Error('IMAP command already in progress'));
+    }
+
+    const tag = `A${++this.tagCounter}`;
+    return new Promise((resolve, reject) => {
+      this.pending = { tag, untagged: [], resolve, reject };
+      this.socket.write(`${tag} ${command}\r\n`);
+    });
+  }
+
+  /**
+   * Open a mailbox read-write
+   */
+  async select(
+    mailbox: string,
+  ): Promise<{ uidValidity: string; uidNext: number | null; exists: number }> {
+    const { untagged } = await this.command(
+      `SELECT ${quoteImapString(mailbox)}`,
+    );
+
+    let uidValidity = '';
+    let uidNext: number | null = null;
+    let exists = 0;
+    for (const line of untagged) {
+      const text = line.toString('latin1');
+      const validity = text.match(/\[UIDVALIDITY (\d+)\]/i);
+      const next = text.match(/\[UIDNEXT (\d+)\]/i);
+      const count = text.match(/^\* (\d+) EXISTS/i);
+      if (validity) uidValidity = validity[1];
+      if (next) uidNext = parseInt(next[1], 10);
+      if (count) exists = parseInt(count[1], 10);
+    }
+
+    return { uidValidity, uidNext, exists };
+  }
+
+  /**
+   * UID SEARCH, e.g. "UID 100:*" or "HEADER Message-ID <id@host>"
+   */
+  async uidSearch(criteria: string): Promise<number[]> {
+    const { untagged } = await this.command(`UID SEARCH ${criteria}`);
+    const uids: number[] = [];
+    for (const line of untagged) {
+      const match = line.toString('latin1').match(/^\* SEARCH(.*)$/im);
+      if (match) {
+        match[1]
+          .trim()
+          .split(/\s+/)
+          .filter((uid) => !!uid)
+          .forEach((uid) => uids.push(parseInt(uid, 10)));
+      }
+    }
+    return uids;
+  }
+
+  /**
+   * UID FETCH, returns the attributes of every message
+   */
+  async uidFetch(
+    sequenceSet: string,
+    items: string,
+  ): Promise<Array<Record<string, ImapValue>>> {
+    const { untagged } = await this.command(
+      `UID FETCH ${sequenceSet} (${items})`,
+    );
+
+    const messages: Array<Record<string, ImapValue>> = [];
+    for (const response of untagged) {
+      const values = parseImapValues(response);
+      // * <seq> FETCH (...)
+      if (
+        typeof values[2] === 'string' &&
+        values[2].toUpperCase() === 'FETCH' &&
+        Array.isArray(values[3])
+      ) {
+        messages.push(parseFetchAttributes(values[3]));
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Add or remove flags of a message
+   */
+  async uidStore(
+    uid: number,
+    operation: '+FLAGS' | '-FLAGS',
+    flags: string[],
+  ): Promise<void> {
+    if (flags.length === 0) return;
+    await this.command(
+      `UID STORE ${uid} ${operation}.SILENT (${flags.join(' ')})`,
+    );
+  }
+
+  /**
+   * Move a message to another mailbox
+   * Returns its UID in the target mailbox when the server reports it (UIDPLUS)
+   */
+  async uidMove(uid: number, mailbox: string): Promise<number | null> {
+    const target = quoteImapString(mailbox);
+    let result: { untagged: Buffer[]; text: string };
+
+    if (this.hasCapability('MOVE')) {
+      result = await this.command(`UID MOVE ${uid} ${target}`);
+    } else {
+      result = await this.command(`UID COPY ${uid} ${target}`);
+      await this.uidDelete(uid);
+    }
+
+    // [COPYUID <uidvalidity> <source uids> <target uids>]
+    const copyUid = [result.text, ...result.untagged.map((b) => b.toString())]
+      .join('\n')
+      .match(/\[COPYUID \d+ \S+ (\d+)\]/i);
+    return copyUid ? parseInt(copyUid[1], 10) : null;
+  }
+
+  /**
+   * Flag a message \Deleted and expunge it
+   */
+  async uidDelete(uid: number): Promise<void> {
+    await this.uidStore(uid, '+FLAGS', ['\\Deleted']);
+    // Without UIDPLUS, EXPUNGE also removes other messages flagged \Deleted
+    await this.command(
+      this.hasCapability('UIDPLUS') ? `UID EXPUNGE ${uid}` : 'EXPUNGE',
+    );
+  }
+
+  /**
+   * List all mailboxes with their flags
+   */
+  async list(): Promise<ImapMailbox[]> {
+    const { untagged } = await this.command('LIST "" "*"');
+    const mailboxes: ImapMailbox[] = [];
+
+    for (const response of untagged) {
+      // * LIST (\HasNoChildren \Trash) "/" "Trash"
+      const values = parseImapValues(response);
+      if (
+        typeof values[1] === 'string' &&
+        values[1].toUpperCase() === 'LIST' &&
+        Array.isArray(values[2])
+      ) {
+        const name = values[4];
+        mailboxes.push({
+          name: Buffer.isBuffer(name)
+            ? name.toString('utf-8')
+            : typeof name === 'string'
+              ? name
+              : '',
+          flags: values[2].filter(
+            (flag): flag is string => typeof flag === 'string',
+          ),
+        });
+      }
+    }
+
+    return mailboxes;
+  }
+
+  /**
+   * Log out and close the connection
+   */
+  async logout(): Promise<void> {
+    try {
+      if (!this.closedError) {
+        await this.command('LOGOUT');
+      }
+    } catch (error) {
+      // Connection is closed below anyway
+    } finally {
+      this.socket.destroy();
+    }
+  }
+
+  private async refreshCapabilities(): Promise<void> {
+    const { untagged } = await this.command('CAPABILITY');
+    this.capabilities.clear();
+    for (const line of untagged) {
+      const match = line.toString('latin1').match(/^\* CAPABILITY (.*)$/im);
+      if (match) {
+        match[1]
+          .trim()
+          .split(/\s+/)
+          .forEach((capability) =>
+            this.capabilities.add(capability.toUpperCase()),
+          );
+      }
+    }
+  }
+
+  /**
+   * Read from a (new) socket; the old socket's listeners are dropped on upgrade
+   */
+  private attach(
+    socket: net.Socket | tls.TLSSocket,
+    resetBuffer: boolean = true,
+  ): void {
+    if (this.socket) {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('error');
+      this.socket.removeAllListeners('close');
+      this.socket.removeAllListeners('timeout');
+    }
+    if (resetBuffer) {
+      this.buffer = Buffer.alloc(0);
+    }
+
+    this.socket = socket;
+    socket.setTimeout(this.options.timeoutMs || DEFAULT_TIMEOUT_MS);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('timeout', () => {
+      socket.destroy(new Error('IMAP connection timed out'));
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('IMAP connection closed')));
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (true) {
+      const end = findResponseEnd(this.buffer);
+      if (end === -1) return;
+
+      const response = this.buffer.subarray(0, end);
+      this.buffer = this.buffer.subarray(end);
+      this.handleResponse(response);
+    }
+  }
+
+  private handleResponse(response: Buffer): void {
+    const text = response.toString('latin1');
+
+    if (this.greeting) {
+      const greeting = this.greeting;
+      this.greeting = null;
+      if (/^\* (OK|PREAUTH)/i.test(text)) {
+        greeting.resolve({ untagged: [], text });
+      } else {
+        greeting.reject(new Error(`IMAP server refused: ${text.trim()}`));
+      }
+      return;
+    }
+
+    const pending = this.pending;
+    if (!pending) return;
+
+    if (text.startsWith('* ')) {
+      pending.untagged.push(response);
+      return;
+    }
+
+    if (text.startsWith(`${pending.tag} `)) {
+      this.pending = null;
+      const status = text.substring(pending.tag.length + 1).trim();
+      if (/^OK/i.test(status)) {
+        pending.resolve({ untagged: pending.untagged, text: status });
+      } else {
+        pending.reject(new Error(`IMAP error: ${status}`));
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.closedError) return;
+    this.closedError = error;
+
+    const waiting = [this.greeting, this.pending];
+    this.greeting = null;
+    this.pending = null;
+    waiting.forEach((command) => command?.reject(error));
+  }
+}
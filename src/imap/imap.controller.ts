@@ -0,0 +1,170 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ImapService } from './imap.service';
+import { ConnectImapAccountDto } from './dto/connect-imap-account.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TBaseDTO } from '../common/dto/base.dto';
+import { GGJParseIntPipe } from '../common/pipes/parse-int.pipe';
+
+/**
+ * Controller for IMAP/SMTP accounts
+ * Their mail is stored with the Gmail mail and served by the /gmail endpoints
+ */
+@ApiTags('IMAP')
+@Controller('imap')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class ImapController {
+  constructor(private readonly imapService: ImapService) {}
+
+  /**
+   * Link an IMAP/SMTP account
+   */
+  @Post('accounts')
+  @ApiOperation({
+    summary: 'Link an IMAP/SMTP account',
+    description:
+      'IMAP and SMTP logins are checked first. Linking an address again updates its settings. ' +
+      'New INBOX mail is synced every 5 minutes.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Account linked successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async connectAccount(
+    @Request() req: any,
+    @Body() connectImapAccountDto: ConnectImapAccountDto,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const account = await this.imapService.connectAccount(
+        req.user.userId,
+        connectImapAccountDto,
+      );
+      return new TBaseDTO<any>(account, 'IMAP account linked successfully');
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to link IMAP account',
+      );
+    }
+  }
+
+  /**
+   * List linked IMAP accounts
+   */
+  @Get('accounts')
+  @ApiOperation({ summary: 'List linked IMAP accounts' })
+  @ApiResponse({
+    status: 200,
+    description: 'Accounts retrieved successfully',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listAccounts(@Request() req: any): Promise<TBaseDTO<any[]>> {
+    try {
+      const accounts = await this.imapService.listAccounts(req.user.userId);
+      return new TBaseDTO<any[]>(accounts);
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to list IMAP accounts',
+      );
+    }
+  }
+
+  /**
+   * Unlink an IMAP account
+   */
+  @Delete('accounts/:id')
+  @ApiOperation({
+    summary: 'Unlink an IMAP account',
+    description: 'Stored emails of the account are kept.',
+  })
+  @ApiParam({ name: 'id', description: 'IMAP account ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Account unlinked successfully',
+    type: TBaseDTO<null>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async removeAccount(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) accountId: number,
+  ): Promise<TBaseDTO<null>> {
+    try {
+      await this.imapService.removeAccount(req.user.userId, accountId);
+      return new TBaseDTO<null>(null, 'IMAP account unlinked successfully');
+    } catch (error: any) {
+      return new TBaseDTO<null>(
+        undefined,
+        undefined,
+        error.message || 'Failed to unlink IMAP account',
+      );
+    }
+  }
+
+  /**
+   * Sync an IMAP account now
+   */
+  @Post('accounts/:id/sync')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Fetch new INBOX mail of an IMAP account now' })
+  @ApiParam({ name: 'id', description: 'IMAP account ID', type: Number })
+  @ApiQuery({
+    name: 'maxResults',
+    required: false,
+    type: Number,
+    description: 'Maximum number of new emails to store (default 50)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Account synced',
+    type: TBaseDTO<{ count: number }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async syncAccount(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) accountId: number,
+    @Query('maxResults') maxResults?: string,
+  ): Promise<TBaseDTO<{ count: number }>> {
+    const result = await this.imapService.fetch(req.user.userId, {
+      accountId,
+      maxResults: maxResults ? parseInt(maxResults, 10) : undefined,
+    });
+
+    if (result.success) {
+      return new TBaseDTO<{ count: number }>(
+        { count: result.count },
+        result.message,
+      );
+    }
+    return new TBaseDTO<{ count: number }>(
+      undefined,
+      undefined,
+      result.message || 'Failed to sync IMAP account',
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ImapService } from './imap.service';
+import { ImapController } from './imap.controller';
+import { ImapAccount } from './entities/imap-account.entity';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { GmailModule } from '../gmail/gmail.module';
+import { KafkaModule } from '../kafka/kafka.module';
+import { EventsModule } from '../events/events.module';
+import { MailModule } from '../mail/mail.module';
+import { CryptoModule } from '../common/crypto/crypto.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ImapAccount, EmailRaw]),
+    GmailModule,
+    KafkaModule,
+    EventsModule,
+    MailModule,
+    CryptoModule,
+  ],
+  controllers: [ImapController],
+  providers: [ImapService],
+  exports: [ImapService],
+})
+export class ImapModule {}
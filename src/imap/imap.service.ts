@@ -0,0 +1,804 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { ImapAccount } from './entities/imap-account.entity';
+import { ImapConnection } from './imap-connection';
+import { SmtpConnection } from './smtp-connection';
+import {
+  decodeTransferEncoding,
+  parseRawMessage,
+} from './utils/mime-parser.util';
+import { ImapValue, quoteImapString } from './utils/imap-response.util';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { GmailService } from '../gmail/gmail.service';
+import {
+  MimeMessageOptions,
+  assertAttachmentLimits,
+  buildMimeMessage,
+  getPayloadHeader,
+} from '../gmail/utils/mime.util';
+import { parseAddress } from '../gmail/utils/thread.util';
+import { KafkaService } from '../kafka/kafka.service';
+import {
+  MailboxEventsService,
+  MailboxEventType,
+} from '../events/mailbox-events.service';
+import { MailProviderRegistry } from '../mail/mail-provider.registry';
+import { TokenEncryptionService } from '../common/crypto/token-encryption.service';
+import {
+  MailFlagChanges,
+  MailFolder,
+  MailProvider,
+  MailProviderType,
+} from '../mail/mail-provider.interface';
+
+/**
+ * Connection settings of an IMAP/SMTP account
+ */
+export interface ImapAccountInput {
+  email: string;
+  imapHost: string;
+  imapPort?: number;
+  imapSecure?: boolean;
+  smtpHost: string;
+  smtpPort?: number;
+  smtpSecure?: boolean;
+  username?: string; // Defaults to the email address
+  password: string;
+}
+
+/**
+ * Where a stored message lives on the server (kept in rawData.imap)
+ * uidValidity is null after a move reported without UIDVALIDITY
+ */
+interface ImapMessageRef {
+  mailbox: string;
+  uid: number | null;
+  uidValidity: string | null;
+}
+
+/**
+ * Special-use flag (RFC 6154) and common names of each folder
+ */
+const FOLDER_NAMES: Record<
+  Exclude<MailFolder, MailFolder.INBOX>,
+  { flag: string; names: string[] }
+> = {
+  [MailFolder.ARCHIVE]: {
+    flag: '\\Archive',
+    names: ['Archive', 'Archives', 'INBOX.Archive'],
+  },
+  [MailFolder.TRASH]: {
+    flag: '\\Trash',
+    names: ['Trash', 'Deleted Items', 'Deleted Messages', 'INBOX.Trash'],
+  },
+  [MailFolder.SPAM]: {
+    flag: '\\Junk',
+    names: ['Junk', 'Spam', 'Junk E-mail', 'INBOX.Junk', 'INBOX.Spam'],
+  },
+};
+
+/**
+ * Generic IMAP/SMTP mail provider
+ * Syncs the INBOX of linked accounts by UID (new mail since the last seen UID),
+ * maps flags to Gmail labels (\Seen => UNREAD, \Flagged => STARRED) and
+ * folders to moves, and sends through SMTP
+ */
+@Injectable()
+export class ImapService
+  implements MailProvider, OnModuleInit, OnModuleDestroy
+{
+  readonly type = MailProviderType.IMAP;
+  private readonly SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+  private readonly DEFAULT_MAX_RESULTS = 50;
+  private intervalId: NodeJS.Timeout | null = null;
+  private syncs = new Map<number, Promise<number[]>>(); // Syncs in progress, by account
+
+  constructor(
+    @InjectRepository(ImapAccount)
+    private readonly imapAccountRepository: Repository<ImapAccount>,
+    @InjectRepository(EmailRaw)
+    private readonly emailRawRepository: Repository<EmailRaw>,
+    private readonly gmailService: GmailService,
+    private readonly kafkaService: KafkaService,
+    private readonly mailboxEventsService: MailboxEventsService,
+    private readonly mailProviderRegistry: MailProviderRegistry,
+    private readonly tokenEncryptionService: TokenEncryptionService,
+  ) {}
+
+  /**
+   * Register as mail provider and poll linked accounts (IMAP has no push)
+   */
+  onModuleInit(): void {
+    this.mailProviderRegistry.register(this);
+
+    this.intervalId = setInterval(() => {
+      this.syncAllAccounts().catch((error) =>
+        console.error('IMAP Service: Scheduled sync failed:', error),
+      );
+    }, this.SYNC_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Link an IMAP/SMTP account after checking both logins
+   * Linking an address again updates its settings; the password is stored encrypted
+   */
+  async connectAccount(userId: number, input: ImapAccountInput): Promise<any> {
+    const settings = {
+      email: input.email.trim().toLowerCase(),
+      imapHost: input.imapHost,
+      imapPort: input.imapPort ?? 993,
+      imapSecure: input.imapSecure ?? true,
+      smtpHost: input.smtpHost,
+      smtpPort: input.smtpPort ?? 465,
+      smtpSecure: input.smtpSecure ?? true,
+      username: input.username || input.email.trim(),
+      password: input.password,
+    };
+
+    const candidate = this.imapAccountRepository.create(settings);
+    try {
+      const imap = await this.openImap(candidate);
+      await imap.logout();
+    } catch (error: any) {
+      throw new Error(`IMAP login failed: ${error.message}`);
+    }
+    try {
+      const smtp = await this.openSmtp(candidate);
+      await smtp.quit();
+    } catch (error: any) {
+      throw new Error(`SMTP login failed: ${error.message}`);
+    }
+
+    const existing = await this.imapAccountRepository.findOne({
+      where: { userId, email: settings.email },
+    });
+    const credentials = this.tokenEncryptionService.encrypt(existing, {
+      password: settings.password,
+    });
+    const saved = await this.imapAccountRepository.save(
+      existing
+        ? Object.assign(existing, settings, credentials, { lastError: null })
+        : this.imapAccountRepository.create({
+            ...settings,
+            ...credentials,
+            userId,
+          }),
+    );
+
+    return this.formatAccount(saved);
+  }
+
+  /**
+   * Linked IMAP accounts (without credentials)
+   */
+  async listAccounts(userId: number): Promise<any[]> {
+    const accounts = await this.imapAccountRepository.find({
+      where: { userId },
+      order: { id: 'ASC' },
+    });
+    return accounts.map((account) => this.formatAccount(account));
+  }
+
+  /**
+   * Unlink an account, stored emails are kept
+   */
+  async removeAccount(userId: number, accountId: number): Promise<void> {
+    const account = await this.getAccount(userId, accountId);
+
+    await this.emailRawRepository.update(
+      {
+        userId,
+        provider: MailProviderType.IMAP,
+        providerAccountId: account.id,
+      },
+      { providerAccountId: null },
+    );
+    await this.imapAccountRepository.delete({ id: account.id });
+  }
+
+  async hasAccount(userId: number, accountId: number): Promise<boolean> {
+    return (
+      (await this.imapAccountRepository.count({
+        where: { id: accountId, userId },
+      })) > 0
+    );
+  }
+
+  /**
+   * Sync the user's accounts (all of them, or only options.accountId)
+   */
+  async fetch(
+    userId: number,
+    options: { accountId?: number; maxResults?: number } = {},
+  ): Promise<{ success: boolean; count: number; message: string }> {
+    let accounts: ImapAccount[];
+    try {
+      accounts = options.accountId
+        ? [await this.getAccount(userId, options.accountId)]
+        : await this.imapAccountRepository.find({
+            where: { userId },
+            order: { id: 'ASC' },
+          });
+    } catch (error: any) {
+      return { success: false, count: 0, message: error.message };
+    }
+    if (accounts.length === 0) {
+      return { success: false, count: 0, message: 'No IMAP account linked' };
+    }
+
+    let count = 0;
+    const failures: string[] = [];
+    for (const account of accounts) {
+      try {
+        count += (await this.syncAccount(account, options.maxResults)).length;
+      } catch (error: any) {
+        failures.push(`${account.email}: ${error.message}`);
+      }
+    }
+
+    return {
+      success: failures.length < accounts.length,
+      count,
+      message: [`Successfully fetched ${count} new emails`, ...failures].join(
+        ' ',
+      ),
+    };
+  }
+
+  /**
+   * Sync every linked account, called by the poll timer
+   */
+  async syncAllAccounts(): Promise<void> {
+    const accounts = await this.imapAccountRepository.find();
+    for (const account of accounts) {
+      try {
+        await this.syncAccount(account);
+      } catch (error: any) {
+        console.error(
+          `IMAP Service: Sync of account ${account.id} failed:`,
+          error.message,
+        );
+      }
+    }
+  }
+
+  /**
+   * Send through the account's SMTP server
+   * From, Date and Message-ID are set here; Bcc recipients get the message
+   * without a Bcc header. No copy is appended to the Sent folder
+   */
+  async send(
+    userId: number,
+    message: MimeMessageOptions,
+    options: { accountId?: number | null; threadId?: string } = {},
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      assertAttachmentLimits(message.attachments || []);
+      const account = await this.getAccount(userId, options.accountId);
+
+      const recipients = [
+        ...(message.to || []),
+        ...(message.cc || []),
+        ...(message.bcc || []),
+      ]
+        .map((address) => parseAddress(address).email)
+        .filter((address) => !!address);
+      if (recipients.length === 0) {
+        throw new Error('At least one recipient is required');
+      }
+
+      const domain = account.email.split('@')[1] || 'localhost';
+      const messageId = `<${randomUUID()}@${domain}>`;
+      const raw = [
+        `From: ${account.email}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: ${messageId}`,
+        buildMimeMessage({ ...message, bcc: undefined }),
+      ].join('\r\n');
+
+      const smtp = await this.openSmtp(account);
+      try {
+        await smtp.sendMail(account.email, recipients, raw);
+      } finally {
+        await smtp.quit();
+      }
+
+      return { success: true, messageId };
+    } catch (error: any) {
+      console.error('IMAP send error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to send email',
+      };
+    }
+  }
+
+  /**
+   * Map read/star changes to \Seen/\Flagged and INBOX/TRASH/SPAM label
+   * changes to moves; other labels only exist locally
+   */
+  async modifyFlags(email: EmailRaw, changes: MailFlagChanges): Promise<void> {
+    const add = new Set(changes.addLabelIds || []);
+    const remove = new Set(changes.removeLabelIds || []);
+    if (changes.markRead !== undefined) {
+      (changes.markRead ? remove : add).add('UNREAD');
+    }
+
+    const addFlags: string[] = [];
+    const removeFlags: string[] = [];
+    if (add.has('UNREAD')) removeFlags.push('\\Seen');
+    if (remove.has('UNREAD')) addFlags.push('\\Seen');
+    if (add.has('STARRED')) addFlags.push('\\Flagged');
+    if (remove.has('STARRED')) removeFlags.push('\\Flagged');
+
+    let folder: MailFolder | null = null;
+    if (add.has('TRASH')) folder = MailFolder.TRASH;
+    else if (add.has('SPAM')) folder = MailFolder.SPAM;
+    else if (add.has('INBOX')) folder = MailFolder.INBOX;
+    else if (remove.has('INBOX')) folder = MailFolder.ARCHIVE;
+
+    await this.withMessage(email, async (connection, uid, ref) => {
+      await connection.uidStore(uid, '+FLAGS', addFlags);
+      await connection.uidStore(uid, '-FLAGS', removeFlags);
+      if (folder) {
+        await this.moveMessage(connection, email, uid, ref, folder);
+      }
+    });
+
+    // Keep the label list in step; moves already set the folder labels
+    const labels = this.getLabels(email).filter((label) => !remove.has(label));
+    add.forEach((label) => {
+      if (!labels.includes(label) && !this.isFolderLabel(label)) {
+        labels.push(label);
+      }
+    });
+    await this.saveLabels(email, labels);
+  }
+
+  async move(email: EmailRaw, folder: MailFolder): Promise<void> {
+    await this.withMessage(email, (connection, uid, ref) =>
+      this.moveMessage(connection, email, uid, ref, folder),
+    );
+  }
+
+  async delete(email: EmailRaw): Promise<void> {
+    await this.withMessage(email, (connection, uid) =>
+      connection.uidDelete(uid),
+    );
+  }
+
+  /**
+   * Download a body part; attachment IDs are IMAP section numbers
+   */
+  async getAttachment(email: EmailRaw, attachmentId: string): Promise<Buffer> {
+    if (!/^\d+(\.\d+)*$/.test(attachmentId)) {
+      throw new Error('Attachment not found');
+    }
+
+    const payload = email.rawData ? JSON.parse(email.rawData).payload : null;
+    const findPart = (part: any): any => {
+      if (!part) return null;
+      if (part.body?.attachmentId === attachmentId) return part;
+      for (const child of part.parts || []) {
+        const found = findPart(child);
+        if (found) return found;
+      }
+      return null;
+    };
+    const part = findPart(payload);
+
+    const content = await this.withMessage(email, async (connection, uid) => {
+      const [message] = await connection.uidFetch(
+        String(uid),
+        `BODY.PEEK[${attachmentId}]`,
+      );
+      return this.toBuffer(message?.[`BODY[${attachmentId}]`]);
+    });
+    if (!content) {
+      throw new Error('Attachment data not found');
+    }
+
+    return decodeTransferEncoding(
+      content,
+      part ? getPayloadHeader(part, 'Content-Transfer-Encoding') : '',
+    );
+  }
+
+  /**
+   * Sync one account; concurrent calls for the same account share one run
+   */
+  private syncAccount(
+    account: ImapAccount,
+    maxResults: number = this.DEFAULT_MAX_RESULTS,
+  ): Promise<number[]> {
+    const running = this.syncs.get(account.id);
+    if (running) {
+      return running;
+    }
+
+    const sync = this.runSync(account, maxResults)
+      .catch(async (error: any) => {
+        await this.imapAccountRepository.update(
+          { id: account.id },
+          { lastError: error.message || 'Sync failed' },
+        );
+        throw error;
+      })
+      .finally(() => this.syncs.delete(account.id));
+    this.syncs.set(account.id, sync);
+    return sync;
+  }
+
+  /**
+   * Store INBOX messages with a UID above the last seen one (oldest first,
+   * at most maxResults per run). The first sync takes the newest maxResults;
+   * a UIDVALIDITY change means UIDs were reassigned, so the mailbox is read again
+   */
+  private async runSync(
+    account: ImapAccount,
+    maxResults: number,
+  ): Promise<number[]> {
+    const connection = await this.openImap(account);
+    const storedEmailIds: number[] = [];
+
+    try {
+      const mailbox = await connection.select('INBOX');
+      const isInitial =
+        !account.uidValidity || account.uidValidity !== mailbox.uidValidity;
+      const lastUid = isInitial ? 0 : parseInt(account.lastUid || '0', 10);
+
+      let uids = (
+        await connection.uidSearch(isInitial ? 'ALL' : `UID ${lastUid + 1}:*`)
+      )
+        .filter((uid) => uid > lastUid)
+        .sort((a, b) => a - b);
+      uids = isInitial ? uids.slice(-maxResults) : uids.slice(0, maxResults);
+
+      const gmailIds = uids.map((uid) =>
+        this.buildMessageId(account, mailbox.uidValidity, uid),
+      );
+      const existing = gmailIds.length
+        ? await this.emailRawRepository.find({
+            select: ['gmailId'],
+            where: { gmailId: In(gmailIds) },
+          })
+        : [];
+      const existingIds = new Set(existing.map((email) => email.gmailId));
+
+      for (const uid of uids) {
+        const gmailId = this.buildMessageId(account, mailbox.uidValidity, uid);
+        if (existingIds.has(gmailId)) continue;
+
+        try {
+          const [attributes] = await connection.uidFetch(
+            String(uid),
+            'UID FLAGS INTERNALDATE BODY.PEEK[]',
+          );
+          const raw = this.toBuffer(attributes?.['BODY[]']);
+          if (!raw) {
+            console.warn(`IMAP message ${gmailId} has no body, skipping`);
+            continue;
+          }
+
+          const saved = await this.emailRawRepository.save(
+            this.emailRawRepository.create(
+              this.mapMessage(account, gmailId, raw, attributes, {
+                mailbox: 'INBOX',
+                uid,
+                uidValidity: mailbox.uidValidity,
+              }),
+            ),
+          );
+          storedEmailIds.push(saved.id);
+        } catch (error: any) {
+          console.error(
+            `Error storing IMAP message ${gmailId}:`,
+            error.message,
+          );
+        }
+      }
+
+      await this.imapAccountRepository.update(
+        { id: account.id },
+        {
+          uidValidity: mailbox.uidValidity || null,
+          lastUid: String(uids.length ? uids[uids.length - 1] : lastUid),
+          lastSyncedAt: new Date(),
+          lastError: null,
+        },
+      );
+    } finally {
+      await connection.logout();
+    }
+
+    if (storedEmailIds.length > 0) {
+      this.mailboxEventsService.emit(
+        account.userId,
+        MailboxEventType.EMAIL_STORED,
+        { emailIds: storedEmailIds },
+      );
+      try {
+        await this.kafkaService.publishEmailFetchedEvent(
+          account.userId,
+          storedEmailIds,
+        );
+      } catch (kafkaError: any) {
+        console.error('Failed to publish Kafka event:', kafkaError);
+      }
+    }
+
+    return storedEmailIds;
+  }
+
+  /**
+   * Map a fetched message to EmailRaw columns via the Gmail message shape
+   */
+  private mapMessage(
+    account: ImapAccount,
+    gmailId: string,
+    raw: Buffer,
+    attributes: Record<string, ImapValue>,
+    ref: ImapMessageRef,
+  ): Partial<EmailRaw> {
+    const flags = Array.isArray(attributes.FLAGS)
+      ? attributes.FLAGS.map((flag) => String(flag).toLowerCase())
+      : [];
+    const labelIds = ['INBOX'];
+    if (!flags.includes('\\seen')) labelIds.push('UNREAD');
+    if (flags.includes('\\flagged')) labelIds.push('STARRED');
+
+    // INTERNALDATE: "17-Jul-1996 02:44:25 -0700"
+    const internalDate =
+      typeof attributes.INTERNALDATE === 'string'
+        ? new Date(attributes.INTERNALDATE.replace(/-/, ' ').replace(/-/, ' '))
+        : null;
+
+    const message = parseRawMessage(raw, {
+      id: gmailId,
+      labelIds,
+      internalDate:
+        internalDate && !isNaN(internalDate.getTime()) ? internalDate : null,
+    });
+
+    return {
+      ...this.gmailService.mapMessageToEmail(account.userId, message),
+      accountId: null,
+      provider: MailProviderType.IMAP,
+      providerAccountId: account.id,
+      rawData: JSON.stringify({ ...message, imap: ref }),
+    };
+  }
+
+  /**
+   * Open the account's connection, find the message and run an operation on it
+   * Falls back to a Message-ID search when the stored UID is no longer valid
+   */
+  private async withMessage<T>(
+    email: EmailRaw,
+    operation: (
+      connection: ImapConnection,
+      uid: number,
+      ref: ImapMessageRef,
+    ) => Promise<T>,
+  ): Promise<T> {
+    if (!email.providerAccountId) {
+      throw new Error('IMAP account of this email is no longer linked');
+    }
+    const account = await this.getAccount(
+      email.userId,
+      email.providerAccountId,
+    );
+
+    const rawData = email.rawData ? JSON.parse(email.rawData) : {};
+    const ref: ImapMessageRef = rawData.imap || {
+      mailbox: 'INBOX',
+      uid: null,
+      uidValidity: null,
+    };
+
+    const connection = await this.openImap(account);
+    try {
+      const mailbox = await connection.select(ref.mailbox);
+
+      let uid =
+        ref.uid && (!ref.uidValidity || ref.uidValidity === mailbox.uidValidity)
+          ? ref.uid
+          : null;
+      if (!uid) {
+        const messageId = getPayloadHeader(rawData.payload, 'Message-ID');
+        const found = messageId
+          ? await connection.uidSearch(
+              `HEADER Message-ID ${quoteImapString(messageId)}`,
+            )
+          : [];
+        uid = found[0] || null;
+      }
+      if (!uid) {
+        throw new Error('Message not found on the IMAP server');
+      }
+
+      return await operation(connection, uid, {
+        ...ref,
+        uid,
+        uidValidity: mailbox.uidValidity,
+      });
+    } finally {
+      await connection.logout();
+    }
+  }
+
+  /**
+   * Move a message on an open connection and store its new location and labels
+   */
+  private async moveMessage(
+    connection: ImapConnection,
+    email: EmailRaw,
+    uid: number,
+    ref: ImapMessageRef,
+    folder: MailFolder,
+  ): Promise<void> {
+    const target = await this.resolveFolder(connection, folder);
+    if (target.toUpperCase() !== ref.mailbox.toUpperCase()) {
+      const newUid = await connection.uidMove(uid, target);
+      const rawData = email.rawData ? JSON.parse(email.rawData) : {};
+      rawData.imap = {
+        mailbox: target,
+        uid: newUid,
+        uidValidity: null,
+      } as ImapMessageRef;
+      email.rawData = JSON.stringify(rawData);
+      await this.emailRawRepository.update(
+        { id: email.id },
+        { rawData: email.rawData },
+      );
+    }
+
+    const labels = this.getLabels(email).filter(
+      (label) => !this.isFolderLabel(label),
+    );
+    if (folder !== MailFolder.ARCHIVE) {
+      labels.push(folder);
+    }
+    await this.saveLabels(email, labels);
+  }
+
+  /**
+   * Mailbox name of a folder: by special-use flag, then by common names
+   * A missing Archive folder is created
+   */
+  private async resolveFolder(
+    connection: ImapConnection,
+    folder: MailFolder,
+  ): Promise<string> {
+    if (folder === MailFolder.INBOX) {
+      return 'INBOX';
+    }
+
+    const { flag, names } = FOLDER_NAMES[folder];
+    const mailboxes = await connection.list();
+    const match =
+      mailboxes.find((mailbox) =>
+        mailbox.flags.some((f) => f.toLowerCase() === flag.toLowerCase()),
+      ) ||
+      mailboxes.find((mailbox) =>
+        names.some((name) => name.toLowerCase() === mailbox.name.toLowerCase()),
+      );
+    if (match) {
+      return match.name;
+    }
+
+    if (folder === MailFolder.ARCHIVE) {
+      await connection.command(`CREATE ${quoteImapString(names[0])}`);
+      return names[0];
+    }
+    throw new Error(`No ${folder.toLowerCase()} folder on the IMAP server`);
+  }
+
+  private getLabels(email: EmailRaw): string[] {
+    try {
+      return email.labels ? JSON.parse(email.labels) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private async saveLabels(email: EmailRaw, labels: string[]): Promise<void> {
+    email.labels = labels.length > 0 ? JSON.stringify(labels) : null;
+    await this.emailRawRepository.update(
+      { id: email.id },
+      { labels: email.labels },
+    );
+  }
+
+  private isFolderLabel(label: string): boolean {
+    return ['INBOX', 'TRASH', 'SPAM'].includes(label);
+  }
+
+  /**
+   * Resolve a linked account: the given one, or the user's first account
+   */
+  private async getAccount(
+    userId: number,
+    accountId?: number | null,
+  ): Promise<ImapAccount> {
+    const account = accountId
+      ? await this.imapAccountRepository.findOne({
+          where: { id: accountId, userId },
+        })
+      : await this.imapAccountRepository.findOne({
+          where: { userId },
+          order: { id: 'ASC' },
+        });
+
+    if (!account) {
+      throw new Error(
+        accountId ? 'IMAP account not found' : 'No IMAP account linked',
+      );
+    }
+
+    return account;
+  }
+
+  private openImap(account: ImapAccount): Promise<ImapConnection> {
+    return ImapConnection.open({
+      host: account.imapHost,
+      port: account.imapPort,
+      secure: account.imapSecure,
+      username: account.username,
+      password: this.tokenEncryptionService.decrypt(account, account.password),
+    });
+  }
+
+  private openSmtp(account: ImapAccount): Promise<SmtpConnection> {
+    return SmtpConnection.open({
+      host: account.smtpHost,
+      port: account.smtpPort,
+      secure: account.smtpSecure,
+      username: account.username,
+      password: this.tokenEncryptionService.decrypt(account, account.password),
+    });
+  }
+
+  /**
+   * Stored message ID: unique across accounts and UIDVALIDITY generations
+   */
+  private buildMessageId(
+    account: ImapAccount,
+    uidValidity: string,
+    uid: number,
+  ): string {
+    return `imap:${account.id}:${uidValidity}:${uid}`;
+  }
+
+  private toBuffer(value: ImapValue | undefined): Buffer | null {
+    if (Buffer.isBuffer(value)) return value;
+    if (typeof value === 'string') return Buffer.from(value, 'utf-8');
+    return null;
+  }
+
+  private formatAccount(account: ImapAccount): any {
+    return {
+      id: account.id,
+      email: account.email,
+      imapHost: account.imapHost,
+      imapPort: account.imapPort,
+      imapSecure: account.imapSecure,
+      smtpHost: account.smtpHost,
+      smtpPort: account.smtpPort,
+      smtpSecure: account.smtpSecure,
+      username: account.username,
+      lastSyncedAt: account.lastSyncedAt,
+      lastError: account.lastError,
+      createdAt: account.createdAt,
+    };
+  }
+}
@@ -0,0 +1,225 @@
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+
+/**
+ * Server and credentials of an SMTP submission account
+ */
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (465); otherwise STARTTLS when offered (587)
+  username: string;
+  password: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Minimal SMTP submission client (EHLO, STARTTLS, AUTH PLAIN/LOGIN, DATA)
+ */
+export class SmtpConnection {
+  private socket: net.Socket | tls.TLSSocket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private closedError: Error | null = null;
+  private extensions: string[] = [];
+
+  private constructor(private readonly options: SmtpConnectionOptions) {}
+
+  /**
+   * Connect, upgrade to TLS when needed and authenticate
+   */
+  static async open(options: SmtpConnectionOptions): Promise<SmtpConnection> {
+    const connection = new SmtpConnection(options);
+    try {
+      await connection.connect();
+      return connection;
+    } catch (error) {
+      connection.socket?.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * Send one message; raw is the full RFC 5322 message
+   */
+  async sendMail(
+    from: string,
+    recipients: string[],
+    raw: string,
+  ): Promise<void> {
+    await this.expect(`MAIL FROM:<${from}>`, 250);
+    for (const recipient of recipients) {
+      await this.expect(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await this.expect('DATA', 354);
+
+    // Normalize line endings and dot-stuff lines starting with "."
+    const data = raw
+      .replace(/\r?\n/g, '\r\n')
+      .replace(/^\./gm, '..')
+      .replace(/(\r\n)?$/, '\r\n');
+    const reply = this.read();
+    this.socket.write(`${data}.\r\n`);
+    this.check(await reply, [250]);
+  }
+
+  /**
+   * Say goodbye and close the connection
+   */
+  async quit(): Promise<void> {
+    try {
+      if (!this.closedError) {
+        await this.expect('QUIT', 221);
+      }
+    } catch (error) {
+      // Connection is closed below anyway
+    } finally {
+      this.socket.destroy();
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+
+    const greeting = this.read();
+    this.attach(
+      secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port }),
+    );
+    this.check(await greeting, [220]);
+
+    await this.ehlo();
+    if (!secure && this.hasExtension('STARTTLS')) {
+      await this.expect('STARTTLS', 220);
+      this.attach(tls.connect({ socket: this.socket, servername: host }));
+      await this.ehlo();
+    }
+
+    const auth = this.extensions.find((line) => /^AUTH\b/i.test(line)) || '';
+    if (/\bPLAIN\b/i.test(auth)) {
+      const credentials = Buffer.from(
+        `\0${this.options.username}\0${this.options.password}`,
+        'utf-8',
+      ).toString('base64');
+      await this.expect(`AUTH PLAIN ${credentials}`, 235);
+    } else if (/\bLOGIN\b/i.test(auth)) {
+      await this.expect('AUTH LOGIN', 334);
+      await this.expect(
+        Buffer.from(this.options.username, 'utf-8').toString('base64'),
+        334,
+      );
+      await this.expect(
+        Buffer.from(this.options.password, 'utf-8').toString('base64'),
+        235,
+      );
+    }
+    // Servers without AUTH (local test servers) accept mail unauthenticated
+  }
+
+  private async ehlo(): Promise<void> {
+    const reply = await this.expect(
+      `EHLO ${os.hostname() || 'localhost'}`,
+      250,
+    );
+    this.extensions = reply.lines.slice(1);
+  }
+
+  private hasExtension(name: string): boolean {
+    return this.extensions.some(
+      (line) => line.split(' ')[0].toUpperCase() === name,
+    );
+  }
+
+  private async expect(
+    command: string,
+    codes: number | number[],
+  ): Promise<SmtpReply> {
+    const reply = this.read();
+    this.socket.write(`${command}\r\n`);
+    return this.check(await reply, Array.isArray(codes) ? codes : [codes]);
+  }
+
+  private check(reply: SmtpReply, codes: number[]): SmtpReply {
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP error: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Wait for the next (possibly multi-line) reply
+   */
+  private read(): Promise<SmtpReply> {
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private attach(socket: net.Socket | tls.TLSSocket): void {
+    if (this.socket) {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('error');
+      this.socket.removeAllListeners('close');
+      this.socket.removeAllListeners('timeout');
+    }
+    this.buffer = '';
+    this.lines = [];
+
+    this.socket = socket;
+    socket.setTimeout(this.options.timeoutMs || DEFAULT_TIMEOUT_MS);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('timeout', () => {
+      socket.destroy(new Error('SMTP connection timed out'));
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf-8');
+
+    let lineEnd: number;
+    while ((lineEnd = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.substring(0, lineEnd);
+      this.buffer = this.buffer.substring(lineEnd + 2);
+      this.lines.push(line.substring(4));
+
+      // "250-..." continues, "250 ..." ends the reply
+      if (/^\d{3}(?!-)/.test(line)) {
+        const reply = {
+          code: parseInt(line.substring(0, 3), 10),
+          lines: this.lines,
+        };
+        this.lines = [];
+        const waiting = this.waiting;
+        this.waiting = null;
+        waiting?.resolve(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.closedError) return;
+    this.closedError = error;
+
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.reject(error);
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  findResponseEnd,
+  parseFetchAttributes,
+  parseImapValues,
+  quoteImapString,
+} from './imap-response.util';
+
+describe('findResponseEnd', () => {
+  it('should end after the line without a literal', () => {
+    const buffer = Buffer.from('* 1 EXISTS\r\n* 2 RECENT\r\n');
+    expect(findResponseEnd(buffer)).toBe(12);
+  });
+
+  it('should include literals and wait until they are complete', () => {
+    const response = '* 1 FETCH (BODY[] {5}\r\nHello)\r\n';
+    expect(findResponseEnd(Buffer.from(response))).toBe(response.length);
+    expect(findResponseEnd(Buffer.from('* 1 FETCH (BODY[] {5}\r\nHel'))).toBe(
+      -1,
+    );
+  });
+});
+
+describe('parseImapValues', () => {
+  it('should parse atoms, quoted strings, NIL, lists and literals', () => {
+    const values = parseImapValues(
+      Buffer.from(
+        '* 12 FETCH (UID 7 FLAGS (\\Seen \\Flagged) INTERNALDATE "17-Jul-1996 02:44:25 -0700" X NIL BODY[] {5}\r\nHello)\r\n',
+      ),
+    );
+
+    expect(values.slice(0, 3)).toEqual(['*', '12', 'FETCH']);
+    const attributes = parseFetchAttributes(values[3] as any[]);
+    expect(attributes.UID).toBe('7');
+    expect(attributes.FLAGS).toEqual(['\\Seen', '\\Flagged']);
+    expect(attributes.INTERNALDATE).toBe('17-Jul-1996 02:44:25 -0700');
+    expect(attributes.X).toBeNull();
+    expect((attributes['BODY[]'] as Buffer).toString()).toBe('Hello');
+  });
+
+  it('should keep bracketed sections with spaces in one atom', () => {
+    const values = parseImapValues(
+      Buffer.from('* 1 FETCH (BODY[HEADER.FIELDS (DATE)] "x")\r\n'),
+    );
+    expect(values[3]).toEqual(['BODY[HEADER.FIELDS (DATE)]', 'x']);
+  });
+});
+
+describe('parseFetchAttributes', () => {
+  it('should report BODY.PEEK sections as BODY', () => {
+    expect(parseFetchAttributes(['BODY.PEEK[2]', 'x'])).toEqual({
+      'BODY[2]': 'x',
+    });
+  });
+});
+
+describe('quoteImapString', () => {
+  it('should escape quotes and backslashes', () => {
+    expect(quoteImapString('a "b" \\c')).toBe('"a \\"b\\" \\\\c"');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Value of an IMAP response: atom or quoted string, literal (Buffer),
+ * NIL (null) or parenthesized list
+ */
+export type ImapValue = string | Buffer | null | ImapValue[];
+
+/**
+ * Find the end of a complete response in a receive buffer
+ * A line ending in {n} is followed by an n-byte literal and more of the same
+ * response; returns the index after the final CRLF, or -1 when incomplete
+ */
+export function findResponseEnd(buffer: Buffer, start: number = 0): number {
+  let position = start;
+
+  while (true) {
+    const lineEnd = buffer.indexOf('\r\n', position);
+    if (lineEnd === -1) {
+      return -1;
+    }
+
+    const line = buffer.toString('latin1', position, lineEnd);
+    const literal = line.match(/\{(\d+)\+?\}$/);
+    if (!literal) {
+      return lineEnd + 2;
+    }
+
+    position = lineEnd + 2 + parseInt(literal[1], 10);
+    if (position > buffer.length) {
+      return -1;
+    }
+  }
+}
+
+/**
+ * Tokenize a complete response (without its tag or "*") into values
+ */
+export function parseImapValues(response: Buffer): ImapValue[] {
+  let position = 0;
+
+  const skipSpaces = () => {
+    while (response[position] === 0x20) position++;
+  };
+
+  const parseList = (closing: number | null): ImapValue[] => {
+    const values: ImapValue[] = [];
+
+    while (position < response.length) {
+      skipSpaces();
+      const char = response[position];
+
+      if (char === undefined || char === 0x0d || char === 0x0a) {
+        position++;
+        if (closing === null) continue;
+        break;
+      }
+      if (closing !== null && char === closing) {
+        position++;
+        return values;
+      }
+
+      if (char === 0x28) {
+        // (
+        position++;
+        values.push(parseList(0x29));
+      } else if (char === 0x22) {
+        // "quoted"
+        position++;
+        let value = '';
+        while (position < response.length && response[position] !== 0x22) {
+          if (response[position] === 0x5c) position++; // Backslash escape
+          value += String.fromCharCode(response[position++]);
+        }
+        position++;
+        values.push(Buffer.from(value, 'latin1').toString('utf-8'));
+      } else if (char === 0x7b) {
+        // {n}CRLF followed by n bytes
+        const close = response.indexOf('}', position);
+        const size = parseInt(
+          response.toString('latin1', position + 1, close).replace('+', ''),
+          10,
+        );
+        const start = close + 3;
+        values.push(Buffer.from(response.subarray(start, start + size)));
+        position = start + size;
+      } else {
+        // Atom, brackets may hold spaces: BODY[HEADER.FIELDS (DATE)]
+        let value = '';
+        let depth = 0;
+        while (position < response.length) {
+          const current = response[position];
+          if (current === 0x5b) depth++;
+          if (current === 0x5d) depth--;
+          if (
+            depth === 0 &&
+            (current === 0x20 ||
+              current === 0x28 ||
+              current === 0x29 ||
+              current === 0x0d ||
+              current === 0x0a)
+          ) {
+            break;
+          }
+          value += String.fromCharCode(current);
+          position++;
+        }
+        values.push(value.toUpperCase() === 'NIL' ? null : value);
+      }
+    }
+
+    return values;
+  };
+
+  return parseList(null);
+}
+
+/**
+ * Turn the attribute list of a FETCH response into a map
+ * e.g. (UID 12 FLAGS (\Seen) BODY[] {42}...) => { UID: '12', FLAGS: [...], 'BODY[]': <Buffer> }
+ */
+export function parseFetchAttributes(
+  list: ImapValue[],
+): Record<string, ImapValue> {
+  const attributes: Record<string, ImapValue> = {};
+  for (let i = 0; i + 1 < list.length; i += 2) {
+    const key = list[i];
+    if (typeof key === 'string') {
+      // BODY.PEEK[1] is answered as BODY[1]
+      attributes[key.toUpperCase().replace('BODY.PEEK[', 'BODY[')] =
+        list[i + 1];
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Quote a string argument of an IMAP command
+ */
+export function quoteImapString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
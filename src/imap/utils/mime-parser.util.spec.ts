@@ -0,0 +1,115 @@
+import {
+  decodeEncodedWords,
+  deriveThreadId,
+  parseHeaderParams,
+  parseRawMessage,
+} from './mime-parser.util';
+import { buildMimeMessage } from '../../gmail/utils/mime.util';
+
+describe('decodeEncodedWords', () => {
+  it('should decode base64 and Q encoded words', () => {
+    expect(decodeEncodedWords('=?UTF-8?B?WGluIGNow6Bv?=')).toBe('Xin chào');
+    expect(decodeEncodedWords('=?ISO-8859-1?Q?caf=E9_au_lait?=')).toBe(
+      'café au lait',
+    );
+  });
+
+  it('should join adjacent encoded words', () => {
+    expect(decodeEncodedWords('=?UTF-8?Q?a?= =?UTF-8?Q?b?= c')).toBe('ab c');
+  });
+});
+
+describe('parseHeaderParams', () => {
+  it('should split the value and quoted parameters', () => {
+    expect(
+      parseHeaderParams('Multipart/Mixed; boundary="a;b"; charset=utf-8'),
+    ).toEqual({
+      value: 'multipart/mixed',
+      params: { boundary: 'a;b', charset: 'utf-8' },
+    });
+  });
+
+  it('should decode RFC 2231 parameters', () => {
+    const { params } = parseHeaderParams(
+      "attachment; filename*=UTF-8''b%C3%A1o%20c%C3%A1o.pdf",
+    );
+    expect(params.filename).toBe('báo cáo.pdf');
+  });
+});
+
+describe('deriveThreadId', () => {
+  it('should prefer the first reference, then In-Reply-To, then the own ID', () => {
+    expect(deriveThreadId('<c@x>', '<b@x>', '<a@x> <b@x>')).toBe('<a@x>');
+    expect(deriveThreadId('<c@x>', '<b@x>', '')).toBe('<b@x>');
+    expect(deriveThreadId('<c@x>', '', '')).toBe('<c@x>');
+    expect(deriveThreadId('', '', '')).toBeNull();
+  });
+});
+
+describe('parseRawMessage', () => {
+  it('should parse a single-part message into the Gmail message shape', () => {
+    const raw = Buffer.from(
+      [
+        'From: "Alice" <alice@example.com>',
+        'To: bob@example.com',
+        'Subject: =?UTF-8?B?WGluIGNow6Bv?=',
+        'Message-ID: <1@example.com>',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Hello=20there,',
+        'long line=',
+        ' continued',
+      ].join('\r\n'),
+    );
+
+    const message = parseRawMessage(raw, {
+      id: 'imap:1:7:42',
+      labelIds: ['INBOX'],
+      internalDate: new Date(1700000000000),
+    });
+
+    expect(message.id).toBe('imap:1:7:42');
+    expect(message.threadId).toBe('<1@example.com>');
+    expect(message.internalDate).toBe('1700000000000');
+    expect(message.labelIds).toEqual(['INBOX']);
+    expect(message.snippet).toBe('Hello there, long line continued');
+    expect(
+      message.payload?.headers?.find((h) => h.name === 'Subject')?.value,
+    ).toBe('Xin chào');
+    expect(
+      Buffer.from(message.payload!.body!.data!, 'base64url').toString(),
+    ).toBe('Hello there,\r\nlong line continued');
+  });
+
+  it('should number multipart sections like IMAP and keep attachments by section', () => {
+    const raw = Buffer.from(
+      buildMimeMessage({
+        to: ['bob@example.com'],
+        subject: 'Report',
+        html: '<p>See <b>attached</b></p>',
+        attachments: [
+          {
+            filename: 'report.pdf',
+            contentType: 'application/pdf',
+            content: Buffer.from('%PDF-1.4'),
+          },
+        ],
+      }),
+    );
+
+    const message = parseRawMessage(raw, { id: 'm1' });
+    const [html, pdf] = message.payload!.parts!;
+
+    expect(message.payload!.mimeType).toBe('multipart/mixed');
+    expect(html.partId).toBe('1');
+    expect(html.mimeType).toBe('text/html');
+    expect(Buffer.from(html.body!.data!, 'base64url').toString()).toBe(
+      '<p>See <b>attached</b></p>',
+    );
+    expect(pdf.partId).toBe('2');
+    expect(pdf.filename).toBe('report.pdf');
+    expect(pdf.body).toEqual({ size: 8, attachmentId: '2' });
+    expect(message.snippet).toBe('See attached');
+  });
+});
@@ -0,0 +1,384 @@
+import { gmail_v1 } from 'googleapis';
+
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Decoded header of a raw message
+ */
+export interface RawHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?text?=) in a header value
+ * Whitespace between two adjacent encoded words is dropped
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(
+      /=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g,
+      (match, charset: string, encoding: string, text: string) => {
+        try {
+          const bytes =
+            encoding.toUpperCase() === 'B'
+              ? Buffer.from(text, 'base64')
+              : decodeQuotedPrintable(text.replace(/_/g, ' '), false);
+          return decodeCharset(bytes, charset);
+        } catch (error) {
+          return match;
+        }
+      },
+    );
+}
+
+/**
+ * Decode quoted-printable content
+ * Headers (RFC 2047 Q encoding) have no soft line breaks
+ */
+export function decodeQuotedPrintable(
+  value: string,
+  softLineBreaks: boolean = true,
+): Buffer {
+  const text = softLineBreaks ? value.replace(/=\r?\n/g, '') : value;
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.substring(i + 1, i + 3);
+    if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      // Keep non-ASCII characters of malformed input as UTF-8
+      bytes.push(...Buffer.from(text[i], 'utf-8'));
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode bytes in the given charset, falling back to UTF-8
+ */
+export function decodeCharset(bytes: Buffer, charset?: string): string {
+  const name = (charset || 'utf-8').toLowerCase();
+  if (name === 'utf-8' || name === 'utf8' || name === 'us-ascii') {
+    return bytes.toString('utf-8');
+  }
+  try {
+    return new TextDecoder(name).decode(bytes);
+  } catch (error) {
+    return bytes.toString('utf-8');
+  }
+}
+
+/**
+ * Parse a header block, unfolding continuation lines
+ */
+export function parseHeaders(block: string): RawHeader[] {
+  const headers: RawHeader[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += ' ' + line.trim();
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.push({
+        name: line.substring(0, separator).trim(),
+        value: line.substring(separator + 1).trim(),
+      });
+    }
+  }
+
+  return headers.map((header) => ({
+    name: header.name,
+    value: decodeEncodedWords(header.value),
+  }));
+}
+
+/**
+ * Split a structured header value (Content-Type, Content-Disposition)
+ * into its value and parameters, including RFC 2231 name*=charset''value
+ */
+export function parseHeaderParams(value: string): {
+  value: string;
+  params: Record<string, string>;
+} {
+  const [first, ...rest] = splitOutsideQuotes(value, ';');
+  const params: Record<string, string> = {};
+  const continued: Record<string, string[]> = {};
+
+  for (const param of rest) {
+    const separator = param.indexOf('=');
+    if (separator <= 0) continue;
+
+    const key = param.substring(0, separator).trim().toLowerCase();
+    let paramValue = param.substring(separator + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    // RFC 2231: name*0*=..., name*1*=... or name*=utf-8''value
+    const extended = key.match(/^([^*]+)\*(\d+)?\*?$/);
+    if (extended) {
+      const name = extended[1];
+      continued[name] = continued[name] || [];
+      continued[name][parseInt(extended[2] || '0', 10)] = paramValue;
+    } else {
+      params[key] = paramValue;
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(continued)) {
+    const joined = pieces.join('');
+    const encoded = joined.match(/^([^']*)'[^']*'(.*)$/);
+    params[name] = encoded
+      ? decodeCharset(
+          Buffer.from(
+            encoded[2].replace(/%([0-9A-Fa-f]{2})/g, (_, hex) =>
+              String.fromCharCode(parseInt(hex, 16)),
+            ),
+            'latin1',
+          ),
+          encoded[1] || 'utf-8',
+        )
+      : joined;
+  }
+
+  return { value: first.trim().toLowerCase(), params };
+}
+
+/**
+ * Thread key of a message: the first Message-ID it refers to, or its own
+ */
+export function deriveThreadId(
+  messageId: string,
+  inReplyTo: string,
+  references: string,
+): string | null {
+  const firstId = (value: string): string | null => {
+    const match = value.match(/<[^>]+>/);
+    return match ? match[0] : null;
+  };
+  return (
+    firstId(references) || firstId(inReplyTo) || firstId(messageId) || null
+  );
+}
+
+/**
+ * Parse a raw RFC 5322 message into the Gmail API message shape, so IMAP
+ * mail is stored and read with the same helpers as Gmail mail
+ * Text parts carry their content (UTF-8, base64url) in body.data; other
+ * parts get the IMAP section number as body.attachmentId
+ */
+export function parseRawMessage(
+  raw: Buffer,
+  options: {
+    id: string;
+    labelIds?: string[];
+    internalDate?: Date | null;
+  },
+): gmail_v1.Schema$Message {
+  const payload = parsePart(raw, '');
+  const headerValue = (name: string): string =>
+    payload.headers?.find((h) => h.name?.toLowerCase() === name)?.value || '';
+
+  return {
+    id: options.id,
+    threadId: deriveThreadId(
+      headerValue('message-id'),
+      headerValue('in-reply-to'),
+      headerValue('references'),
+    ),
+    labelIds: options.labelIds || [],
+    snippet: buildSnippet(payload),
+    internalDate: options.internalDate
+      ? String(options.internalDate.getTime())
+      : null,
+    sizeEstimate: raw.length,
+    payload,
+  };
+}
+
+/**
+ * Parse one MIME entity; section is its IMAP body section ('' for the root)
+ */
+function parsePart(raw: Buffer, section: string): gmail_v1.Schema$MessagePart {
+  const { headerBlock, body } = splitEntity(raw);
+  const headers = parseHeaders(headerBlock);
+  const header = (name: string): string =>
+    headers.find((h) => h.name.toLowerCase() === name)?.value || '';
+
+  const contentType = parseHeaderParams(header('content-type') || 'text/plain');
+  const disposition = parseHeaderParams(header('content-disposition'));
+  const mimeType = contentType.value || 'text/plain';
+
+  if (mimeType.startsWith('multipart/') && contentType.params.boundary) {
+    const children = splitMultipart(body, contentType.params.boundary);
+    return {
+      partId: section,
+      mimeType,
+      filename: '',
+      headers,
+      body: { size: 0 },
+      parts: children.map((child, index) =>
+        parsePart(child, section ? `${section}.${index + 1}` : `${index + 1}`),
+      ),
+    };
+  }
+
+  // A single-part message body is section 1 in IMAP
+  const partSection = section || '1';
+  const content = decodeTransferEncoding(
+    body,
+    header('content-transfer-encoding'),
+  );
+  const filename = disposition.params.filename || contentType.params.name || '';
+  const isText =
+    (mimeType === 'text/plain' || mimeType === 'text/html') &&
+    !filename &&
+    disposition.value !== 'attachment';
+
+  return {
+    partId: section,
+    mimeType,
+    filename,
+    headers,
+    body: isText
+      ? {
+          size: content.length,
+          data: Buffer.from(
+            decodeCharset(content, contentType.params.charset),
+            'utf-8',
+          ).toString('base64url'),
+        }
+      : { size: content.length, attachmentId: partSection },
+  };
+}
+
+/**
+ * Split a MIME entity into its header block and body
+ */
+function splitEntity(raw: Buffer): { headerBlock: string; body: Buffer } {
+  const crlf = raw.indexOf('\r\n\r\n');
+  const lf = raw.indexOf('\n\n');
+  if (crlf === -1 && lf === -1) {
+    return { headerBlock: raw.toString('utf-8'), body: Buffer.alloc(0) };
+  }
+
+  const useCrlf = crlf !== -1 && (lf === -1 || crlf < lf);
+  const end = useCrlf ? crlf : lf;
+  return {
+    headerBlock: raw.subarray(0, end).toString('utf-8'),
+    body: raw.subarray(end + (useCrlf ? 4 : 2)),
+  };
+}
+
+/**
+ * Split a multipart body into its parts (preamble and epilogue dropped)
+ */
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const delimiter = `--${boundary}`;
+  const text = body.toString('latin1'); // 1:1 byte mapping keeps binary content intact
+  const parts: Buffer[] = [];
+
+  let start = -1;
+  let position = 0;
+  while (position <= text.length) {
+    const index = text.indexOf(delimiter, position);
+    if (index === -1) break;
+
+    // A delimiter only counts at the start of a line
+    if (index > 0 && text[index - 1] !== '\n') {
+      position = index + delimiter.length;
+      continue;
+    }
+
+    if (start !== -1) {
+      const end = text[index - 2] === '\r' ? index - 2 : index - 1;
+      parts.push(Buffer.from(text.substring(start, end), 'latin1'));
+    }
+    if (text.startsWith('--', index + delimiter.length)) {
+      break; // Closing delimiter
+    }
+
+    const lineEnd = text.indexOf('\n', index);
+    if (lineEnd === -1) break;
+    start = lineEnd + 1;
+    position = start;
+  }
+
+  return parts;
+}
+
+/**
+ * Undo the Content-Transfer-Encoding of a part body
+ */
+export function decodeTransferEncoding(body: Buffer, encoding: string): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+/**
+ * Plain-text preview of the first text part, like Gmail's snippet
+ */
+function buildSnippet(payload: gmail_v1.Schema$MessagePart): string {
+  const findText = (
+    part: gmail_v1.Schema$MessagePart,
+    mimeType: string,
+  ): string | null => {
+    if (part.mimeType === mimeType && part.body?.data) {
+      return Buffer.from(part.body.data, 'base64url').toString('utf-8');
+    }
+    for (const child of part.parts || []) {
+      const found = findText(child, mimeType);
+      if (found !== null) return found;
+    }
+    return null;
+  };
+
+  const text =
+    findText(payload, 'text/plain') ??
+    (findText(payload, 'text/html') || '')
+      .replace(/<(style|script)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ');
+
+  return text.replace(/\s+/g, ' ').trim().substring(0, SNIPPET_LENGTH);
+}
+
+/**
+ * Split on a separator, ignoring separators inside double quotes
+ */
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && quoted && i + 1 < value.length) {
+      current += char + value[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      pieces.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  pieces.push(current);
+
+  return pieces;
+}
@@ -68,5 +68,37 @@ export class KafkaService implements OnModuleInit, OnModuleDestroy {
       throw error;
     }
   }
+
+  /**
+   * Publish an email that AI processing gave up on (dead-letter topic)
+   */
+  async publishDeadLetterEvent(event: {
+    emailId?: number;
+    userId?: number;
+    attempts?: number;
+    error: string;
+    message?: string; // Original Kafka message, when it could not be read
+  }): Promise<void> {
+    try {
+      await this.producer.send({
+        topic: process.env.KAFKA_TOPIC_EMAIL_DLQ || 'email-fetched-dlq',
+        messages: [
+          {
+            key: event.userId?.toString() || null,
+            value: JSON.stringify({
+              ...event,
+              timestamp: new Date().toISOString(),
+            }),
+          },
+        ],
+      });
+      console.warn(
+        `Published dead-letter event for email ${event.emailId ?? '(unreadable message)'}`,
+      );
+    } catch (error) {
+      console.error('Failed to publish dead-letter event:', error);
+      throw error;
+    }
+  }
 }
 
@@ -0,0 +1,83 @@
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { MimeMessageOptions } from '../gmail/utils/mime.util';
+
+/**
+ * Mail backends an account can live on (stored in EmailRaw.provider)
+ */
+export enum MailProviderType {
+  GMAIL = 'gmail',
+  IMAP = 'imap',
+  OUTLOOK = 'outlook',
+}
+
+/**
+ * Folders every provider can move a message to
+ */
+export enum MailFolder {
+  INBOX = 'INBOX',
+  ARCHIVE = 'ARCHIVE',
+  TRASH = 'TRASH',
+  SPAM = 'SPAM',
+}
+
+/**
+ * Flag and label changes, in Gmail terms (UNREAD, STARRED, INBOX, ...)
+ * Providers without labels map what they can and ignore the rest
+ */
+export interface MailFlagChanges {
+  markRead?: boolean;
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+}
+
+/**
+ * Operations every mail backend implements
+ * Account IDs refer to the provider's own account table
+ * (gmail_tokens for Gmail, imap_accounts for IMAP, outlook_accounts for Outlook);
+ * omitted means the default account
+ */
+export interface MailProvider {
+  readonly type: MailProviderType;
+
+  /**
+   * Whether the user linked the given account
+   */
+  hasAccount(userId: number, accountId: number): Promise<boolean>;
+
+  /**
+   * Fetch new mail into email_raw
+   */
+  fetch(
+    userId: number,
+    options?: { accountId?: number; maxResults?: number },
+  ): Promise<{ success: boolean; count: number; message: string }>;
+
+  /**
+   * Send a message (In-Reply-To/References in the message keep replies threaded)
+   */
+  send(
+    userId: number,
+    message: MimeMessageOptions,
+    options?: { accountId?: number | null; threadId?: string },
+  ): Promise<{ success: boolean; messageId?: string; error?: string }>;
+
+  /**
+   * Apply read/star/label changes on the server
+   */
+  modifyFlags(email: EmailRaw, changes: MailFlagChanges): Promise<void>;
+
+  /**
+   * Move a message to another folder
+   */
+  move(email: EmailRaw, folder: MailFolder): Promise<void>;
+
+  /**
+   * Delete a message permanently
+   */
+  delete(email: EmailRaw): Promise<void>;
+
+  /**
+   * Download an attachment (decoded content)
+   */
+  getAttachment(email: EmailRaw, attachmentId: string): Promise<Buffer>;
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { MailProvider, MailProviderType } from './mail-provider.interface';
+
+/**
+ * Registry of mail providers
+ * Providers register themselves on module init, so modules that dispatch by
+ * provider (Gmail, outbox) do not depend on every provider module
+ */
+@Injectable()
+export class MailProviderRegistry {
+  private providers = new Map<MailProviderType, MailProvider>();
+
+  register(provider: MailProvider): void {
+    this.providers.set(provider.type, provider);
+  }
+
+  /**
+   * Get a provider, throws when it is not available
+   */
+  get(type: MailProviderType | string): MailProvider {
+    const provider = this.providers.get(type as MailProviderType);
+    if (!provider) {
+      throw new Error(`Mail provider "${type}" is not available`);
+    }
+    return provider;
+  }
+
+  /**
+   * Provider that stored an email
+   */
+  forEmail(email: EmailRaw): MailProvider {
+    return this.get(email.provider || MailProviderType.GMAIL);
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { MailProviderRegistry } from './mail-provider.registry';
+
+@Module({
+  providers: [MailProviderRegistry],
+  exports: [MailProviderRegistry],
+})
+export class MailModule {}
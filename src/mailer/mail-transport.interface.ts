@@ -0,0 +1,21 @@
+/**
+ * System mail sent by the app itself (verification, password reset),
+ * not through a user's mailbox
+ */
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  html: string;
+}
+
+/**
+ * How system mail leaves the app; selected with MAIL_TRANSPORT
+ */
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+/**
+ * Injection token of the configured MailTransport
+ */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { MailerService } from './mailer.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import { LogMailTransport } from './transports/log-mail.transport';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+
+/**
+ * Transport from MAIL_TRANSPORT: "smtp" (SMTP_* settings) or "log" (default)
+ */
+function createMailTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'smtp') {
+    return new SmtpMailTransport(
+      process.env.MAIL_FROM || 'no-reply@localhost',
+      {
+        host: process.env.SMTP_HOST || 'localhost',
+        port: parseInt(process.env.SMTP_PORT || '3025', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        username: process.env.SMTP_USERNAME || '',
+        password: process.env.SMTP_PASSWORD || '',
+      },
+    );
+  }
+  return new LogMailTransport();
+}
+
+@Module({
+  providers: [
+    { provide: MAIL_TRANSPORT, useFactory: createMailTransport },
+    MailerService,
+  ],
+  exports: [MailerService],
+})
+export class MailerModule {}
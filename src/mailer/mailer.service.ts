@@ -0,0 +1,82 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  MAIL_TRANSPORT,
+  MailTransport,
+  OutgoingMail,
+} from './mail-transport.interface';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * System mail of the app (account verification, password reset)
+ */
+@Injectable()
+export class MailerService {
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+  ) {}
+
+  /**
+   * Link confirming the address of a new account
+   */
+  async sendEmailVerification(
+    to: string,
+    name: string,
+    link: string,
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      html: this.buildLinkMail(
+        name,
+        'Please confirm your email address by opening the link below. The link expires in 24 hours.',
+        link,
+        'Verify email',
+      ),
+    });
+  }
+
+  /**
+   * Link for setting a new password
+   */
+  async sendPasswordReset(
+    to: string,
+    name: string,
+    link: string,
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      html: this.buildLinkMail(
+        name,
+        'Someone (hopefully you) asked to reset your password. The link expires in 1 hour; ignore this mail if it was not you.',
+        link,
+        'Reset password',
+      ),
+    });
+  }
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await this.transport.send(mail);
+  }
+
+  private buildLinkMail(
+    name: string,
+    text: string,
+    link: string,
+    label: string,
+  ): string {
+    return [
+      `<p>Hi ${escapeHtml(name)},</p>`,
+      `<p>${escapeHtml(text)}</p>`,
+      `<p><a href="${escapeHtml(link)}">${escapeHtml(label)}</a></p>`,
+      `<p>${escapeHtml(link)}</p>`,
+    ].join('\n');
+  }
+}
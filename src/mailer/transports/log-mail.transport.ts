@@ -0,0 +1,12 @@
+import { MailTransport, OutgoingMail } from '../mail-transport.interface';
+
+/**
+ * Development transport: prints the mail (and its links) to the console
+ */
+export class LogMailTransport implements MailTransport {
+  async send(mail: OutgoingMail): Promise<void> {
+    console.log(
+      `[mail] To: ${mail.to} | Subject: ${mail.subject}\n${mail.html}`,
+    );
+  }
+}
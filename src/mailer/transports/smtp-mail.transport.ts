@@ -0,0 +1,39 @@
+import { randomUUID } from 'crypto';
+import { MailTransport, OutgoingMail } from '../mail-transport.interface';
+import {
+  SmtpConnection,
+  SmtpConnectionOptions,
+} from '../../imap/smtp-connection';
+import { buildMimeMessage } from '../../gmail/utils/mime.util';
+
+/**
+ * Sends through an SMTP server (a relay in production, a local catcher such
+ * as GreenMail in development); one connection per mail
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(
+    private readonly from: string,
+    private readonly options: SmtpConnectionOptions,
+  ) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const domain = this.from.split('@')[1] || 'localhost';
+    const raw = [
+      `From: ${this.from}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${domain}>`,
+      buildMimeMessage({
+        to: [mail.to],
+        subject: mail.subject,
+        html: mail.html,
+      }),
+    ].join('\r\n');
+
+    const smtp = await SmtpConnection.open(this.options);
+    try {
+      await smtp.sendMail(this.from, [mail.to], raw);
+    } finally {
+      await smtp.quit();
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import cookieParser from 'cookie-parser';
 
@@ -8,7 +9,13 @@ import cookieParser from 'cookie-parser';
  * Bootstrap the NestJS application
  */
 async function bootstrap(): Promise<void> {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Behind a reverse proxy: take the client IP (login throttling, sessions)
+  // from X-Forwarded-For; TRUST_PROXY is the number of proxy hops
+  if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', parseInt(process.env.TRUST_PROXY, 10) || 1);
+  }
 
   // Enable cookie parser for httpOnly cookies
   app.use(cookieParser());
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Microsoft 365 / Outlook.com account linked through Microsoft Graph
+ * Incremental sync follows the INBOX delta query (deltaLink)
+ */
+@Entity('outlook_accounts')
+@Index(['userId', 'email'], { unique: true }) // Each mailbox linked once per user
+export class OutlookAccount {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 255 })
+  email: string; // Mailbox address from /me
+
+  @Column({ type: 'text' })
+  accessToken: string; // Encrypted, like refreshToken
+
+  @Column({ type: 'text' })
+  refreshToken: string; // Rotated by Microsoft on every refresh (encrypted)
+
+  @Column({ type: 'timestamp', nullable: true })
+  accessTokenExpiry: Date;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  encryptionKeyId: string; // Master key encryptedDataKey is wrapped with (null: stored in plaintext)
+
+  @Column({ type: 'text', nullable: true })
+  encryptedDataKey: string; // Data key the tokens are encrypted with, wrapped
+
+  @Column({ type: 'text', nullable: true })
+  deltaLink: string; // Delta link of the last finished sync, or next page of an unfinished one
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastSyncedAt: Date; // When the last successful sync finished
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string; // Error of the last failed sync
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
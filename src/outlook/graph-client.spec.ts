@@ -0,0 +1,124 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { GraphClient, GraphError } from './graph-client';
+
+/**
+ * Runs the client against a mocked Graph server on a random local port
+ */
+describe('GraphClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: Array<{
+    method?: string;
+    url?: string;
+    headers: IncomingMessage['headers'];
+    body: string;
+  }>;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body,
+        });
+
+        if (req.url?.startsWith('/v1.0/me/messages/missing')) {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({
+              error: { code: 'ErrorItemNotFound', message: 'Not found' },
+            }),
+          );
+        } else if (req.url === '/v1.0/me/sendMail') {
+          res.writeHead(202);
+          res.end();
+        } else if (req.url?.endsWith('/permanentDelete')) {
+          res.writeHead(204);
+          res.end();
+        } else if (req.url?.endsWith('/$value')) {
+          res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+          res.end(Buffer.from([0, 1, 2, 255]));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ value: [{ id: 'm1' }] }));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1.0`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should send the token and immutable ID preference', async () => {
+    const client = new GraphClient('token-1', baseUrl);
+    const result = await client.request('GET', '/me/messages', {
+      headers: { Prefer: 'odata.maxpagesize=50' },
+    });
+
+    expect(result).toEqual({ value: [{ id: 'm1' }] });
+    expect(requests[0].url).toBe('/v1.0/me/messages');
+    expect(requests[0].headers.authorization).toBe('Bearer token-1');
+    expect(requests[0].headers.prefer).toBe(
+      'IdType="ImmutableId", odata.maxpagesize=50',
+    );
+  });
+
+  it('should follow absolute links as they are', async () => {
+    const client = new GraphClient('token-1', 'http://unused.invalid');
+    await client.request('GET', `${baseUrl}/me/delta?$skiptoken=abc`);
+
+    expect(requests[0].url).toBe('/v1.0/me/delta?$skiptoken=abc');
+  });
+
+  it('should send JSON and raw bodies', async () => {
+    const client = new GraphClient('token-1', baseUrl);
+    await client.request('PATCH', '/me/messages/m1', {
+      body: { isRead: true },
+    });
+    await client.requestRaw('POST', '/me/sendMail', 'TUlNRQ==', 'text/plain');
+
+    expect(requests[0].headers['content-type']).toBe('application/json');
+    expect(JSON.parse(requests[0].body)).toEqual({ isRead: true });
+    expect(requests[1].headers['content-type']).toBe('text/plain');
+    expect(requests[1].body).toBe('TUlNRQ==');
+  });
+
+  it('should return null for empty responses and buffers for downloads', async () => {
+    const client = new GraphClient('token-1', baseUrl);
+    expect(
+      await client.request('POST', '/me/messages/m1/permanentDelete'),
+    ).toBeNull();
+    await expect(
+      client.requestRaw('POST', '/me/sendMail', 'x', 'text/plain'),
+    ).resolves.toBeUndefined();
+
+    const content = await client.download(
+      '/me/messages/m1/attachments/a1/$value',
+    );
+    expect([...content]).toEqual([0, 1, 2, 255]);
+  });
+
+  it('should throw Graph errors with status and code', async () => {
+    const client = new GraphClient('token-1', baseUrl);
+    const error = await client
+      .request('GET', '/me/messages/missing')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(GraphError);
+    expect(error.message).toBe('Not found');
+    expect(error.status).toBe(404);
+    expect(error.code).toBe('ErrorItemNotFound');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Error response of Microsoft Graph
+ */
+export class GraphError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+  ) {
+    super(message);
+    this.name = 'GraphError';
+  }
+}
+
+/**
+ * Minimal Microsoft Graph client over fetch
+ * Paths are relative to the base URL (default https://graph.microsoft.com/v1.0);
+ * absolute URLs such as @odata.nextLink are used as they are
+ */
+export class GraphClient {
+  constructor(
+    private readonly accessToken: string,
+    private readonly baseUrl: string,
+  ) {}
+
+  /**
+   * JSON request; resolves to null for empty responses (202/204)
+   */
+  async request<T = any>(
+    method: string,
+    path: string,
+    options: { body?: any; headers?: Record<string, string> } = {},
+  ): Promise<T | null> {
+    const response = await this.send(method, path, {
+      headers: {
+        ...(options.body !== undefined
+          ? { 'Content-Type': 'application/json' }
+          : {}),
+        ...options.headers,
+      },
+      body:
+        options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+
+    const text = await response.text();
+    return text ? (JSON.parse(text) as T) : null;
+  }
+
+  /**
+   * Request with a raw body (e.g. base64 MIME for sendMail)
+   */
+  async requestRaw(
+    method: string,
+    path: string,
+    body: string,
+    contentType: string,
+  ): Promise<void> {
+    await this.send(method, path, {
+      headers: { 'Content-Type': contentType },
+      body,
+    });
+  }
+
+  /**
+   * Binary content, e.g. attachments/{id}/$value
+   */
+  async download(path: string): Promise<Buffer> {
+    const response = await this.send('GET', path, {});
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private async send(
+    method: string,
+    path: string,
+    init: { headers?: Record<string, string>; body?: string },
+  ): Promise<Response> {
+    const url = /^https?:\/\//i.test(path)
+      ? path
+      : `${this.baseUrl.replace(/\/+$/, '')}${path}`;
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${this.accessToken}`,
+        // IDs that survive moves between folders
+        Prefer: ['IdType="ImmutableId"', init.headers?.Prefer]
+          .filter((value) => !!value)
+          .join(', '),
+      },
+      body: init.body,
+    });
+
+    if (!response.ok) {
+      let message = `Graph request failed with status ${response.status}`;
+      let code: string | undefined;
+      try {
+        const error = JSON.parse(await response.text())?.error;
+        if (error?.message) message = error.message;
+        code = error?.code;
+      } catch (error) {
+        // Not a JSON error body
+      }
+      throw new GraphError(message, response.status, code);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,240 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiExcludeEndpoint,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { OutlookService } from './outlook.service';
+import {
+  OAuthStateError,
+  OAuthStateService,
+} from '../auth/oauth-state.service';
+import { MailProviderType } from '../mail/mail-provider.interface';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TBaseDTO } from '../common/dto/base.dto';
+import { GGJParseIntPipe } from '../common/pipes/parse-int.pipe';
+
+/**
+ * Controller for Microsoft 365 / Outlook accounts
+ * Their mail is stored with the Gmail mail and served by the /gmail endpoints
+ */
+@ApiTags('Outlook')
+@Controller('outlook')
+export class OutlookController {
+  constructor(
+    private readonly outlookService: OutlookService,
+    private readonly oauthStateService: OAuthStateService,
+  ) {}
+
+  /**
+   * Initiate Outlook OAuth flow
+   * Redirects user to the Microsoft consent screen
+   * Accepts JWT token via query parameter since redirect doesn't support headers
+   */
+  @Get('auth')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Initiate Outlook OAuth2 flow',
+    description:
+      'Redirects user to the Microsoft consent screen for Outlook mail access',
+  })
+  @ApiQuery({
+    name: 'token',
+    required: false,
+    description: 'JWT access token (alternative to Authorization header)',
+  })
+  @ApiResponse({
+    status: 302,
+    description: 'Redirects to Microsoft OAuth consent screen',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async initiateOutlookAuth(
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    // Signed single-use state bound to this user and browser, plus a PKCE challenge
+    const { state, codeChallenge } = await this.oauthStateService.create(
+      req.user.userId,
+      MailProviderType.OUTLOOK,
+      res,
+    );
+    res.redirect(this.outlookService.getAuthUrl(state, codeChallenge));
+  }
+
+  /**
+   * Outlook OAuth callback
+   * Handles the callback from Microsoft after user authorizes
+   */
+  @Get('callback')
+  @ApiExcludeEndpoint()
+  async handleOutlookCallback(
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+    try {
+      if (!code) {
+        return res.redirect(`${frontendUrl}/dashboard?outlook_error=no_code`);
+      }
+
+      // Rejects tampered, expired and replayed states
+      let flow: { userId: number; codeVerifier: string };
+      try {
+        flow = await this.oauthStateService.consume(
+          state,
+          MailProviderType.OUTLOOK,
+          req,
+          res,
+        );
+      } catch (error) {
+        if (error instanceof OAuthStateError) {
+          return res.redirect(
+            `${frontendUrl}/dashboard?outlook_error=${error.code}`,
+          );
+        }
+        throw error;
+      }
+
+      // Exchange the code and link the mailbox (or update a known one)
+      await this.outlookService.connectAccount(
+        flow.userId,
+        code,
+        flow.codeVerifier,
+      );
+
+      res.redirect(`${frontendUrl}/dashboard?outlook_connected=true`);
+    } catch (error) {
+      console.error('Outlook OAuth callback error:', error);
+      res.redirect(`${frontendUrl}/dashboard?outlook_error=callback_failed`);
+    }
+  }
+
+  /**
+   * List linked Outlook accounts
+   */
+  @Get('accounts')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List linked Outlook accounts' })
+  @ApiResponse({
+    status: 200,
+    description: 'Accounts retrieved successfully',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listAccounts(@Request() req: any): Promise<TBaseDTO<any[]>> {
+    try {
+      const accounts = await this.outlookService.listAccounts(req.user.userId);
+      return new TBaseDTO<any[]>(accounts);
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to list Outlook accounts',
+      );
+    }
+  }
+
+  /**
+   * Unlink an Outlook account
+   */
+  @Delete('accounts/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Unlink an Outlook account',
+    description: 'Stored emails of the account are kept.',
+  })
+  @ApiParam({ name: 'id', description: 'Outlook account ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Account unlinked successfully',
+    type: TBaseDTO<null>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async removeAccount(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) accountId: number,
+  ): Promise<TBaseDTO<null>> {
+    try {
+      await this.outlookService.removeAccount(req.user.userId, accountId);
+      return new TBaseDTO<null>(null, 'Outlook account unlinked successfully');
+    } catch (error: any) {
+      return new TBaseDTO<null>(
+        undefined,
+        undefined,
+        error.message || 'Failed to unlink Outlook account',
+      );
+    }
+  }
+
+  /**
+   * Sync an Outlook account now
+   */
+  @Post('accounts/:id/sync')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Fetch INBOX changes of an Outlook account now',
+    description:
+      'Follows the delta query: stores new mail and updates read state, flags and categories.',
+  })
+  @ApiParam({ name: 'id', description: 'Outlook account ID', type: Number })
+  @ApiQuery({
+    name: 'maxResults',
+    required: false,
+    type: Number,
+    description: 'Maximum number of new emails to store (default 50)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Account synced',
+    type: TBaseDTO<{ count: number }>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async syncAccount(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) accountId: number,
+    @Query('maxResults') maxResults?: string,
+  ): Promise<TBaseDTO<{ count: number }>> {
+    const result = await this.outlookService.fetch(req.user.userId, {
+      accountId,
+      maxResults: maxResults ? parseInt(maxResults, 10) : undefined,
+    });
+
+    if (result.success) {
+      return new TBaseDTO<{ count: number }>(
+        { count: result.count },
+        result.message,
+      );
+    }
+    return new TBaseDTO<{ count: number }>(
+      undefined,
+      undefined,
+      result.message || 'Failed to sync Outlook account',
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OutlookService } from './outlook.service';
+import { OutlookController } from './outlook.controller';
+import { OutlookAccount } from './entities/outlook-account.entity';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { KanbanColumn } from '../gmail/entities/kanban-column.entity';
+import { GmailModule } from '../gmail/gmail.module';
+import { KafkaModule } from '../kafka/kafka.module';
+import { EventsModule } from '../events/events.module';
+import { MailModule } from '../mail/mail.module';
+import { CryptoModule } from '../common/crypto/crypto.module';
+import { OAuthStateModule } from '../auth/oauth-state.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([OutlookAccount, EmailRaw, KanbanColumn]),
+    GmailModule,
+    KafkaModule,
+    EventsModule,
+    MailModule,
+    CryptoModule,
+    OAuthStateModule,
+  ],
+  controllers: [OutlookController],
+  providers: [OutlookService],
+  exports: [OutlookService],
+})
+export class OutlookModule {}
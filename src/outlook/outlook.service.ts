@@ -0,0 +1,840 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, IsNull, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { OutlookAccount } from './entities/outlook-account.entity';
+import { GraphClient } from './graph-client';
+import {
+  GRAPH_FOLDERS,
+  GRAPH_MESSAGE_FIELDS,
+  GraphAttachment,
+  GraphMessage,
+  buildGraphLabels,
+  buildGraphUpdate,
+  toGmailMessage,
+} from './utils/graph-message.util';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { KanbanColumn } from '../gmail/entities/kanban-column.entity';
+import { GmailService } from '../gmail/gmail.service';
+import {
+  MimeMessageOptions,
+  assertAttachmentLimits,
+  buildMimeMessage,
+} from '../gmail/utils/mime.util';
+import { KafkaService } from '../kafka/kafka.service';
+import {
+  MailboxEventsService,
+  MailboxEventType,
+} from '../events/mailbox-events.service';
+import { MailProviderRegistry } from '../mail/mail-provider.registry';
+import { TokenEncryptionService } from '../common/crypto/token-encryption.service';
+import {
+  MailFlagChanges,
+  MailFolder,
+  MailProvider,
+  MailProviderType,
+} from '../mail/mail-provider.interface';
+
+/**
+ * Token endpoint response of the Microsoft identity platform
+ */
+interface MicrosoftTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+}
+
+/**
+ * Delegated Graph permissions requested on connect
+ */
+const GRAPH_SCOPES = [
+  'offline_access',
+  'User.Read',
+  'Mail.ReadWrite',
+  'Mail.Send',
+];
+
+/**
+ * Microsoft 365 / Outlook.com mail provider over Microsoft Graph
+ * Syncs the INBOX with delta queries, maps read state, flag, importance and
+ * categories to Gmail labels (categories also pick the Kanban column through
+ * KanbanColumn.outlookCategory) and sends MIME messages through sendMail
+ */
+@Injectable()
+export class OutlookService
+  implements MailProvider, OnModuleInit, OnModuleDestroy
+{
+  readonly type = MailProviderType.OUTLOOK;
+  private readonly SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+  private readonly DEFAULT_MAX_RESULTS = 50;
+  private readonly INITIAL_SYNC_DAYS = 30; // First sync only reads recent mail
+  private intervalId: NodeJS.Timeout | null = null;
+  private syncs = new Map<number, Promise<number[]>>(); // Syncs in progress, by account
+  private refreshes = new Map<number, Promise<string>>(); // Token refreshes in progress, by account
+
+  constructor(
+    @InjectRepository(OutlookAccount)
+    private readonly outlookAccountRepository: Repository<OutlookAccount>,
+    @InjectRepository(EmailRaw)
+    private readonly emailRawRepository: Repository<EmailRaw>,
+    @InjectRepository(KanbanColumn)
+    private readonly kanbanColumnRepository: Repository<KanbanColumn>,
+    private readonly gmailService: GmailService,
+    private readonly kafkaService: KafkaService,
+    private readonly mailboxEventsService: MailboxEventsService,
+    private readonly mailProviderRegistry: MailProviderRegistry,
+    private readonly tokenEncryptionService: TokenEncryptionService,
+  ) {}
+
+  /**
+   * Register as mail provider and poll linked accounts
+   */
+  onModuleInit(): void {
+    this.mailProviderRegistry.register(this);
+
+    this.intervalId = setInterval(() => {
+      this.syncAllAccounts().catch((error) =>
+        console.error('Outlook Service: Scheduled sync failed:', error),
+      );
+    }, this.SYNC_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Microsoft consent screen URL; the state comes back to the callback
+   * The PKCE challenge is checked against the verifier at code exchange
+   */
+  getAuthUrl(state: string, codeChallenge: string): string {
+    const params = new URLSearchParams({
+      client_id: process.env.MICROSOFT_CLIENT_ID || '',
+      response_type: 'code',
+      redirect_uri: process.env.MICROSOFT_REDIRECT_URI || '',
+      response_mode: 'query',
+      scope: GRAPH_SCOPES.join(' '),
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      prompt: 'select_account', // Let users link more than one account
+    });
+    return `${this.getAuthorityUrl()}/authorize?${params.toString()}`;
+  }
+
+  /**
+   * Exchange an authorization code and link the mailbox
+   * Linking an address again replaces its tokens; tokens are stored encrypted
+   */
+  async connectAccount(
+    userId: number,
+    code: string,
+    codeVerifier: string,
+  ): Promise<any> {
+    const tokens = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: process.env.MICROSOFT_REDIRECT_URI || '',
+    });
+    if (!tokens.refresh_token) {
+      throw new Error('No refresh token received (offline_access missing)');
+    }
+
+    const me = await new GraphClient(
+      tokens.access_token,
+      this.getGraphUrl(),
+    ).request<{ mail?: string; userPrincipalName?: string }>(
+      'GET',
+      '/me?$select=mail,userPrincipalName',
+    );
+    const email = (me?.mail || me?.userPrincipalName || '').toLowerCase();
+    if (!email) {
+      throw new Error('Could not read the mailbox address');
+    }
+
+    const existing = await this.outlookAccountRepository.findOne({
+      where: { userId, email },
+    });
+    const settings = {
+      email,
+      ...this.tokenEncryptionService.encrypt(existing, {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+      }),
+      accessTokenExpiry: new Date(Date.now() + tokens.expires_in * 1000),
+      lastError: null,
+    };
+    const saved = await this.outlookAccountRepository.save(
+      existing
+        ? Object.assign(existing, settings)
+        : this.outlookAccountRepository.create({ ...settings, userId }),
+    );
+
+    return this.formatAccount(saved);
+  }
+
+  /**
+   * Linked Outlook accounts (without tokens)
+   */
+  async listAccounts(userId: number): Promise<any[]> {
+    const accounts = await this.outlookAccountRepository.find({
+      where: { userId },
+      order: { id: 'ASC' },
+    });
+    return accounts.map((account) => this.formatAccount(account));
+  }
+
+  /**
+   * Unlink an account, stored emails are kept
+   */
+  async removeAccount(userId: number, accountId: number): Promise<void> {
+    const account = await this.getAccount(userId, accountId);
+
+    await this.emailRawRepository.update(
+      {
+        userId,
+        provider: MailProviderType.OUTLOOK,
+        providerAccountId: account.id,
+      },
+      { providerAccountId: null },
+    );
+    await this.outlookAccountRepository.delete({ id: account.id });
+  }
+
+  /**
+   * Delete the tokens of every linked account (used on account deletion)
+   * Microsoft has no endpoint to revoke one app's refresh token; the tokens
+   * only work together with this app's client secret, so deleting the stored
+   * copy ends the app's access
+   */
+  async revokeAccounts(userId: number): Promise<void> {
+    await this.outlookAccountRepository.delete({ userId });
+  }
+
+  async hasAccount(userId: number, accountId: number): Promise<boolean> {
+    return (
+      (await this.outlookAccountRepository.count({
+        where: { id: accountId, userId },
+      })) > 0
+    );
+  }
+
+  /**
+   * Sync the user's accounts (all of them, or only options.accountId)
+   */
+  async fetch(
+    userId: number,
+    options: { accountId?: number; maxResults?: number } = {},
+  ): Promise<{ success: boolean; count: number; message: string }> {
+    let accounts: OutlookAccount[];
+    try {
+      accounts = options.accountId
+        ? [await this.getAccount(userId, options.accountId)]
+        : await this.outlookAccountRepository.find({
+            where: { userId },
+            order: { id: 'ASC' },
+          });
+    } catch (error: any) {
+      return { success: false, count: 0, message: error.message };
+    }
+    if (accounts.length === 0) {
+      return { success: false, count: 0, message: 'No Outlook account linked' };
+    }
+
+    let count = 0;
+    const failures: string[] = [];
+    for (const account of accounts) {
+      try {
+        count += (await this.syncAccount(account, options.maxResults)).length;
+      } catch (error: any) {
+        failures.push(`${account.email}: ${error.message}`);
+      }
+    }
+
+    return {
+      success: failures.length < accounts.length,
+      count,
+      message: [`Successfully fetched ${count} new emails`, ...failures].join(
+        ' ',
+      ),
+    };
+  }
+
+  /**
+   * Sync every linked account, called by the poll timer
+   */
+  async syncAllAccounts(): Promise<void> {
+    const accounts = await this.outlookAccountRepository.find();
+    for (const account of accounts) {
+      try {
+        await this.syncAccount(account);
+      } catch (error: any) {
+        console.error(
+          `Outlook Service: Sync of account ${account.id} failed:`,
+          error.message,
+        );
+      }
+    }
+  }
+
+  /**
+   * Send a MIME message through Graph sendMail (saved to Sent Items)
+   * From, Date and Message-ID are set here so the Message-ID is known
+   */
+  async send(
+    userId: number,
+    message: MimeMessageOptions,
+    options: { accountId?: number | null; threadId?: string } = {},
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      assertAttachmentLimits(message.attachments || []);
+      const account = await this.getAccount(userId, options.accountId);
+      if (!message.to?.length && !message.cc?.length && !message.bcc?.length) {
+        throw new Error('At least one recipient is required');
+      }
+
+      const domain = account.email.split('@')[1] || 'localhost';
+      const messageId = `<${randomUUID()}@${domain}>`;
+      const raw = [
+        `From: ${account.email}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: ${messageId}`,
+        buildMimeMessage(message),
+      ].join('\r\n');
+
+      const graph = await this.getGraphClient(account);
+      await graph.requestRaw(
+        'POST',
+        '/me/sendMail',
+        Buffer.from(raw, 'utf-8').toString('base64'),
+        'text/plain',
+      );
+
+      return { success: true, messageId };
+    } catch (error: any) {
+      console.error('Outlook send error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to send email',
+      };
+    }
+  }
+
+  /**
+   * Map read/star/importance changes to message properties, other labels to
+   * categories and INBOX/TRASH/SPAM label changes to moves
+   */
+  async modifyFlags(email: EmailRaw, changes: MailFlagChanges): Promise<void> {
+    const labels = this.getLabels(email);
+    const { patch, folder } = buildGraphUpdate(labels, changes);
+    const { graph, messageId } = await this.openMessage(email);
+
+    if (Object.keys(patch).length > 0) {
+      await graph.request('PATCH', `/me/messages/${messageId}`, {
+        body: patch,
+      });
+    }
+
+    // Keep the label list in step; moves set the folder labels
+    const remove = new Set(changes.removeLabelIds || []);
+    const add = new Set(changes.addLabelIds || []);
+    if (changes.markRead !== undefined) {
+      (changes.markRead ? remove : add).add('UNREAD');
+    }
+    const updated = labels.filter((label) => !remove.has(label));
+    add.forEach((label) => {
+      if (!updated.includes(label) && !this.isFolderLabel(label)) {
+        updated.push(label);
+      }
+    });
+    await this.saveLabels(email, updated);
+
+    if (folder) {
+      await this.moveMessage(graph, email, messageId, folder);
+    }
+  }
+
+  async move(email: EmailRaw, folder: MailFolder): Promise<void> {
+    const { graph, messageId } = await this.openMessage(email);
+    await this.moveMessage(graph, email, messageId, folder);
+  }
+
+  async delete(email: EmailRaw): Promise<void> {
+    const { graph, messageId } = await this.openMessage(email);
+    await graph.request('POST', `/me/messages/${messageId}/permanentDelete`);
+  }
+
+  /**
+   * Download an attachment; attachment IDs are Graph attachment IDs
+   */
+  async getAttachment(email: EmailRaw, attachmentId: string): Promise<Buffer> {
+    const { graph, messageId } = await this.openMessage(email);
+    return await graph.download(
+      `/me/messages/${messageId}/attachments/${encodeURIComponent(
+        attachmentId,
+      )}/$value`,
+    );
+  }
+
+  /**
+   * Sync one account; concurrent calls for the same account share one run
+   */
+  private syncAccount(
+    account: OutlookAccount,
+    maxResults: number = this.DEFAULT_MAX_RESULTS,
+  ): Promise<number[]> {
+    const running = this.syncs.get(account.id);
+    if (running) {
+      return running;
+    }
+
+    const sync = this.runSync(account, maxResults)
+      .catch(async (error: any) => {
+        await this.outlookAccountRepository.update(
+          { id: account.id },
+          { lastError: error.message || 'Sync failed' },
+        );
+        throw error;
+      })
+      .finally(() => this.syncs.delete(account.id));
+    this.syncs.set(account.id, sync);
+    return sync;
+  }
+
+  /**
+   * Follow the INBOX delta query from the stored link
+   * New messages are stored, changed ones get their labels (and a mapped
+   * category's Kanban column) updated, removed ones lose the INBOX label.
+   * A run stops after maxResults new messages and keeps the next page link,
+   * so the following run continues where this one stopped
+   */
+  private async runSync(
+    account: OutlookAccount,
+    maxResults: number,
+  ): Promise<number[]> {
+    const graph = await this.getGraphClient(account);
+    const categoryColumns = await this.getCategoryColumns(account.userId);
+    const storedEmailIds: number[] = [];
+    const updatedEmailIds: number[] = [];
+
+    let link = account.deltaLink || this.getInitialDeltaPath();
+    while (true) {
+      const page = await graph.request<{
+        value?: GraphMessage[];
+        '@odata.nextLink'?: string;
+        '@odata.deltaLink'?: string;
+      }>('GET', link, { headers: { Prefer: 'odata.maxpagesize=50' } });
+      const messages = page?.value || [];
+
+      const gmailIds = messages.map((message) =>
+        this.buildMessageId(account, message.id),
+      );
+      const existing = gmailIds.length
+        ? await this.emailRawRepository.find({
+            where: { gmailId: In(gmailIds) },
+          })
+        : [];
+      const existingById = new Map(
+        existing.map((email) => [email.gmailId, email]),
+      );
+
+      for (const message of messages) {
+        const gmailId = this.buildMessageId(account, message.id);
+        const stored = existingById.get(gmailId);
+        try {
+          if (message['@removed']) {
+            if (stored) {
+              await this.saveLabels(
+                stored,
+                this.getLabels(stored).filter((label) => label !== 'INBOX'),
+              );
+              updatedEmailIds.push(stored.id);
+            }
+          } else if (stored) {
+            this.applyMessageState(stored, message, categoryColumns);
+            await this.emailRawRepository.save(stored);
+            updatedEmailIds.push(stored.id);
+          } else {
+            const saved = await this.storeMessage(
+              graph,
+              account,
+              gmailId,
+              message,
+              categoryColumns,
+            );
+            storedEmailIds.push(saved.id);
+          }
+        } catch (error: any) {
+          console.error(
+            `Error storing Outlook message ${gmailId}:`,
+            error.message,
+          );
+        }
+      }
+
+      if (page?.['@odata.nextLink']) {
+        link = page['@odata.nextLink'];
+        if (storedEmailIds.length >= maxResults) break;
+      } else {
+        link = page?.['@odata.deltaLink'] || link;
+        break;
+      }
+    }
+
+    await this.outlookAccountRepository.update(
+      { id: account.id },
+      { deltaLink: link, lastSyncedAt: new Date(), lastError: null },
+    );
+
+    if (updatedEmailIds.length > 0) {
+      this.mailboxEventsService.emit(
+        account.userId,
+        MailboxEventType.EMAIL_UPDATED,
+        { emailIds: updatedEmailIds },
+      );
+    }
+    if (storedEmailIds.length > 0) {
+      this.mailboxEventsService.emit(
+        account.userId,
+        MailboxEventType.EMAIL_STORED,
+        { emailIds: storedEmailIds },
+      );
+      try {
+        await this.kafkaService.publishEmailFetchedEvent(
+          account.userId,
+          storedEmailIds,
+        );
+      } catch (kafkaError: any) {
+        console.error('Failed to publish Kafka event:', kafkaError);
+      }
+    }
+
+    return storedEmailIds;
+  }
+
+  /**
+   * Store a new message via the Gmail message shape
+   */
+  private async storeMessage(
+    graph: GraphClient,
+    account: OutlookAccount,
+    gmailId: string,
+    message: GraphMessage,
+    categoryColumns: Map<string, string>,
+  ): Promise<EmailRaw> {
+    const attachments = message.hasAttachments
+      ? (
+          await graph.request<{ value?: GraphAttachment[] }>(
+            'GET',
+            `/me/messages/${encodeURIComponent(
+              message.id,
+            )}/attachments?$select=id,name,contentType,size,isInline`,
+          )
+        )?.value || []
+      : [];
+
+    const gmailMessage = toGmailMessage(message, {
+      id: gmailId,
+      labelIds: buildGraphLabels(message),
+      attachments,
+    });
+    const email = this.emailRawRepository.create({
+      ...this.gmailService.mapMessageToEmail(account.userId, gmailMessage),
+      accountId: null,
+      provider: MailProviderType.OUTLOOK,
+      providerAccountId: account.id,
+      rawData: JSON.stringify({
+        ...gmailMessage,
+        outlook: { messageId: message.id },
+      }),
+    });
+    const status = this.findCategoryStatus(message, categoryColumns);
+    if (status) {
+      email.status = status;
+    }
+
+    return await this.emailRawRepository.save(email);
+  }
+
+  /**
+   * Apply read state, flag, importance and categories of a changed message
+   */
+  private applyMessageState(
+    email: EmailRaw,
+    message: GraphMessage,
+    categoryColumns: Map<string, string>,
+  ): void {
+    const folderLabels = this.getLabels(email).filter((label) =>
+      this.isFolderLabel(label),
+    );
+    const labels = buildGraphLabels(message, null);
+    labels.unshift(...(folderLabels.length ? folderLabels : ['INBOX']));
+
+    email.labels = JSON.stringify(labels);
+    email.isRead = !labels.includes('UNREAD');
+    email.isStarred = labels.includes('STARRED');
+    email.isImportant = labels.includes('IMPORTANT');
+
+    const status = this.findCategoryStatus(message, categoryColumns);
+    if (status && status !== email.status) {
+      email.status = status;
+      email.snoozeUntil = null;
+    }
+  }
+
+  /**
+   * Kanban column of the first message category mapped to one
+   */
+  private findCategoryStatus(
+    message: GraphMessage,
+    categoryColumns: Map<string, string>,
+  ): string | null {
+    for (const category of message.categories || []) {
+      const status = categoryColumns.get(category);
+      if (status) return status;
+    }
+    return null;
+  }
+
+  /**
+   * Active Kanban columns mapped to an Outlook category (category => statusId)
+   */
+  private async getCategoryColumns(
+    userId: number,
+  ): Promise<Map<string, string>> {
+    const columns = await this.kanbanColumnRepository.find({
+      where: { userId, isActive: true, outlookCategory: Not(IsNull()) },
+      order: { order: 'ASC' },
+    });
+    return new Map(
+      columns.map((column) => [column.outlookCategory, column.statusId]),
+    );
+  }
+
+  /**
+   * Move a message and store its new folder label
+   * Immutable IDs stay the same across moves
+   */
+  private async moveMessage(
+    graph: GraphClient,
+    email: EmailRaw,
+    messageId: string,
+    folder: MailFolder,
+  ): Promise<void> {
+    await graph.request('POST', `/me/messages/${messageId}/move`, {
+      body: { destinationId: GRAPH_FOLDERS[folder] },
+    });
+
+    const labels = this.getLabels(email).filter(
+      (label) => !this.isFolderLabel(label),
+    );
+    if (folder !== MailFolder.ARCHIVE) {
+      labels.push(folder);
+    }
+    await this.saveLabels(email, labels);
+  }
+
+  /**
+   * Graph client and encoded Graph message ID of a stored email
+   */
+  private async openMessage(
+    email: EmailRaw,
+  ): Promise<{ graph: GraphClient; messageId: string }> {
+    if (!email.providerAccountId) {
+      throw new Error('Outlook account of this email is no longer linked');
+    }
+    const account = await this.getAccount(
+      email.userId,
+      email.providerAccountId,
+    );
+
+    const rawData = email.rawData ? JSON.parse(email.rawData) : {};
+    const messageId = rawData.outlook?.messageId;
+    if (!messageId) {
+      throw new Error('Message not found in Outlook');
+    }
+
+    return {
+      graph: await this.getGraphClient(account),
+      messageId: encodeURIComponent(messageId),
+    };
+  }
+
+  /**
+   * Graph client with a valid access token, refreshed when about to expire
+   */
+  private async getGraphClient(account: OutlookAccount): Promise<GraphClient> {
+    const expiresAt = account.accessTokenExpiry
+      ? new Date(account.accessTokenExpiry).getTime()
+      : 0;
+    const accessToken =
+      expiresAt > Date.now() + 60 * 1000
+        ? this.tokenEncryptionService.decrypt(account, account.accessToken)
+        : await this.refreshAccessToken(account);
+
+    return new GraphClient(accessToken, this.getGraphUrl());
+  }
+
+  /**
+   * Refresh the access token; Microsoft rotates the refresh token as well,
+   * so concurrent refreshes of one account share a single request
+   */
+  private refreshAccessToken(account: OutlookAccount): Promise<string> {
+    const running = this.refreshes.get(account.id);
+    if (running) {
+      return running;
+    }
+
+    const refresh = (async () => {
+      const refreshToken = this.tokenEncryptionService.decrypt(
+        account,
+        account.refreshToken,
+      );
+      const tokens = await this.requestToken({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      });
+
+      Object.assign(
+        account,
+        this.tokenEncryptionService.encrypt(account, {
+          accessToken: tokens.access_token,
+          refreshToken: tokens.refresh_token || refreshToken,
+        }),
+      );
+      account.accessTokenExpiry = new Date(
+        Date.now() + tokens.expires_in * 1000,
+      );
+      await this.outlookAccountRepository.update(
+        { id: account.id },
+        {
+          accessToken: account.accessToken,
+          refreshToken: account.refreshToken,
+          encryptionKeyId: account.encryptionKeyId,
+          encryptedDataKey: account.encryptedDataKey,
+          accessTokenExpiry: account.accessTokenExpiry,
+        },
+      );
+      return tokens.access_token;
+    })().finally(() => this.refreshes.delete(account.id));
+    this.refreshes.set(account.id, refresh);
+    return refresh;
+  }
+
+  private async requestToken(
+    params: Record<string, string>,
+  ): Promise<MicrosoftTokenResponse> {
+    const response = await fetch(`${this.getAuthorityUrl()}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.MICROSOFT_CLIENT_ID || '',
+        client_secret: process.env.MICROSOFT_CLIENT_SECRET || '',
+        scope: GRAPH_SCOPES.join(' '),
+        ...params,
+      }).toString(),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.access_token) {
+      throw new Error(
+        data.error_description ||
+          data.error ||
+          'Microsoft token request failed',
+      );
+    }
+    return data as MicrosoftTokenResponse;
+  }
+
+  /**
+   * First delta request: INBOX mail of the last INITIAL_SYNC_DAYS days
+   */
+  private getInitialDeltaPath(): string {
+    const since = new Date(
+      Date.now() - this.INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000,
+    ).toISOString();
+    const params = new URLSearchParams({
+      $select: GRAPH_MESSAGE_FIELDS,
+      $filter: `receivedDateTime ge ${since}`,
+    });
+    return `/me/mailFolders/inbox/messages/delta?${params.toString()}`;
+  }
+
+  private getAuthorityUrl(): string {
+    return `https://login.microsoftonline.com/${
+      process.env.MICROSOFT_TENANT_ID || 'common'
+    }/oauth2/v2.0`;
+  }
+
+  private getGraphUrl(): string {
+    return (
+      process.env.MICROSOFT_GRAPH_URL || 'https://graph.microsoft.com/v1.0'
+    );
+  }
+
+  private getLabels(email: EmailRaw): string[] {
+    try {
+      return email.labels ? JSON.parse(email.labels) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private async saveLabels(email: EmailRaw, labels: string[]): Promise<void> {
+    email.labels = labels.length > 0 ? JSON.stringify(labels) : null;
+    await this.emailRawRepository.update(
+      { id: email.id },
+      { labels: email.labels },
+    );
+  }
+
+  private isFolderLabel(label: string): boolean {
+    return ['INBOX', 'TRASH', 'SPAM'].includes(label);
+  }
+
+  /**
+   * Resolve a linked account: the given one, or the user's first account
+   */
+  private async getAccount(
+    userId: number,
+    accountId?: number | null,
+  ): Promise<OutlookAccount> {
+    const account = accountId
+      ? await this.outlookAccountRepository.findOne({
+          where: { id: accountId, userId },
+        })
+      : await this.outlookAccountRepository.findOne({
+          where: { userId },
+          order: { id: 'ASC' },
+        });
+
+    if (!account) {
+      throw new Error(
+        accountId ? 'Outlook account not found' : 'No Outlook account linked',
+      );
+    }
+
+    return account;
+  }
+
+  /**
+   * Stored message ID: unique across accounts
+   */
+  private buildMessageId(account: OutlookAccount, messageId: string): string {
+    return `outlook:${account.id}:${messageId}`;
+  }
+
+  private formatAccount(account: OutlookAccount): any {
+    return {
+      id: account.id,
+      email: account.email,
+      lastSyncedAt: account.lastSyncedAt,
+      lastError: account.lastError,
+      createdAt: account.createdAt,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  GraphMessage,
+  buildGraphLabels,
+  buildGraphUpdate,
+  toGmailMessage,
+} from './graph-message.util';
+import { MailFolder } from '../../mail/mail-provider.interface';
+
+// Recorded Graph delta item (trimmed)
+const message: GraphMessage = {
+  id: 'AAkALgAAAAAAHYQDEapmEc2byACqAC-EWg0A',
+  subject: 'Quarterly report',
+  from: {
+    emailAddress: { name: 'Alice Nguyen', address: 'alice@contoso.com' },
+  },
+  toRecipients: [
+    { emailAddress: { name: 'Bob', address: 'bob@contoso.com' } },
+    { emailAddress: { address: 'carol@contoso.com' } },
+  ],
+  ccRecipients: [],
+  receivedDateTime: '2026-10-18T08:30:00Z',
+  sentDateTime: '2026-10-18T08:29:55Z',
+  isRead: false,
+  flag: { flagStatus: 'flagged' },
+  importance: 'high',
+  categories: ['Follow up'],
+  conversationId: 'AAQkAGI2TG93AAA=',
+  internetMessageId: '<abc123@contoso.com>',
+  body: { contentType: 'html', content: '<p>Hi team</p>' },
+  bodyPreview: 'Hi   team',
+  hasAttachments: true,
+};
+
+describe('buildGraphLabels', () => {
+  it('should map read state, flag, importance and categories', () => {
+    expect(buildGraphLabels(message)).toEqual([
+      'INBOX',
+      'UNREAD',
+      'STARRED',
+      'IMPORTANT',
+      'Follow up',
+    ]);
+  });
+
+  it('should leave out the folder label when none is given', () => {
+    expect(
+      buildGraphLabels({ id: '1', isRead: true, importance: 'normal' }, null),
+    ).toEqual([]);
+  });
+});
+
+describe('toGmailMessage', () => {
+  it('should build headers, body and thread from the Graph message', () => {
+    const result = toGmailMessage(message, {
+      id: 'outlook:1:abc',
+      labelIds: ['INBOX'],
+    });
+
+    expect(result.id).toBe('outlook:1:abc');
+    expect(result.threadId).toBe('AAQkAGI2TG93AAA=');
+    expect(result.snippet).toBe('Hi team');
+    expect(result.internalDate).toBe(
+      String(Date.parse('2026-10-18T08:30:00Z')),
+    );
+    expect(result.payload?.mimeType).toBe('text/html');
+    expect(
+      Buffer.from(result.payload?.body?.data || '', 'base64url').toString(),
+    ).toBe('<p>Hi team</p>');
+
+    const headers = Object.fromEntries(
+      (result.payload?.headers || []).map((h) => [h.name, h.value]),
+    );
+    expect(headers).toEqual({
+      From: 'Alice Nguyen <alice@contoso.com>',
+      To: 'Bob <bob@contoso.com>, carol@contoso.com',
+      Subject: 'Quarterly report',
+      Date: new Date('2026-10-18T08:29:55Z').toUTCString(),
+      'Message-ID': '<abc123@contoso.com>',
+    });
+  });
+
+  it('should add attachment parts carrying the Graph attachment ID', () => {
+    const result = toGmailMessage(message, {
+      id: 'outlook:1:abc',
+      labelIds: [],
+      attachments: [
+        {
+          id: 'att-1',
+          name: 'report.pdf',
+          contentType: 'application/pdf',
+          size: 1024,
+          isInline: false,
+        },
+      ],
+    });
+
+    expect(result.payload?.mimeType).toBe('multipart/mixed');
+    expect(result.payload?.parts).toHaveLength(2);
+    expect(result.payload?.parts?.[1]).toMatchObject({
+      filename: 'report.pdf',
+      mimeType: 'application/pdf',
+      body: { size: 1024, attachmentId: 'att-1' },
+    });
+  });
+});
+
+describe('buildGraphUpdate', () => {
+  it('should map read, star and importance changes to properties', () => {
+    expect(
+      buildGraphUpdate([], {
+        markRead: true,
+        addLabelIds: ['STARRED'],
+        removeLabelIds: ['IMPORTANT'],
+      }),
+    ).toEqual({
+      patch: {
+        isRead: true,
+        flag: { flagStatus: 'flagged' },
+        importance: 'normal',
+      },
+      folder: null,
+    });
+  });
+
+  it('should rewrite categories from the current labels', () => {
+    const { patch } = buildGraphUpdate(['INBOX', 'UNREAD', 'To do', 'Blue'], {
+      addLabelIds: ['Done'],
+      removeLabelIds: ['To do'],
+    });
+    expect(patch).toEqual({ categories: ['Blue', 'Done'] });
+  });
+
+  it('should turn folder labels into moves', () => {
+    expect(buildGraphUpdate([], { removeLabelIds: ['INBOX'] }).folder).toBe(
+      MailFolder.ARCHIVE,
+    );
+    expect(buildGraphUpdate([], { addLabelIds: ['TRASH'] }).folder).toBe(
+      MailFolder.TRASH,
+    );
+    expect(buildGraphUpdate([], { addLabelIds: ['INBOX'] }).patch).toEqual({});
+  });
+});
@@ -0,0 +1,253 @@
+import { gmail_v1 } from 'googleapis';
+import {
+  MailFlagChanges,
+  MailFolder,
+} from '../../mail/mail-provider.interface';
+
+/**
+ * Recipient of a Graph message
+ */
+export interface GraphRecipient {
+  emailAddress?: { name?: string; address?: string };
+}
+
+/**
+ * Fields of a Graph message used for sync (see GRAPH_MESSAGE_FIELDS)
+ */
+export interface GraphMessage {
+  id: string;
+  subject?: string | null;
+  from?: GraphRecipient | null;
+  toRecipients?: GraphRecipient[];
+  ccRecipients?: GraphRecipient[];
+  bccRecipients?: GraphRecipient[];
+  receivedDateTime?: string | null;
+  sentDateTime?: string | null;
+  isRead?: boolean;
+  flag?: { flagStatus?: string } | null;
+  importance?: string | null;
+  categories?: string[];
+  conversationId?: string | null;
+  internetMessageId?: string | null;
+  body?: { contentType?: string; content?: string } | null;
+  bodyPreview?: string | null;
+  hasAttachments?: boolean;
+  '@removed'?: { reason?: string }; // Delta: deleted or moved out of the folder
+}
+
+/**
+ * Attachment metadata of a Graph message
+ */
+export interface GraphAttachment {
+  id: string;
+  name?: string | null;
+  contentType?: string | null;
+  size?: number;
+  isInline?: boolean;
+}
+
+/**
+ * Message fields requested from Graph
+ */
+export const GRAPH_MESSAGE_FIELDS = [
+  'subject',
+  'from',
+  'toRecipients',
+  'ccRecipients',
+  'bccRecipients',
+  'receivedDateTime',
+  'sentDateTime',
+  'isRead',
+  'flag',
+  'importance',
+  'categories',
+  'conversationId',
+  'internetMessageId',
+  'body',
+  'bodyPreview',
+  'hasAttachments',
+].join(',');
+
+/**
+ * Well-known Graph folder of each mail folder
+ */
+export const GRAPH_FOLDERS: Record<MailFolder, string> = {
+  [MailFolder.INBOX]: 'inbox',
+  [MailFolder.ARCHIVE]: 'archive',
+  [MailFolder.TRASH]: 'deleteditems',
+  [MailFolder.SPAM]: 'junkemail',
+};
+
+/**
+ * Labels mapped to Outlook properties or folders; every other label is a category
+ */
+const SYSTEM_LABELS = [
+  'INBOX',
+  'UNREAD',
+  'STARRED',
+  'IMPORTANT',
+  'TRASH',
+  'SPAM',
+];
+
+/**
+ * Gmail-style labels of a Graph message
+ * Read state, flag and importance become UNREAD, STARRED and IMPORTANT,
+ * categories are kept as labels of their own
+ */
+export function buildGraphLabels(
+  message: GraphMessage,
+  folderLabel: string | null = 'INBOX',
+): string[] {
+  const labels: string[] = folderLabel ? [folderLabel] : [];
+  if (message.isRead === false) labels.push('UNREAD');
+  if (message.flag?.flagStatus === 'flagged') labels.push('STARRED');
+  if (message.importance === 'high') labels.push('IMPORTANT');
+  for (const category of message.categories || []) {
+    if (!labels.includes(category)) labels.push(category);
+  }
+  return labels;
+}
+
+/**
+ * Turn a Graph message into the Gmail API message shape, so Outlook mail is
+ * stored and read with the same helpers as Gmail mail
+ * Attachments become parts whose body.attachmentId is the Graph attachment ID
+ */
+export function toGmailMessage(
+  message: GraphMessage,
+  options: {
+    id: string;
+    labelIds: string[];
+    attachments?: GraphAttachment[];
+  },
+): gmail_v1.Schema$Message {
+  const headers: gmail_v1.Schema$MessagePartHeader[] = [];
+  const addHeader = (name: string, value: string | null | undefined) => {
+    if (value) headers.push({ name, value });
+  };
+
+  addHeader('From', formatRecipient(message.from));
+  addHeader('To', formatRecipients(message.toRecipients));
+  addHeader('Cc', formatRecipients(message.ccRecipients));
+  addHeader('Bcc', formatRecipients(message.bccRecipients));
+  addHeader('Subject', message.subject);
+  addHeader(
+    'Date',
+    message.sentDateTime
+      ? new Date(message.sentDateTime).toUTCString()
+      : undefined,
+  );
+  addHeader('Message-ID', message.internetMessageId);
+
+  const isHtml = message.body?.contentType?.toLowerCase() === 'html';
+  const content = message.body?.content || '';
+  const bodyPart: gmail_v1.Schema$MessagePart = {
+    partId: '0',
+    mimeType: isHtml ? 'text/html' : 'text/plain',
+    filename: '',
+    headers: [],
+    body: {
+      size: Buffer.byteLength(content, 'utf-8'),
+      data: Buffer.from(content, 'utf-8').toString('base64url'),
+    },
+  };
+
+  const attachments = options.attachments || [];
+  const payload: gmail_v1.Schema$MessagePart =
+    attachments.length === 0
+      ? { ...bodyPart, partId: '', headers }
+      : {
+          partId: '',
+          mimeType: 'multipart/mixed',
+          filename: '',
+          headers,
+          body: { size: 0 },
+          parts: [
+            bodyPart,
+            ...attachments.map((attachment, index) => ({
+              partId: String(index + 1),
+              mimeType: attachment.contentType || 'application/octet-stream',
+              filename: attachment.name || 'attachment',
+              headers: [
+                {
+                  name: 'Content-Disposition',
+                  value: attachment.isInline ? 'inline' : 'attachment',
+                },
+              ],
+              body: { size: attachment.size || 0, attachmentId: attachment.id },
+            })),
+          ],
+        };
+
+  const receivedAt = message.receivedDateTime
+    ? new Date(message.receivedDateTime).getTime()
+    : NaN;
+
+  return {
+    id: options.id,
+    threadId: message.conversationId || null,
+    labelIds: options.labelIds,
+    snippet: (message.bodyPreview || '').replace(/\s+/g, ' ').trim(),
+    internalDate: isNaN(receivedAt) ? null : String(receivedAt),
+    payload,
+  };
+}
+
+/**
+ * Graph message update and target folder for Gmail-style flag changes
+ * Categories are computed from the current labels of the stored email
+ */
+export function buildGraphUpdate(
+  currentLabels: string[],
+  changes: MailFlagChanges,
+): { patch: Record<string, any>; folder: MailFolder | null } {
+  const add = new Set(changes.addLabelIds || []);
+  const remove = new Set(changes.removeLabelIds || []);
+  if (changes.markRead !== undefined) {
+    (changes.markRead ? remove : add).add('UNREAD');
+  }
+
+  const patch: Record<string, any> = {};
+  if (add.has('UNREAD')) patch.isRead = false;
+  if (remove.has('UNREAD')) patch.isRead = true;
+  if (add.has('STARRED')) patch.flag = { flagStatus: 'flagged' };
+  if (remove.has('STARRED')) patch.flag = { flagStatus: 'notFlagged' };
+  if (add.has('IMPORTANT')) patch.importance = 'high';
+  if (remove.has('IMPORTANT')) patch.importance = 'normal';
+
+  const isCategory = (label: string) => !SYSTEM_LABELS.includes(label);
+  if ([...add, ...remove].some(isCategory)) {
+    const categories = currentLabels.filter(
+      (label) => isCategory(label) && !remove.has(label),
+    );
+    add.forEach((label) => {
+      if (isCategory(label) && !categories.includes(label)) {
+        categories.push(label);
+      }
+    });
+    patch.categories = categories;
+  }
+
+  let folder: MailFolder | null = null;
+  if (add.has('TRASH')) folder = MailFolder.TRASH;
+  else if (add.has('SPAM')) folder = MailFolder.SPAM;
+  else if (add.has('INBOX')) folder = MailFolder.INBOX;
+  else if (remove.has('INBOX')) folder = MailFolder.ARCHIVE;
+
+  return { patch, folder };
+}
+
+function formatRecipient(recipient?: GraphRecipient | null): string {
+  const address = recipient?.emailAddress?.address || '';
+  const name = recipient?.emailAddress?.name || '';
+  if (!address) return name;
+  return name && name !== address ? `${name} <${address}>` : address;
+}
+
+function formatRecipients(recipients?: GraphRecipient[]): string {
+  return (recipients || [])
+    .map(formatRecipient)
+    .filter((value) => !!value)
+    .join(', ');
+}
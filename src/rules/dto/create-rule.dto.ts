@@ -0,0 +1,214 @@
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsIn,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { EmailPriority } from '../../ai/entities/email-summary.entity';
+
+/**
+ * Rule conditions (every field that is set is one condition)
+ */
+export class RuleConditionsDto {
+  @ApiProperty({
+    description: 'Require all conditions (default) or any of them',
+    enum: ['all', 'any'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['all', 'any'], { message: 'Match must be "all" or "any"' })
+  match?: 'all' | 'any';
+
+  @ApiProperty({
+    description: 'Sender address or name contains any of these',
+    example: ['billing@acme.com'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  from?: string[];
+
+  @ApiProperty({
+    description: 'Sender domain (subdomains included)',
+    example: ['acme.com'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  domains?: string[];
+
+  @ApiProperty({
+    description: 'Subject contains any of these keywords',
+    example: ['invoice', 'receipt'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  subjectKeywords?: string[];
+
+  @ApiProperty({
+    description: 'Body contains any of these keywords',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  bodyKeywords?: string[];
+
+  @ApiProperty({
+    description: 'Email has any of these Gmail label IDs',
+    example: ['CATEGORY_UPDATES'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  labels?: string[];
+
+  @ApiProperty({
+    description: 'Email has (true) or has no (false) attachments',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  hasAttachment?: boolean;
+
+  @ApiProperty({
+    description:
+      "AI category is any of these (evaluated after AI processing; see the user's aiCategories setting)",
+    example: ['finance'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categories?: string[];
+
+  @ApiProperty({
+    description: 'AI priority is any of these (evaluated after AI processing)',
+    example: ['high'],
+    enum: EmailPriority,
+    isArray: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(Object.values(EmailPriority), { each: true })
+  priorities?: string[];
+}
+
+/**
+ * Actions applied when a rule matches
+ */
+export class RuleActionsDto {
+  @ApiProperty({
+    description: 'Move the email to this Kanban column (statusId)',
+    example: 'todo',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  setStatus?: string;
+
+  @ApiProperty({
+    description: 'Gmail label IDs to apply',
+    example: ['Label_12'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  addLabelIds?: string[];
+
+  @ApiProperty({ description: 'Star the email', required: false })
+  @IsOptional()
+  @IsBoolean()
+  star?: boolean;
+
+  @ApiProperty({ description: 'Mark the email as read', required: false })
+  @IsOptional()
+  @IsBoolean()
+  markRead?: boolean;
+
+  @ApiProperty({
+    description: 'Snooze the email for this many minutes',
+    example: 1440,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60 * 24 * 365)
+  snoozeMinutes?: number;
+
+  @ApiProperty({
+    description: 'Archive the email (remove it from the inbox)',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  archive?: boolean;
+}
+
+/**
+ * DTO for creating a triage rule
+ */
+export class CreateRuleDto {
+  @ApiProperty({
+    description: 'Rule name',
+    example: 'Invoices to To Do',
+    maxLength: 100,
+  })
+  @IsNotEmpty({ message: 'Rule name is required' })
+  @IsString({ message: 'Rule name must be a string' })
+  @MaxLength(100, { message: 'Rule name must not exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({ type: RuleConditionsDto })
+  @IsNotEmpty({ message: 'Conditions are required' })
+  @ValidateNested()
+  @Type(() => RuleConditionsDto)
+  conditions: RuleConditionsDto;
+
+  @ApiProperty({ type: RuleActionsDto })
+  @IsNotEmpty({ message: 'Actions are required' })
+  @ValidateNested()
+  @Type(() => RuleActionsDto)
+  actions: RuleActionsDto;
+
+  @ApiProperty({
+    description: 'Whether the rule runs (default: true)',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiProperty({
+    description: 'Skip later rules once this one matched (default: false)',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  stopProcessing?: boolean;
+}
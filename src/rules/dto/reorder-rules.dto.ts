@@ -0,0 +1,17 @@
+import { ArrayNotEmpty, IsArray, IsInt } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for setting the evaluation order of rules
+ */
+export class ReorderRulesDto {
+  @ApiProperty({
+    description: 'All rule IDs of the user, in the order they should run',
+    example: [3, 1, 2],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  ruleIds: number[];
+}
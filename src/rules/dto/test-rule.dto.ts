@@ -0,0 +1,15 @@
+import { IsNotEmpty, ValidateNested } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { RuleConditionsDto } from './create-rule.dto';
+
+/**
+ * DTO for a dry run of conditions that are not saved yet
+ */
+export class TestRuleDto {
+  @ApiProperty({ type: RuleConditionsDto })
+  @IsNotEmpty({ message: 'Conditions are required' })
+  @ValidateNested()
+  @Type(() => RuleConditionsDto)
+  conditions: RuleConditionsDto;
+}
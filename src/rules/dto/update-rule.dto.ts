@@ -0,0 +1,7 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateRuleDto } from './create-rule.dto';
+
+/**
+ * DTO for updating a triage rule
+ */
+export class UpdateRuleDto extends PartialType(CreateRuleDto) {}
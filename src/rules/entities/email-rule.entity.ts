@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * User-defined triage rule
+ * Active rules run in order after new mail is stored and after AI processing
+ */
+@Entity('email_rules')
+@Index(['userId', 'order'])
+export class EmailRule {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'int', default: 0 })
+  order: number; // Evaluation order (lower runs first)
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ type: 'text' })
+  conditions: string; // RuleConditions (JSON object as string)
+
+  @Column({ type: 'text' })
+  actions: string; // RuleActions (JSON object as string)
+
+  @Column({ type: 'boolean', default: false })
+  stopProcessing: boolean; // Skip later rules once this one matched
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../auth/entities/user.entity';
+import { EmailRaw } from '../../gmail/entities/email-raw.entity';
+import { EmailRule } from './email-rule.entity';
+
+/**
+ * Outcome of a rule execution
+ */
+export enum RuleExecutionStatus {
+  APPLIED = 'applied',
+  PARTIAL = 'partial', // Some actions failed
+  FAILED = 'failed',
+}
+
+/**
+ * Audit trail entry: what a rule did to an email
+ * Kept (without the link) when the rule or email is deleted
+ */
+@Entity('rule_executions')
+@Index(['userId', 'createdAt'])
+@Index(['ruleId', 'emailId'])
+export class RuleExecution {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'int', nullable: true })
+  ruleId: number;
+
+  @ManyToOne(() => EmailRule, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'ruleId' })
+  rule: EmailRule;
+
+  @Column({ type: 'varchar', length: 100 })
+  ruleName: string; // Name at execution time
+
+  @Column({ type: 'int', nullable: true })
+  emailId: number;
+
+  @ManyToOne(() => EmailRaw, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'emailId' })
+  email: EmailRaw;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  emailSubject: string; // Subject at execution time
+
+  @Column({ type: 'varchar', length: 30 })
+  trigger: string; // email.stored or summary.ready
+
+  @Column({ type: 'varchar', length: 20 })
+  status: string; // applied, partial, failed
+
+  @Column({ type: 'text', nullable: true })
+  matchedConditions: string; // JSON array as string
+
+  @Column({ type: 'text', nullable: true })
+  actions: string; // Actions that succeeded (JSON array as string)
+
+  @Column({ type: 'text', nullable: true })
+  error: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
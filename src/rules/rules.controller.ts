@@ -0,0 +1,332 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { RulesService } from './rules.service';
+import { CreateRuleDto } from './dto/create-rule.dto';
+import { UpdateRuleDto } from './dto/update-rule.dto';
+import { ReorderRulesDto } from './dto/reorder-rules.dto';
+import { TestRuleDto } from './dto/test-rule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TBaseDTO } from '../common/dto/base.dto';
+import { GGJParseIntPipe } from '../common/pipes/parse-int.pipe';
+
+/**
+ * Controller for triage rules
+ */
+@ApiTags('Rules')
+@Controller('rules')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+export class RulesController {
+  constructor(private readonly rulesService: RulesService) {}
+
+  /**
+   * List rules in evaluation order
+   */
+  @Get()
+  @ApiOperation({ summary: 'List triage rules in evaluation order' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rules retrieved successfully',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listRules(@Request() req: any): Promise<TBaseDTO<any[]>> {
+    try {
+      const rules = await this.rulesService.listRules(req.user.userId);
+      return new TBaseDTO<any[]>(rules);
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to list rules',
+      );
+    }
+  }
+
+  /**
+   * Create a rule
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create a triage rule',
+    description:
+      'Rules run on newly stored mail and again once its AI summary is ready. ' +
+      'Category/priority conditions are only evaluated after AI processing.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Rule created successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createRule(
+    @Request() req: any,
+    @Body() createRuleDto: CreateRuleDto,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const rule = await this.rulesService.createRule(
+        req.user.userId,
+        createRuleDto,
+      );
+      return new TBaseDTO<any>(rule, 'Rule created successfully');
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to create rule',
+      );
+    }
+  }
+
+  /**
+   * Set the evaluation order
+   */
+  @Put('order')
+  @ApiOperation({ summary: 'Set the evaluation order of all rules' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rules reordered successfully',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async reorderRules(
+    @Request() req: any,
+    @Body() reorderRulesDto: ReorderRulesDto,
+  ): Promise<TBaseDTO<any[]>> {
+    try {
+      const rules = await this.rulesService.reorderRules(
+        req.user.userId,
+        reorderRulesDto.ruleIds,
+      );
+      return new TBaseDTO<any[]>(rules);
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to reorder rules',
+      );
+    }
+  }
+
+  /**
+   * Dry run of unsaved conditions against the latest 100 emails
+   */
+  @Post('test')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Test conditions against the latest 100 emails',
+    description: 'Dry run: nothing is changed.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching emails',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async testRule(
+    @Request() req: any,
+    @Body() testRuleDto: TestRuleDto,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const result = await this.rulesService.testRule(
+        req.user.userId,
+        testRuleDto.conditions,
+      );
+      return new TBaseDTO<any>(result);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to test rule',
+      );
+    }
+  }
+
+  /**
+   * Audit trail of what rules did
+   */
+  @Get('audit')
+  @ApiOperation({ summary: 'Audit trail of rule executions, newest first' })
+  @ApiQuery({ name: 'ruleId', required: false, type: Number })
+  @ApiQuery({ name: 'emailId', required: false, type: Number })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Entries to return (default: 50, max: 200)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Audit entries retrieved successfully',
+    type: TBaseDTO<any[]>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getAuditTrail(
+    @Request() req: any,
+    @Query('ruleId') ruleId?: string,
+    @Query('emailId') emailId?: string,
+    @Query('limit') limit?: string,
+  ): Promise<TBaseDTO<any[]>> {
+    try {
+      const executions = await this.rulesService.getExecutions(
+        req.user.userId,
+        {
+          ruleId: ruleId ? parseInt(ruleId, 10) : undefined,
+          emailId: emailId ? parseInt(emailId, 10) : undefined,
+          limit: limit ? parseInt(limit, 10) : undefined,
+        },
+      );
+      return new TBaseDTO<any[]>(executions);
+    } catch (error: any) {
+      return new TBaseDTO<any[]>(
+        undefined,
+        undefined,
+        error.message || 'Failed to get audit trail',
+      );
+    }
+  }
+
+  /**
+   * Get a rule
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a triage rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule retrieved successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getRule(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) ruleId: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const rule = await this.rulesService.getRule(req.user.userId, ruleId);
+      return new TBaseDTO<any>(rule);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to get rule',
+      );
+    }
+  }
+
+  /**
+   * Update a rule
+   */
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a triage rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule updated successfully',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateRule(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) ruleId: number,
+    @Body() updateRuleDto: UpdateRuleDto,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const rule = await this.rulesService.updateRule(
+        req.user.userId,
+        ruleId,
+        updateRuleDto,
+      );
+      return new TBaseDTO<any>(rule, 'Rule updated successfully');
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to update rule',
+      );
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a triage rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule deleted successfully',
+    type: TBaseDTO<void>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async deleteRule(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) ruleId: number,
+  ): Promise<TBaseDTO<void>> {
+    try {
+      await this.rulesService.deleteRule(req.user.userId, ruleId);
+      return new TBaseDTO<void>(undefined, 'Rule deleted successfully');
+    } catch (error: any) {
+      return new TBaseDTO<void>(
+        undefined,
+        undefined,
+        error.message || 'Failed to delete rule',
+      );
+    }
+  }
+
+  /**
+   * Dry run of a saved rule against the latest 100 emails
+   */
+  @Post(':id/test')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Test a saved rule against the latest 100 emails',
+    description: 'Dry run: nothing is changed.',
+  })
+  @ApiParam({ name: 'id', description: 'Rule ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching emails',
+    type: TBaseDTO<any>,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async testSavedRule(
+    @Request() req: any,
+    @Param('id', GGJParseIntPipe) ruleId: number,
+  ): Promise<TBaseDTO<any>> {
+    try {
+      const result = await this.rulesService.testSavedRule(
+        req.user.userId,
+        ruleId,
+      );
+      return new TBaseDTO<any>(result);
+    } catch (error: any) {
+      return new TBaseDTO<any>(
+        undefined,
+        undefined,
+        error.message || 'Failed to test rule',
+      );
+    }
+  }
+}
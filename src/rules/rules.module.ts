@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RulesService } from './rules.service';
+import { RulesController } from './rules.controller';
+import { EmailRule } from './entities/email-rule.entity';
+import { RuleExecution } from './entities/rule-execution.entity';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { EmailSummary } from '../ai/entities/email-summary.entity';
+import { GmailModule } from '../gmail/gmail.module';
+import { EventsModule } from '../events/events.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      EmailRule,
+      RuleExecution,
+      EmailRaw,
+      EmailSummary,
+    ]),
+    GmailModule,
+    EventsModule,
+  ],
+  controllers: [RulesController],
+  providers: [RulesService],
+})
+export class RulesModule {}
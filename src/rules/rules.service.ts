@@ -0,0 +1,556 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import { Subscription, concatMap, from } from 'rxjs';
+import { EmailRule } from './entities/email-rule.entity';
+import {
+  RuleExecution,
+  RuleExecutionStatus,
+} from './entities/rule-execution.entity';
+import {
+  RuleActions,
+  RuleCandidate,
+  RuleConditions,
+  countConditions,
+  matchRule,
+  usesAiConditions,
+} from './utils/rule-matcher.util';
+import { EmailRaw } from '../gmail/entities/email-raw.entity';
+import { EmailSummary } from '../ai/entities/email-summary.entity';
+import { GmailService } from '../gmail/gmail.service';
+import { KanbanStatus } from '../gmail/dto/update-email-status.dto';
+import { listPayloadAttachments } from '../gmail/utils/mime.util';
+import {
+  MailboxEvent,
+  MailboxEventsService,
+  MailboxEventType,
+} from '../events/mailbox-events.service';
+
+/**
+ * Service for user-defined triage rules
+ * Rules run when new mail is stored and again when its AI summary is ready,
+ * rules with category/priority conditions only match once the summary exists
+ */
+@Injectable()
+export class RulesService implements OnModuleInit, OnModuleDestroy {
+  private readonly TEST_SAMPLE_SIZE = 100; // Emails checked by a dry run
+  private readonly MAX_AUDIT_ENTRIES = 200;
+  private subscription: Subscription | null = null;
+
+  constructor(
+    @InjectRepository(EmailRule)
+    private readonly ruleRepository: Repository<EmailRule>,
+    @InjectRepository(RuleExecution)
+    private readonly executionRepository: Repository<RuleExecution>,
+    @InjectRepository(EmailRaw)
+    private readonly emailRawRepository: Repository<EmailRaw>,
+    @InjectRepository(EmailSummary)
+    private readonly emailSummaryRepository: Repository<EmailSummary>,
+    private readonly gmailService: GmailService,
+    private readonly mailboxEventsService: MailboxEventsService,
+  ) {}
+
+  /**
+   * Run rules for stored and summarized emails, one event at a time
+   * so the two triggers for the same email never overlap
+   */
+  onModuleInit(): void {
+    this.subscription = this.mailboxEventsService
+      .ofType(MailboxEventType.EMAIL_STORED, MailboxEventType.SUMMARY_READY)
+      .pipe(
+        concatMap(({ userId, event }) => from(this.handleEvent(userId, event))),
+      )
+      .subscribe();
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * List rules in evaluation order
+   */
+  async listRules(userId: number): Promise<any[]> {
+    const rules = await this.ruleRepository.find({
+      where: { userId },
+      order: { order: 'ASC', id: 'ASC' },
+    });
+
+    return rules.map((rule) => this.formatRule(rule));
+  }
+
+  async getRule(userId: number, ruleId: number): Promise<any> {
+    return this.formatRule(await this.findRule(userId, ruleId));
+  }
+
+  /**
+   * Create a rule (appended after the existing ones)
+   */
+  async createRule(
+    userId: number,
+    input: {
+      name: string;
+      conditions: RuleConditions;
+      actions: RuleActions;
+      isActive?: boolean;
+      stopProcessing?: boolean;
+    },
+  ): Promise<any> {
+    this.validateRule(input.conditions, input.actions);
+
+    const last = await this.ruleRepository.findOne({
+      where: { userId },
+      order: { order: 'DESC' },
+    });
+
+    const rule = await this.ruleRepository.save(
+      this.ruleRepository.create({
+        userId,
+        name: input.name,
+        order: last ? last.order + 1 : 0,
+        isActive: input.isActive ?? true,
+        conditions: JSON.stringify(input.conditions),
+        actions: JSON.stringify(input.actions),
+        stopProcessing: input.stopProcessing ?? false,
+      }),
+    );
+
+    return this.formatRule(rule);
+  }
+
+  async updateRule(
+    userId: number,
+    ruleId: number,
+    updates: {
+      name?: string;
+      conditions?: RuleConditions;
+      actions?: RuleActions;
+      isActive?: boolean;
+      stopProcessing?: boolean;
+    },
+  ): Promise<any> {
+    const rule = await this.findRule(userId, ruleId);
+
+    const conditions = updates.conditions ?? JSON.parse(rule.conditions);
+    const actions = updates.actions ?? JSON.parse(rule.actions);
+    this.validateRule(conditions, actions);
+
+    if (updates.name !== undefined) rule.name = updates.name;
+    if (updates.isActive !== undefined) rule.isActive = updates.isActive;
+    if (updates.stopProcessing !== undefined) {
+      rule.stopProcessing = updates.stopProcessing;
+    }
+    rule.conditions = JSON.stringify(conditions);
+    rule.actions = JSON.stringify(actions);
+
+    return this.formatRule(await this.ruleRepository.save(rule));
+  }
+
+  /**
+   * Delete a rule (its audit entries are kept)
+   */
+  async deleteRule(userId: number, ruleId: number): Promise<void> {
+    const rule = await this.findRule(userId, ruleId);
+    await this.ruleRepository.remove(rule);
+  }
+
+  /**
+   * Set the evaluation order; ruleIds must list every rule of the user once
+   */
+  async reorderRules(userId: number, ruleIds: number[]): Promise<any[]> {
+    const rules = await this.ruleRepository.find({ where: { userId } });
+
+    const unique = new Set(ruleIds);
+    if (
+      unique.size !== ruleIds.length ||
+      unique.size !== rules.length ||
+      rules.some((rule) => !unique.has(rule.id))
+    ) {
+      throw new Error('ruleIds must contain every rule exactly once');
+    }
+
+    rules.forEach((rule) => {
+      rule.order = ruleIds.indexOf(rule.id);
+    });
+    await this.ruleRepository.save(rules);
+
+    return this.listRules(userId);
+  }
+
+  /**
+   * Dry run: which of the latest emails would the conditions match
+   * Nothing is changed and nothing is written to the audit trail
+   */
+  async testRule(userId: number, conditions: RuleConditions): Promise<any> {
+    if (countConditions(conditions) === 0) {
+      throw new Error('A rule needs at least one condition');
+    }
+
+    const emails = await this.emailRawRepository.find({
+      where: { userId },
+      order: { receivedAt: 'DESC' },
+      take: this.TEST_SAMPLE_SIZE,
+    });
+    const summaries = await this.loadSummaries(emails.map((e) => e.id));
+    const needsAi = usesAiConditions(conditions);
+
+    const matches: any[] = [];
+    let awaitingAi = 0;
+    for (const email of emails) {
+      const summary = summaries.get(email.id);
+      if (needsAi && !summary) {
+        awaitingAi++;
+        continue;
+      }
+
+      const result = matchRule(conditions, this.toCandidate(email, summary));
+      if (result.matched) {
+        matches.push({
+          emailId: email.id,
+          subject: email.subject,
+          from: email.from,
+          fromName: email.fromName,
+          receivedAt: email.receivedAt,
+          status: email.status,
+          matchedConditions: result.matchedConditions,
+        });
+      }
+    }
+
+    return {
+      scanned: emails.length,
+      matchCount: matches.length,
+      awaitingAi, // Emails without an AI summary yet (not evaluated)
+      matches,
+    };
+  }
+
+  /**
+   * Dry run of a saved rule
+   */
+  async testSavedRule(userId: number, ruleId: number): Promise<any> {
+    const rule = await this.findRule(userId, ruleId);
+    return this.testRule(userId, JSON.parse(rule.conditions));
+  }
+
+  /**
+   * Audit trail of rule executions, newest first
+   */
+  async getExecutions(
+    userId: number,
+    filters: { ruleId?: number; emailId?: number; limit?: number } = {},
+  ): Promise<any[]> {
+    const where: any = { userId };
+    if (filters.ruleId) where.ruleId = filters.ruleId;
+    if (filters.emailId) where.emailId = filters.emailId;
+
+    const executions = await this.executionRepository.find({
+      where,
+      order: { createdAt: 'DESC', id: 'DESC' },
+      take: Math.min(filters.limit || 50, this.MAX_AUDIT_ENTRIES),
+    });
+
+    return executions.map((execution) => ({
+      id: execution.id,
+      ruleId: execution.ruleId,
+      ruleName: execution.ruleName,
+      emailId: execution.emailId,
+      emailSubject: execution.emailSubject,
+      trigger: execution.trigger,
+      status: execution.status,
+      matchedConditions: execution.matchedConditions
+        ? JSON.parse(execution.matchedConditions)
+        : [],
+      actions: execution.actions ? JSON.parse(execution.actions) : [],
+      error: execution.error,
+      createdAt: execution.createdAt,
+    }));
+  }
+
+  private async handleEvent(
+    userId: number,
+    event: MailboxEvent,
+  ): Promise<void> {
+    const emailIds: number[] =
+      event.type === MailboxEventType.EMAIL_STORED
+        ? event.data?.emailIds || []
+        : [event.data?.emailId].filter(Boolean);
+
+    try {
+      await this.runRules(userId, emailIds, event.type);
+    } catch (error: any) {
+      console.error(
+        `Rules Service: Failed to run rules for user ${userId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Evaluate the user's active rules against emails and apply the matches
+   * A rule is applied at most once per email
+   */
+  private async runRules(
+    userId: number,
+    emailIds: number[],
+    trigger: string,
+  ): Promise<void> {
+    if (emailIds.length === 0) {
+      return;
+    }
+
+    const rules = await this.ruleRepository.find({
+      where: { userId, isActive: true },
+      order: { order: 'ASC', id: 'ASC' },
+    });
+    if (rules.length === 0) {
+      return;
+    }
+
+    const emails = await this.emailRawRepository.find({
+      where: { id: In(emailIds), userId },
+    });
+    const summaries = await this.loadSummaries(emails.map((e) => e.id));
+
+    const previous = await this.executionRepository.find({
+      select: ['ruleId', 'emailId'],
+      where: {
+        emailId: In(emails.map((e) => e.id)),
+        ruleId: In(rules.map((r) => r.id)),
+        status: Not(RuleExecutionStatus.FAILED),
+      },
+    });
+    const applied = new Set(previous.map((e) => `${e.ruleId}:${e.emailId}`));
+
+    for (const email of emails) {
+      const summary = summaries.get(email.id);
+      const candidate = this.toCandidate(email, summary);
+
+      for (const rule of rules) {
+        // Rules apply to mail stored after they were created, not to history
+        if (email.createdAt < rule.createdAt) {
+          continue;
+        }
+
+        if (applied.has(`${rule.id}:${email.id}`)) {
+          if (rule.stopProcessing) break;
+          continue;
+        }
+
+        const conditions: RuleConditions = JSON.parse(rule.conditions);
+        if (usesAiConditions(conditions) && !summary) {
+          continue; // Evaluated again once the summary is ready
+        }
+
+        const result = matchRule(conditions, candidate);
+        if (!result.matched) {
+          continue;
+        }
+
+        await this.executeRule(rule, email, result.matchedConditions, trigger);
+        if (rule.stopProcessing) break;
+      }
+    }
+  }
+
+  /**
+   * Apply a matched rule and record it in the audit trail
+   */
+  private async executeRule(
+    rule: EmailRule,
+    email: EmailRaw,
+    matchedConditions: string[],
+    trigger: string,
+  ): Promise<void> {
+    const { applied, errors } = await this.applyActions(
+      email.userId,
+      email.id,
+      JSON.parse(rule.actions),
+    );
+
+    const status =
+      errors.length === 0
+        ? RuleExecutionStatus.APPLIED
+        : applied.length > 0
+          ? RuleExecutionStatus.PARTIAL
+          : RuleExecutionStatus.FAILED;
+
+    await this.executionRepository.save(
+      this.executionRepository.create({
+        userId: email.userId,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        emailId: email.id,
+        emailSubject: email.subject ? email.subject.substring(0, 255) : null,
+        trigger,
+        status,
+        matchedConditions: JSON.stringify(matchedConditions),
+        actions: JSON.stringify(applied),
+        error: errors.length > 0 ? errors.join('; ') : null,
+      }),
+    );
+  }
+
+  /**
+   * Run a rule's actions through GmailService
+   * Each action is attempted even if an earlier one failed
+   */
+  private async applyActions(
+    userId: number,
+    emailId: number,
+    actions: RuleActions,
+  ): Promise<{ applied: string[]; errors: string[] }> {
+    const applied: string[] = [];
+    const errors: string[] = [];
+    const record = (
+      names: string[],
+      result: { success: boolean; error?: string },
+    ) => {
+      if (result.success) {
+        applied.push(...names);
+      } else {
+        errors.push(`${names.join(', ')}: ${result.error || 'failed'}`);
+      }
+    };
+
+    if (actions.setStatus) {
+      record(
+        ['setStatus'],
+        await this.gmailService.updateEmailStatus(
+          userId,
+          emailId,
+          actions.setStatus,
+        ),
+      );
+    }
+
+    const addLabelIds = [...(actions.addLabelIds || [])];
+    if (actions.star) addLabelIds.push('STARRED');
+    if (addLabelIds.length > 0 || actions.markRead) {
+      record(
+        ['addLabelIds', 'star', 'markRead'].filter(
+          (name) => actions[name as keyof RuleActions],
+        ),
+        await this.gmailService.modifyEmail(userId, emailId, {
+          markRead: actions.markRead ? true : undefined,
+          addLabelIds: addLabelIds.length > 0 ? addLabelIds : undefined,
+        }),
+      );
+    }
+
+    if (actions.archive) {
+      const result = await this.gmailService.modifyEmail(userId, emailId, {
+        removeLabelIds: ['INBOX'],
+      });
+      record(
+        ['archive'],
+        result.success
+          ? await this.gmailService.updateEmailStatus(
+              userId,
+              emailId,
+              KanbanStatus.ARCHIVED,
+            )
+          : result,
+      );
+    }
+
+    if (actions.snoozeMinutes) {
+      record(
+        ['snooze'],
+        await this.gmailService.snoozeEmail(
+          userId,
+          emailId,
+          new Date(Date.now() + actions.snoozeMinutes * 60 * 1000),
+        ),
+      );
+    }
+
+    return { applied, errors };
+  }
+
+  private validateRule(conditions: RuleConditions, actions: RuleActions): void {
+    if (countConditions(conditions) === 0) {
+      throw new Error('A rule needs at least one condition');
+    }
+
+    const hasAction =
+      !!actions.setStatus ||
+      (actions.addLabelIds?.length ?? 0) > 0 ||
+      !!actions.star ||
+      !!actions.markRead ||
+      !!actions.snoozeMinutes ||
+      !!actions.archive;
+    if (!hasAction) {
+      throw new Error('A rule needs at least one action');
+    }
+
+    // Each of these moves the email to a different column
+    const moves = [
+      actions.setStatus,
+      actions.archive,
+      actions.snoozeMinutes,
+    ].filter(Boolean);
+    if (moves.length > 1) {
+      throw new Error('Use only one of setStatus, archive and snoozeMinutes');
+    }
+  }
+
+  /**
+   * Latest summary per email
+   */
+  private async loadSummaries(
+    emailIds: number[],
+  ): Promise<Map<number, EmailSummary>> {
+    if (emailIds.length === 0) {
+      return new Map();
+    }
+
+    const summaries = await this.emailSummaryRepository.find({
+      where: { emailRawId: In(emailIds) },
+      order: { id: 'ASC' },
+    });
+
+    return new Map(summaries.map((s) => [s.emailRawId, s]));
+  }
+
+  private toCandidate(email: EmailRaw, summary?: EmailSummary): RuleCandidate {
+    const payload = email.rawData ? JSON.parse(email.rawData).payload : null;
+
+    return {
+      from: email.from,
+      fromName: email.fromName,
+      subject: email.subject,
+      body: email.bodyText || email.snippet,
+      labels: email.labels ? JSON.parse(email.labels) : [],
+      hasAttachment: listPayloadAttachments(payload ?? undefined).length > 0,
+      category: summary?.category || null,
+      priority: summary?.priority || null,
+    };
+  }
+
+  private async findRule(userId: number, ruleId: number): Promise<EmailRule> {
+    const rule = await this.ruleRepository.findOne({
+      where: { id: ruleId, userId },
+    });
+
+    if (!rule) {
+      throw new Error('Rule not found');
+    }
+
+    return rule;
+  }
+
+  private formatRule(rule: EmailRule): any {
+    return {
+      id: rule.id,
+      name: rule.name,
+      order: rule.order,
+      isActive: rule.isActive,
+      stopProcessing: rule.stopProcessing,
+      conditions: JSON.parse(rule.conditions),
+      actions: JSON.parse(rule.actions),
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  RuleCandidate,
+  countConditions,
+  matchRule,
+  usesAiConditions,
+} from './rule-matcher.util';
+
+const candidate = (overrides: Partial<RuleCandidate> = {}): RuleCandidate => ({
+  from: 'billing@mail.acme.com',
+  fromName: 'Acme Billing',
+  subject: 'Your invoice for March',
+  body: 'Please find the invoice attached.',
+  labels: ['INBOX', 'UNREAD'],
+  hasAttachment: true,
+  category: 'finance',
+  priority: 'medium',
+  ...overrides,
+});
+
+describe('matchRule', () => {
+  it('should never match a rule without conditions', () => {
+    expect(matchRule({}, candidate()).matched).toBe(false);
+    expect(matchRule({ match: 'any' }, candidate()).matched).toBe(false);
+  });
+
+  it('should require every condition by default', () => {
+    const result = matchRule(
+      { domains: ['acme.com'], subjectKeywords: ['INVOICE'] },
+      candidate(),
+    );
+    expect(result).toEqual({
+      matched: true,
+      matchedConditions: ['domains', 'subjectKeywords'],
+    });
+
+    expect(
+      matchRule(
+        { domains: ['acme.com'], subjectKeywords: ['receipt'] },
+        candidate(),
+      ).matched,
+    ).toBe(false);
+  });
+
+  it('should accept a single condition with match "any"', () => {
+    const result = matchRule(
+      { match: 'any', from: ['newsletter'], bodyKeywords: ['invoice'] },
+      candidate(),
+    );
+    expect(result).toEqual({
+      matched: true,
+      matchedConditions: ['bodyKeywords'],
+    });
+  });
+
+  it('should match domains including subdomains only', () => {
+    expect(matchRule({ domains: ['@acme.com'] }, candidate()).matched).toBe(
+      true,
+    );
+    expect(
+      matchRule({ domains: ['acme.com'] }, candidate({ from: 'a@notacme.com' }))
+        .matched,
+    ).toBe(false);
+  });
+
+  it('should match sender address or name', () => {
+    expect(matchRule({ from: ['acme billing'] }, candidate()).matched).toBe(
+      true,
+    );
+    expect(matchRule({ from: ['someone@else.com'] }, candidate()).matched).toBe(
+      false,
+    );
+  });
+
+  it('should compare labels, attachments and AI fields', () => {
+    expect(
+      matchRule(
+        {
+          labels: ['unread'],
+          hasAttachment: true,
+          categories: ['Finance'],
+          priorities: ['medium', 'high'],
+        },
+        candidate(),
+      ).matched,
+    ).toBe(true);
+
+    expect(matchRule({ hasAttachment: false }, candidate()).matched).toBe(
+      false,
+    );
+    expect(
+      matchRule({ categories: ['finance'] }, candidate({ category: null }))
+        .matched,
+    ).toBe(false);
+  });
+});
+
+describe('usesAiConditions', () => {
+  it('should detect category and priority conditions', () => {
+    expect(usesAiConditions({ from: ['a@b.com'] })).toBe(false);
+    expect(usesAiConditions({ priorities: ['high'] })).toBe(true);
+    expect(usesAiConditions({ categories: [] })).toBe(false);
+  });
+});
+
+describe('countConditions', () => {
+  it('should count only conditions that are set', () => {
+    expect(
+      countConditions({
+        match: 'any',
+        from: [],
+        subjectKeywords: ['x'],
+        hasAttachment: false,
+      }),
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Conditions of a triage rule
+ * Every field that is set is one condition, a field matches when any of its values does
+ */
+export interface RuleConditions {
+  match?: 'all' | 'any'; // How conditions combine (default: all)
+  from?: string[]; // Sender address or part of it
+  domains?: string[]; // Sender domain, subdomains included
+  subjectKeywords?: string[];
+  bodyKeywords?: string[];
+  labels?: string[]; // Gmail label IDs
+  hasAttachment?: boolean;
+  categories?: string[]; // AI category from EmailSummary
+  priorities?: string[]; // AI priority from EmailSummary
+}
+
+/**
+ * Actions applied when a rule matches
+ */
+export interface RuleActions {
+  setStatus?: string; // Kanban column statusId
+  addLabelIds?: string[];
+  star?: boolean;
+  markRead?: boolean;
+  snoozeMinutes?: number;
+  archive?: boolean;
+}
+
+/**
+ * The parts of an email a rule looks at
+ */
+export interface RuleCandidate {
+  from: string | null;
+  fromName?: string | null;
+  subject: string | null;
+  body: string | null;
+  labels: string[];
+  hasAttachment: boolean;
+  category: string | null; // null until AI processing finished
+  priority: string | null;
+}
+
+export interface RuleMatchResult {
+  matched: boolean;
+  matchedConditions: string[]; // Names of the conditions that held
+}
+
+const AI_CONDITIONS: Array<keyof RuleConditions> = ['categories', 'priorities'];
+
+/**
+ * Whether a rule can only be evaluated once the AI summary exists
+ */
+export function usesAiConditions(conditions: RuleConditions): boolean {
+  return AI_CONDITIONS.some((key) => hasValue(conditions[key]));
+}
+
+/**
+ * Number of conditions that are set
+ */
+export function countConditions(conditions: RuleConditions): number {
+  return Object.keys(conditions).filter(
+    (key) => key !== 'match' && hasValue(conditions[key]),
+  ).length;
+}
+
+/**
+ * Evaluate a rule's conditions against an email
+ * A rule without conditions never matches
+ */
+export function matchRule(
+  conditions: RuleConditions,
+  candidate: RuleCandidate,
+): RuleMatchResult {
+  const checks: Array<[string, () => boolean]> = [];
+  const address = (candidate.from || '').toLowerCase();
+
+  if (hasValue(conditions.from)) {
+    checks.push([
+      'from',
+      () =>
+        conditions.from.some((value) => {
+          const needle = value.toLowerCase();
+          return (
+            address.includes(needle) ||
+            (candidate.fromName || '').toLowerCase().includes(needle)
+          );
+        }),
+    ]);
+  }
+
+  if (hasValue(conditions.domains)) {
+    const domain = address.split('@')[1] || '';
+    checks.push([
+      'domains',
+      () =>
+        conditions.domains.some((value) => {
+          const wanted = value.toLowerCase().replace(/^@/, '');
+          return domain === wanted || domain.endsWith(`.${wanted}`);
+        }),
+    ]);
+  }
+
+  if (hasValue(conditions.subjectKeywords)) {
+    checks.push([
+      'subjectKeywords',
+      () => containsAny(candidate.subject, conditions.subjectKeywords),
+    ]);
+  }
+
+  if (hasValue(conditions.bodyKeywords)) {
+    checks.push([
+      'bodyKeywords',
+      () => containsAny(candidate.body, conditions.bodyKeywords),
+    ]);
+  }
+
+  if (hasValue(conditions.labels)) {
+    const labels = candidate.labels.map((label) => label.toUpperCase());
+    checks.push([
+      'labels',
+      () =>
+        conditions.labels.some((label) => labels.includes(label.toUpperCase())),
+    ]);
+  }
+
+  if (conditions.hasAttachment !== undefined) {
+    checks.push([
+      'hasAttachment',
+      () => candidate.hasAttachment === conditions.hasAttachment,
+    ]);
+  }
+
+  if (hasValue(conditions.categories)) {
+    checks.push([
+      'categories',
+      () => equalsAny(candidate.category, conditions.categories),
+    ]);
+  }
+
+  if (hasValue(conditions.priorities)) {
+    checks.push([
+      'priorities',
+      () => equalsAny(candidate.priority, conditions.priorities),
+    ]);
+  }
+
+  const matchedConditions = checks
+    .filter(([, check]) => check())
+    .map(([name]) => name);
+
+  const matched =
+    checks.length > 0 &&
+    (conditions.match === 'any'
+      ? matchedConditions.length > 0
+      : matchedConditions.length === checks.length);
+
+  return { matched, matchedConditions };
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value !== null;
+}
+
+function containsAny(text: string | null, keywords: string[]): boolean {
+  const haystack = (text || '').toLowerCase();
+  return keywords.some((keyword) => haystack.includes(keyword.toLowerCase()));
+}
+
+function equalsAny(value: string | null, options: string[]): boolean {
+  if (!value) {
+    return false;
+  }
+  const normalized = value.toLowerCase();
+  return options.some((option) => option.toLowerCase() === normalized);
+}
@@ -0,0 +1,111 @@
+/**
+ * Re-encrypt stored credentials with the active master key
+ * Rows encrypted with an older key get their data key rewrapped (the values
+ * stay as they are); rows still stored in plaintext are encrypted
+ *
+ * Usage: npm run tokens:rotate-keys [-- --dry-run]
+ * Reads TOKEN_ENCRYPTION_KEYS (old and new keys), TOKEN_ENCRYPTION_ACTIVE_KEY
+ * and the DB_* settings from the environment
+ */
+import { DataSource } from 'typeorm';
+import { TokenEncryptionService } from '../common/crypto/token-encryption.service';
+
+/**
+ * Tables with encrypted credentials and their secret columns
+ */
+const ENCRYPTED_TABLES = [
+  { table: 'gmail_tokens', columns: ['refreshToken', 'accessToken'] },
+  { table: 'imap_accounts', columns: ['password'] },
+  { table: 'outlook_accounts', columns: ['accessToken', 'refreshToken'] },
+  { table: 'user_two_factor', columns: ['secret', 'pendingSecret'] },
+];
+
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+  const encryption = new TokenEncryptionService();
+  const activeKeyId = encryption.activeKeyId;
+  if (!activeKeyId) {
+    console.error('TOKEN_ENCRYPTION_KEYS is not set');
+    process.exit(1);
+  }
+
+  const dataSource = new DataSource({
+    type: 'postgres',
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5433', 10),
+    username: process.env.DB_USERNAME || 'postgres',
+    password: process.env.DB_PASSWORD || 'postgres',
+    database: process.env.DB_NAME || 'email_auth_db',
+  });
+  await dataSource.initialize();
+
+  let failures = 0;
+  try {
+    for (const { table, columns } of ENCRYPTED_TABLES) {
+      const selected = columns.map((column) => `"${column}"`).join(', ');
+      const rows: any[] = await dataSource.query(
+        `SELECT id, "encryptionKeyId", "encryptedDataKey", ${selected}
+         FROM ${table} WHERE "encryptionKeyId" IS DISTINCT FROM $1`,
+        [activeKeyId],
+      );
+
+      let rewrapped = 0;
+      let encrypted = 0;
+      for (const row of rows) {
+        try {
+          let updates: Record<string, string | null>;
+          if (row.encryptionKeyId) {
+            updates = { ...encryption.rewrap(row) };
+            rewrapped++;
+          } else {
+            updates = encryption.encrypt(
+              null,
+              Object.fromEntries(
+                columns.map((column) => [column, row[column]]),
+              ),
+            );
+            encrypted++;
+          }
+          if (dryRun) continue;
+
+          // Skip rows the app re-encrypted in the meantime
+          const fields = Object.keys(updates);
+          const assignments = fields
+            .map((field, index) => `"${field}" = $${index + 1}`)
+            .join(', ');
+          await dataSource.query(
+            `UPDATE ${table} SET ${assignments}
+             WHERE id = $${fields.length + 1}
+             AND "encryptionKeyId" IS NOT DISTINCT FROM $${fields.length + 2}`,
+            [
+              ...fields.map((field) => updates[field]),
+              row.id,
+              row.encryptionKeyId,
+            ],
+          );
+        } catch (error: any) {
+          failures++;
+          console.error(`${table} #${row.id}: ${error.message}`);
+        }
+      }
+
+      console.log(
+        `${table}: ${rewrapped} rewrapped, ${encrypted} encrypted${
+          dryRun ? ' (dry run)' : ''
+        }`,
+      );
+    }
+  } finally {
+    await dataSource.destroy();
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} rows failed`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to rotate token keys:', error);
+  process.exit(1);
+});
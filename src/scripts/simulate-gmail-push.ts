@@ -0,0 +1,40 @@
+/**
+ * Local stand-in for Cloud Pub/Sub push delivery
+ * Posts a Gmail notification to the webhook exactly as Pub/Sub would
+ *
+ * Usage: npm run gmail:simulate-push -- <emailAddress> <historyId>
+ * Reads BACKEND_URL and GMAIL_PUBSUB_VERIFICATION_TOKEN from the environment
+ */
+import { buildPubSubPushPayload } from '../gmail/utils/pubsub.util';
+
+async function main(): Promise<void> {
+  const [emailAddress, historyId] = process.argv.slice(2);
+  if (!emailAddress || !historyId) {
+    console.error(
+      'Usage: npm run gmail:simulate-push -- <emailAddress> <historyId>',
+    );
+    process.exit(1);
+  }
+
+  const backendUrl = process.env.BACKEND_URL || 'http://localhost:3000';
+  const token = process.env.GMAIL_PUBSUB_VERIFICATION_TOKEN || '';
+  const url = `${backendUrl}/gmail/webhook/pubsub?token=${encodeURIComponent(token)}`;
+
+  const payload = buildPubSubPushPayload({ emailAddress, historyId });
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  console.log(`Webhook responded with ${response.status}`);
+  if (!response.ok) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to simulate push:', error);
+  process.exit(1);
+});